@@ -0,0 +1,142 @@
+/**
+ * Cron expressions — parses standard 5-field expressions
+ * (minute hour day-of-month month day-of-week) and finds the next
+ * matching time in a given time zone.
+ *
+ * Fields accept "*", numbers, ranges ("1-5"), steps ("*\/15", "0-30/10"),
+ * lists ("1,15") and month/day names ("JAN", "MON"). Day-of-week 0 and 7
+ * are both Sunday. As in classic cron, when both day-of-month and
+ * day-of-week are restricted, a day matching either one matches.
+ */
+
+import { wallClock, zonedTimeToUtc } from "./time-zone.js";
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+/** How far ahead to search before giving up (covers Feb 29 schedules). */
+const MAX_SEARCH_DAYS = 366 * 5;
+
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Day-of-month field was not "*" */
+  domRestricted: boolean;
+  /** Day-of-week field was not "*" */
+  dowRestricted: boolean;
+}
+
+/** Parse a 5-field cron expression. Throws on malformed input. */
+export function parseCron(expression: string): CronExpression {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields (minute hour day month weekday)`);
+  }
+  const [minute, hour, dom, month, dow] = fields;
+
+  const daysOfWeek = parseField(dow, 0, 7, DAY_NAMES, expression);
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseField(minute, 0, 59, [], expression),
+    hours: parseField(hour, 0, 23, [], expression),
+    daysOfMonth: parseField(dom, 1, 31, [], expression),
+    months: parseField(month, 1, 12, MONTH_NAMES, expression, 1),
+    daysOfWeek,
+    domRestricted: dom !== "*",
+    dowRestricted: dow !== "*",
+  };
+}
+
+/**
+ * The first time strictly after `after` that matches the expression,
+ * evaluated on the wall clock of `timeZone`. Returns null if nothing
+ * matches within five years (e.g. "0 0 31 2 *").
+ */
+export function nextCronTime(cron: CronExpression, after: Date, timeZone: string): Date | null {
+  const start = wallClock(new Date(after.getTime() + 60_000), timeZone);
+  let { year, month, day } = start;
+  let firstDay = true;
+  const hours = sorted(cron.hours);
+  const minutes = sorted(cron.minutes);
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (cron.months.has(month) && matchesDay(cron, day, date.getUTCDay())) {
+      for (const hour of hours) {
+        if (firstDay && hour < start.hour) continue;
+        for (const minute of minutes) {
+          if (firstDay && hour === start.hour && minute < start.minute) continue;
+          const instant = zonedTimeToUtc({ year, month, day, hour, minute }, timeZone);
+          if (instant.getTime() > after.getTime()) return instant;
+        }
+      }
+    }
+
+    const next = new Date(Date.UTC(year, month - 1, day + 1));
+    year = next.getUTCFullYear();
+    month = next.getUTCMonth() + 1;
+    day = next.getUTCDate();
+    firstDay = false;
+  }
+  return null;
+}
+
+function matchesDay(cron: CronExpression, dayOfMonth: number, dayOfWeek: number): boolean {
+  const domMatch = cron.daysOfMonth.has(dayOfMonth);
+  const dowMatch = cron.daysOfWeek.has(dayOfWeek);
+  if (cron.domRestricted && cron.dowRestricted) return domMatch || dowMatch;
+  return domMatch && dowMatch;
+}
+
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  names: string[],
+  expression: string,
+  nameOffset = 0
+): Set<number> {
+  const values = new Set<number>();
+  const invalid = () => new Error(`Invalid cron expression "${expression}": bad field "${field}"`);
+  const parseValue = (token: string): number => {
+    const index = names.indexOf(token.toUpperCase());
+    const value = index >= 0 ? index + nameOffset : /^\d+$/.test(token) ? Number(token) : NaN;
+    if (isNaN(value) || value < min || value > max) throw invalid();
+    return value;
+  };
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw invalid();
+
+    let from: number;
+    let to: number;
+    if (range === "*") {
+      from = min;
+      to = max;
+    } else if (range.includes("-")) {
+      const [a, b] = range.split("-");
+      from = parseValue(a);
+      to = parseValue(b);
+      if (from > to) throw invalid();
+    } else {
+      from = parseValue(range);
+      to = stepText === undefined ? from : max;
+    }
+
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+  return values;
+}
+
+function sorted(values: Set<number>): number[] {
+  return [...values].sort((a, b) => a - b);
+}
@@ -0,0 +1,443 @@
+/**
+ * Rule engine — evaluates declarative automation rules against each
+ * live event.
+ *
+ * A rule fires when an event matches its trigger filter and all of its
+ * conditions hold. Its actions run in order; a failed action is recorded
+ * and the remaining actions still run. Every firing is written to the
+ * routine log as a "rule_fired" execution carrying the rule and triggering
+ * event IDs; commands issued by the rule are logged as its steps.
+ *
+ * The first event of the type a rule's command is expected to produce
+ * (e.g. "light_on" after "turn_light_on"), from the commanded device and
+ * within a few seconds, is taken to be caused by that firing: a firing it
+ * triggers is logged as its child, so the chain shares one correlation
+ * ID, and chains stop at MAX_RULE_CHAIN_DEPTH firings so two rules cannot
+ * keep triggering each other.
+ *
+ * A rule is not re-entered while it is still running its actions; an
+ * event it would have fired on meanwhile is logged as "rule_skipped".
+ */
+
+import { randomUUID } from "node:crypto";
+import { matchesEventFilter } from "../events/event-filter.js";
+import type { RoutineLogger } from "../logging/routine-logger.js";
+import type { RuleStore } from "../storage/rule-store.js";
+import type {
+  AlarmAction,
+  AlarmActionOptions,
+  AlarmActionResult,
+  AlarmMode,
+  CommandOrigin,
+  DeviceAction,
+  DeviceCommand,
+  EventFilter,
+  RingEvent,
+  RingEventType,
+  Rule,
+  RuleAction,
+  RuleActionResult,
+  RuleConditions,
+  RuleFiring,
+  TimeWindow,
+} from "../types/index.js";
+
+const ALARM_ACTIONS: AlarmAction[] = ["arm_home", "arm_away", "disarm"];
+const ALARM_MODES: AlarmMode[] = ["all", "some", "none"];
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/** Most rule firings in one cause chain */
+export const MAX_RULE_CHAIN_DEPTH = 5;
+
+/** How long after a rule's command its expected event counts as caused by it */
+const CAUSE_WINDOW_MS = 10_000;
+
+/** The event each device command is expected to produce; other commands cause none. */
+const COMMAND_EVENTS: Partial<Record<DeviceAction, RingEventType>> = {
+  turn_light_on: "light_on",
+  turn_light_off: "light_off",
+  enable_siren: "siren_on",
+  disable_siren: "siren_off",
+  lock: "lock_locked",
+  unlock: "lock_unlocked",
+  unlock_door: "intercom_unlock",
+  capture_snapshot: "snapshot_captured",
+  record_clip: "clip_recorded",
+  set_thermostat_mode: "thermostat_mode_change",
+};
+
+/** The firing whose command is expected to produce an event. */
+interface Cause {
+  routineId: string;
+  /** Firings in the chain up to and including this one */
+  depth: number;
+  expiresAt: number;
+}
+
+/** Lookups and side effects the engine needs (see RingEcosystemTool). */
+export interface RuleActionHandler {
+  getAlarmMode(locationId: string): Promise<AlarmMode>;
+  /** Number of logged events matching the filter in [startTime, endTime]. */
+  countEvents(filter: EventFilter, startTime: string, endTime: string): number;
+  controlDevice(command: DeviceCommand, origin: CommandOrigin): Promise<Record<string, unknown>>;
+  setAlarmMode(
+    locationId: string,
+    action: AlarmAction,
+    options: AlarmActionOptions,
+    origin: CommandOrigin
+  ): Promise<AlarmActionResult>;
+  /** Queue the event for a webhook and return the delivery ID. */
+  deliverWebhook(webhookId: string, event: RingEvent): string;
+}
+
+export type RuleInput = Pick<Rule, "name" | "trigger" | "actions"> &
+  Partial<Pick<Rule, "conditions" | "enabled">>;
+
+export class RuleEngine {
+  private running: Set<string> = new Set();
+  /** Pending causes by causeKey of the expected event */
+  private causes = new Map<string, Cause>();
+
+  constructor(
+    private store: RuleStore,
+    private routineLogger: RoutineLogger,
+    private handler: RuleActionHandler
+  ) {}
+
+  // ── Rule Management ──
+
+  createRule(input: RuleInput): Rule {
+    validateRule(input);
+    const now = new Date().toISOString();
+    const rule: Rule = {
+      id: randomUUID(),
+      name: input.name,
+      enabled: input.enabled ?? true,
+      trigger: input.trigger,
+      conditions: input.conditions,
+      actions: input.actions,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.store.save(rule);
+    return rule;
+  }
+
+  /** Replace any of a rule's fields. Throws if the rule does not exist. */
+  updateRule(id: string, changes: Partial<RuleInput>): Rule {
+    const existing = this.store.get(id);
+    if (!existing) throw new Error(`Rule not found: ${id}`);
+
+    const rule: Rule = { ...existing, ...changes, updatedAt: new Date().toISOString() };
+    validateRule(rule);
+    this.store.save(rule);
+    return rule;
+  }
+
+  getRule(id: string): Rule | null {
+    return this.store.get(id);
+  }
+
+  listRules(): Rule[] {
+    return this.store.list();
+  }
+
+  deleteRule(id: string): boolean {
+    return this.store.delete(id);
+  }
+
+  // ── Evaluation ──
+
+  /** Evaluate every enabled rule against an event and run those that fire. */
+  async handleEvent(event: RingEvent): Promise<RuleFiring[]> {
+    const firings: RuleFiring[] = [];
+    const cause = this.causeOf(event);
+
+    for (const rule of this.store.list({ enabledOnly: true })) {
+      if (!matchesEventFilter(event, rule.trigger)) continue;
+      // A rule still running its actions is not re-entered by events those actions cause
+      if (this.running.has(rule.id)) {
+        this.logSkipped(rule, event, cause);
+        continue;
+      }
+
+      this.running.add(rule.id);
+      try {
+        if (!(await this.conditionsHold(rule, event))) continue;
+        if (cause && cause.depth >= MAX_RULE_CHAIN_DEPTH) {
+          this.logChainLimit(rule, event, cause);
+          continue;
+        }
+        firings.push(await this.fire(rule, event, cause));
+      } catch (err) {
+        console.error(`[rules] Rule "${rule.name}" (${rule.id}) failed:`, err);
+      } finally {
+        this.running.delete(rule.id);
+      }
+    }
+
+    return firings;
+  }
+
+  private async conditionsHold(rule: Rule, event: RingEvent): Promise<boolean> {
+    const conditions = rule.conditions;
+    if (!conditions) return true;
+
+    if (conditions.timeWindow && !inTimeWindow(new Date(event.timestamp), conditions.timeWindow)) {
+      return false;
+    }
+
+    if (conditions.recentEvents) {
+      const { filter, windowSec, minCount, maxCount } = conditions.recentEvents;
+      const startTime = new Date(Date.parse(event.timestamp) - windowSec * 1000).toISOString();
+      const count = this.handler.countEvents(filter ?? rule.trigger, startTime, event.timestamp);
+      if (minCount !== undefined && count < minCount) return false;
+      if (maxCount !== undefined && count > maxCount) return false;
+    }
+
+    if (conditions.alarmModes && conditions.alarmModes.length > 0) {
+      const mode = await this.handler.getAlarmMode(event.locationId);
+      if (!conditions.alarmModes.includes(mode)) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * The firing whose command caused an event, if it is recent enough.
+   * A cause explains only the first matching event.
+   */
+  private causeOf(event: RingEvent): Cause | undefined {
+    const key = causeKey(event.type, event.type === "alarm_mode_change" ? event.locationId : event.deviceId);
+    const cause = this.causes.get(key);
+    this.causes.delete(key);
+    return cause && cause.expiresAt > Date.now() ? cause : undefined;
+  }
+
+  private logSkipped(rule: Rule, event: RingEvent, cause?: Cause): void {
+    this.routineLogger.log({
+      action: "rule_skipped",
+      deviceId: event.deviceId,
+      deviceName: event.deviceName,
+      locationId: event.locationId,
+      locationName: event.locationName,
+      parameters: { ruleId: rule.id, ruleName: rule.name, eventId: event.id, reason: "still_running" },
+      result: "failure",
+      error: "Rule is still running an earlier firing",
+      parentId: cause?.routineId,
+    });
+  }
+
+  private logChainLimit(rule: Rule, event: RingEvent, cause: Cause): void {
+    console.warn(
+      `[rules] Rule "${rule.name}" (${rule.id}) not fired: event ${event.id} ends a chain of ${cause.depth} rule firings`
+    );
+    this.routineLogger.log({
+      action: "rule_chain_limit",
+      deviceId: event.deviceId,
+      deviceName: event.deviceName,
+      locationId: event.locationId,
+      locationName: event.locationName,
+      parameters: { ruleId: rule.id, ruleName: rule.name, eventId: event.id, chainDepth: cause.depth },
+      result: "failure",
+      error: `Rule chain limit of ${MAX_RULE_CHAIN_DEPTH} firings reached`,
+      parentId: cause.routineId,
+    });
+  }
+
+  private async fire(rule: Rule, event: RingEvent, cause?: Cause): Promise<RuleFiring> {
+    const firedAt = new Date().toISOString();
+    this.store.markFired(rule.id, firedAt);
+    const depth = (cause?.depth ?? 0) + 1;
+
+    const entry = this.routineLogger.start({
+      timestamp: firedAt,
+      action: "rule_fired",
+      deviceId: event.deviceId,
+      deviceName: event.deviceName,
+      locationId: event.locationId,
+      locationName: event.locationName,
+      parameters: {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        eventId: event.id,
+        eventType: event.type,
+        ...(cause && { chainDepth: depth }),
+      },
+      parentId: cause?.routineId,
+    });
+
+    const origin: CommandOrigin = {
+      source: "rule",
+      ruleId: rule.id,
+      eventId: event.id,
+      parentRoutineId: entry.id,
+    };
+    const results: RuleActionResult[] = [];
+
+    for (const action of rule.actions) {
+      const key = expectedEventKey(action, event);
+      const cause: Cause = { routineId: entry.id, depth, expiresAt: Date.now() + CAUSE_WINDOW_MS };
+      try {
+        // Recorded before the action runs, as its event may arrive before the command returns
+        if (key) this.causes.set(key, cause);
+        const result = await this.runAction(action, event, origin);
+        results.push({ type: action.type, success: true, result });
+      } catch (err) {
+        if (key && this.causes.get(key) === cause) this.causes.delete(key);
+        results.push({
+          type: action.type,
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+
+    const success = results.every((r) => r.success);
+    this.routineLogger.finish(entry.id, {
+      parameters: { actions: results.map(({ result: _result, ...outcome }) => outcome) },
+      result: success ? "success" : "failure",
+      error: success
+        ? undefined
+        : results
+            .filter((r) => !r.success)
+            .map((r) => `${r.type}: ${r.error}`)
+            .join("; "),
+    });
+
+    return {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      eventId: event.id,
+      routineId: entry.id,
+      success,
+      actions: results,
+    };
+  }
+
+  private async runAction(
+    action: RuleAction,
+    event: RingEvent,
+    origin: CommandOrigin
+  ): Promise<Record<string, unknown>> {
+    switch (action.type) {
+      case "device_command":
+        return this.handler.controlDevice(action.command, origin);
+      case "alarm": {
+        const result = await this.handler.setAlarmMode(
+          action.locationId ?? event.locationId,
+          action.action,
+          { bypassSensorIds: action.bypassSensorIds },
+          origin
+        );
+        return { ...result };
+      }
+      case "webhook":
+        return { deliveryId: this.handler.deliverWebhook(action.webhookId, event) };
+    }
+  }
+}
+
+/** Key of the event an action is expected to produce, if any. */
+function expectedEventKey(action: RuleAction, event: RingEvent): string | undefined {
+  if (action.type === "alarm") return causeKey("alarm_mode_change", action.locationId ?? event.locationId);
+  if (action.type !== "device_command") return undefined;
+  const type = COMMAND_EVENTS[action.command.action];
+  return type && causeKey(type, action.command.deviceId);
+}
+
+/** An event type from a device, or from a location for alarm mode changes. */
+function causeKey(type: RingEventType, source: string): string {
+  return `${type}:${source}`;
+}
+
+/**
+ * Whether a time falls inside a time-of-day window. The start is
+ * inclusive and the end exclusive; windows with start > end wrap past
+ * midnight.
+ */
+export function inTimeWindow(date: Date, window: TimeWindow): boolean {
+  const minutes = minutesOfDay(date, window.timeZone);
+  const start = parseTimeOfDay(window.start);
+  const end = parseTimeOfDay(window.end);
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+function minutesOfDay(date: Date, timeZone?: string): number {
+  if (!timeZone) return date.getHours() * 60 + date.getMinutes();
+
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return part("hour") * 60 + part("minute");
+}
+
+function parseTimeOfDay(value: string): number {
+  const match = TIME_OF_DAY.exec(value);
+  if (!match) throw new Error(`Invalid time of day "${value}"; expected HH:MM (24h)`);
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/** Throw if a time window has a malformed time, no length, or an unknown time zone. */
+export function validateTimeWindow(window: TimeWindow): void {
+  const start = parseTimeOfDay(window.start);
+  const end = parseTimeOfDay(window.end);
+  if (start === end) throw new Error("timeWindow start and end must differ");
+  if (window.timeZone) {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: window.timeZone });
+    } catch {
+      throw new Error(`Invalid time zone: ${window.timeZone}`);
+    }
+  }
+}
+
+/** Throw if a rule definition is incomplete or malformed. */
+export function validateRule(rule: RuleInput): void {
+  if (!rule.name || rule.name.trim() === "") throw new Error("Rule name is required");
+  if (!rule.trigger || typeof rule.trigger !== "object") throw new Error("Rule trigger is required");
+  if (!Array.isArray(rule.actions) || rule.actions.length === 0) {
+    throw new Error("Rule needs at least one action");
+  }
+
+  for (const action of rule.actions) {
+    switch (action.type) {
+      case "device_command":
+        if (!action.command?.deviceId || !action.command.action) {
+          throw new Error("device_command actions need command.deviceId and command.action");
+        }
+        break;
+      case "alarm":
+        if (!ALARM_ACTIONS.includes(action.action)) {
+          throw new Error(`Invalid alarm action: ${action.action}`);
+        }
+        break;
+      case "webhook":
+        if (!action.webhookId) throw new Error("webhook actions need a webhookId");
+        break;
+      default:
+        throw new Error(`Unknown rule action type: ${(action as { type: string }).type}`);
+    }
+  }
+
+  const conditions = rule.conditions;
+  if (!conditions) return;
+
+  if (conditions.timeWindow) validateTimeWindow(conditions.timeWindow);
+  for (const mode of conditions.alarmModes ?? []) {
+    if (!ALARM_MODES.includes(mode)) throw new Error(`Invalid alarm mode: ${mode}`);
+  }
+  if (conditions.recentEvents) {
+    const { windowSec, minCount, maxCount } = conditions.recentEvents;
+    if (!(windowSec > 0)) throw new Error("recentEvents.windowSec must be positive");
+    if (minCount === undefined && maxCount === undefined) {
+      throw new Error("recentEvents needs minCount or maxCount");
+    }
+  }
+}
@@ -0,0 +1,333 @@
+/**
+ * Scene runner — named groups of device commands and alarm changes run
+ * together, e.g. "Night mode" = arm home, floodlights off, chime quiet.
+ *
+ * Steps start in order, up to `concurrency` at a time. Before each step
+ * the state it changes is captured, so that when a step fails and the
+ * scene rolls back, completed steps are restored in reverse order. A
+ * restore the action policy would challenge (e.g. a disarm that needs the
+ * PIN) is not run, as nobody is there to answer it. Each run is one
+ * "scene_run" routine execution, with the commands it issues
+ * (including rollbacks) logged as its steps.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { RoutineLogger } from "../logging/routine-logger.js";
+import type { SceneStore } from "../storage/scene-store.js";
+import type {
+  AlarmAction,
+  AlarmActionOptions,
+  AlarmActionResult,
+  AlarmMode,
+  AlarmState,
+  CommandOptions,
+  CommandOrigin,
+  DeviceAction,
+  DeviceCommand,
+  RingDeviceInfo,
+  Scene,
+  SceneRunResult,
+  SceneStep,
+  SceneStepResult,
+} from "../types/index.js";
+
+const ALARM_ACTIONS: AlarmAction[] = ["arm_home", "arm_away", "disarm"];
+
+/** Alarm action that returns a location to a mode. */
+const RESTORE_ALARM_MODE: Record<AlarmMode, AlarmAction> = {
+  all: "arm_away",
+  some: "arm_home",
+  none: "disarm",
+};
+
+/**
+ * Actions undone by repeating them with the result's previousValue
+ * in this parameter.
+ */
+const RESTORE_PARAMETER: Partial<Record<DeviceAction, string>> = {
+  set_volume: "volume",
+  set_light_brightness: "brightness",
+  set_thermostat_mode: "mode",
+  set_thermostat_setpoint: "setpoint",
+  set_motion_detection: "enabled",
+  set_motion_sensitivity: "sensitivity",
+  snooze_motion_alerts: "minutes",
+  snooze_chime: "minutes",
+};
+
+/** Lookups and commands the runner needs (see RingEcosystemTool). */
+export interface SceneStepHandler {
+  getDevice(deviceId: string): Promise<RingDeviceInfo | null>;
+  getAlarmState(locationId: string): Promise<AlarmState>;
+  /** Throw unless the access profile and action policy allow a rollback step unattended. */
+  authorizeRollback(step: SceneStep): Promise<void>;
+  controlDevice(command: DeviceCommand, origin: CommandOrigin, options?: CommandOptions): Promise<Record<string, unknown>>;
+  setAlarmMode(
+    locationId: string,
+    action: AlarmAction,
+    options: AlarmActionOptions,
+    origin: CommandOrigin
+  ): Promise<AlarmActionResult>;
+}
+
+export type SceneInput = Pick<Scene, "name" | "steps"> &
+  Partial<Pick<Scene, "description" | "concurrency" | "rollbackOnFailure">>;
+
+export interface SceneRunOptions {
+  /** Override the scene's concurrency for this run */
+  concurrency?: number;
+  /** Override the scene's rollbackOnFailure for this run */
+  rollbackOnFailure?: boolean;
+  /** Validate and log the steps as simulated without sending them. Default: the tool's dryRun setting */
+  dryRun?: boolean;
+}
+
+export class SceneRunner {
+  constructor(
+    private store: SceneStore,
+    private routineLogger: RoutineLogger,
+    private handler: SceneStepHandler
+  ) {}
+
+  // ── Scene Management ──
+
+  createScene(input: SceneInput): Scene {
+    validateScene(input);
+    const now = new Date().toISOString();
+    const scene: Scene = {
+      id: randomUUID(),
+      name: input.name,
+      description: input.description,
+      steps: input.steps,
+      concurrency: input.concurrency,
+      rollbackOnFailure: input.rollbackOnFailure ?? false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.store.save(scene);
+    return scene;
+  }
+
+  updateScene(id: string, changes: Partial<SceneInput>): Scene {
+    const existing = this.store.get(id);
+    if (!existing) throw new Error(`Scene not found: ${id}`);
+
+    const scene: Scene = { ...existing, ...changes, updatedAt: new Date().toISOString() };
+    validateScene(scene);
+    this.store.save(scene);
+    return scene;
+  }
+
+  getScene(id: string): Scene | null {
+    return this.store.get(id);
+  }
+
+  listScenes(): Scene[] {
+    return this.store.list();
+  }
+
+  deleteScene(id: string): boolean {
+    return this.store.delete(id);
+  }
+
+  // ── Execution ──
+
+  /**
+   * Run a scene. Without rollback, a failed step is recorded and the
+   * remaining steps still run. With rollback, no further steps start
+   * after a failure; once running steps finish, completed ones are
+   * restored to their captured state, newest first.
+   */
+  async runScene(id: string, options: SceneRunOptions = {}): Promise<SceneRunResult> {
+    const scene = this.store.get(id);
+    if (!scene) throw new Error(`Scene not found: ${id}`);
+
+    const concurrency = options.concurrency ?? scene.concurrency ?? 1;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error("concurrency must be a positive integer");
+    }
+    const rollbackOnFailure = options.rollbackOnFailure ?? scene.rollbackOnFailure;
+
+    const entry = this.routineLogger.start({
+      action: "scene_run",
+      locationId: sceneLocationId(scene.steps),
+      locationName: "unknown",
+      parameters: { sceneId: scene.id, sceneName: scene.name, concurrency, rollbackOnFailure },
+      simulated: options.dryRun,
+    });
+    const origin: CommandOrigin = { source: "scene", sceneId: scene.id, parentRoutineId: entry.id };
+    const commandOptions: CommandOptions = { dryRun: options.dryRun };
+
+    const results: SceneStepResult[] = scene.steps.map((step, index) => ({ index, step, status: "skipped" }));
+    const previous: unknown[] = [];
+    const completed: number[] = [];
+    let failed = false;
+    let nextIndex = 0;
+
+    const worker = async (): Promise<void> => {
+      while (nextIndex < scene.steps.length && !(failed && rollbackOnFailure)) {
+        const index = nextIndex++;
+        const step = scene.steps[index];
+        try {
+          previous[index] = await this.runStep(step, origin, commandOptions);
+          results[index].status = "succeeded";
+          completed.push(index);
+        } catch (err) {
+          failed = true;
+          results[index].status = "failed";
+          results[index].error = err instanceof Error ? err.message : String(err);
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, scene.steps.length) }, worker));
+
+    const rolledBack = failed && rollbackOnFailure && completed.length > 0;
+    if (rolledBack) {
+      const rollbackOrigin: CommandOrigin = { ...origin, source: "scene_rollback" };
+      for (const index of [...completed].reverse()) {
+        const undo = rollbackStep(scene.steps[index], previous[index]);
+        if (!undo) {
+          results[index].rollback = "not_reversible";
+          continue;
+        }
+        try {
+          await this.handler.authorizeRollback(undo);
+          await this.runStep(undo, rollbackOrigin, commandOptions);
+          results[index].rollback = "rolled_back";
+        } catch (err) {
+          results[index].rollback = "rollback_failed";
+          results[index].rollbackError = err instanceof Error ? err.message : String(err);
+        }
+      }
+    }
+
+    this.store.markRun(scene.id, entry.timestamp);
+    const errors = results.filter((r) => r.status === "failed").map((r) => `step ${r.index}: ${r.error}`);
+    this.routineLogger.finish(entry.id, {
+      parameters: {
+        rolledBack,
+        steps: results.map(({ step: _step, ...result }) => result),
+      },
+      result: failed ? "failure" : "success",
+      error: failed ? errors.join("; ") : undefined,
+    });
+
+    return {
+      routineId: entry.id,
+      sceneId: scene.id,
+      sceneName: scene.name,
+      success: !failed,
+      rolledBack,
+      steps: results,
+    };
+  }
+
+  /** Run one step and return the state it replaced, for rollback. */
+  private async runStep(step: SceneStep, origin: CommandOrigin, options: CommandOptions): Promise<unknown> {
+    if (step.type === "alarm") {
+      const previousState = await this.handler.getAlarmState(step.locationId);
+      await this.handler.setAlarmMode(
+        step.locationId,
+        step.action,
+        { bypassSensorIds: step.bypassSensorIds, ...options },
+        origin
+      );
+      return previousState;
+    }
+
+    const { command } = step;
+    if (command.action === "turn_light_on" || command.action === "turn_light_off") {
+      const device = await this.handler.getDevice(command.deviceId);
+      await this.handler.controlDevice(command, origin, options);
+      return device?.lightState?.on;
+    }
+    const result = await this.handler.controlDevice(command, origin, options);
+    if (command.action === "set_privacy_mode") {
+      return { enabled: result.previousValue, motionDetection: result.previousMotionDetection };
+    }
+    return result.previousValue;
+  }
+}
+
+/**
+ * The step that restores the state `previous` captured before `step`
+ * ran, or null if the step cannot be undone (e.g. a snapshot, or the
+ * previous state is unknown).
+ */
+export function rollbackStep(step: SceneStep, previous: unknown): SceneStep | null {
+  if (step.type === "alarm") {
+    // Re-arming bypasses the sensors that were bypassed before
+    const state = previous as AlarmState | undefined;
+    const action = state && RESTORE_ALARM_MODE[state.mode];
+    if (!action) return null;
+    return action !== "disarm" && state.bypassedSensorIds.length > 0
+      ? { type: "alarm", locationId: step.locationId, action, bypassSensorIds: state.bypassedSensorIds }
+      : { type: "alarm", locationId: step.locationId, action };
+  }
+
+  const { deviceId, action } = step.command;
+  const command = (action: DeviceAction, parameters?: Record<string, unknown>): SceneStep => ({
+    type: "device_command",
+    command: { deviceId, action, parameters },
+  });
+
+  switch (action) {
+    case "turn_light_on":
+    case "turn_light_off":
+      return typeof previous === "boolean" ? command(previous ? "turn_light_on" : "turn_light_off") : null;
+    case "enable_siren":
+    case "disable_siren":
+      return typeof previous === "boolean" ? command(previous ? "enable_siren" : "disable_siren") : null;
+    case "lock":
+    case "unlock":
+      return previous === "locked" ? command("lock") : previous === "unlocked" ? command("unlock") : null;
+    case "set_privacy_mode": {
+      // Privacy mode also switches motion detection, so both are restored
+      const { enabled, motionDetection } = (previous ?? {}) as { enabled?: unknown; motionDetection?: unknown };
+      if (typeof enabled !== "boolean") return null;
+      return command("set_privacy_mode", typeof motionDetection === "boolean" ? { enabled, motionDetection } : { enabled });
+    }
+  }
+
+  const parameter = RESTORE_PARAMETER[action];
+  return parameter && previous !== undefined && previous !== null
+    ? command(action, { [parameter]: previous })
+    : null;
+}
+
+/** Throw if a scene definition is incomplete or malformed. */
+export function validateScene(scene: SceneInput): void {
+  if (!scene.name || scene.name.trim() === "") throw new Error("Scene name is required");
+  if (!Array.isArray(scene.steps) || scene.steps.length === 0) {
+    throw new Error("Scene needs at least one step");
+  }
+  if (scene.concurrency !== undefined && (!Number.isInteger(scene.concurrency) || scene.concurrency < 1)) {
+    throw new Error("concurrency must be a positive integer");
+  }
+
+  for (const step of scene.steps) {
+    switch (step.type) {
+      case "device_command":
+        if (!step.command?.deviceId || !step.command.action) {
+          throw new Error("device_command steps need command.deviceId and command.action");
+        }
+        break;
+      case "alarm":
+        if (!step.locationId) throw new Error("alarm steps need a locationId");
+        if (!ALARM_ACTIONS.includes(step.action)) {
+          throw new Error(`Invalid alarm action: ${step.action}`);
+        }
+        break;
+      default:
+        throw new Error(`Unknown scene step type: ${(step as { type: string }).type}`);
+    }
+  }
+}
+
+/** The location of a scene's first alarm step, for the routine log. */
+function sceneLocationId(steps: SceneStep[]): string {
+  for (const step of steps) {
+    if (step.type === "alarm") return step.locationId;
+  }
+  return "unknown";
+}
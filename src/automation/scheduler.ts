@@ -0,0 +1,428 @@
+/**
+ * Scheduler — runs persistent time-based schedules (cron expressions or
+ * sunrise/sunset with an offset) through the audited device and alarm
+ * commands of RingEcosystemTool.
+ *
+ * Each schedule stores when it runs next. On startup, schedules whose
+ * next run has already passed were missed while the tool was stopped;
+ * they are caught up once or skipped according to their policy, and the
+ * outcome is written to the routine log. End actions (e.g. turning a
+ * light back off after two hours) are persisted too and always run,
+ * late if necessary.
+ */
+
+import { randomUUID } from "node:crypto";
+import { parseCron, nextCronTime } from "./cron.js";
+import { nextSunTime } from "./sun.js";
+import { assertTimeZone, localTimeZone } from "./time-zone.js";
+import type { RoutineLogger } from "../logging/routine-logger.js";
+import type { ScheduleStore } from "../storage/schedule-store.js";
+import type {
+  AlarmAction,
+  AlarmActionOptions,
+  AlarmActionResult,
+  CommandOrigin,
+  DeviceCommand,
+  RuleActionResult,
+  Schedule,
+  ScheduleAction,
+  ScheduleTrigger,
+  SchedulerConfig,
+} from "../types/index.js";
+
+const ALARM_ACTIONS: AlarmAction[] = ["arm_home", "arm_away", "disarm"];
+
+/** Stop counting missed runs after this many (e.g. a minutely schedule stopped for weeks). */
+const MAX_MISSED_RUNS = 1000;
+
+/** Commands used to carry out schedule actions (see RingEcosystemTool). */
+export interface ScheduleActionHandler {
+  controlDevice(command: DeviceCommand, origin: CommandOrigin): Promise<Record<string, unknown>>;
+  setAlarmMode(
+    locationId: string,
+    action: AlarmAction,
+    options: AlarmActionOptions,
+    origin: CommandOrigin
+  ): Promise<AlarmActionResult>;
+}
+
+export type ScheduleInput = Pick<Schedule, "name" | "trigger" | "actions"> &
+  Partial<
+    Pick<Schedule, "endActions" | "durationMinutes" | "catchUp" | "catchUpWindowMinutes" | "enabled">
+  >;
+
+export class Scheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<void> | null = null;
+  private timeZone: string;
+
+  constructor(
+    private store: ScheduleStore,
+    private routineLogger: RoutineLogger,
+    private handler: ScheduleActionHandler,
+    private config: SchedulerConfig = {}
+  ) {
+    if (config.timeZone) assertTimeZone(config.timeZone);
+    this.timeZone = config.timeZone ?? localTimeZone();
+  }
+
+  /** Catch up on missed runs, then check for due schedules on every tick. Non-blocking. */
+  start(): void {
+    if (this.timer) return;
+
+    this.catchUp().catch((err) => {
+      console.error("[scheduler] Catch-up failed:", err);
+    });
+    this.timer = setInterval(() => {
+      this.tick().catch((err) => {
+        console.error("[scheduler] Tick failed:", err);
+      });
+    }, this.config.tickIntervalMs ?? 15000);
+  }
+
+  /** Stop checking for due schedules, and wait for a pass that is running. */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.running;
+  }
+
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  // ── Schedule Management ──
+
+  createSchedule(input: ScheduleInput, now: Date = new Date()): Schedule {
+    this.validate(input);
+    const enabled = input.enabled ?? true;
+    const schedule: Schedule = {
+      id: randomUUID(),
+      name: input.name,
+      enabled,
+      trigger: input.trigger,
+      actions: input.actions,
+      endActions: input.endActions,
+      durationMinutes: input.durationMinutes,
+      catchUp: input.catchUp ?? "skip",
+      catchUpWindowMinutes: input.catchUpWindowMinutes,
+      nextRunAt: enabled ? this.nextRun(input.trigger, now)?.toISOString() : undefined,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    this.store.save(schedule);
+    return schedule;
+  }
+
+  getSchedule(id: string): Schedule | null {
+    return this.store.get(id);
+  }
+
+  listSchedules(): Schedule[] {
+    return this.store.list();
+  }
+
+  /** Stop a schedule from running. Pending end actions still run. */
+  pauseSchedule(id: string, now: Date = new Date()): Schedule {
+    const schedule = this.require(id);
+    const paused: Schedule = { ...schedule, enabled: false, nextRunAt: undefined, updatedAt: now.toISOString() };
+    this.store.save(paused);
+    return paused;
+  }
+
+  /** Resume a paused schedule from its next occurrence; runs skipped while paused are not caught up. */
+  resumeSchedule(id: string, now: Date = new Date()): Schedule {
+    const schedule = this.require(id);
+    const resumed: Schedule = {
+      ...schedule,
+      enabled: true,
+      nextRunAt: this.nextRun(schedule.trigger, now)?.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    this.store.save(resumed);
+    return resumed;
+  }
+
+  deleteSchedule(id: string): boolean {
+    return this.store.delete(id);
+  }
+
+  // ── Execution ──
+
+  /**
+   * Handle runs missed while the tool was stopped: run due end actions,
+   * then catch up or skip each overdue schedule per its policy.
+   */
+  catchUp(now: Date = new Date()): Promise<void> {
+    return this.exclusive(async () => {
+      await this.runEndActions(now);
+
+      for (const schedule of this.store.due(now.toISOString())) {
+        await this.isolate(schedule, () => this.catchUpSchedule(schedule, now));
+      }
+    });
+  }
+
+  /** Catch up or skip one overdue schedule per its policy. */
+  private async catchUpSchedule(schedule: Schedule, now: Date): Promise<void> {
+    const { count, latest } = this.missedRuns(schedule, now);
+    const windowMs = (schedule.catchUpWindowMinutes ?? 60) * 60_000;
+    const catchUp = schedule.catchUp === "run_once" && now.getTime() - latest.getTime() <= windowMs;
+
+    if (catchUp) {
+      await this.run(schedule, now, { scheduledFor: latest.toISOString(), catchUp: true, missedRuns: count });
+    } else {
+      this.routineLogger.log({
+        timestamp: now.toISOString(),
+        action: "schedule_missed",
+        locationId: scheduleLocationId(schedule.actions),
+        locationName: "unknown",
+        parameters: {
+          scheduleId: schedule.id,
+          scheduleName: schedule.name,
+          missedRuns: count,
+          firstMissedAt: schedule.nextRunAt,
+          lastMissedAt: latest.toISOString(),
+          catchUp: schedule.catchUp,
+        },
+        result: "failure",
+        error: `Missed ${count} run(s) while stopped; not caught up (policy: ${schedule.catchUp})`,
+      });
+      this.store.save({
+        ...schedule,
+        nextRunAt: this.nextRun(schedule.trigger, now)?.toISOString(),
+        updatedAt: now.toISOString(),
+      });
+    }
+  }
+
+  /** Run every schedule and end action that is due. */
+  tick(now: Date = new Date()): Promise<void> {
+    return this.exclusive(async () => {
+      await this.runEndActions(now);
+      for (const schedule of this.store.due(now.toISOString())) {
+        await this.isolate(schedule, () => this.run(schedule, now, { scheduledFor: schedule.nextRunAt as string }));
+      }
+    });
+  }
+
+  /** Only one pass runs at a time; overlapping calls wait for it instead of running twice. */
+  private exclusive(pass: () => Promise<void>): Promise<void> {
+    if (this.running) return this.running;
+    this.running = pass().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  /**
+   * Keep one schedule's failure (e.g. a sun trigger after the configured
+   * location was removed) from stopping the rest of the pass.
+   */
+  private async isolate(schedule: Schedule, work: () => Promise<void>): Promise<void> {
+    try {
+      await work();
+    } catch (err) {
+      console.error(`[scheduler] Schedule ${schedule.id} (${schedule.name}) failed:`, err);
+    }
+  }
+
+  private async run(
+    schedule: Schedule,
+    now: Date,
+    details: { scheduledFor: string; catchUp?: boolean; missedRuns?: number }
+  ): Promise<void> {
+    // Worked out first, so a trigger that cannot be scheduled does not run on every tick
+    const nextRunAt = this.nextRun(schedule.trigger, now)?.toISOString();
+    await this.execute(schedule, "start", schedule.actions, details);
+
+    // The schedule may have been paused, resumed or deleted while its actions ran
+    const current = this.store.get(schedule.id);
+    if (!current) return;
+    const hasEnd = current.endActions && current.endActions.length > 0 && current.durationMinutes;
+
+    this.store.save({
+      ...current,
+      lastRunAt: now.toISOString(),
+      nextRunAt: current.nextRunAt === schedule.nextRunAt ? nextRunAt : current.nextRunAt,
+      endAt: hasEnd
+        ? new Date(now.getTime() + (current.durationMinutes as number) * 60_000).toISOString()
+        : current.endAt,
+      updatedAt: now.toISOString(),
+    });
+  }
+
+  private async runEndActions(now: Date): Promise<void> {
+    for (const schedule of this.store.endDue(now.toISOString())) {
+      await this.isolate(schedule, async () => {
+        await this.execute(schedule, "end", schedule.endActions ?? [], { scheduledFor: schedule.endAt as string });
+        const current = this.store.get(schedule.id);
+        if (current) this.store.save({ ...current, endAt: undefined, updatedAt: now.toISOString() });
+      });
+    }
+  }
+
+  /** Run actions as one "schedule_run" routine execution, with each command logged as its step. */
+  private async execute(
+    schedule: Schedule,
+    phase: "start" | "end",
+    actions: ScheduleAction[],
+    details: { scheduledFor: string; catchUp?: boolean; missedRuns?: number }
+  ): Promise<void> {
+    const entry = this.routineLogger.start({
+      action: "schedule_run",
+      locationId: scheduleLocationId(schedule.actions),
+      locationName: "unknown",
+      parameters: {
+        scheduleId: schedule.id,
+        scheduleName: schedule.name,
+        phase,
+        ...details,
+      },
+    });
+
+    const origin: CommandOrigin = { source: "schedule", scheduleId: schedule.id, parentRoutineId: entry.id };
+    const results: RuleActionResult[] = [];
+
+    for (const action of actions) {
+      try {
+        if (action.type === "device_command") {
+          await this.handler.controlDevice(action.command, origin);
+        } else {
+          await this.handler.setAlarmMode(
+            action.locationId,
+            action.action,
+            { bypassSensorIds: action.bypassSensorIds },
+            origin
+          );
+        }
+        results.push({ type: action.type, success: true });
+      } catch (err) {
+        results.push({
+          type: action.type,
+          success: false,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+
+    const failed = results.filter((r) => !r.success);
+    this.routineLogger.finish(entry.id, {
+      parameters: { actions: results },
+      result: failed.length === 0 ? "success" : "failure",
+      error: failed.length === 0 ? undefined : failed.map((r) => `${r.type}: ${r.error}`).join("; "),
+    });
+  }
+
+  // ── Helpers ──
+
+  /** How many runs were missed up to `now`, and the latest of them. */
+  private missedRuns(schedule: Schedule, now: Date): { count: number; latest: Date } {
+    let latest = new Date(schedule.nextRunAt as string);
+    let count = 1;
+    let next = this.nextRun(schedule.trigger, latest);
+    while (next && next.getTime() <= now.getTime() && count < MAX_MISSED_RUNS) {
+      latest = next;
+      count++;
+      next = this.nextRun(schedule.trigger, next);
+    }
+    return { count, latest };
+  }
+
+  private nextRun(trigger: ScheduleTrigger, after: Date): Date | null {
+    if (trigger.type === "cron") {
+      return nextCronTime(parseCron(trigger.expression), after, trigger.timeZone ?? this.timeZone);
+    }
+
+    const { latitude, longitude } = this.config;
+    if (latitude === undefined || longitude === undefined) {
+      throw new Error("Sunrise/sunset schedules need a configured latitude and longitude");
+    }
+    return nextSunTime(
+      trigger.event,
+      {
+        latitude,
+        longitude,
+        offsetMinutes: trigger.offsetMinutes,
+        daysOfWeek: trigger.daysOfWeek,
+        timeZone: this.timeZone,
+      },
+      after
+    );
+  }
+
+  private require(id: string): Schedule {
+    const schedule = this.store.get(id);
+    if (!schedule) throw new Error(`Schedule not found: ${id}`);
+    return schedule;
+  }
+
+  /** Throw if a schedule definition is incomplete or malformed. */
+  private validate(input: ScheduleInput): void {
+    if (!input.name || input.name.trim() === "") throw new Error("Schedule name is required");
+
+    const trigger = input.trigger;
+    if (trigger?.type === "cron") {
+      parseCron(trigger.expression);
+      if (trigger.timeZone) assertTimeZone(trigger.timeZone);
+    } else if (trigger?.type === "sun") {
+      if (trigger.event !== "sunrise" && trigger.event !== "sunset") {
+        throw new Error(`Invalid sun event: ${trigger.event}`);
+      }
+      if (trigger.daysOfWeek?.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+        throw new Error("daysOfWeek must be integers 0 (Sunday) to 6 (Saturday)");
+      }
+      if (this.config.latitude === undefined || this.config.longitude === undefined) {
+        throw new Error("Sunrise/sunset schedules need a configured latitude and longitude");
+      }
+    } else {
+      throw new Error("Schedule trigger must be of type cron or sun");
+    }
+
+    if (!Array.isArray(input.actions) || input.actions.length === 0) {
+      throw new Error("Schedule needs at least one action");
+    }
+    for (const action of [...input.actions, ...(input.endActions ?? [])]) {
+      validateAction(action);
+    }
+
+    const hasEndActions = (input.endActions?.length ?? 0) > 0;
+    if (hasEndActions !== (input.durationMinutes !== undefined)) {
+      throw new Error("endActions and durationMinutes must be given together");
+    }
+    if (input.durationMinutes !== undefined && !(input.durationMinutes > 0)) {
+      throw new Error("durationMinutes must be positive");
+    }
+    if (input.catchUp !== undefined && input.catchUp !== "skip" && input.catchUp !== "run_once") {
+      throw new Error(`Invalid catch-up policy: ${input.catchUp}`);
+    }
+  }
+}
+
+function validateAction(action: ScheduleAction): void {
+  switch (action.type) {
+    case "device_command":
+      if (!action.command?.deviceId || !action.command.action) {
+        throw new Error("device_command actions need command.deviceId and command.action");
+      }
+      break;
+    case "alarm":
+      if (!action.locationId) throw new Error("alarm actions need a locationId");
+      if (!ALARM_ACTIONS.includes(action.action)) {
+        throw new Error(`Invalid alarm action: ${action.action}`);
+      }
+      break;
+    default:
+      throw new Error(`Unknown schedule action type: ${(action as { type: string }).type}`);
+  }
+}
+
+/** The location of a schedule's first alarm action, for the routine log. */
+function scheduleLocationId(actions: ScheduleAction[]): string {
+  for (const action of actions) {
+    if (action.type === "alarm") return action.locationId;
+  }
+  return "unknown";
+}
@@ -0,0 +1,83 @@
+/**
+ * Sunrise and sunset times from latitude/longitude, using the standard
+ * sunrise equation (accurate to about a minute away from the poles).
+ */
+
+import { wallClock } from "./time-zone.js";
+
+export type SunEvent = "sunrise" | "sunset";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const J1970 = 2440587.5;
+const J2000 = 2451545.0;
+const RAD = Math.PI / 180;
+
+/**
+ * Sunrise or sunset on a calendar date (UTC midnight of that date), or
+ * null during polar day or night when the sun does not cross the horizon.
+ */
+export function sunTime(
+  event: SunEvent,
+  date: { year: number; month: number; day: number },
+  latitude: number,
+  longitude: number
+): Date | null {
+  const julianDay = Date.UTC(date.year, date.month - 1, date.day, 12) / MS_PER_DAY + J1970;
+  const n = Math.round(julianDay - J2000 + 0.0008);
+  const meanSolarTime = n - longitude / 360;
+
+  const meanAnomaly = (357.5291 + 0.98560028 * meanSolarTime) % 360;
+  const m = meanAnomaly * RAD;
+  const center = 1.9148 * Math.sin(m) + 0.02 * Math.sin(2 * m) + 0.0003 * Math.sin(3 * m);
+  const eclipticLongitude = ((meanAnomaly + center + 180 + 102.9372) % 360) * RAD;
+  const transit = J2000 + meanSolarTime + 0.0053 * Math.sin(m) - 0.0069 * Math.sin(2 * eclipticLongitude);
+
+  const declination = Math.asin(Math.sin(eclipticLongitude) * Math.sin(23.4397 * RAD));
+  const phi = latitude * RAD;
+  const cosHourAngle =
+    (Math.sin(-0.833 * RAD) - Math.sin(phi) * Math.sin(declination)) /
+    (Math.cos(phi) * Math.cos(declination));
+  if (cosHourAngle < -1 || cosHourAngle > 1) return null;
+
+  const hourAngle = Math.acos(cosHourAngle) / RAD;
+  const julian = event === "sunrise" ? transit - hourAngle / 360 : transit + hourAngle / 360;
+  return new Date(Math.round((julian - J1970) * MS_PER_DAY));
+}
+
+/**
+ * The first sunrise/sunset (plus offset) strictly after `after`, on a
+ * day of week allowed by `daysOfWeek` (0 = Sunday) in `timeZone`.
+ * Returns null if the sun does not rise or set within a year.
+ */
+export function nextSunTime(
+  event: SunEvent,
+  options: {
+    latitude: number;
+    longitude: number;
+    offsetMinutes?: number;
+    daysOfWeek?: number[];
+    timeZone: string;
+  },
+  after: Date
+): Date | null {
+  // Start a day early: a negative offset can pull today's time before midnight
+  const start = wallClock(after, options.timeZone);
+  for (let i = -1; i <= 366; i++) {
+    const day = new Date(Date.UTC(start.year, start.month - 1, start.day + i));
+    if (options.daysOfWeek && options.daysOfWeek.length > 0 && !options.daysOfWeek.includes(day.getUTCDay())) {
+      continue;
+    }
+
+    const time = sunTime(
+      event,
+      { year: day.getUTCFullYear(), month: day.getUTCMonth() + 1, day: day.getUTCDate() },
+      options.latitude,
+      options.longitude
+    );
+    if (!time) continue;
+
+    const scheduled = new Date(time.getTime() + (options.offsetMinutes ?? 0) * 60_000);
+    if (scheduled.getTime() > after.getTime()) return scheduled;
+  }
+  return null;
+}
@@ -0,0 +1,71 @@
+/**
+ * Time zone helpers — convert between instants and wall-clock times in
+ * an IANA time zone using Intl, without a date library.
+ */
+
+export interface WallClockTime {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+/** The server's local IANA time zone. */
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/** Throw if the time zone is not a valid IANA name. */
+export function assertTimeZone(timeZone: string): void {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+  } catch {
+    throw new Error(`Invalid time zone: ${timeZone}`);
+  }
+}
+
+/** The wall-clock time of an instant in a time zone. */
+export function wallClock(date: Date, timeZone: string): WallClockTime {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+  };
+}
+
+/**
+ * The instant at which a time zone's wall clock shows the given time.
+ * Times skipped by a DST change resolve to the same offset as just
+ * before the change (e.g. 02:30 becomes 03:30).
+ */
+export function zonedTimeToUtc(time: WallClockTime, timeZone: string): Date {
+  const asUtc = Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute);
+  let instant = asUtc - offsetMs(new Date(asUtc), timeZone);
+  const corrected = asUtc - offsetMs(new Date(instant), timeZone);
+  if (corrected !== instant && offsetMs(new Date(corrected), timeZone) === asUtc - corrected) {
+    instant = corrected;
+  }
+  return new Date(instant);
+}
+
+/** How far the time zone's wall clock is ahead of UTC at an instant. */
+function offsetMs(date: Date, timeZone: string): number {
+  const wall = wallClock(date, timeZone);
+  const wallAsUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  const utcMinute = Math.floor(date.getTime() / 60_000) * 60_000;
+  return wallAsUtc - utcMinute;
+}
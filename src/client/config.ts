@@ -2,7 +2,9 @@
  * Configuration loader — reads settings from environment variables.
  */
 
-import type { RingToolConfig } from "../types/index.js";
+import { loadAccessProfile } from "../policy/access-profile.js";
+import { loadPolicyFile } from "../policy/action-policy.js";
+import type { AutoSnapshotTrigger, RingToolConfig } from "../types/index.js";
 
 export function loadConfigFromEnv(): RingToolConfig {
   const refreshToken = process.env.RING_REFRESH_TOKEN ?? "";
@@ -16,6 +18,7 @@ export function loadConfigFromEnv(): RingToolConfig {
     cameraStatusPollingSeconds: optionalInt(process.env.RING_CAMERA_POLL_SECONDS, 30),
     locationModePollingSeconds: optionalInt(process.env.RING_LOCATION_POLL_SECONDS),
     debug: process.env.RING_DEBUG === "true",
+    dryRun: process.env.RING_DRY_RUN === "true",
     eventLogMaxSize: optionalInt(process.env.EVENT_LOG_MAX_SIZE, 1000),
     eventLogFile: process.env.EVENT_LOG_FILE ?? "./ring-events.log",
     databasePath: process.env.RING_DATABASE_PATH ?? "./ring-data.db",
@@ -26,6 +29,52 @@ export function loadConfigFromEnv(): RingToolConfig {
     crawlPageSize: optionalInt(process.env.RING_CRAWL_PAGE_SIZE, 50),
     crawlVideoWindowDays: optionalInt(process.env.RING_CRAWL_VIDEO_WINDOW_DAYS, 7),
     crawlIncrementalIntervalMinutes: optionalInt(process.env.RING_CRAWL_INCREMENTAL_MINUTES, 15),
+    mediaDirectory: process.env.RING_MEDIA_DIR ?? "./ring-media",
+    snapshotDirectory: process.env.RING_SNAPSHOT_DIR ?? "./ring-snapshots",
+    snapshotMaxSize: optionalInt(process.env.RING_SNAPSHOT_MAX_SIZE, 10000),
+    temperatureHighC: optionalFloat(process.env.RING_TEMPERATURE_HIGH_C),
+    temperatureLowC: optionalFloat(process.env.RING_TEMPERATURE_LOW_C),
+    eventDedupWindowSec: optionalInt(process.env.RING_EVENT_DEDUP_WINDOW_SEC, 10),
+    healthPollIntervalMinutes: optionalInt(process.env.RING_HEALTH_POLL_MINUTES, 15),
+    batteryThresholds: process.env.RING_BATTERY_THRESHOLDS
+      ? process.env.RING_BATTERY_THRESHOLDS.split(",")
+          .map((t) => parseInt(t.trim(), 10))
+          .filter((t) => !isNaN(t))
+      : undefined,
+    webhooks: {
+      maxAttempts: optionalInt(process.env.RING_WEBHOOK_MAX_ATTEMPTS, 5),
+      timeoutMs: optionalInt(process.env.RING_WEBHOOK_TIMEOUT_MS, 10000),
+      concurrency: optionalInt(process.env.RING_WEBHOOK_CONCURRENCY, 4),
+      historyMaxSize: optionalInt(process.env.RING_WEBHOOK_HISTORY_MAX_SIZE, 10000),
+    },
+    mqtt: process.env.RING_MQTT_URL
+      ? {
+          url: process.env.RING_MQTT_URL,
+          username: process.env.RING_MQTT_USERNAME || undefined,
+          password: process.env.RING_MQTT_PASSWORD || undefined,
+          topicPrefix: process.env.RING_MQTT_TOPIC_PREFIX || undefined,
+          discovery: process.env.RING_MQTT_DISCOVERY !== "false",
+          discoveryPrefix: process.env.RING_MQTT_DISCOVERY_PREFIX || undefined,
+          stateIntervalSec: optionalInt(process.env.RING_MQTT_STATE_INTERVAL_SEC, 300),
+        }
+      : undefined,
+    scheduler: {
+      latitude: optionalFloat(process.env.RING_LATITUDE),
+      longitude: optionalFloat(process.env.RING_LONGITUDE),
+      timeZone: process.env.RING_TIMEZONE || undefined,
+    },
+    policy: process.env.RING_POLICY_FILE ? loadPolicyFile(process.env.RING_POLICY_FILE) : undefined,
+    accessProfile: process.env.RING_ACCESS_PROFILE
+      ? loadAccessProfile(process.env.RING_ACCESS_PROFILES_FILE, process.env.RING_ACCESS_PROFILE)
+      : undefined,
+    autoSnapshot: {
+      eventTypes: process.env.RING_AUTO_SNAPSHOT_EVENTS
+        ? (process.env.RING_AUTO_SNAPSHOT_EVENTS.split(",")
+            .map((t) => t.trim())
+            .filter((t) => t === "motion" || t === "doorbell_press") as AutoSnapshotTrigger[])
+        : undefined,
+      minIntervalSec: optionalInt(process.env.RING_AUTO_SNAPSHOT_INTERVAL_SEC, 60),
+    },
   };
 }
 
@@ -37,3 +86,12 @@ function optionalInt(
   const parsed = parseInt(value, 10);
   return isNaN(parsed) ? defaultValue : parsed;
 }
+
+function optionalFloat(
+  value: string | undefined,
+  defaultValue?: number
+): number | undefined {
+  if (value === undefined || value === "") return defaultValue;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? defaultValue : parsed;
+}
@@ -5,7 +5,7 @@
  * access to Ring locations, cameras, and devices.
  */
 
-import { RingApi, RingCamera, RingDevice, Location } from "ring-client-api";
+import { RingApi, RingCamera, RingChime, RingIntercom, RingDevice, Location } from "ring-client-api";
 import { writeFileSync, readFileSync, existsSync } from "node:fs";
 import { resolve } from "node:path";
 import type { RingToolConfig } from "../types/index.js";
@@ -81,6 +81,26 @@ export class RingClient {
     return cameras.find((c) => String(c.id) === String(cameraId));
   }
 
+  // ── Chimes & Intercoms ──
+
+  async getChimeById(chimeId: string): Promise<RingChime | undefined> {
+    const locations = await this.getLocations();
+    for (const loc of locations) {
+      const chime = (loc.chimes ?? []).find((c) => String(c.id) === String(chimeId));
+      if (chime) return chime;
+    }
+    return undefined;
+  }
+
+  async getIntercomById(intercomId: string): Promise<RingIntercom | undefined> {
+    const locations = await this.getLocations();
+    for (const loc of locations) {
+      const intercom = (loc.intercoms ?? []).find((i) => String(i.id) === String(intercomId));
+      if (intercom) return intercom;
+    }
+    return undefined;
+  }
+
   // ── Devices (alarm/lighting/sensors) ──
 
   async getDevicesAtLocation(locationId: string): Promise<RingDevice[]> {
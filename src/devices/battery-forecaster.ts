@@ -0,0 +1,132 @@
+/**
+ * Battery forecaster — fits a linear discharge trend to each device's
+ * battery readings and predicts when it will reach a threshold.
+ *
+ * Readings are split into discharge segments wherever the level jumps
+ * up (a recharge or battery swap); only the latest segment is fitted,
+ * so a fresh battery is not averaged with the one it replaced.
+ */
+
+import type { DeviceHealthStore } from "../storage/device-health-store.js";
+import type { BatteryForecast, DeviceHealthSample } from "../types/index.js";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface BatteryForecastOptions {
+  /** Battery percentage to forecast. Default: 10 */
+  thresholdPercent?: number;
+  /** Rise in percentage points between readings treated as a recharge. Default: 5 */
+  rechargeJumpPercent?: number;
+  /** Only readings from the last N days are considered. Default: 90 */
+  lookbackDays?: number;
+}
+
+export class BatteryForecaster {
+  constructor(private store: DeviceHealthStore) {}
+
+  /** Forecast one device, or null if it has no battery readings. */
+  forecast(
+    deviceId: string,
+    options: BatteryForecastOptions = {},
+    now: Date = new Date()
+  ): BatteryForecast | null {
+    const lookbackDays = options.lookbackDays ?? 90;
+    const since = new Date(now.getTime() - lookbackDays * MS_PER_DAY).toISOString();
+    return forecastSeries(this.store.batterySeries(deviceId, since), options);
+  }
+
+  /** Forecast every device that has reported a battery level, soonest depletion first. */
+  forecastAll(options: BatteryForecastOptions = {}, now: Date = new Date()): BatteryForecast[] {
+    const forecasts: BatteryForecast[] = [];
+    for (const deviceId of this.store.batteryDeviceIds()) {
+      const forecast = this.forecast(deviceId, options, now);
+      if (forecast) forecasts.push(forecast);
+    }
+    return forecasts.sort(
+      (a, b) => (a.daysRemaining ?? Infinity) - (b.daysRemaining ?? Infinity)
+    );
+  }
+}
+
+/**
+ * Split readings (oldest first) into discharge segments at each recharge
+ * jump and return the latest segment.
+ */
+export function latestDischargeSegment(
+  samples: DeviceHealthSample[],
+  rechargeJumpPercent = 5
+): DeviceHealthSample[] {
+  let start = 0;
+  for (let i = 1; i < samples.length; i++) {
+    const rise = (samples[i].batteryLevel as number) - (samples[i - 1].batteryLevel as number);
+    if (rise >= rechargeJumpPercent) start = i;
+  }
+  return samples.slice(start);
+}
+
+/** Fit and forecast a battery series (oldest first). Returns null for an empty series. */
+export function forecastSeries(
+  samples: DeviceHealthSample[],
+  options: BatteryForecastOptions = {}
+): BatteryForecast | null {
+  const readings = samples.filter((s) => s.batteryLevel !== undefined);
+  if (readings.length === 0) return null;
+
+  const thresholdPercent = options.thresholdPercent ?? 10;
+  const segment = latestDischargeSegment(readings, options.rechargeJumpPercent ?? 5);
+  const latest = segment[segment.length - 1];
+  const currentLevel = latest.batteryLevel as number;
+
+  const forecast: BatteryForecast = {
+    deviceId: latest.deviceId,
+    deviceName: latest.deviceName,
+    status: "ok",
+    currentLevel,
+    lastReadingAt: latest.recordedAt,
+    thresholdPercent,
+    segmentStartedAt: segment[0].recordedAt,
+    samplesUsed: segment.length,
+  };
+
+  if (currentLevel <= thresholdPercent) {
+    return { ...forecast, status: "below_threshold", daysRemaining: 0 };
+  }
+  if (segment.length < 2) {
+    return { ...forecast, status: "insufficient_data" };
+  }
+
+  // Least-squares fit of level against time (days since the segment start)
+  const t0 = Date.parse(segment[0].recordedAt);
+  const xs = segment.map((s) => (Date.parse(s.recordedAt) - t0) / MS_PER_DAY);
+  const ys = segment.map((s) => s.batteryLevel as number);
+  const n = segment.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+
+  let sxx = 0;
+  let sxy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - meanX) ** 2;
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+  }
+  const slope = sxx === 0 ? 0 : sxy / sxx;
+  if (slope >= 0) {
+    return { ...forecast, status: "not_discharging" };
+  }
+
+  const intercept = meanY - slope * meanX;
+  const thresholdDay = (thresholdPercent - intercept) / slope;
+  const predictedMs = t0 + thresholdDay * MS_PER_DAY;
+  const daysRemaining = Math.max(0, (predictedMs - Date.parse(latest.recordedAt)) / MS_PER_DAY);
+
+  return {
+    ...forecast,
+    dischargePerDay: round(-slope),
+    predictedAt: new Date(predictedMs).toISOString(),
+    daysRemaining: round(daysRemaining),
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -2,21 +2,189 @@
  * Device manager — enumerates, inspects, and controls Ring devices.
  */
 
-import type { RingCamera, RingDevice, Location } from "ring-client-api";
-import { RingDeviceType } from "ring-client-api";
+import type { RingCamera, RingChime, RingIntercom, RingDevice, Location } from "ring-client-api";
+import {
+  RingDeviceType,
+  RingDeviceCategory as RingApiDeviceCategory,
+} from "ring-client-api";
 import type { RingClient } from "../client/ring-client.js";
+import { MAX_CLIP_DURATION_SEC } from "../media/clip-recorder.js";
+import type { ClipRecorder } from "../media/clip-recorder.js";
 import type {
   RingDeviceInfo,
   RingLocationInfo,
   RingDeviceCategory,
   DeviceCapabilities,
   DeviceCommand,
+  DeviceAction,
   AlarmAction,
+  AlarmActionOptions,
+  AlarmActionResult,
   AlarmMode,
+  AlarmState,
+  FaultedSensor,
+  LockState,
+  ThermostatMode,
+  ThermostatState,
+  LightState,
 } from "../types/index.js";
 
+const THERMOSTAT_MODES: ThermostatMode[] = ["heat", "cool", "off", "aux"];
+
+/** Ring Smart Lighting (Beams) device types that act as controllable lights. */
+const BEAMS_LIGHT_TYPES: string[] = [
+  RingDeviceType.BeamsSwitch,
+  RingDeviceType.BeamsMultiLevelSwitch,
+  RingDeviceType.BeamsLightGroupSwitch,
+  RingDeviceType.BeamsTransformerSwitch,
+];
+
+/** Capabilities of a device that supports none of the optional features. */
+const NO_CAPABILITIES: DeviceCapabilities = {
+  hasLight: false,
+  hasSiren: false,
+  hasLock: false,
+  hasThermostat: false,
+  hasCamera: false,
+  hasBattery: false,
+  supportsMotionDetection: false,
+  supportsDoorbellPress: false,
+  supportsSnapshot: false,
+  supportsVideo: false,
+  supportsAlarm: false,
+  supportsMotionDetectionToggle: false,
+  supportsPrivacyMode: false,
+  supportsMotionSnooze: false,
+  supportsMotionSensitivity: false,
+};
+
+/** The mode each alarm action leaves a location in. */
+const ALARM_ACTION_MODES: Record<AlarmAction, AlarmMode> = {
+  arm_home: "some",
+  arm_away: "all",
+  disarm: "none",
+};
+
+/** Ring caps motion and chime snoozes at 24 hours. */
+const MAX_MOTION_SNOOZE_MINUTES = 24 * 60;
+
+/** Motion sensitivity levels, least to most sensitive. */
+const MIN_MOTION_SENSITIVITY = 1;
+const MAX_MOTION_SENSITIVITY = 10;
+
+/** Ring rejects light durations longer than this many seconds. */
+const MAX_BEAMS_DURATION_SECONDS = 32767;
+
+/** Whether a hub device type is a Ring Smart Lighting (Beams) light or light group. */
+export function isBeamsLight(deviceType: string | undefined): boolean {
+  return deviceType !== undefined && BEAMS_LIGHT_TYPES.includes(deviceType);
+}
+
+/** The parameters of each action that takes any, validated and with defaults applied. */
+interface CommandParameters {
+  turn_light_on: { duration?: number };
+  record_clip: { duration: number };
+  get_recording_url: { dingId: string };
+  set_motion_detection: { enabled: boolean };
+  set_privacy_mode: { enabled: boolean; motionDetection: boolean };
+  snooze_motion_alerts: { minutes: number };
+  set_motion_sensitivity: { sensitivity: number };
+  set_volume: { volume: number };
+  snooze_chime: { minutes: number };
+  play_test_sound: { kind: "ding" | "motion" };
+  set_light_brightness: { brightness: number };
+  set_thermostat_mode: { mode: ThermostatMode };
+  set_thermostat_setpoint: { setpoint: number };
+}
+
+type ParameterizedAction = keyof CommandParameters & DeviceAction;
+
+/**
+ * Parameter checks shared by executeCommand and simulateCommand, so a dry
+ * run rejects exactly the commands the real one would. Checks that need
+ * the device (chime volume, setpoint range) are the helpers below.
+ */
+const PARAMETER_VALIDATORS: {
+  [A in ParameterizedAction]: (parameters: Record<string, unknown>) => CommandParameters[A];
+} = {
+  turn_light_on: ({ duration }) => {
+    if (duration !== undefined && (typeof duration !== "number" || !(duration > 0))) {
+      throw new Error("duration must be a positive number of seconds");
+    }
+    return { duration };
+  },
+  record_clip: ({ duration = 30 }) => {
+    if (typeof duration !== "number" || !Number.isFinite(duration) || duration <= 0 || duration > MAX_CLIP_DURATION_SEC) {
+      throw new Error(`duration must be between 1 and ${MAX_CLIP_DURATION_SEC} seconds`);
+    }
+    return { duration };
+  },
+  get_recording_url: ({ dingId }) => {
+    if (typeof dingId !== "string" || !dingId) throw new Error("dingId parameter is required for get_recording_url");
+    return { dingId };
+  },
+  set_motion_detection: ({ enabled }) => ({ enabled: requireEnabled(enabled) }),
+  set_privacy_mode: ({ enabled, motionDetection }) => {
+    const privacy = requireEnabled(enabled);
+    const motion = motionDetection ?? !privacy;
+    if (typeof motion !== "boolean") throw new Error("motionDetection parameter must be true or false");
+    return { enabled: privacy, motionDetection: motion };
+  },
+  snooze_motion_alerts: ({ minutes }) => ({ minutes: requireSnoozeMinutes(minutes) }),
+  set_motion_sensitivity: ({ sensitivity }) => ({ sensitivity: requireMotionSensitivity(sensitivity) }),
+  set_volume: ({ volume }) => {
+    if (typeof volume !== "number" || !(volume >= 0)) {
+      throw new Error("volume parameter is required (0-1, or 0-11 for chimes)");
+    }
+    return { volume };
+  },
+  snooze_chime: ({ minutes }) => ({ minutes: requireSnoozeMinutes(minutes) }),
+  play_test_sound: ({ kind = "ding" }) => {
+    if (kind !== "ding" && kind !== "motion") throw new Error("kind parameter must be 'ding' or 'motion'");
+    return { kind };
+  },
+  set_light_brightness: ({ brightness }) => {
+    if (typeof brightness !== "number" || brightness < 0 || brightness > 100) {
+      throw new Error("brightness parameter is required (0-100)");
+    }
+    return { brightness };
+  },
+  set_thermostat_mode: ({ mode }) => {
+    if (!THERMOSTAT_MODES.includes(mode as ThermostatMode)) {
+      throw new Error(`mode parameter is required (${THERMOSTAT_MODES.join(", ")})`);
+    }
+    return { mode: mode as ThermostatMode };
+  },
+  set_thermostat_setpoint: ({ setpoint }) => {
+    if (typeof setpoint !== "number") throw new Error("setpoint parameter is required (degrees Celsius)");
+    return { setpoint };
+  },
+};
+
+function validateParameters<A extends ParameterizedAction>(
+  action: A,
+  parameters: Record<string, unknown> = {}
+): CommandParameters[A] {
+  return PARAMETER_VALIDATORS[action](parameters);
+}
+
 export class DeviceManager {
-  constructor(private client: RingClient) {}
+  /**
+   * When each motion snooze set through this tool ends, by camera ID.
+   * Ring reports only whether a camera is snoozed, not for how long.
+   */
+  private motionSnoozeEnds = new Map<string, number>();
+
+  /**
+   * The mode and bypassed sensors of the last alarm change made through
+   * this tool, by location ID. Ring does not report bypassed sensors.
+   */
+  private alarmChanges = new Map<string, AlarmState>();
+
+  constructor(
+    private client: RingClient,
+    private clipRecorder?: ClipRecorder
+  ) {}
 
   // ── Locations ──
 
@@ -34,12 +202,14 @@ export class DeviceManager {
         }
       }
       const cameras = loc.cameras ?? [];
+      const chimes = loc.chimes ?? [];
+      const intercoms = loc.intercoms ?? [];
       results.push({
         id: loc.id,
         name: loc.name,
         alarmMode,
         hasAlarm: loc.hasHubs,
-        deviceCount: cameras.length,
+        deviceCount: cameras.length + chimes.length + intercoms.length,
         cameraCount: cameras.length,
       });
     }
@@ -59,12 +229,20 @@ export class DeviceManager {
         devices.push(this.cameraToDeviceInfo(cam, loc));
       }
 
+      // Chimes and Intercoms
+      for (const chime of loc.chimes ?? []) {
+        devices.push(this.chimeToDeviceInfo(chime, loc));
+      }
+      for (const intercom of loc.intercoms ?? []) {
+        devices.push(this.intercomToDeviceInfo(intercom, loc));
+      }
+
       // Alarm and smart-home devices
       if (loc.hasHubs) {
         try {
           const ringDevices = await loc.getDevices();
           for (const dev of ringDevices) {
-            devices.push(this.ringDeviceToDeviceInfo(dev, loc));
+            devices.push(this.ringDeviceToDeviceInfo(dev, loc, ringDevices));
           }
         } catch {
           // Location may not have accessible devices
@@ -82,33 +260,47 @@ export class DeviceManager {
 
   // ── Device Control ──
 
+  /**
+   * Validate a command against the device's capabilities and parameters
+   * and return the result it would produce, without sending it.
+   */
+  async simulateCommand(command: DeviceCommand): Promise<Record<string, unknown>> {
+    const device = await this.getDevice(command.deviceId);
+    return simulateCommand(command, device, { clipRecording: this.clipRecorder !== undefined });
+  }
+
   async executeCommand(command: DeviceCommand): Promise<Record<string, unknown>> {
     const camera = await this.client.getCameraById(command.deviceId);
 
     switch (command.action) {
-      case "turn_light_on": {
-        if (!camera) throw new Error(`Camera/light not found: ${command.deviceId}`);
-        if (!camera.hasLight) throw new Error(`Device ${command.deviceId} has no light`);
-        await camera.setLight(true);
-        return { success: true, action: "turn_light_on", deviceId: command.deviceId };
-      }
+      case "turn_light_on":
       case "turn_light_off": {
-        if (!camera) throw new Error(`Camera/light not found: ${command.deviceId}`);
+        const on = command.action === "turn_light_on";
+        const duration = on ? validateParameters("turn_light_on", command.parameters).duration : undefined;
+        if (!camera) {
+          const light = await this.findRingDevice(command.deviceId);
+          if (light && this.classifyDeviceType(light) === "light") {
+            return this.setBeamsLight(light, on, duration);
+          }
+          throw new Error(`Camera/light not found: ${command.deviceId}`);
+        }
         if (!camera.hasLight) throw new Error(`Device ${command.deviceId} has no light`);
-        await camera.setLight(false);
-        return { success: true, action: "turn_light_off", deviceId: command.deviceId };
+        await camera.setLight(on);
+        return { success: true, action: command.action, deviceId: command.deviceId };
       }
       case "enable_siren": {
         if (!camera) throw new Error(`Camera not found: ${command.deviceId}`);
         if (!camera.hasSiren) throw new Error(`Device ${command.deviceId} has no siren`);
+        const previousValue = isSirenOn(camera);
         await camera.setSiren(true);
-        return { success: true, action: "enable_siren", deviceId: command.deviceId };
+        return { success: true, action: "enable_siren", deviceId: command.deviceId, previousValue };
       }
       case "disable_siren": {
         if (!camera) throw new Error(`Camera not found: ${command.deviceId}`);
         if (!camera.hasSiren) throw new Error(`Device ${command.deviceId} has no siren`);
+        const previousValue = isSirenOn(camera);
         await camera.setSiren(false);
-        return { success: true, action: "disable_siren", deviceId: command.deviceId };
+        return { success: true, action: "disable_siren", deviceId: command.deviceId, previousValue };
       }
       case "capture_snapshot": {
         if (!camera) throw new Error(`Camera not found: ${command.deviceId}`);
@@ -121,6 +313,13 @@ export class DeviceManager {
           mimeType: "image/jpeg",
         };
       }
+      case "record_clip": {
+        const { duration } = validateParameters("record_clip", command.parameters);
+        if (!camera) throw new Error(`Camera not found: ${command.deviceId}`);
+        if (!this.clipRecorder) throw new Error("Clip recording is not configured");
+        const clip = await this.clipRecorder.record(camera, duration);
+        return { success: true, action: "record_clip", ...clip };
+      }
       case "get_health": {
         if (!camera) throw new Error(`Camera not found: ${command.deviceId}`);
         const health = await camera.getHealth();
@@ -132,9 +331,8 @@ export class DeviceManager {
         };
       }
       case "get_recording_url": {
+        const { dingId } = validateParameters("get_recording_url", command.parameters);
         if (!camera) throw new Error(`Camera not found: ${command.deviceId}`);
-        const dingId = command.parameters?.dingId as string | undefined;
-        if (!dingId) throw new Error("dingId parameter is required for get_recording_url");
         const url = await camera.getRecordingUrl(dingId);
         return {
           success: true,
@@ -143,21 +341,187 @@ export class DeviceManager {
           recordingUrl: url,
         };
       }
+      case "get_motion_settings": {
+        if (!camera) throw new Error(`Camera not found: ${command.deviceId}`);
+        return {
+          success: true,
+          action: "get_motion_settings",
+          deviceId: command.deviceId,
+          ...(await this.readMotionSettings(camera)),
+        };
+      }
+      case "set_motion_detection": {
+        const { enabled } = validateParameters("set_motion_detection", command.parameters);
+        if (!camera) throw new Error(`Camera not found: ${command.deviceId}`);
+        const { motionDetectionEnabled } = await this.readMotionSettings(camera);
+        await camera.setDeviceSettings({ motion_settings: { motion_detection_enabled: enabled } });
+        return {
+          success: true,
+          action: "set_motion_detection",
+          deviceId: command.deviceId,
+          enabled,
+          previousValue: motionDetectionEnabled,
+        };
+      }
+      case "set_privacy_mode": {
+        const { enabled, motionDetection } = validateParameters("set_privacy_mode", command.parameters);
+        if (!camera) throw new Error(`Camera not found: ${command.deviceId}`);
+        const { privacyModeEnabled, motionDetectionEnabled } = await this.readMotionSettings(camera);
+        // Privacy mode blocks live view and stops motion detection/recording,
+        // unless motionDetection says otherwise (e.g. to restore the old setting)
+        await camera.setSettings({ live_view_disabled: enabled });
+        await camera.setDeviceSettings({ motion_settings: { motion_detection_enabled: motionDetection } });
+        return {
+          success: true,
+          action: "set_privacy_mode",
+          deviceId: command.deviceId,
+          enabled,
+          motionDetection,
+          previousValue: privacyModeEnabled,
+          previousMotionDetection: motionDetectionEnabled,
+        };
+      }
+      case "snooze_motion_alerts": {
+        const { minutes } = validateParameters("snooze_motion_alerts", command.parameters);
+        if (!camera) throw new Error(`Camera not found: ${command.deviceId}`);
+        const { motionSnoozeMinutesLeft } = await this.readMotionSettings(camera);
+        const restClient = this.client.getRingApi().restClient;
+        if (minutes === 0) {
+          await restClient.request({ method: "POST", url: camera.doorbotUrl("motion_snooze/clear") });
+          this.motionSnoozeEnds.delete(command.deviceId);
+        } else {
+          await restClient.request({
+            method: "POST",
+            url: camera.doorbotUrl("motion_snooze"),
+            json: { time: Math.round(minutes) },
+          });
+          this.motionSnoozeEnds.set(command.deviceId, Date.now() + Math.round(minutes) * 60_000);
+        }
+        camera.requestUpdate();
+        return {
+          success: true,
+          action: "snooze_motion_alerts",
+          deviceId: command.deviceId,
+          minutes,
+          // Minutes the replaced snooze had left (0: none); absent if it was set elsewhere
+          previousValue: motionSnoozeMinutesLeft,
+        };
+      }
+      case "set_motion_sensitivity": {
+        const { sensitivity } = validateParameters("set_motion_sensitivity", command.parameters);
+        if (!camera) throw new Error(`Camera not found: ${command.deviceId}`);
+        const { motionSensitivity } = await this.readMotionSettings(camera);
+        await camera.setSettings({ motion_zones: { sensitivity } });
+        return {
+          success: true,
+          action: "set_motion_sensitivity",
+          deviceId: command.deviceId,
+          sensitivity,
+          previousValue: motionSensitivity,
+        };
+      }
       case "set_volume": {
-        const volume = command.parameters?.volume as number | undefined;
-        if (volume === undefined) throw new Error("volume parameter is required (0-1)");
+        const { volume } = validateParameters("set_volume", command.parameters);
+        const chime = await this.client.getChimeById(command.deviceId);
+        if (chime) {
+          checkChimeVolume(volume);
+          const previousValue = chime.volume;
+          await chime.setVolume(volume);
+          return { success: true, action: "set_volume", deviceId: command.deviceId, volume, previousValue };
+        }
         // Volume control is on base stations / keypads which are RingDevices
-        const locations = await this.client.getLocations();
-        for (const loc of locations) {
-          if (!loc.hasHubs) continue;
-          const devices = await loc.getDevices();
-          const target = devices.find((d) => d.zid === command.deviceId);
-          if (target) {
-            await target.setVolume(volume);
-            return { success: true, action: "set_volume", deviceId: command.deviceId, volume };
-          }
+        const target = await this.findRingDevice(command.deviceId);
+        if (!target) throw new Error(`Device not found for volume control: ${command.deviceId}`);
+        const previousValue = target.data?.volume;
+        await target.setVolume(volume);
+        return { success: true, action: "set_volume", deviceId: command.deviceId, volume, previousValue };
+      }
+      case "snooze_chime": {
+        const { minutes } = validateParameters("snooze_chime", command.parameters);
+        const chime = await this.client.getChimeById(command.deviceId);
+        if (!chime) throw new Error(`Chime not found: ${command.deviceId}`);
+        const previousValue = Math.ceil((chime.data.do_not_disturb?.seconds_left ?? 0) / 60);
+        if (minutes === 0) {
+          await chime.clearSnooze();
+        } else {
+          await chime.snooze(Math.round(minutes));
+        }
+        return { success: true, action: "snooze_chime", deviceId: command.deviceId, minutes, previousValue };
+      }
+      case "play_test_sound": {
+        const { kind } = validateParameters("play_test_sound", command.parameters);
+        const chime = await this.client.getChimeById(command.deviceId);
+        if (!chime) throw new Error(`Chime not found: ${command.deviceId}`);
+        await chime.playSound(kind);
+        return { success: true, action: "play_test_sound", deviceId: command.deviceId, kind };
+      }
+      case "unlock_door": {
+        const intercom = await this.client.getIntercomById(command.deviceId);
+        if (!intercom) throw new Error(`Intercom not found: ${command.deviceId}`);
+        await intercom.unlock();
+        return { success: true, action: "unlock_door", deviceId: command.deviceId };
+      }
+      case "lock":
+      case "unlock": {
+        const lock = await this.findRingDevice(command.deviceId);
+        if (!lock) throw new Error(`Lock not found: ${command.deviceId}`);
+        if (this.classifyDeviceType(lock) !== "lock") {
+          throw new Error(`Device ${command.deviceId} is not a lock`);
+        }
+        const previousState = toLockState(lock.data?.locked);
+        lock.sendCommand(command.action === "lock" ? "lock.lock" : "lock.unlock");
+        return {
+          success: true,
+          action: command.action,
+          deviceId: command.deviceId,
+          previousValue: previousState,
+        };
+      }
+      case "set_light_brightness": {
+        const { brightness } = validateParameters("set_light_brightness", command.parameters);
+        const light = await this.findRingDevice(command.deviceId);
+        if (!light || this.classifyDeviceType(light) !== "light") {
+          throw new Error(`Light not found: ${command.deviceId}`);
         }
-        throw new Error(`Device not found for volume control: ${command.deviceId}`);
+        if (light.data?.level === undefined) {
+          throw new Error(`Device ${command.deviceId} is not dimmable`);
+        }
+        const previousBrightness = Math.round(light.data.level * 100);
+        await light.setInfo({ device: { v1: { level: brightness / 100 } } });
+        return {
+          success: true,
+          action: "set_light_brightness",
+          deviceId: command.deviceId,
+          brightness,
+          previousValue: previousBrightness,
+        };
+      }
+      case "set_thermostat_mode": {
+        const { mode } = validateParameters("set_thermostat_mode", command.parameters);
+        const thermostat = await this.findThermostat(command.deviceId);
+        const previousMode = thermostat.data?.mode;
+        await thermostat.setInfo({ device: { v1: { mode } } });
+        return {
+          success: true,
+          action: "set_thermostat_mode",
+          deviceId: command.deviceId,
+          mode,
+          previousValue: previousMode,
+        };
+      }
+      case "set_thermostat_setpoint": {
+        const { setpoint } = validateParameters("set_thermostat_setpoint", command.parameters);
+        const thermostat = await this.findThermostat(command.deviceId);
+        const { setPoint, setPointMin, setPointMax } = thermostat.data ?? {};
+        checkSetpointRange(setpoint, setPointMin, setPointMax);
+        await thermostat.setInfo({ device: { v1: { setPoint: setpoint } } });
+        return {
+          success: true,
+          action: "set_thermostat_setpoint",
+          deviceId: command.deviceId,
+          setpoint,
+          previousValue: setPoint,
+        };
       }
       default:
         throw new Error(`Unknown action: ${command.action}`);
@@ -166,24 +530,76 @@ export class DeviceManager {
 
   // ── Alarm Control ──
 
-  async setAlarmMode(locationId: string, action: AlarmAction): Promise<Record<string, unknown>> {
+  /**
+   * Change the alarm mode. Arming first checks for faulted sensors: any
+   * that are not listed in `bypassSensorIds` abort the arm with an error
+   * naming them, rather than letting Ring reject it with a generic failure.
+   */
+  async setAlarmMode(
+    locationId: string,
+    action: AlarmAction,
+    options: AlarmActionOptions = {}
+  ): Promise<AlarmActionResult> {
     const location = await this.client.getLocationById(locationId);
     if (!location) throw new Error(`Location not found: ${locationId}`);
     if (!location.hasHubs) throw new Error(`Location ${locationId} has no alarm system`);
 
+    const devices = await location.getDevices();
+    const faultedSensors = this.findFaultedSensors(devices);
+    const bypassedSensorIds = planAlarmChange(
+      action,
+      options,
+      faultedSensors,
+      devices.map((d) => d.zid)
+    );
+
+    const bypass = bypassedSensorIds.length > 0 ? bypassedSensorIds : undefined;
     switch (action) {
       case "arm_home":
-        await location.armHome();
+        await location.armHome(bypass);
         break;
       case "arm_away":
-        await location.armAway();
+        await location.armAway(bypass);
         break;
       case "disarm":
         await location.disarm();
         break;
     }
+    this.alarmChanges.set(locationId, { mode: ALARM_ACTION_MODES[action], bypassedSensorIds });
+
+    return { success: true, locationId, action, faultedSensors, bypassedSensorIds };
+  }
+
+  /**
+   * Run the checks setAlarmMode makes and return the result it would
+   * produce, without changing the alarm.
+   */
+  async simulateAlarmMode(
+    locationId: string,
+    action: AlarmAction,
+    options: AlarmActionOptions = {}
+  ): Promise<AlarmActionResult> {
+    const location = await this.client.getLocationById(locationId);
+    if (!location) throw new Error(`Location not found: ${locationId}`);
+    if (!location.hasHubs) throw new Error(`Location ${locationId} has no alarm system`);
 
-    return { success: true, locationId, action };
+    const devices = await location.getDevices();
+    const faultedSensors = this.findFaultedSensors(devices);
+    const bypassedSensorIds = planAlarmChange(
+      action,
+      options,
+      faultedSensors,
+      devices.map((d) => d.zid)
+    );
+    return { success: true, locationId, action, faultedSensors, bypassedSensorIds, simulated: true };
+  }
+
+  /** List alarm sensors at a location that are currently faulted (e.g., open doors). */
+  async getFaultedSensors(locationId: string): Promise<FaultedSensor[]> {
+    const location = await this.client.getLocationById(locationId);
+    if (!location) throw new Error(`Location not found: ${locationId}`);
+    if (!location.hasHubs) throw new Error(`Location ${locationId} has no alarm system`);
+    return this.findFaultedSensors(await location.getDevices());
   }
 
   async getAlarmMode(locationId: string): Promise<AlarmMode> {
@@ -193,8 +609,117 @@ export class DeviceManager {
     return location.getAlarmMode();
   }
 
+  /**
+   * The alarm mode and bypassed sensors. Bypasses are those passed when
+   * this tool set the current mode; if it was set elsewhere, they are the
+   * sensors faulted now, since Ring only arms over a faulted sensor that
+   * is bypassed.
+   */
+  async getAlarmState(locationId: string): Promise<AlarmState> {
+    const location = await this.client.getLocationById(locationId);
+    if (!location) throw new Error(`Location not found: ${locationId}`);
+    if (!location.hasHubs) throw new Error(`Location ${locationId} has no alarm system`);
+
+    const mode = await location.getAlarmMode();
+    if (mode === "none") return { mode, bypassedSensorIds: [] };
+    const change = this.alarmChanges.get(locationId);
+    if (change?.mode === mode) return { mode, bypassedSensorIds: [...change.bypassedSensorIds] };
+    const faulted = this.findFaultedSensors(await location.getDevices());
+    return { mode, bypassedSensorIds: faulted.map((s) => s.id) };
+  }
+
   // ── Helpers ──
 
+  /** Find an alarm/smart-home device by zid across all hub locations. */
+  private async findRingDevice(deviceId: string): Promise<RingDevice | undefined> {
+    const locations = await this.client.getLocations();
+    for (const loc of locations) {
+      if (!loc.hasHubs) continue;
+      const devices = await loc.getDevices();
+      const target = devices.find((d) => d.zid === deviceId);
+      if (target) return target;
+    }
+    return undefined;
+  }
+
+  private async readMotionSettings(camera: RingCamera): Promise<{
+    motionDetectionEnabled: boolean | undefined;
+    privacyModeEnabled: boolean;
+    motionSnoozed: boolean;
+    motionSnoozeMinutesLeft: number | undefined;
+    motionSensitivity: number | undefined;
+  }> {
+    const deviceSettings = await camera.getDeviceSettings();
+    const motionSnoozed = camera.data.motion_snooze !== null && camera.data.motion_snooze !== undefined;
+    let snoozeEnd = this.motionSnoozeEnds.get(String(camera.id));
+    if (!motionSnoozed || (snoozeEnd !== undefined && snoozeEnd <= Date.now())) {
+      this.motionSnoozeEnds.delete(String(camera.id));
+      snoozeEnd = undefined;
+    }
+    return {
+      motionDetectionEnabled: deviceSettings.motion_settings?.motion_detection_enabled,
+      privacyModeEnabled: camera.data.settings?.live_view_disabled === true,
+      motionSnoozed,
+      motionSnoozeMinutesLeft: !motionSnoozed
+        ? 0
+        : snoozeEnd !== undefined
+          ? Math.ceil((snoozeEnd - Date.now()) / 60_000)
+          : undefined,
+      motionSensitivity: camera.data.settings?.motion_zones?.sensitivity,
+    };
+  }
+
+  private findFaultedSensors(devices: RingDevice[]): FaultedSensor[] {
+    return devices
+      .filter((d) => d.data?.faulted === true)
+      .map((d) => ({
+        id: d.zid,
+        name: d.name,
+        type: this.classifyDeviceType(d),
+        deviceType: d.data.deviceType,
+      }));
+  }
+
+  /**
+   * Switch a Beams light or light group. Groups are driven through the
+   * location so every member light changes together; `duration` keeps the
+   * light on for that many seconds before it returns to its default mode.
+   */
+  private async setBeamsLight(
+    light: RingDevice,
+    on: boolean,
+    duration?: number
+  ): Promise<Record<string, unknown>> {
+    const seconds =
+      on && duration !== undefined
+        ? Math.max(1, Math.min(Math.round(duration), MAX_BEAMS_DURATION_SECONDS))
+        : undefined;
+
+    if (light.data?.deviceType === RingDeviceType.BeamsLightGroupSwitch && light.data.groupId) {
+      await light.location.setLightGroup(light.data.groupId, on, seconds);
+    } else if (on) {
+      light.sendCommand("light-mode.set", seconds ? { lightMode: "on", duration: seconds } : { lightMode: "on" });
+    } else {
+      light.sendCommand("light-mode.set", { lightMode: "default" });
+    }
+
+    return {
+      success: true,
+      action: on ? "turn_light_on" : "turn_light_off",
+      deviceId: light.zid,
+      durationSeconds: seconds,
+    };
+  }
+
+  private async findThermostat(deviceId: string): Promise<RingDevice> {
+    const thermostat = await this.findRingDevice(deviceId);
+    if (!thermostat) throw new Error(`Thermostat not found: ${deviceId}`);
+    if (this.classifyDeviceType(thermostat) !== "thermostat") {
+      throw new Error(`Device ${deviceId} is not a thermostat`);
+    }
+    return thermostat;
+  }
+
   private cameraToDeviceInfo(camera: RingCamera, location: Location): RingDeviceInfo {
     return {
       id: String(camera.id),
@@ -202,11 +727,15 @@ export class DeviceManager {
       type: camera.isDoorbot ? "doorbell" : "camera",
       locationId: location.id,
       locationName: location.name,
-      online: true, // cameras in the list are considered reachable
+      online: !camera.isOffline,
       batteryLevel: camera.batteryLevel ?? undefined,
+      lightState:
+        camera.hasLight && camera.data.led_status ? { on: camera.data.led_status === "on" } : undefined,
       capabilities: {
         hasLight: camera.hasLight,
         hasSiren: camera.hasSiren,
+        hasLock: false,
+        hasThermostat: false,
         hasCamera: true,
         hasBattery: camera.batteryLevel !== null,
         supportsMotionDetection: true,
@@ -214,28 +743,81 @@ export class DeviceManager {
         supportsSnapshot: true,
         supportsVideo: true,
         supportsAlarm: false,
+        supportsMotionDetectionToggle: true,
+        supportsPrivacyMode: true,
+        supportsMotionSnooze: true,
+        supportsMotionSensitivity: true,
       },
     };
   }
 
-  private ringDeviceToDeviceInfo(device: RingDevice, location: Location): RingDeviceInfo {
+  private chimeToDeviceInfo(chime: RingChime, location: Location): RingDeviceInfo {
+    return {
+      id: String(chime.id),
+      name: chime.name,
+      type: "chime",
+      locationId: location.id,
+      locationName: location.name,
+      online: chime.data.alerts?.connection !== "offline",
+      firmwareVersion: chime.data.firmware_version,
+      capabilities: { ...NO_CAPABILITIES },
+    };
+  }
+
+  private intercomToDeviceInfo(intercom: RingIntercom, location: Location): RingDeviceInfo {
+    return {
+      id: String(intercom.id),
+      name: intercom.name,
+      type: "intercom",
+      locationId: location.id,
+      locationName: location.name,
+      online: !intercom.isOffline,
+      batteryLevel: intercom.batteryLevel ?? undefined,
+      firmwareVersion: intercom.data.firmware_version,
+      capabilities: {
+        ...NO_CAPABILITIES,
+        hasLock: true,
+        hasBattery: intercom.batteryLevel !== null,
+        supportsDoorbellPress: true,
+      },
+    };
+  }
+
+  private ringDeviceToDeviceInfo(
+    device: RingDevice,
+    location: Location,
+    siblings: RingDevice[] = []
+  ): RingDeviceInfo {
+    const type = this.classifyDeviceType(device);
     return {
       id: device.zid,
       name: device.name,
-      type: this.classifyDeviceType(device),
+      type,
       locationId: location.id,
       locationName: location.name,
       online: device.data?.faulted !== true,
+      lockState: type === "lock" ? toLockState(device.data?.locked) : undefined,
+      thermostat: type === "thermostat" ? toThermostatState(device, siblings) : undefined,
+      lightState: type === "light" ? toLightState(device) : undefined,
       capabilities: {
-        hasLight: false,
+        hasLight: type === "light",
         hasSiren: device.data?.deviceType === RingDeviceType.BaseStation,
+        hasLock: type === "lock",
+        hasThermostat: type === "thermostat",
         hasCamera: false,
         hasBattery: device.data?.batteryLevel !== undefined,
-        supportsMotionDetection: device.data?.deviceType === RingDeviceType.MotionSensor,
+        supportsMotionDetection:
+          device.data?.deviceType === RingDeviceType.MotionSensor ||
+          device.data?.deviceType === RingDeviceType.BeamsMotionSensor ||
+          device.data?.motionStatus !== undefined,
         supportsDoorbellPress: false,
         supportsSnapshot: false,
         supportsVideo: false,
-        supportsAlarm: true,
+        supportsAlarm: !isBeams(device.data?.deviceType),
+        supportsMotionDetectionToggle: false,
+        supportsPrivacyMode: false,
+        supportsMotionSnooze: false,
+        supportsMotionSensitivity: false,
       },
       batteryLevel: device.data?.batteryLevel ?? undefined,
     };
@@ -247,11 +829,241 @@ export class DeviceManager {
     if (dt === RingDeviceType.Keypad) return "alarm_keypad";
     if (
       dt === RingDeviceType.ContactSensor ||
-      dt === RingDeviceType.MotionSensor
+      dt === RingDeviceType.MotionSensor ||
+      dt === RingDeviceType.BeamsMotionSensor
     ) {
       return "alarm_sensor";
     }
+    if (isBeamsLight(dt)) return "light";
     if (dt === RingDeviceType.RangeExtender) return "alarm_range_extender";
+    if (dt === RingDeviceType.Thermostat) return "thermostat";
+    // Z-Wave locks paired to the Alarm hub have no dedicated RingDeviceType;
+    // they report the Locks category and a "lock"-prefixed device type.
+    if (
+      device.data?.categoryId === RingApiDeviceCategory.Locks ||
+      (typeof dt === "string" && (dt as string).startsWith("lock"))
+    ) {
+      return "lock";
+    }
     return "unknown";
   }
 }
+
+/**
+ * The result a command would produce on a device, or the error it would
+ * fail with, worked out from the device's info alone. Previous values are
+ * reported where the info holds them (locks, light brightness, thermostats).
+ */
+export function simulateCommand(
+  command: DeviceCommand,
+  device: RingDeviceInfo | null,
+  options: { clipRecording: boolean }
+): Record<string, unknown> {
+  const { deviceId, action, parameters = {} } = command;
+  const result = { success: true, simulated: true, action, deviceId };
+  const camera = device?.capabilities.hasCamera ? device : null;
+  const requireCamera = (): RingDeviceInfo => {
+    if (!camera) throw new Error(`Camera not found: ${deviceId}`);
+    return camera;
+  };
+  const requireChime = (): RingDeviceInfo => {
+    if (device?.type !== "chime") throw new Error(`Chime not found: ${deviceId}`);
+    return device;
+  };
+  const requireThermostat = (): RingDeviceInfo => {
+    if (!device) throw new Error(`Thermostat not found: ${deviceId}`);
+    if (device.type !== "thermostat") throw new Error(`Device ${deviceId} is not a thermostat`);
+    return device;
+  };
+
+  switch (action) {
+    case "turn_light_on":
+    case "turn_light_off": {
+      const duration = action === "turn_light_on" ? validateParameters(action, parameters).duration : undefined;
+      if (device?.type === "light") {
+        const durationSeconds =
+          duration !== undefined
+            ? Math.max(1, Math.min(Math.round(duration), MAX_BEAMS_DURATION_SECONDS))
+            : undefined;
+        return { ...result, durationSeconds };
+      }
+      if (!camera) throw new Error(`Camera/light not found: ${deviceId}`);
+      if (!camera.capabilities.hasLight) throw new Error(`Device ${deviceId} has no light`);
+      return result;
+    }
+    case "enable_siren":
+    case "disable_siren":
+      if (!requireCamera().capabilities.hasSiren) throw new Error(`Device ${deviceId} has no siren`);
+      return result;
+    case "capture_snapshot":
+      requireCamera();
+      return { ...result, mimeType: "image/jpeg" };
+    case "record_clip": {
+      const { duration } = validateParameters(action, parameters);
+      const target = requireCamera();
+      if (!options.clipRecording) throw new Error("Clip recording is not configured");
+      return { ...result, deviceName: target.name, durationSec: Math.round(duration) };
+    }
+    case "get_health":
+    case "get_motion_settings":
+      requireCamera();
+      return result;
+    case "get_recording_url":
+      validateParameters(action, parameters);
+      requireCamera();
+      return result;
+    case "set_motion_detection":
+    case "set_privacy_mode":
+    case "snooze_motion_alerts":
+    case "set_motion_sensitivity": {
+      const validated = validateParameters(action, parameters);
+      requireCamera();
+      return { ...result, ...validated };
+    }
+    case "set_volume": {
+      const { volume } = validateParameters(action, parameters);
+      if (device?.type === "chime") checkChimeVolume(volume);
+      if (!device) throw new Error(`Device not found for volume control: ${deviceId}`);
+      return { ...result, volume };
+    }
+    case "snooze_chime":
+    case "play_test_sound": {
+      const validated = validateParameters(action, parameters);
+      requireChime();
+      return { ...result, ...validated };
+    }
+    case "unlock_door":
+      if (device?.type !== "intercom") throw new Error(`Intercom not found: ${deviceId}`);
+      return result;
+    case "lock":
+    case "unlock":
+      if (!device) throw new Error(`Lock not found: ${deviceId}`);
+      if (device.type !== "lock") throw new Error(`Device ${deviceId} is not a lock`);
+      return { ...result, previousValue: device.lockState ?? "unknown" };
+    case "set_light_brightness": {
+      const { brightness } = validateParameters(action, parameters);
+      if (device?.type !== "light") throw new Error(`Light not found: ${deviceId}`);
+      if (device.lightState?.brightness === undefined) throw new Error(`Device ${deviceId} is not dimmable`);
+      return { ...result, brightness, previousValue: device.lightState.brightness };
+    }
+    case "set_thermostat_mode": {
+      const { mode } = validateParameters(action, parameters);
+      return { ...result, mode, previousValue: requireThermostat().thermostat?.mode };
+    }
+    case "set_thermostat_setpoint": {
+      const { setpoint } = validateParameters(action, parameters);
+      const { setpointC, setpointMinC, setpointMaxC } = requireThermostat().thermostat ?? {};
+      checkSetpointRange(setpoint, setpointMinC, setpointMaxC);
+      return { ...result, setpoint, previousValue: setpointC };
+    }
+    default:
+      throw new Error(`Unknown action: ${action}`);
+  }
+}
+
+/**
+ * The sensors to bypass for an alarm change. Throws if a bypassed sensor
+ * is unknown, or if arming would be blocked by a faulted sensor that is
+ * not bypassed.
+ */
+export function planAlarmChange(
+  action: AlarmAction,
+  options: AlarmActionOptions,
+  faultedSensors: FaultedSensor[],
+  sensorIds: string[]
+): string[] {
+  const bypassedSensorIds = action === "disarm" ? [] : [...new Set(options.bypassSensorIds ?? [])];
+
+  const unknownIds = bypassedSensorIds.filter((id) => !sensorIds.includes(id));
+  if (unknownIds.length > 0) {
+    throw new Error(`Cannot bypass unknown sensor(s): ${unknownIds.join(", ")}`);
+  }
+
+  if (action !== "disarm") {
+    const blocking = faultedSensors.filter((s) => !bypassedSensorIds.includes(s.id));
+    if (blocking.length > 0) {
+      const names = blocking.map((s) => `${s.name} (${s.id})`).join(", ");
+      throw new Error(
+        `Cannot ${action}: faulted sensor(s) ${names}. Close them or pass their IDs as bypassSensorIds.`
+      );
+    }
+  }
+  return bypassedSensorIds;
+}
+
+function toLockState(locked: string | undefined): LockState {
+  if (locked === "locked" || locked === "unlocked" || locked === "jammed") return locked;
+  return "unknown";
+}
+
+function isSirenOn(camera: RingCamera): boolean {
+  return (camera.data.siren_status?.seconds_remaining ?? 0) > 0;
+}
+
+function isBeams(deviceType: string | undefined): boolean {
+  return deviceType !== undefined && (deviceType.endsWith(".beams") || deviceType === RingDeviceType.BeamsDevice);
+}
+
+function toLightState(light: RingDevice): LightState {
+  const level = light.data?.level;
+  return {
+    on: light.data?.on === true,
+    brightness: level !== undefined ? Math.round(level * 100) : undefined,
+  };
+}
+
+/**
+ * Ring thermostats report ambient temperature through a child
+ * temperature sensor (linked by parentZid), not on the thermostat itself.
+ */
+function toThermostatState(thermostat: RingDevice, siblings: RingDevice[]): ThermostatState {
+  const data = thermostat.data ?? {};
+  const sensor = siblings.find(
+    (d) =>
+      d.data?.parentZid === thermostat.zid &&
+      d.data?.deviceType === RingDeviceType.TemperatureSensor
+  );
+  const mode = data.mode as ThermostatMode | undefined;
+  return {
+    currentTemperatureC: sensor?.data?.celsius ?? data.celsius,
+    setpointC: data.setPoint,
+    setpointMinC: data.setPointMin,
+    setpointMaxC: data.setPointMax,
+    mode: mode && THERMOSTAT_MODES.includes(mode) ? mode : undefined,
+  };
+}
+
+function requireMotionSensitivity(value: unknown): number {
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < MIN_MOTION_SENSITIVITY ||
+    value > MAX_MOTION_SENSITIVITY
+  ) {
+    throw new Error(`sensitivity parameter is required (${MIN_MOTION_SENSITIVITY}-${MAX_MOTION_SENSITIVITY})`);
+  }
+  return value;
+}
+
+function requireEnabled(value: unknown): boolean {
+  if (typeof value !== "boolean") throw new Error("enabled parameter is required (true/false)");
+  return value;
+}
+
+function requireSnoozeMinutes(value: unknown): number {
+  if (typeof value !== "number" || !(value >= 0) || value > MAX_MOTION_SNOOZE_MINUTES) {
+    throw new Error(`minutes parameter is required (0-${MAX_MOTION_SNOOZE_MINUTES}, 0 clears the snooze)`);
+  }
+  return value;
+}
+
+/** Chimes use Ring's 0-11 volume scale. */
+function checkChimeVolume(volume: number): void {
+  if (volume > 11) throw new Error("Chime volume must be between 0 and 11");
+}
+
+function checkSetpointRange(setpoint: number, min: number | undefined, max: number | undefined): void {
+  if ((min !== undefined && setpoint < min) || (max !== undefined && setpoint > max)) {
+    throw new Error(`setpoint ${setpoint} is outside the supported range (${min}-${max})`);
+  }
+}
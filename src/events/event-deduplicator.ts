@@ -0,0 +1,97 @@
+/**
+ * Event deduplicator — collapses the same real-world camera event
+ * arriving from several Ring streams into a single RingEvent.
+ *
+ * A doorbell press is typically reported by `onDoorbellPressed` and again
+ * by `onNewNotification`, and motion by `onMotionDetected` plus a motion
+ * notification. Events for the same device and type within the window
+ * are treated as one occurrence unless both carry different ding IDs.
+ */
+
+import type { RingEvent, RingEventType } from "../types/index.js";
+
+interface TrackedEvent {
+  event: RingEvent;
+  firstSeenAt: number;
+}
+
+export class EventDeduplicator {
+  private recent: Map<string, TrackedEvent> = new Map();
+
+  constructor(private windowMs: number) {}
+
+  /**
+   * Return the previously tracked event that this candidate duplicates,
+   * with the candidate's metadata merged into it, or null if the
+   * candidate is a new occurrence.
+   */
+  match(
+    candidate: { deviceId: string; type: RingEventType; metadata: Record<string, unknown> },
+    now = Date.now()
+  ): RingEvent | null {
+    if (this.windowMs <= 0) return null;
+    this.prune(now);
+
+    const tracked = this.recent.get(keyOf(candidate.deviceId, candidate.type));
+    if (!tracked) return null;
+
+    const trackedDingId = tracked.event.metadata.dingId;
+    const candidateDingId = candidate.metadata.dingId;
+    if (trackedDingId != null && candidateDingId != null && trackedDingId !== candidateDingId) {
+      return null;
+    }
+
+    tracked.event = {
+      ...tracked.event,
+      metadata: mergeMetadata(tracked.event.metadata, candidate.metadata),
+    };
+    return tracked.event;
+  }
+
+  /** Start tracking a newly recorded event so later duplicates can be merged into it. */
+  track(event: RingEvent, now = Date.now()): void {
+    if (this.windowMs <= 0) return;
+    this.recent.set(keyOf(event.deviceId, event.type), { event, firstSeenAt: now });
+  }
+
+  clear(): void {
+    this.recent.clear();
+  }
+
+  private prune(now: number): void {
+    for (const [key, tracked] of this.recent) {
+      if (now - tracked.firstSeenAt > this.windowMs) {
+        this.recent.delete(key);
+      }
+    }
+  }
+}
+
+function keyOf(deviceId: string, type: RingEventType): string {
+  return `${deviceId}:${type}`;
+}
+
+/**
+ * Merge duplicate metadata: existing values win, missing ones are filled
+ * in from the duplicate, `sources` are unioned, and `duplicateCount`
+ * counts how many reports were folded into the event.
+ */
+function mergeMetadata(
+  existing: Record<string, unknown>,
+  duplicate: Record<string, unknown>
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...existing };
+  for (const [key, value] of Object.entries(duplicate)) {
+    if (value !== undefined && merged[key] == null) {
+      merged[key] = value;
+    }
+  }
+
+  const sources = [
+    ...((existing.sources as string[] | undefined) ?? []),
+    ...((duplicate.sources as string[] | undefined) ?? []),
+  ];
+  merged.sources = [...new Set(sources)];
+  merged.duplicateCount = ((existing.duplicateCount as number | undefined) ?? 0) + 1;
+  return merged;
+}
@@ -0,0 +1,14 @@
+/**
+ * Shared event filter matching for in-process subscriptions and webhooks.
+ */
+
+import type { EventFilter, RingEvent } from "../types/index.js";
+
+/** Whether an event matches a filter. A missing filter matches everything. */
+export function matchesEventFilter(event: RingEvent, filter?: EventFilter): boolean {
+  if (!filter) return true;
+  if (filter.deviceId && event.deviceId !== filter.deviceId) return false;
+  if (filter.locationId && event.locationId !== filter.locationId) return false;
+  if (filter.types && filter.types.length > 0 && !filter.types.includes(event.type)) return false;
+  return true;
+}
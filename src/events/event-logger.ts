@@ -2,20 +2,31 @@
  * Event logger — captures, stores, and queries Ring events.
  *
  * Delegates persistence to an EventStore (SQLite-backed) and
- * optionally appends events to an NDJSON log file.
+ * optionally appends events to an NDJSON log file. When a SnapshotStore
+ * is configured, inline base64 snapshots are archived on disk and the
+ * event keeps only the snapshot ID.
  */
 
 import { appendFileSync } from "node:fs";
 import { randomUUID } from "node:crypto";
 import type { EventStore } from "../storage/event-store.js";
-import type { RingEvent, EventQuery, RingEventType } from "../types/index.js";
+import type { SnapshotStore } from "../storage/snapshot-store.js";
+import { totalSpanDuration } from "./span-tracker.js";
+import type {
+  RingEvent,
+  EventQuery,
+  RingEventType,
+  SpanQuery,
+  SpanQueryResult,
+} from "../types/index.js";
 
 export class EventLogger {
   private logFile: string | null;
 
   constructor(
     private store: EventStore,
-    logFile?: string
+    logFile?: string,
+    private snapshots?: SnapshotStore
   ) {
     this.logFile = logFile ?? null;
   }
@@ -24,6 +35,16 @@ export class EventLogger {
    * Record an event, persist it to SQLite, and optionally to a log file.
    */
   record(event: Omit<RingEvent, "id" | "timestamp"> & { id?: string; timestamp?: string }): RingEvent {
+    let snapshotId = event.snapshotId;
+    let snapshotBase64 = event.snapshotBase64;
+    if (snapshotBase64 && this.snapshots) {
+      snapshotId = this.snapshots.save(Buffer.from(snapshotBase64, "base64"), {
+        deviceId: event.deviceId,
+        capturedAt: event.timestamp,
+      }).id;
+      snapshotBase64 = undefined;
+    }
+
     const fullEvent: RingEvent = {
       id: event.id ?? randomUUID(),
       timestamp: event.timestamp ?? new Date().toISOString(),
@@ -34,7 +55,8 @@ export class EventLogger {
       type: event.type,
       durationSec: event.durationSec,
       recordingUrl: event.recordingUrl,
-      snapshotBase64: event.snapshotBase64,
+      snapshotId,
+      snapshotBase64,
       metadata: event.metadata ?? {},
     };
 
@@ -53,6 +75,40 @@ export class EventLogger {
     return fullEvent;
   }
 
+  /**
+   * Attach an archived snapshot to a previously recorded event.
+   */
+  attachSnapshot(eventId: string, snapshotId: string): boolean {
+    return this.store.setSnapshotId(eventId, snapshotId);
+  }
+
+  /**
+   * Replace the metadata of a previously recorded event.
+   */
+  updateMetadata(eventId: string, metadata: Record<string, unknown>): boolean {
+    return this.store.setMetadata(eventId, metadata);
+  }
+
+  /**
+   * Write the duration of a closed span onto the event that opened it.
+   */
+  setDuration(eventId: string, durationSec: number): boolean {
+    return this.store.setDuration(eventId, durationSec);
+  }
+
+  /**
+   * Query spans (e.g. how long a door was open) overlapping a time range,
+   * with their total duration clipped to that range.
+   */
+  querySpans(filter: SpanQuery = {}): SpanQueryResult {
+    const spans = this.store.querySpans(filter);
+    return {
+      count: spans.length,
+      totalDurationSec: totalSpanDuration(spans, filter.startTime, filter.endTime),
+      spans,
+    };
+  }
+
   /**
    * Query stored events with optional filters.
    */
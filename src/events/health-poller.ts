@@ -0,0 +1,182 @@
+/**
+ * Health poller — periodically reads camera health and hub device data,
+ * stores a time series of battery, Wi-Fi RSSI and firmware per device,
+ * and publishes device_online/device_offline transitions and battery_low
+ * threshold crossings as events.
+ *
+ * The first reading for a device only establishes a baseline; events
+ * are emitted for changes between consecutive readings.
+ */
+
+import type { Location, RingCamera, RingDevice } from "ring-client-api";
+import type { RingClient } from "../client/ring-client.js";
+import type { DeviceHealthStore } from "../storage/device-health-store.js";
+import type {
+  DeviceHealthSample,
+  HealthPollerConfig,
+  RingEvent,
+} from "../types/index.js";
+
+/** Records an event and dispatches it to subscribers (see RealtimeMonitor.publish). */
+export type PublishEvent = (
+  event: Omit<RingEvent, "id" | "timestamp" | "metadata"> & { metadata?: Record<string, unknown> }
+) => RingEvent;
+
+export class HealthPoller {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastSamples: Map<string, DeviceHealthSample> = new Map();
+
+  constructor(
+    private client: RingClient,
+    private store: DeviceHealthStore,
+    private publish: PublishEvent,
+    private config: HealthPollerConfig
+  ) {}
+
+  /** Poll immediately, then on every interval. Non-blocking. */
+  start(): void {
+    if (this.timer || this.config.intervalMinutes <= 0) return;
+
+    this.poll().catch((err) => {
+      console.error("[health-poller] Poll failed:", err);
+    });
+    this.timer = setInterval(() => {
+      this.poll().catch((err) => {
+        console.error("[health-poller] Poll failed:", err);
+      });
+    }, this.config.intervalMinutes * 60 * 1000);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.lastSamples.clear();
+  }
+
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /** Take one reading of every camera and hub device. Returns the number of samples stored. */
+  async poll(): Promise<number> {
+    const recordedAt = new Date().toISOString();
+    const locations = await this.client.getLocations();
+    let count = 0;
+
+    for (const location of locations) {
+      for (const camera of location.cameras ?? []) {
+        this.record(await this.sampleCamera(camera, location, recordedAt), location);
+        count++;
+      }
+
+      if (location.hasHubs) {
+        try {
+          const devices = await location.getDevices();
+          for (const device of devices) {
+            this.record(this.sampleDevice(device, location, recordedAt), location);
+            count++;
+          }
+        } catch {
+          // Location may not have accessible devices
+        }
+      }
+    }
+
+    return count;
+  }
+
+  private async sampleCamera(
+    camera: RingCamera,
+    location: Location,
+    recordedAt: string
+  ): Promise<DeviceHealthSample> {
+    const sample: DeviceHealthSample = {
+      deviceId: String(camera.id),
+      deviceName: camera.name,
+      locationId: location.id,
+      recordedAt,
+      online: !camera.isOffline,
+      batteryLevel: camera.batteryLevel ?? undefined,
+    };
+
+    try {
+      const health = await camera.getHealth();
+      const batteryPercentage = Number(health.battery_percentage);
+      if (health.battery_percentage !== null && !isNaN(batteryPercentage)) {
+        sample.batteryLevel = batteryPercentage;
+      }
+      sample.rssi = health.latest_signal_strength ?? undefined;
+      sample.firmwareVersion = health.firmware ?? undefined;
+    } catch {
+      // Health endpoint unavailable; keep what the camera data reports
+    }
+
+    return sample;
+  }
+
+  private sampleDevice(device: RingDevice, location: Location, recordedAt: string): DeviceHealthSample {
+    // Hub device data carries a few fields ring-client-api does not type
+    const data = device.data as typeof device.data & {
+      commStatus?: string;
+      firmwareVersion?: string;
+      networks?: { wlan0?: { rssi?: number } };
+    };
+
+    return {
+      deviceId: device.zid,
+      deviceName: device.name,
+      locationId: location.id,
+      recordedAt,
+      online: data.commStatus === undefined || data.commStatus === "ok",
+      batteryLevel: data.batteryLevel,
+      rssi: data.networks?.wlan0?.rssi,
+      firmwareVersion: data.firmwareVersion,
+    };
+  }
+
+  private record(sample: DeviceHealthSample, location: Location): void {
+    this.store.insert(sample);
+
+    const previous = this.lastSamples.get(sample.deviceId);
+    this.lastSamples.set(sample.deviceId, sample);
+    if (!previous) return;
+
+    const base = {
+      deviceId: sample.deviceId,
+      deviceName: sample.deviceName,
+      locationId: sample.locationId,
+      locationName: location.name,
+    };
+
+    if (previous.online !== sample.online) {
+      this.publish({
+        ...base,
+        type: sample.online ? "device_online" : "device_offline",
+        metadata: { previousValue: previous.online, currentValue: sample.online },
+      });
+    }
+
+    const threshold = this.crossedThreshold(previous.batteryLevel, sample.batteryLevel);
+    if (threshold !== null) {
+      this.publish({
+        ...base,
+        type: "battery_low",
+        metadata: {
+          batteryLevel: sample.batteryLevel,
+          previousBatteryLevel: previous.batteryLevel,
+          thresholdPercent: threshold,
+        },
+      });
+    }
+  }
+
+  /** The lowest threshold crossed going down between two readings, or null. */
+  private crossedThreshold(previous: number | undefined, current: number | undefined): number | null {
+    if (previous === undefined || current === undefined || current >= previous) return null;
+
+    const crossed = this.config.batteryThresholds.filter((t) => previous > t && current <= t);
+    return crossed.length > 0 ? Math.min(...crossed) : null;
+  }
+}
@@ -0,0 +1,492 @@
+/**
+ * MQTT bridge — mirrors Ring events and device state to an MQTT broker,
+ * publishes Home Assistant discovery configs, and accepts device and
+ * alarm commands on command topics.
+ *
+ * Topics, under the configurable prefix (default "ring"):
+ *
+ *   ring/status                               "online" / "offline" (retained, last will)
+ *   ring/<locationId>/<deviceId>/<eventType>  every RingEvent as JSON
+ *   ring/<locationId>/<deviceId>/state        device state from RingDeviceInfo (retained)
+ *   ring/<locationId>/<deviceId>/command      {"action": ..., "parameters": {...}}
+ *   ring/<locationId>/alarm/state             alarm state in Home Assistant terms (retained)
+ *   ring/<locationId>/alarm/command           "arm_home" | "arm_away" | "disarm"
+ *
+ * The outcome of each command is published to "<command topic>/result".
+ * Device commands are refused unless the device is at the topic's location.
+ */
+
+import { connect } from "mqtt";
+import type { MqttClient } from "mqtt";
+import type {
+  AlarmAction,
+  AlarmActionResult,
+  AlarmMode,
+  DeviceAction,
+  DeviceCommand,
+  MqttBridgeConfig,
+  RingDeviceInfo,
+  RingEvent,
+  RingLocationInfo,
+} from "../types/index.js";
+
+const ALARM_ACTIONS: AlarmAction[] = ["arm_home", "arm_away", "disarm"];
+
+/** Ring alarm mode → Home Assistant alarm_control_panel state. */
+const ALARM_STATES: Record<AlarmMode, string> = {
+  all: "armed_away",
+  some: "armed_home",
+  none: "disarmed",
+};
+
+/**
+ * Device access used by the bridge. Commands go through
+ * RingEcosystemTool so they are audited by the routine logger.
+ */
+export interface MqttBridgeHandler {
+  listLocations(): Promise<RingLocationInfo[]>;
+  listDevices(): Promise<RingDeviceInfo[]>;
+  controlDevice(command: DeviceCommand): Promise<Record<string, unknown>>;
+  setAlarmMode(locationId: string, action: AlarmAction): Promise<AlarmActionResult>;
+}
+
+/** A retained Home Assistant discovery message. */
+export interface DiscoveryMessage {
+  topic: string;
+  config: Record<string, unknown>;
+}
+
+export class MqttBridge {
+  private client: MqttClient | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private prefix: string;
+  private discoveryPrefix: string | null;
+  /** Devices by ID, as of the last enumeration */
+  private devices = new Map<string, RingDeviceInfo>();
+  /** Devices whose state is republished after the next enumeration */
+  private staleDevices = new Set<string>();
+  private refreshing: Promise<void> | null = null;
+
+  constructor(
+    private config: MqttBridgeConfig,
+    private handler: MqttBridgeHandler
+  ) {
+    this.prefix = config.topicPrefix ?? "ring";
+    this.discoveryPrefix = config.discovery === false ? null : config.discoveryPrefix ?? "homeassistant";
+  }
+
+  /**
+   * Connect to the broker. Non-blocking: on every (re)connect the bridge
+   * subscribes to command topics, republishes all retained state, and
+   * then marks itself online.
+   */
+  start(): void {
+    if (this.client) return;
+
+    const client = connect(this.config.url, {
+      username: this.config.username,
+      password: this.config.password,
+      will: { topic: this.statusTopic, payload: Buffer.from("offline"), qos: 1, retain: true },
+    });
+    client.on("connect", () => {
+      this.onConnect(client).catch((err) => {
+        console.error("[mqtt-bridge] Setup after connect failed:", err);
+      });
+    });
+    client.on("message", (topic, payload) => {
+      void this.handleMessage(topic, payload.toString());
+    });
+    client.on("error", (err) => {
+      console.error("[mqtt-bridge] Connection error:", err.message);
+    });
+    this.client = client;
+
+    const intervalSec = this.config.stateIntervalSec ?? 300;
+    if (intervalSec > 0) {
+      this.timer = setInterval(() => {
+        this.publishAll().catch((err) => {
+          console.error("[mqtt-bridge] State refresh failed:", err);
+        });
+      }, intervalSec * 1000);
+    }
+  }
+
+  /** Mark the bridge offline and disconnect. */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    const client = this.client;
+    this.client = null;
+    if (!client) return;
+
+    if (client.connected) {
+      await client.publishAsync(this.statusTopic, "offline", { qos: 1, retain: true });
+    }
+    await client.endAsync();
+  }
+
+  get isRunning(): boolean {
+    return this.client !== null;
+  }
+
+  get isConnected(): boolean {
+    return this.client?.connected ?? false;
+  }
+
+  // ── Publishing ──
+
+  /** Mirror an event to its topic and refresh the state it may have changed. */
+  async publishEvent(event: RingEvent): Promise<void> {
+    if (!this.client?.connected) return;
+
+    await this.client.publishAsync(
+      this.topic(event.locationId, event.deviceId, event.type),
+      JSON.stringify(event)
+    );
+
+    if (event.type === "alarm_mode_change") {
+      await this.publishAlarmState(event.locationId, event.metadata.currentMode as AlarmMode);
+      return;
+    }
+    await this.refreshDevice(event.deviceId);
+  }
+
+  /** Publish retained state (and discovery configs) for every location and device. */
+  async publishAll(): Promise<void> {
+    if (!this.client?.connected) return;
+
+    for (const location of await this.handler.listLocations()) {
+      if (!location.hasAlarm) continue;
+      if (this.discoveryPrefix) {
+        await this.publishDiscovery(alarmDiscovery(location, this.prefix, this.discoveryPrefix));
+      }
+      await this.publishAlarmState(location.id, location.alarmMode);
+    }
+
+    for (const device of await this.listDevices()) {
+      if (this.discoveryPrefix) {
+        await this.publishDiscovery(deviceDiscovery(device, this.prefix, this.discoveryPrefix));
+      }
+      await this.publishDevice(device);
+    }
+  }
+
+  private async onConnect(client: MqttClient): Promise<void> {
+    await client.subscribeAsync(`${this.prefix}/+/+/command`, { qos: 1 });
+    await this.publishAll();
+    await client.publishAsync(this.statusTopic, "online", { qos: 1, retain: true });
+  }
+
+  /**
+   * Republish a device's state. Devices are enumerated once for all the
+   * refreshes requested while an enumeration is running, so a burst of
+   * events does not enumerate every device per event.
+   */
+  private refreshDevice(deviceId: string): Promise<void> {
+    this.staleDevices.add(deviceId);
+    this.refreshing ??= this.republishStale();
+    return this.refreshing;
+  }
+
+  private async republishStale(): Promise<void> {
+    try {
+      while (this.staleDevices.size > 0) {
+        const deviceIds = [...this.staleDevices];
+        this.staleDevices.clear();
+        await this.listDevices();
+        for (const deviceId of deviceIds) {
+          const device = this.devices.get(deviceId);
+          if (device) await this.publishDevice(device);
+        }
+      }
+    } finally {
+      this.refreshing = null;
+    }
+  }
+
+  /** Enumerate devices, refreshing the cache. */
+  private async listDevices(): Promise<RingDeviceInfo[]> {
+    const devices = await this.handler.listDevices();
+    this.devices = new Map(devices.map((device) => [device.id, device]));
+    return devices;
+  }
+
+  private async publishDevice(device: RingDeviceInfo): Promise<void> {
+    await this.client?.publishAsync(
+      this.topic(device.locationId, device.id, "state"),
+      JSON.stringify(deviceState(device)),
+      { qos: 1, retain: true }
+    );
+  }
+
+  private async publishAlarmState(locationId: string, mode: AlarmMode | null): Promise<void> {
+    if (!mode || !(mode in ALARM_STATES)) return;
+    await this.client?.publishAsync(this.topic(locationId, "alarm", "state"), ALARM_STATES[mode], {
+      qos: 1,
+      retain: true,
+    });
+  }
+
+  private async publishDiscovery(messages: DiscoveryMessage[]): Promise<void> {
+    for (const message of messages) {
+      await this.client?.publishAsync(message.topic, JSON.stringify(message.config), {
+        qos: 1,
+        retain: true,
+      });
+    }
+  }
+
+  // ── Commands ──
+
+  private async handleMessage(topic: string, payload: string): Promise<void> {
+    if (!topic.startsWith(`${this.prefix}/`)) return;
+    const parts = topic.slice(this.prefix.length + 1).split("/");
+    if (parts.length !== 3 || parts[2] !== "command") return;
+    const [locationId, deviceId] = parts;
+
+    let action: string | undefined;
+    let outcome: Record<string, unknown>;
+    try {
+      if (deviceId === "alarm") {
+        action = payload.trim();
+        if (!ALARM_ACTIONS.includes(action as AlarmAction)) {
+          throw new Error(`Unknown alarm action: ${action}. Expected one of ${ALARM_ACTIONS.join(", ")}`);
+        }
+        await this.handler.setAlarmMode(locationId, action as AlarmAction);
+      } else {
+        const command = parseCommand(deviceId, payload);
+        action = command.action;
+        await this.assertDeviceAt(deviceId, locationId);
+        await this.handler.controlDevice(command);
+        await this.refreshDevice(deviceId);
+      }
+      outcome = { action, success: true };
+    } catch (err) {
+      outcome = { action, success: false, error: err instanceof Error ? err.message : String(err) };
+    }
+
+    try {
+      await this.client?.publishAsync(`${topic}/result`, JSON.stringify(outcome));
+    } catch (err) {
+      console.error("[mqtt-bridge] Failed to publish command result:", err);
+    }
+  }
+
+  /** Throw unless the device is at the location; devices not yet cached are looked up. */
+  private async assertDeviceAt(deviceId: string, locationId: string): Promise<void> {
+    if (!this.devices.has(deviceId)) await this.listDevices();
+    const device = this.devices.get(deviceId);
+    if (!device) throw new Error(`Device not found: ${deviceId}`);
+    if (device.locationId !== locationId) {
+      throw new Error(`Device ${deviceId} is not at location ${locationId}`);
+    }
+  }
+
+  private topic(locationId: string, deviceId: string, leaf: string): string {
+    return `${this.prefix}/${locationId}/${deviceId}/${leaf}`;
+  }
+
+  private get statusTopic(): string {
+    return `${this.prefix}/status`;
+  }
+}
+
+/** Parse a device command payload: {"action": "...", "parameters": {...}}. */
+function parseCommand(deviceId: string, payload: string): DeviceCommand {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(payload);
+  } catch {
+    throw new Error("Command payload must be JSON: {\"action\": ..., \"parameters\": {...}}");
+  }
+  const { action, parameters } = (parsed ?? {}) as { action?: unknown; parameters?: unknown };
+  if (typeof action !== "string" || action === "") {
+    throw new Error("Command payload is missing an action");
+  }
+  if (parameters !== undefined && (typeof parameters !== "object" || parameters === null)) {
+    throw new Error("Command parameters must be an object");
+  }
+  return {
+    deviceId,
+    action: action as DeviceAction,
+    parameters: parameters as Record<string, unknown> | undefined,
+  };
+}
+
+/** The retained state payload for a device. Raw API data and capabilities are left out. */
+export function deviceState(device: RingDeviceInfo): Record<string, unknown> {
+  return {
+    id: device.id,
+    name: device.name,
+    type: device.type,
+    online: device.online,
+    batteryLevel: device.batteryLevel,
+    firmwareVersion: device.firmwareVersion,
+    lockState: device.lockState,
+    lightState: device.lightState,
+    thermostat: device.thermostat,
+  };
+}
+
+/** Home Assistant discovery configs for the entities a device supports. */
+export function deviceDiscovery(
+  device: RingDeviceInfo,
+  prefix: string,
+  discoveryPrefix: string
+): DiscoveryMessage[] {
+  const node = `ring_${device.id}`;
+  const deviceTopic = `${prefix}/${device.locationId}/${device.id}`;
+  const common = {
+    availability_topic: `${prefix}/status`,
+    device: {
+      identifiers: [node],
+      name: device.name,
+      manufacturer: "Ring",
+      model: device.type,
+      sw_version: device.firmwareVersion,
+    },
+  };
+  const message = (component: string, objectId: string, config: Record<string, unknown>) => ({
+    topic: `${discoveryPrefix}/${component}/${node}/${objectId}/config`,
+    config: { ...common, unique_id: `${node}_${objectId}`, ...config },
+  });
+
+  const messages: DiscoveryMessage[] = [
+    message("binary_sensor", "online", {
+      name: "Connectivity",
+      device_class: "connectivity",
+      entity_category: "diagnostic",
+      state_topic: `${deviceTopic}/state`,
+      value_template: "{{ 'ON' if value_json.online else 'OFF' }}",
+    }),
+  ];
+
+  if (device.capabilities.hasBattery || device.batteryLevel !== undefined) {
+    messages.push(
+      message("sensor", "battery", {
+        name: "Battery",
+        device_class: "battery",
+        state_class: "measurement",
+        unit_of_measurement: "%",
+        entity_category: "diagnostic",
+        state_topic: `${deviceTopic}/state`,
+        value_template: "{{ value_json.batteryLevel }}",
+      })
+    );
+  }
+
+  if (device.capabilities.hasLock) {
+    messages.push(
+      message("lock", "lock", {
+        name: "Lock",
+        command_topic: `${deviceTopic}/command`,
+        payload_lock: JSON.stringify({ action: "lock" }),
+        payload_unlock: JSON.stringify({ action: "unlock" }),
+        state_topic: `${deviceTopic}/state`,
+        value_template: "{{ value_json.lockState }}",
+        state_locked: "locked",
+        state_unlocked: "unlocked",
+        state_jammed: "jammed",
+      })
+    );
+  }
+
+  if (device.capabilities.hasLight) {
+    // Template schema so on/off and brightness map onto JSON commands.
+    // Camera floodlights do not report state, so they are optimistic.
+    const dimmable = device.lightState?.brightness !== undefined;
+    messages.push(
+      message("light", "light", {
+        name: "Light",
+        schema: "template",
+        command_topic: `${deviceTopic}/command`,
+        command_on_template: dimmable
+          ? "{% if brightness is defined %}" +
+            '{"action": "set_light_brightness", "parameters": {"brightness": {{ (brightness / 2.55) | round(0) | int }}}}' +
+            '{% else %}{"action": "turn_light_on"}{% endif %}'
+          : JSON.stringify({ action: "turn_light_on" }),
+        command_off_template: JSON.stringify({ action: "turn_light_off" }),
+        ...(device.lightState
+          ? {
+              state_topic: `${deviceTopic}/state`,
+              state_template: "{{ 'on' if value_json.lightState.on else 'off' }}",
+              ...(dimmable
+                ? { brightness_template: "{{ (value_json.lightState.brightness * 2.55) | round(0) | int }}" }
+                : {}),
+            }
+          : {}),
+      })
+    );
+  }
+
+  if (device.capabilities.hasSiren) {
+    messages.push(
+      message("switch", "siren", {
+        name: "Siren",
+        icon: "mdi:alarm-light",
+        command_topic: `${deviceTopic}/command`,
+        payload_on: JSON.stringify({ action: "enable_siren" }),
+        payload_off: JSON.stringify({ action: "disable_siren" }),
+      })
+    );
+  }
+
+  // Device triggers fire on the mirrored event topics
+  const triggers: { event: string; type: string; subtype: string }[] = [];
+  if (device.capabilities.supportsDoorbellPress) {
+    triggers.push({ event: "doorbell_press", type: "button_short_press", subtype: "doorbell" });
+  }
+  if (device.capabilities.hasCamera) {
+    triggers.push({ event: "motion", type: "motion", subtype: "camera" });
+  }
+  for (const trigger of triggers) {
+    messages.push({
+      topic: `${discoveryPrefix}/device_automation/${node}/${trigger.event}/config`,
+      config: {
+        automation_type: "trigger",
+        topic: `${deviceTopic}/${trigger.event}`,
+        type: trigger.type,
+        subtype: trigger.subtype,
+        device: common.device,
+      },
+    });
+  }
+
+  return messages;
+}
+
+/** Home Assistant alarm_control_panel discovery config for a location with an alarm. */
+export function alarmDiscovery(
+  location: RingLocationInfo,
+  prefix: string,
+  discoveryPrefix: string
+): DiscoveryMessage[] {
+  const node = `ring_location_${location.id}`;
+  const alarmTopic = `${prefix}/${location.id}/alarm`;
+  return [
+    {
+      topic: `${discoveryPrefix}/alarm_control_panel/${node}/alarm/config`,
+      config: {
+        name: "Alarm",
+        unique_id: `${node}_alarm`,
+        availability_topic: `${prefix}/status`,
+        state_topic: `${alarmTopic}/state`,
+        command_topic: `${alarmTopic}/command`,
+        payload_arm_home: "arm_home",
+        payload_arm_away: "arm_away",
+        payload_disarm: "disarm",
+        supported_features: ["arm_home", "arm_away"],
+        code_arm_required: false,
+        code_disarm_required: false,
+        device: {
+          identifiers: [node],
+          name: `${location.name} Alarm`,
+          manufacturer: "Ring",
+          model: "alarm_base_station",
+        },
+      },
+    },
+  ];
+}
@@ -2,29 +2,61 @@
  * Real-time event monitor — subscribes to live Ring events and feeds
  * them into the EventLogger.
  *
- * Monitors cameras (motion, doorbell, notifications), location
- * connection status, and alarm device state changes (contact sensors,
- * motion sensors, tamper, alarm mode, sirens, flood/freeze, smoke/CO).
+ * Monitors cameras (motion, doorbell, notifications, deduplicated across
+ * streams, with optional automatic snapshots), intercoms (dings,
+ * unlocks), location connection status, and alarm device state changes (contact sensors,
+ * motion sensors, tamper, locks, thermostats, Smart Lighting, alarm mode,
+ * sirens, flood/freeze, smoke/CO).
  */
 
-import type { RingCamera, RingDevice, Location, PushNotificationDingV2, RingDeviceData } from "ring-client-api";
+import type {
+  RingCamera,
+  RingDevice,
+  RingIntercom,
+  Location,
+  PushNotificationDingV2,
+  RingDeviceData,
+} from "ring-client-api";
 import { PushNotificationAction, RingDeviceType } from "ring-client-api";
 import { pairwise } from "rxjs";
 import type { Subscription } from "rxjs";
 import type { RingClient } from "../client/ring-client.js";
 import type { EventLogger } from "./event-logger.js";
-import type { EventSubscription, RingEvent, RingEventType } from "../types/index.js";
+import { EventDeduplicator } from "./event-deduplicator.js";
+import { SpanTracker, spanClosedBy } from "./span-tracker.js";
+import { matchesEventFilter } from "./event-filter.js";
+import type { WebhookDispatcher } from "./webhook-dispatcher.js";
+import { isBeamsLight } from "../devices/device-manager.js";
+import type {
+  AutoSnapshotTrigger,
+  EventFilter,
+  EventSubscription,
+  MonitorConfig,
+  RingEvent,
+  RingEventType,
+} from "../types/index.js";
 import { randomUUID } from "node:crypto";
 
 export class RealtimeMonitor {
   private subscriptions: Subscription[] = [];
   private userSubscriptions: Map<string, EventSubscription> = new Map();
+  /** Monitored hub devices by zid, used to resolve parent devices. */
+  private devicesByZid: Map<string, RingDevice> = new Map();
+  /** Time (ms) of the last automatic snapshot attempt per camera, for rate limiting. */
+  private lastAutoSnapshotAt: Map<string, number> = new Map();
+  private deduplicator: EventDeduplicator;
+  /** Open motion/contact/tamper spans awaiting their clear event. */
+  private spans = new SpanTracker();
   private running = false;
 
   constructor(
     private client: RingClient,
-    private logger: EventLogger
-  ) {}
+    private logger: EventLogger,
+    private config: MonitorConfig = {},
+    private webhooks?: WebhookDispatcher
+  ) {
+    this.deduplicator = new EventDeduplicator((config.dedupWindowSec ?? 10) * 1000);
+  }
 
   /**
    * Start listening to all cameras, locations, and alarm devices for live events.
@@ -42,10 +74,17 @@ export class RealtimeMonitor {
         this.monitorCamera(camera, location);
       }
 
+      for (const intercom of location.intercoms ?? []) {
+        this.monitorIntercom(intercom, location);
+      }
+
       // Monitor alarm/sensor devices if the location has hubs
       if (location.hasHubs) {
         try {
           const devices = await location.getDevices();
+          for (const device of devices) {
+            this.devicesByZid.set(device.zid, device);
+          }
           for (const device of devices) {
             this.monitorDevice(device, location);
           }
@@ -64,6 +103,10 @@ export class RealtimeMonitor {
       sub.unsubscribe();
     }
     this.subscriptions = [];
+    this.devicesByZid.clear();
+    this.lastAutoSnapshotAt.clear();
+    this.deduplicator.clear();
+    this.spans.clear();
     this.running = false;
   }
 
@@ -84,24 +127,69 @@ export class RealtimeMonitor {
     return this.userSubscriptions.delete(subscriptionId);
   }
 
+  /**
+   * Resolve with the next event matching the filter (and `accept`, if
+   * given), or null once the timeout passes or the signal aborts.
+   */
+  waitFor(
+    filter: EventFilter | undefined,
+    timeoutMs: number,
+    options: { signal?: AbortSignal; accept?: (event: RingEvent) => boolean } = {}
+  ): Promise<RingEvent | null> {
+    return new Promise((resolve) => {
+      if (options.signal?.aborted) {
+        resolve(null);
+        return;
+      }
+
+      const finish = (event: RingEvent | null) => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener("abort", onAbort);
+        this.unsubscribe(id);
+        resolve(event);
+      };
+      const onAbort = () => finish(null);
+      const id = this.subscribe({
+        filter,
+        callback: (event) => {
+          if (!options.accept || options.accept(event)) finish(event);
+        },
+      });
+      const timer = setTimeout(() => finish(null), timeoutMs);
+      options.signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
   get isRunning(): boolean {
     return this.running;
   }
 
+  /**
+   * Record an event raised outside the live streams (e.g. by the health
+   * poller) and dispatch it to subscribers like any live event.
+   */
+  publish(
+    partial: Omit<RingEvent, "id" | "timestamp" | "metadata"> & {
+      metadata?: Record<string, unknown>;
+    }
+  ): RingEvent {
+    return this.emit(partial);
+  }
+
   // ── Camera Monitors ──
 
   private monitorCamera(camera: RingCamera, location: Location): void {
     // Motion detection
     const motionSub = camera.onMotionDetected.subscribe((motionDetected) => {
       if (motionDetected) {
-        this.emit({
-          deviceId: String(camera.id),
-          deviceName: camera.name,
-          locationId: location.id,
-          locationName: location.name,
-          type: "motion",
-          metadata: { cameraKind: camera.isDoorbot ? "doorbell" : "camera" },
+        this.emitCameraEvent(camera, location, "motion", {
+          cameraKind: camera.isDoorbot ? "doorbell" : "camera",
+          sources: ["motion"],
         });
+      } else {
+        // Motion ended — there is no clear event type, so close the span directly
+        const closed = this.spans.end(String(camera.id), "motion", new Date().toISOString());
+        if (closed) this.logger.setDuration(closed.eventId, closed.durationSec);
       }
     });
     this.subscriptions.push(motionSub);
@@ -110,13 +198,9 @@ export class RealtimeMonitor {
     if (camera.isDoorbot) {
       const doorbellSub = camera.onDoorbellPressed.subscribe(
         (notification: PushNotificationDingV2) => {
-          this.emit({
-            deviceId: String(camera.id),
-            deviceName: camera.name,
-            locationId: location.id,
-            locationName: location.name,
-            type: "doorbell_press",
-            metadata: { dingId: notification?.data?.event?.ding?.id },
+          this.emitCameraEvent(camera, location, "doorbell_press", {
+            dingId: notification?.data?.event?.ding?.id,
+            sources: ["doorbell"],
           });
         }
       );
@@ -129,17 +213,11 @@ export class RealtimeMonitor {
         const category = notification.android_config?.category;
         const type = this.mapNotificationType(category);
         if (type) {
-          this.emit({
-            deviceId: String(camera.id),
-            deviceName: camera.name,
-            locationId: location.id,
-            locationName: location.name,
-            type,
-            metadata: {
-              category,
-              dingId: notification.data?.event?.ding?.id,
-              subtype: notification.data?.event?.ding?.subtype,
-            },
+          this.emitCameraEvent(camera, location, type, {
+            category,
+            dingId: notification.data?.event?.ding?.id,
+            subtype: notification.data?.event?.ding?.subtype,
+            sources: ["notification"],
           });
         }
       }
@@ -147,6 +225,96 @@ export class RealtimeMonitor {
     this.subscriptions.push(notifSub);
   }
 
+  /**
+   * Emit a camera event unless another stream already reported the same
+   * occurrence, in which case its metadata is merged into the existing
+   * event and nothing new is dispatched.
+   */
+  private emitCameraEvent(
+    camera: RingCamera,
+    location: Location,
+    type: RingEventType,
+    metadata: Record<string, unknown>
+  ): void {
+    const deviceId = String(camera.id);
+    const duplicateOf = this.deduplicator.match({ deviceId, type, metadata });
+    if (duplicateOf) {
+      this.logger.updateMetadata(duplicateOf.id, duplicateOf.metadata);
+      return;
+    }
+
+    const event = this.emit({
+      deviceId,
+      deviceName: camera.name,
+      locationId: location.id,
+      locationName: location.name,
+      type,
+      metadata,
+    });
+    this.deduplicator.track(event);
+    void this.captureAutoSnapshot(camera, event);
+  }
+
+  /**
+   * Grab a snapshot right after a camera event when the auto-snapshot
+   * policy covers this camera and event type. The snapshot is attached
+   * to the triggering event and logged as snapshot_captured. Attempts
+   * are rate-limited per camera so battery cameras are not drained.
+   */
+  private async captureAutoSnapshot(camera: RingCamera, trigger: RingEvent): Promise<void> {
+    const policy = this.config.autoSnapshot;
+    if (!policy) return;
+
+    const triggers = policy.devices?.[trigger.deviceId] ?? policy.eventTypes ?? [];
+    if (!triggers.includes(trigger.type as AutoSnapshotTrigger)) return;
+
+    const now = Date.now();
+    const last = this.lastAutoSnapshotAt.get(trigger.deviceId);
+    if (last !== undefined && now - last < (policy.minIntervalSec ?? 60) * 1000) return;
+    this.lastAutoSnapshotAt.set(trigger.deviceId, now);
+
+    try {
+      const snapshot = await camera.getSnapshot();
+      if (!this.running) return;
+
+      const snapshotEvent = this.emit({
+        deviceId: trigger.deviceId,
+        deviceName: trigger.deviceName,
+        locationId: trigger.locationId,
+        locationName: trigger.locationName,
+        type: "snapshot_captured",
+        snapshotBase64: snapshot.toString("base64"),
+        metadata: { automatic: true, trigger: trigger.type, triggerEventId: trigger.id },
+      });
+      if (snapshotEvent.snapshotId) {
+        this.logger.attachSnapshot(trigger.id, snapshotEvent.snapshotId);
+      }
+    } catch {
+      // Camera may be asleep or offline; the triggering event stands on its own
+    }
+  }
+
+  // ── Intercom Monitors ──
+
+  private monitorIntercom(intercom: RingIntercom, location: Location): void {
+    const base = {
+      deviceId: String(intercom.id),
+      deviceName: intercom.name,
+      locationId: location.id,
+      locationName: location.name,
+    };
+
+    const dingSub = intercom.onDing.subscribe(() => {
+      this.emit({ ...base, type: "intercom_ding", metadata: { deviceType: intercom.deviceType } });
+    });
+    this.subscriptions.push(dingSub);
+
+    const unlockSub = intercom.onUnlocked.subscribe(() => {
+      this.emit({ ...base, type: "intercom_unlock", metadata: { deviceType: intercom.deviceType } });
+    });
+    this.subscriptions.push(unlockSub);
+  }
+
   // ── Location Monitors ──
 
   private monitorLocation(location: Location): void {
@@ -220,7 +388,7 @@ export class RealtimeMonitor {
       }
     }
 
-    // Motion sensor trigger/clear
+    // Motion sensor trigger/clear (alarm motion sensors and Beams lights/sensors)
     if (prev.motionStatus !== curr.motionStatus && curr.motionStatus !== undefined) {
       this.emit({
         ...base,
@@ -230,6 +398,23 @@ export class RealtimeMonitor {
           previousValue: prev.motionStatus,
           currentValue: curr.motionStatus,
           batteryLevel,
+          ...(deviceType.endsWith(".beams") ? { beams: true } : {}),
+        },
+      });
+    }
+
+    // Smart Lighting (Beams) on/off
+    if (prev.on !== curr.on && curr.on !== undefined && isBeamsLight(deviceType)) {
+      this.emit({
+        ...base,
+        type: curr.on ? "light_on" : "light_off",
+        metadata: {
+          deviceType,
+          previousValue: prev.on,
+          currentValue: curr.on,
+          brightness: curr.level !== undefined ? Math.round(curr.level * 100) : undefined,
+          motionTriggered: curr.on === true && curr.motionStatus === "faulted",
+          batteryLevel,
         },
       });
     }
@@ -248,13 +433,36 @@ export class RealtimeMonitor {
       });
     }
 
-    // Alarm mode change (security panel)
+    // Lock state (Z-Wave locks on the Alarm hub)
+    if (prev.locked !== curr.locked && curr.locked !== undefined) {
+      const lockType = this.mapLockState(curr.locked);
+      if (lockType) {
+        this.emit({
+          ...base,
+          type: lockType,
+          metadata: {
+            deviceType,
+            previousValue: prev.locked,
+            currentValue: curr.locked,
+            batteryLevel,
+          },
+        });
+      }
+    }
+
+    // Thermostat ambient temperature (reported by a child temperature sensor)
+    if (prev.celsius !== curr.celsius && curr.celsius !== undefined) {
+      this.detectTemperatureThreshold(prev, curr, device, location);
+    }
+
+    // Alarm mode change (security panel) or thermostat HVAC mode change
     const prevMode = prev.mode as string | undefined;
     const currMode = curr.mode as string | undefined;
     if (prevMode !== currMode && currMode !== undefined) {
+      const isThermostat = deviceType === RingDeviceType.Thermostat;
       this.emit({
         ...base,
-        type: "alarm_mode_change",
+        type: isThermostat ? "thermostat_mode_change" : "alarm_mode_change",
         metadata: {
           deviceType,
           previousMode: prevMode,
@@ -339,21 +547,74 @@ export class RealtimeMonitor {
     }
   }
 
+  /**
+   * Emit temperature_high / temperature_low when the ambient temperature
+   * crosses a threshold. Readings from a thermostat's temperature sensor
+   * are attributed to the parent thermostat.
+   */
+  private detectTemperatureThreshold(
+    prev: RingDeviceData,
+    curr: RingDeviceData,
+    device: RingDevice,
+    location: Location
+  ): void {
+    const celsius = curr.celsius as number;
+    const high = this.config.temperatureHighC ?? curr.faultHigh;
+    const low = this.config.temperatureLowC ?? curr.faultLow;
+
+    let type: RingEventType | null = null;
+    if (high !== undefined && celsius > high && !(prev.celsius !== undefined && prev.celsius > high)) {
+      type = "temperature_high";
+    } else if (low !== undefined && celsius < low && !(prev.celsius !== undefined && prev.celsius < low)) {
+      type = "temperature_low";
+    }
+    if (!type) return;
+
+    const parent = curr.parentZid ? this.devicesByZid.get(curr.parentZid) : undefined;
+    const source =
+      parent && parent.data?.deviceType === RingDeviceType.Thermostat ? parent : device;
+
+    this.emit({
+      deviceId: source.zid,
+      deviceName: source.name,
+      locationId: location.id,
+      locationName: location.name,
+      type,
+      metadata: {
+        deviceType: source.data?.deviceType,
+        sensorId: device.zid,
+        previousValue: prev.celsius,
+        currentValue: celsius,
+        thresholdC: type === "temperature_high" ? high : low,
+        setpointC: source.data?.setPoint,
+      },
+    });
+  }
+
   // ── Event Dispatch ──
 
   private emit(
     partial: Omit<RingEvent, "id" | "timestamp" | "metadata"> & {
       metadata?: Record<string, unknown>;
     }
-  ): void {
-    const event = this.logger.record({
-      ...partial,
-      metadata: partial.metadata ?? {},
-    });
+  ): RingEvent {
+    const timestamp = new Date().toISOString();
+    let metadata = partial.metadata ?? {};
+
+    // Clear events close the matching span and stamp its duration on the start event
+    const spanType = spanClosedBy(partial.type);
+    const closed = spanType ? this.spans.end(partial.deviceId, spanType, timestamp) : null;
+    if (closed) {
+      this.logger.setDuration(closed.eventId, closed.durationSec);
+      metadata = { ...metadata, spanEventId: closed.eventId, spanDurationSec: closed.durationSec };
+    }
+
+    const event = this.logger.record({ ...partial, timestamp, metadata });
+    this.spans.start(event);
 
     // Dispatch to user subscriptions
     for (const sub of this.userSubscriptions.values()) {
-      if (this.matchesFilter(event, sub)) {
+      if (matchesEventFilter(event, sub.filter)) {
         try {
           sub.callback(event);
         } catch {
@@ -361,15 +622,24 @@ export class RealtimeMonitor {
         }
       }
     }
+
+    // Queue delivery to matching webhooks (sent asynchronously with retries)
+    this.webhooks?.enqueue(event);
+
+    return event;
   }
 
-  private matchesFilter(event: RingEvent, sub: EventSubscription): boolean {
-    const f = sub.filter;
-    if (!f) return true;
-    if (f.deviceId && event.deviceId !== f.deviceId) return false;
-    if (f.locationId && event.locationId !== f.locationId) return false;
-    if (f.types && f.types.length > 0 && !f.types.includes(event.type)) return false;
-    return true;
+  private mapLockState(locked: RingDeviceData["locked"]): RingEventType | null {
+    switch (locked) {
+      case "locked":
+        return "lock_locked";
+      case "unlocked":
+        return "lock_unlocked";
+      case "jammed":
+        return "lock_jammed";
+      default:
+        return null;
+    }
   }
 
   private mapNotificationType(category: string | undefined): RingEventType | null {
@@ -0,0 +1,88 @@
+/**
+ * Span tracker — pairs start events (motion, contact open, tamper) with
+ * the events that clear them, so the duration can be written back onto
+ * the originating event.
+ */
+
+import type { EventSpan, RingEvent, RingEventType, SpanType } from "../types/index.js";
+
+/** Clear event type → the span type it closes. */
+const SPAN_CLOSERS: Partial<Record<RingEventType, SpanType>> = {
+  sensor_motion_clear: "sensor_motion",
+  contact_close: "contact_open",
+  tamper_clear: "tamper",
+};
+
+const SPAN_TYPES = new Set<RingEventType>(["motion", "sensor_motion", "contact_open", "tamper"]);
+
+/** The span type closed by the given event type, if any. */
+export function spanClosedBy(type: RingEventType): SpanType | null {
+  return SPAN_CLOSERS[type] ?? null;
+}
+
+interface OpenSpan {
+  eventId: string;
+  startedAt: string;
+}
+
+export class SpanTracker {
+  private open: Map<string, OpenSpan> = new Map();
+
+  /** Open a span if the event type starts one. A newer start replaces an unclosed one. */
+  start(event: RingEvent): void {
+    if (!SPAN_TYPES.has(event.type)) return;
+    this.open.set(keyOf(event.deviceId, event.type as SpanType), {
+      eventId: event.id,
+      startedAt: event.timestamp,
+    });
+  }
+
+  /**
+   * Close the device's open span of the given type. Returns the
+   * originating event ID and duration, or null if no span was open.
+   */
+  end(
+    deviceId: string,
+    type: SpanType,
+    endedAt: string
+  ): { eventId: string; durationSec: number } | null {
+    const key = keyOf(deviceId, type);
+    const span = this.open.get(key);
+    if (!span) return null;
+    this.open.delete(key);
+
+    const durationMs = Date.parse(endedAt) - Date.parse(span.startedAt);
+    return { eventId: span.eventId, durationSec: Math.max(0, durationMs) / 1000 };
+  }
+
+  /** Number of spans currently open. */
+  get size(): number {
+    return this.open.size;
+  }
+
+  clear(): void {
+    this.open.clear();
+  }
+}
+
+function keyOf(deviceId: string, type: SpanType): string {
+  return `${deviceId}:${type}`;
+}
+
+/**
+ * Sum closed span durations in seconds, counting only the part of each
+ * span that falls inside the optional [startTime, endTime] range.
+ */
+export function totalSpanDuration(spans: EventSpan[], startTime?: string, endTime?: string): number {
+  const from = startTime ? Date.parse(startTime) : -Infinity;
+  const to = endTime ? Date.parse(endTime) : Infinity;
+
+  let totalMs = 0;
+  for (const span of spans) {
+    if (span.endedAt === undefined) continue;
+    const start = Math.max(Date.parse(span.startedAt), from);
+    const end = Math.min(Date.parse(span.endedAt), to);
+    if (end > start) totalMs += end - start;
+  }
+  return totalMs / 1000;
+}
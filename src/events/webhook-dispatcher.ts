@@ -0,0 +1,251 @@
+/**
+ * Webhook dispatcher — delivers Ring events to persistent webhook
+ * subscriptions over HTTP.
+ *
+ * Each matching event is queued in SQLite, POSTed as JSON with an
+ * HMAC-SHA256 signature of the body, and retried with exponential
+ * backoff on failure. Deliveries that exhaust their attempts move to the
+ * dead-letter table. The queue survives restarts: pending deliveries are
+ * picked up again once the dispatcher starts. Several webhooks are sent
+ * to at once, each receiving its deliveries in order, so one slow
+ * endpoint does not hold up the rest.
+ */
+
+import { createHmac, randomBytes, randomUUID } from "node:crypto";
+import { matchesEventFilter } from "./event-filter.js";
+import type { DueDelivery, WebhookStore } from "../storage/webhook-store.js";
+import type {
+  EventFilter,
+  RingEvent,
+  WebhookDeadLetter,
+  WebhookDelivery,
+  WebhookDeliveryQuery,
+  WebhookDispatcherConfig,
+  WebhookSubscription,
+} from "../types/index.js";
+
+/** Compute the X-Ring-Signature header value for a request body. */
+export function signWebhookPayload(secret: string, body: string): string {
+  return "sha256=" + createHmac("sha256", secret).update(body).digest("hex");
+}
+
+export class WebhookDispatcher {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private processing: Promise<void> | null = null;
+  private rerunRequested = false;
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private timeoutMs: number;
+  private pollIntervalMs: number;
+  private concurrency: number;
+
+  constructor(
+    private store: WebhookStore,
+    config: WebhookDispatcherConfig = {},
+    private fetchFn: typeof fetch = fetch
+  ) {
+    this.maxAttempts = config.maxAttempts ?? 5;
+    this.baseDelayMs = config.baseDelayMs ?? 1000;
+    this.maxDelayMs = config.maxDelayMs ?? 5 * 60 * 1000;
+    this.timeoutMs = config.timeoutMs ?? 10000;
+    this.pollIntervalMs = config.pollIntervalMs ?? 1000;
+    this.concurrency = config.concurrency ?? 4;
+  }
+
+  /** Start retrying queued deliveries in the background. */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.processInBackground(), this.pollIntervalMs);
+    this.processInBackground();
+  }
+
+  /** Stop retrying in the background, and wait for deliveries being sent. */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.processing;
+  }
+
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  // ── Subscriptions ──
+
+  /** Register a webhook. A random secret is generated if none is given. */
+  createWebhook(options: { url: string; filter?: EventFilter; secret?: string }): WebhookSubscription {
+    let url: URL;
+    try {
+      url = new URL(options.url);
+    } catch {
+      throw new Error(`Invalid webhook URL: ${options.url}`);
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new Error(`Webhook URL must use http or https: ${options.url}`);
+    }
+
+    const webhook: WebhookSubscription = {
+      id: randomUUID(),
+      url: url.toString(),
+      filter: options.filter,
+      secret: options.secret ?? randomBytes(32).toString("hex"),
+      enabled: true,
+      createdAt: new Date().toISOString(),
+    };
+    this.store.createWebhook(webhook);
+    return webhook;
+  }
+
+  listWebhooks(): WebhookSubscription[] {
+    return this.store.listWebhooks();
+  }
+
+  deleteWebhook(id: string): boolean {
+    return this.store.deleteWebhook(id);
+  }
+
+  queryDeliveries(filter: WebhookDeliveryQuery = {}): WebhookDelivery[] {
+    return this.store.queryDeliveries(filter);
+  }
+
+  queryDeadLetters(webhookId?: string): WebhookDeadLetter[] {
+    return this.store.queryDeadLetters(webhookId);
+  }
+
+  // ── Delivery ──
+
+  /** Queue an event for every enabled webhook whose filter matches, then start sending. */
+  enqueue(event: RingEvent): number {
+    const webhooks = this.store
+      .listWebhooks()
+      .filter((w) => w.enabled && matchesEventFilter(event, w.filter));
+    if (webhooks.length === 0) return 0;
+
+    for (const webhook of webhooks) {
+      this.queue(webhook.id, event);
+    }
+
+    this.processInBackground();
+    return webhooks.length;
+  }
+
+  /**
+   * Queue an event for one webhook regardless of its filter (used by rule
+   * actions). Returns the delivery ID.
+   */
+  deliver(webhookId: string, event: RingEvent): string {
+    if (!this.store.getWebhook(webhookId)) throw new Error(`Webhook not found: ${webhookId}`);
+    const deliveryId = this.queue(webhookId, event);
+    this.processInBackground();
+    return deliveryId;
+  }
+
+  private queue(webhookId: string, event: RingEvent): string {
+    const id = randomUUID();
+    this.store.enqueue({
+      id,
+      webhookId,
+      eventId: event.id,
+      eventType: event.type,
+      payload: JSON.stringify(event),
+      now: new Date().toISOString(),
+    });
+    return id;
+  }
+
+  /**
+   * Attempt every delivery that is due. Only one run is active at a time,
+   * so a delivery is never sent twice at once; calls made during a run
+   * schedule one more pass for deliveries queued in the meantime.
+   */
+  processDue(): Promise<void> {
+    if (this.processing) {
+      this.rerunRequested = true;
+      return this.processing;
+    }
+    this.processing = (async () => {
+      do {
+        this.rerunRequested = false;
+        await this.runDue();
+      } while (this.rerunRequested);
+    })().finally(() => {
+      this.processing = null;
+    });
+    return this.processing;
+  }
+
+  private processInBackground(): void {
+    this.processDue().catch((err) => {
+      console.error("[webhook-dispatcher] Delivery run failed:", err);
+    });
+  }
+
+  /** Send due deliveries, up to `concurrency` webhooks at a time and each webhook's in order. */
+  private async runDue(): Promise<void> {
+    const byWebhook = new Map<string, DueDelivery[]>();
+    for (const due of this.store.due(new Date().toISOString())) {
+      const queue = byWebhook.get(due.delivery.webhookId);
+      if (queue) queue.push(due);
+      else byWebhook.set(due.delivery.webhookId, [due]);
+    }
+
+    const queues = [...byWebhook.values()];
+    let next = 0;
+    const worker = async (): Promise<void> => {
+      while (next < queues.length) {
+        for (const due of queues[next++]) await this.attempt(due);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, queues.length) }, worker));
+  }
+
+  private async attempt({ delivery, payload }: DueDelivery): Promise<void> {
+    const webhook = this.store.getWebhook(delivery.webhookId);
+    if (!webhook) return;
+
+    const result = await this.send(webhook, delivery.id, delivery.eventType, payload);
+    const now = new Date();
+    const attempts = delivery.attempts + 1;
+
+    if (result.ok) {
+      this.store.markDelivered(delivery.id, result.responseStatus as number, now.toISOString());
+    } else if (attempts >= this.maxAttempts) {
+      this.store.markDead(delivery.id, result, now.toISOString());
+    } else {
+      const delay = Math.min(this.baseDelayMs * 2 ** (attempts - 1), this.maxDelayMs);
+      const nextAttemptAt = new Date(now.getTime() + delay).toISOString();
+      this.store.markRetry(delivery.id, result, nextAttemptAt, now.toISOString());
+    }
+  }
+
+  private async send(
+    webhook: WebhookSubscription,
+    deliveryId: string,
+    eventType: string,
+    body: string
+  ): Promise<{ ok: boolean; error: string; responseStatus?: number }> {
+    try {
+      const response = await this.fetchFn(webhook.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "ring-ecosystem-tool",
+          "X-Ring-Event": eventType,
+          "X-Ring-Delivery": deliveryId,
+          "X-Ring-Signature": signWebhookPayload(webhook.secret, body),
+        },
+        body,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      if (response.ok) {
+        return { ok: true, error: "", responseStatus: response.status };
+      }
+      return { ok: false, error: `HTTP ${response.status}`, responseStatus: response.status };
+    } catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+}
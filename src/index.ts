@@ -14,11 +14,15 @@ export { RoutineStore } from "./storage/routine-store.js";
 export { CloudCache } from "./storage/cloud-cache.js";
 export { CrawlStore } from "./storage/crawl-store.js";
 export { DeviceHistoryStore } from "./storage/device-history-store.js";
+export { SnapshotStore } from "./storage/snapshot-store.js";
 export { EventLogger } from "./events/event-logger.js";
 export { CloudHistory } from "./events/cloud-history.js";
 export { HistoricCrawler } from "./events/historic-crawler.js";
 export { RealtimeMonitor } from "./events/realtime-monitor.js";
 export { RoutineLogger } from "./logging/routine-logger.js";
+export { ClipRecorder } from "./media/clip-recorder.js";
+export { FfmpegMediaEncoder } from "./media/media-encoder.js";
+export type { MediaEncoder } from "./media/media-encoder.js";
 export { loadConfigFromEnv } from "./client/config.js";
 export * from "./types/index.js";
 
@@ -81,9 +85,11 @@ if (isMainModule) {
     }
   })();
 
-  process.on("SIGINT", () => {
+  process.once("SIGINT", () => {
     console.log("\nShutting down...");
-    tool.shutdown();
-    process.exit(0);
+    tool
+      .shutdown()
+      .catch((err) => console.error("Shutdown failed:", err))
+      .finally(() => process.exit(0));
   });
 }
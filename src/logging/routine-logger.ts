@@ -2,6 +2,11 @@
  * Routine logger — tracks actions taken through the tool, creating
  * an audit trail of all device commands and alarm changes.
  *
+ * Each execution is one entry: `start` writes it as pending and `finish`
+ * records its outcome and duration. Steps started with a `parentId`
+ * share the parent's correlation ID, so a scene run or rule firing can be
+ * read back together with the commands it issued.
+ *
  * Delegates persistence to a RoutineStore (SQLite-backed) and
  * optionally appends entries to an NDJSON log file.
  */
@@ -9,7 +14,12 @@
 import { appendFileSync } from "node:fs";
 import { randomUUID } from "node:crypto";
 import type { RoutineStore } from "../storage/routine-store.js";
-import type { RoutineLogEntry } from "../types/index.js";
+import type { RoutineExecution, RoutineLogEntry, RoutineQuery } from "../types/index.js";
+
+type RoutineStart = Omit<
+  RoutineLogEntry,
+  "id" | "timestamp" | "result" | "error" | "correlationId" | "finishedAt" | "durationMs"
+> & { id?: string; timestamp?: string };
 
 export class RoutineLogger {
   private logFile: string | null;
@@ -22,14 +32,22 @@ export class RoutineLogger {
   }
 
   /**
-   * Log a routine action (command executed by the tool on behalf of an agent).
+   * Log a routine action in one write, e.g. a record of something that
+   * already happened. Entries with an outcome finish when they start.
    */
   log(
-    entry: Omit<RoutineLogEntry, "id" | "timestamp"> & { id?: string; timestamp?: string }
+    entry: Omit<RoutineLogEntry, "id" | "timestamp" | "correlationId"> & {
+      id?: string;
+      timestamp?: string;
+      correlationId?: string;
+    }
   ): RoutineLogEntry {
+    const id = entry.id ?? randomUUID();
+    const timestamp = entry.timestamp ?? new Date().toISOString();
+    const finished = entry.result !== "pending";
     const full: RoutineLogEntry = {
-      id: entry.id ?? randomUUID(),
-      timestamp: entry.timestamp ?? new Date().toISOString(),
+      id,
+      timestamp,
       action: entry.action,
       deviceId: entry.deviceId,
       deviceName: entry.deviceName,
@@ -38,36 +56,71 @@ export class RoutineLogger {
       parameters: entry.parameters ?? {},
       result: entry.result,
       error: entry.error,
+      correlationId: entry.correlationId ?? this.correlationIdFor(id, entry.parentId),
+      parentId: entry.parentId,
+      finishedAt: entry.finishedAt ?? (finished ? timestamp : undefined),
+      durationMs: entry.durationMs ?? (finished ? 0 : undefined),
+      simulated: entry.simulated || undefined,
     };
 
     this.store.insert(full);
+    this.append(full);
+    return full;
+  }
+
+  /** Start an execution: written as pending until `finish` is called. */
+  start(entry: RoutineStart): RoutineLogEntry {
+    return this.log({ ...entry, result: "pending" });
+  }
 
-    if (this.logFile) {
-      try {
-        appendFileSync(this.logFile, JSON.stringify(full) + "\n", "utf-8");
-      } catch {
-        // Non-fatal
-      }
+  /**
+   * Record the outcome of a pending execution, merging any extra
+   * parameters (e.g. values reported by the command). An execution
+   * finishes once; finishing it again throws.
+   */
+  finish(
+    id: string,
+    outcome: { result: "success" | "failure"; error?: string; parameters?: Record<string, unknown> },
+    finishedAt: Date = new Date()
+  ): RoutineLogEntry {
+    const entry = this.store.get(id);
+    if (!entry) throw new Error(`Routine not found: ${id}`);
+    if (entry.result !== "pending") {
+      throw new Error(`Routine ${id} already finished (${entry.result})`);
     }
 
+    const full: RoutineLogEntry = {
+      ...entry,
+      parameters: { ...entry.parameters, ...outcome.parameters },
+      result: outcome.result,
+      error: outcome.error,
+      finishedAt: finishedAt.toISOString(),
+      durationMs: Math.max(0, finishedAt.getTime() - Date.parse(entry.timestamp)),
+    };
+
+    this.store.finish(full);
+    this.append(full);
     return full;
   }
 
+  get(id: string): RoutineLogEntry | null {
+    return this.store.get(id);
+  }
+
   /**
-   * Query routine log entries.
+   * Query routine log entries (executions and steps alike).
    */
-  query(filter: {
-    action?: string;
-    deviceId?: string;
-    locationId?: string;
-    result?: "success" | "failure" | "pending";
-    startTime?: string;
-    endTime?: string;
-    limit?: number;
-  } = {}): RoutineLogEntry[] {
+  query(filter: RoutineQuery = {}): RoutineLogEntry[] {
     return this.store.query(filter);
   }
 
+  /**
+   * Query top-level executions with their steps nested.
+   */
+  queryExecutions(filter: RoutineQuery = {}): RoutineExecution[] {
+    return this.store.queryExecutions(filter);
+  }
+
   /**
    * Return a summary of routines grouped by action.
    */
@@ -82,4 +135,19 @@ export class RoutineLogger {
   get size(): number {
     return this.store.size;
   }
+
+  /** A step shares its parent's correlation ID; a top-level execution uses its own ID. */
+  private correlationIdFor(id: string, parentId: string | undefined): string {
+    if (!parentId) return id;
+    return this.store.get(parentId)?.correlationId ?? parentId;
+  }
+
+  private append(entry: RoutineLogEntry): void {
+    if (!this.logFile) return;
+    try {
+      appendFileSync(this.logFile, JSON.stringify(entry) + "\n", "utf-8");
+    } catch {
+      // Non-fatal
+    }
+  }
 }
@@ -2,500 +2,1491 @@
  * MCP (Model Context Protocol) server for the Ring Ecosystem Tool.
  *
  * Exposes Ring device access, control, event querying, and routine
- * logging as tools that any MCP-compatible agent can invoke.
+ * logging as tools that any MCP-compatible agent can invoke. Serves one
+ * agent over stdio, or with RING_MCP_TRANSPORT=http (or --http) many
+ * concurrent agents over Streamable HTTP with bearer-token auth.
  */
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
+import type { ZodRawShape } from "zod";
 import { config as loadEnv } from "dotenv";
+import { parseArgs } from "node:util";
 import { loadConfigFromEnv } from "./client/config.js";
+import { McpHttpServer } from "./server/http-server.js";
+import {
+  DEVICES_URI,
+  LOCATION_URI_TEMPLATE,
+  RECENT_EVENTS_URI,
+  ResourceSubscriptions,
+  locationUri,
+} from "./server/resource-subscriptions.js";
+import { activityReportPrompt, bedtimeCheckPrompt } from "./server/security-prompts.js";
 import { RingEcosystemTool } from "./tools/ring-ecosystem-tool.js";
+import type { EventFilter, PolicyDecision, RingEventType, RuleConditions } from "./types/index.js";
 
 loadEnv();
 
+// Launch arguments take precedence over the matching environment variables:
+// `--profile <name>` (RING_ACCESS_PROFILE), `--http` (RING_MCP_TRANSPORT=http)
+// and `--port <n>` (RING_MCP_PORT)
+const { values: args } = parseArgs({
+  options: { profile: { type: "string" }, http: { type: "boolean" }, port: { type: "string" } },
+  strict: false,
+});
+if (typeof args.profile === "string") process.env.RING_ACCESS_PROFILE = args.profile;
+if (args.http === true) process.env.RING_MCP_TRANSPORT = "http";
+if (typeof args.port === "string") process.env.RING_MCP_PORT = args.port;
+
 const toolConfig = loadConfigFromEnv();
 const ring = new RingEcosystemTool(toolConfig);
 
-const server = new McpServer({
-  name: "ring-ecosystem-tool",
-  version: "1.0.0",
+const DEVICE_ACTIONS = [
+  "turn_light_on",
+  "turn_light_off",
+  "enable_siren",
+  "disable_siren",
+  "capture_snapshot",
+  "get_health",
+  "get_recording_url",
+  "set_volume",
+  "lock",
+  "unlock",
+  "set_thermostat_mode",
+  "set_thermostat_setpoint",
+  "set_light_brightness",
+  "get_motion_settings",
+  "set_motion_detection",
+  "set_privacy_mode",
+  "snooze_motion_alerts",
+  "set_motion_sensitivity",
+  "snooze_chime",
+  "play_test_sound",
+  "unlock_door",
+  "record_clip",
+] as const;
+
+// ── Rule Schemas ──
+
+const eventFilterSchema = z.object({
+  deviceId: z.string().optional().describe("Only match events from this device"),
+  locationId: z.string().optional().describe("Only match events from this location"),
+  types: z.array(z.string()).optional().describe("Only match these event types (e.g. [\"motion\"])"),
+});
+
+const ruleConditionsSchema = z.object({
+  timeWindow: z
+    .object({
+      start: z.string().describe("Start time of day, HH:MM (24h)"),
+      end: z.string().describe("End time of day, HH:MM (24h); earlier than start wraps past midnight"),
+      timeZone: z.string().optional().describe("IANA time zone (default: server local time)"),
+    })
+    .optional()
+    .describe("Only fire for events inside this time-of-day window"),
+  alarmModes: z
+    .array(z.enum(["all", "some", "none"]))
+    .optional()
+    .describe("Only fire while the event's location is in one of these alarm modes"),
+  recentEvents: z
+    .object({
+      filter: eventFilterSchema.optional().describe("Events to count (default: the trigger)"),
+      windowSec: z.number().describe("How far back to count, in seconds"),
+      minCount: z.number().optional().describe("Fire only if at least this many events (including the trigger)"),
+      maxCount: z.number().optional().describe("Fire only if at most this many events (including the trigger)"),
+    })
+    .optional()
+    .describe("Only fire depending on how many matching events happened recently"),
 });
 
-// ── Tool: list_locations ──
+const ruleActionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("device_command"),
+    command: z.object({
+      deviceId: z.string(),
+      action: z.enum(DEVICE_ACTIONS),
+      parameters: z.record(z.unknown()).optional(),
+    }),
+  }),
+  z.object({
+    type: z.literal("alarm"),
+    action: z.enum(["arm_home", "arm_away", "disarm"]),
+    locationId: z.string().optional().describe("Default: the triggering event's location"),
+    bypassSensorIds: z.array(z.string()).optional(),
+  }),
+  z.object({
+    type: z.literal("webhook"),
+    webhookId: z.string().describe("A webhook from create_webhook; receives the triggering event"),
+  }),
+]);
+
+// ── Command Step Schema (schedules and scenes) ──
+
+const commandStepSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("device_command"),
+    command: z.object({
+      deviceId: z.string(),
+      action: z.enum(DEVICE_ACTIONS),
+      parameters: z.record(z.unknown()).optional(),
+    }),
+  }),
+  z.object({
+    type: z.literal("alarm"),
+    locationId: z.string(),
+    action: z.enum(["arm_home", "arm_away", "disarm"]),
+    bypassSensorIds: z.array(z.string()).optional(),
+  }),
+]);
+
+// ── Server ──
+
+/**
+ * Build an MCP server exposing the tool. Each HTTP session gets its own
+ * server; all of them share the one RingEcosystemTool.
+ */
+function createServer(): McpServer {
+  const server = new McpServer({
+    name: "ring-ecosystem-tool",
+    version: "1.0.0",
+  });
+
+  /** Register a tool only if the access profile offers it to this client. */
+  const registerTool = <Args extends ZodRawShape>(
+    name: string,
+    description: string,
+    paramsSchema: Args,
+    cb: ToolCallback<Args>
+  ): void => {
+    if (ring.allowsTool(name)) server.tool(name, description, paramsSchema, cb);
+  };
+
+  // ── Tool: list_locations ──
 
-server.tool(
-  "list_locations",
-  "List all Ring locations associated with the account, including alarm status and device counts.",
-  {},
-  async () => {
-    try {
-      const locations = await ring.listLocations();
-      return { content: [{ type: "text", text: JSON.stringify(locations, null, 2) }] };
-    } catch (err) {
-      return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+  registerTool(
+    "list_locations",
+    "List all Ring locations associated with the account, including alarm status and device counts.",
+    {},
+    async () => {
+      try {
+        const locations = await ring.listLocations();
+        return { content: [{ type: "text", text: JSON.stringify(locations, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
     }
-  }
-);
+  );
 
-// ── Tool: list_devices ──
+  // ── Tool: list_devices ──
 
-server.tool(
-  "list_devices",
-  "List all Ring devices across all locations, including cameras, doorbells, alarm sensors, lights, and locks with their capabilities.",
-  {},
-  async () => {
-    try {
-      const devices = await ring.listDevices();
-      return { content: [{ type: "text", text: JSON.stringify(devices, null, 2) }] };
-    } catch (err) {
-      return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+  registerTool(
+    "list_devices",
+    "List all Ring devices across all locations, including cameras, doorbells, chimes, intercoms, alarm sensors, lights, and locks with their capabilities.",
+    {},
+    async () => {
+      try {
+        const devices = await ring.listDevices();
+        return { content: [{ type: "text", text: JSON.stringify(devices, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
     }
-  }
-);
+  );
 
-// ── Tool: get_device ──
+  // ── Tool: get_device ──
 
-server.tool(
-  "get_device",
-  "Get detailed information about a specific Ring device by its ID.",
-  { device_id: z.string().describe("The ID of the device to look up") },
-  async ({ device_id }) => {
-    try {
-      const device = await ring.getDevice(device_id);
-      if (!device) {
-        return { content: [{ type: "text", text: `Device not found: ${device_id}` }], isError: true };
+  registerTool(
+    "get_device",
+    "Get detailed information about a specific Ring device by its ID.",
+    { device_id: z.string().describe("The ID of the device to look up") },
+    async ({ device_id }) => {
+      try {
+        const device = await ring.getDevice(device_id);
+        if (!device) {
+          return { content: [{ type: "text", text: `Device not found: ${device_id}` }], isError: true };
+        }
+        return { content: [{ type: "text", text: JSON.stringify(device, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
       }
-      return { content: [{ type: "text", text: JSON.stringify(device, null, 2) }] };
-    } catch (err) {
-      return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
     }
-  }
-);
-
-// ── Tool: control_device ──
-
-server.tool(
-  "control_device",
-  "Execute a control action on a Ring device. Supported actions: turn_light_on, turn_light_off, enable_siren, disable_siren, capture_snapshot, get_health, get_recording_url, set_volume.",
-  {
-    device_id: z.string().describe("The ID of the device to control"),
-    action: z.enum([
-      "turn_light_on",
-      "turn_light_off",
-      "enable_siren",
-      "disable_siren",
-      "capture_snapshot",
-      "get_health",
-      "get_recording_url",
-      "set_volume",
-    ]).describe("The action to perform on the device"),
-    parameters: z
-      .record(z.unknown())
-      .optional()
-      .describe("Additional parameters for the action (e.g., { dingId: '...' } for get_recording_url, { volume: 0.5 } for set_volume)"),
-  },
-  async ({ device_id, action, parameters }) => {
-    try {
-      const result = await ring.controlDevice({
-        deviceId: device_id,
-        action,
-        parameters,
-      });
-      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
-    } catch (err) {
-      return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+  );
+
+  // ── Tool: control_device ──
+
+  registerTool(
+    "control_device",
+    "Execute a control action on a Ring device. Supported actions: turn_light_on, turn_light_off, enable_siren, disable_siren, capture_snapshot, get_health, get_recording_url, set_volume, lock, unlock, set_thermostat_mode, set_thermostat_setpoint, set_light_brightness, get_motion_settings, set_motion_detection, set_privacy_mode, snooze_motion_alerts, set_motion_sensitivity, snooze_chime, play_test_sound, unlock_door, record_clip. Settings changes return the previous value, which is also recorded in the routine log. Light on/off also works for Ring Smart Lighting (Beams) lights and light groups. If the action policy responds with confirmation_required or pin_required, repeat the same call with confirmation_token or pin.",
+    {
+      device_id: z.string().describe("The ID of the device to control"),
+      action: z.enum(DEVICE_ACTIONS).describe("The action to perform on the device"),
+      parameters: z
+        .record(z.unknown())
+        .optional()
+        .describe("Additional parameters for the action (e.g., { dingId: '...' } for get_recording_url, { volume: 0.5 } for set_volume (0-11 for chimes), { mode: 'heat' } for set_thermostat_mode, { setpoint: 21 } for set_thermostat_setpoint, { duration: 300 } for turn_light_on on Beams lights, { brightness: 60 } for set_light_brightness, { enabled: false } for set_motion_detection/set_privacy_mode (privacy mode also turns motion detection off, or to motionDetection if given), { minutes: 30 } for snooze_motion_alerts, { sensitivity: 5 } for set_motion_sensitivity (1-10), { minutes: 60 } for snooze_chime, { kind: 'ding' } for play_test_sound, { duration: 30 } for record_clip)"),
+      confirmation_token: z
+        .string()
+        .optional()
+        .describe("Token from a confirmation_required response, to confirm the same request"),
+      pin: z.string().optional().describe("PIN, when a pin_required response asks for it; never guess it"),
+      dry_run: z
+        .boolean()
+        .optional()
+        .describe("Validate and log the request as simulated without sending it to Ring (default: server setting)"),
+    },
+    async ({ device_id, action, parameters, confirmation_token, pin, dry_run }) => {
+      try {
+        const command = { deviceId: device_id, action, parameters };
+        const decision = await ring.authorizeCommand(command, { confirmationToken: confirmation_token, pin });
+        if (decision.status !== "allowed") return policyResponse(decision);
+
+        const result = await ring.controlDevice(command, {}, { dryRun: dry_run });
+        return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
     }
-  }
-);
-
-// ── Tool: set_alarm_mode ──
-
-server.tool(
-  "set_alarm_mode",
-  "Set the alarm mode for a Ring location. Actions: arm_home, arm_away, disarm.",
-  {
-    location_id: z.string().describe("The location ID"),
-    action: z.enum(["arm_home", "arm_away", "disarm"]).describe("The alarm action to take"),
-  },
-  async ({ location_id, action }) => {
-    try {
-      const result = await ring.setAlarmMode(location_id, action);
-      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
-    } catch (err) {
-      return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+  );
+
+  // ── Tool: set_alarm_mode ──
+
+  registerTool(
+    "set_alarm_mode",
+    "Set the alarm mode for a Ring location. Actions: arm_home, arm_away, disarm. Arming fails if any sensor is faulted (e.g., a door is open) unless its ID is listed in bypass_sensor_ids; the result reports which sensors were faulted and bypassed. If the action policy responds with confirmation_required or pin_required, repeat the same call with confirmation_token or pin.",
+    {
+      location_id: z.string().describe("The location ID"),
+      action: z.enum(["arm_home", "arm_away", "disarm"]).describe("The alarm action to take"),
+      bypass_sensor_ids: z
+        .array(z.string())
+        .optional()
+        .describe("Sensor device IDs to bypass when arming (use get_faulted_sensors to find them)"),
+      confirmation_token: z
+        .string()
+        .optional()
+        .describe("Token from a confirmation_required response, to confirm the same request"),
+      pin: z.string().optional().describe("PIN, when a pin_required response asks for it; never guess it"),
+      dry_run: z
+        .boolean()
+        .optional()
+        .describe("Validate and log the request as simulated without sending it to Ring (default: server setting)"),
+    },
+    async ({ location_id, action, bypass_sensor_ids, confirmation_token, pin, dry_run }) => {
+      try {
+        const options = { bypassSensorIds: bypass_sensor_ids, dryRun: dry_run };
+        const decision = ring.authorizeAlarmMode(location_id, action, options, { confirmationToken: confirmation_token, pin });
+        if (decision.status !== "allowed") return policyResponse(decision);
+
+        const result = await ring.setAlarmMode(location_id, action, options);
+        return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
     }
-  }
-);
-
-// ── Tool: get_alarm_mode ──
-
-server.tool(
-  "get_alarm_mode",
-  "Get the current alarm mode (all, some, none) for a Ring location.",
-  {
-    location_id: z.string().describe("The location ID"),
-  },
-  async ({ location_id }) => {
-    try {
-      const mode = await ring.getAlarmMode(location_id);
-      return { content: [{ type: "text", text: JSON.stringify({ locationId: location_id, alarmMode: mode }) }] };
-    } catch (err) {
-      return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+  );
+
+  // ── Tool: get_faulted_sensors ──
+
+  registerTool(
+    "get_faulted_sensors",
+    "List alarm sensors at a Ring location that are currently faulted (e.g., open doors or windows). Use before arming to decide which sensors to bypass.",
+    {
+      location_id: z.string().describe("The location ID"),
+    },
+    async ({ location_id }) => {
+      try {
+        const sensors = await ring.getFaultedSensors(location_id);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ locationId: location_id, count: sensors.length, sensors }, null, 2),
+          }],
+        };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
     }
-  }
-);
-
-// ── Tool: query_events ──
-
-server.tool(
-  "query_events",
-  "Query historic Ring events (motion, doorbell presses, alarm triggers, etc.) with optional filters. Events are collected in real time while the tool is running.",
-  {
-    device_id: z.string().optional().describe("Filter by device ID"),
-    location_id: z.string().optional().describe("Filter by location ID"),
-    type: z.enum([
-      "motion", "doorbell_press", "alarm_triggered", "alarm_mode_change",
-      "device_online", "device_offline", "light_on", "light_off",
-      "lock_locked", "lock_unlocked", "siren_on", "siren_off",
-      "snapshot_captured", "connection_change", "unknown",
-    ]).optional().describe("Filter by event type"),
-    start_time: z.string().optional().describe("Start of time range (ISO 8601)"),
-    end_time: z.string().optional().describe("End of time range (ISO 8601)"),
-    limit: z.number().optional().describe("Max number of events to return (default: all)"),
-  },
-  async ({ device_id, location_id, type, start_time, end_time, limit }) => {
-    try {
-      const events = ring.queryEvents({
-        deviceId: device_id,
-        locationId: location_id,
-        type,
-        startTime: start_time,
-        endTime: end_time,
-        limit,
-      });
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({ count: events.length, events }, null, 2),
-        }],
-      };
-    } catch (err) {
-      return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+  );
+
+  // ── Tool: get_alarm_mode ──
+
+  registerTool(
+    "get_alarm_mode",
+    "Get the current alarm mode (all, some, none) for a Ring location.",
+    {
+      location_id: z.string().describe("The location ID"),
+    },
+    async ({ location_id }) => {
+      try {
+        const mode = await ring.getAlarmMode(location_id);
+        return { content: [{ type: "text", text: JSON.stringify({ locationId: location_id, alarmMode: mode }) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
     }
-  }
-);
-
-// ── Tool: get_event_summary ──
-
-server.tool(
-  "get_event_summary",
-  "Get a count of logged events grouped by event type, with optional filters.",
-  {
-    device_id: z.string().optional().describe("Filter by device ID"),
-    location_id: z.string().optional().describe("Filter by location ID"),
-    start_time: z.string().optional().describe("Start of time range (ISO 8601)"),
-    end_time: z.string().optional().describe("End of time range (ISO 8601)"),
-  },
-  async ({ device_id, location_id, start_time, end_time }) => {
-    try {
-      const summary = ring.getEventSummary({
-        deviceId: device_id,
-        locationId: location_id,
-        startTime: start_time,
-        endTime: end_time,
-      });
-      return { content: [{ type: "text", text: JSON.stringify(summary, null, 2) }] };
-    } catch (err) {
-      return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+  );
+
+  // ── Tool: query_events ──
+
+  registerTool(
+    "query_events",
+    "Query historic Ring events (motion, doorbell presses, alarm triggers, etc.) with optional filters. Events are collected in real time while the tool is running.",
+    {
+      device_id: z.string().optional().describe("Filter by device ID"),
+      location_id: z.string().optional().describe("Filter by location ID"),
+      type: z.enum([
+        "motion", "doorbell_press", "alarm_triggered", "alarm_mode_change",
+        "device_online", "device_offline", "light_on", "light_off",
+        "lock_locked", "lock_unlocked", "lock_jammed", "siren_on", "siren_off",
+        "snapshot_captured", "connection_change", "thermostat_mode_change",
+        "temperature_high", "temperature_low", "intercom_ding", "intercom_unlock",
+        "clip_recorded", "battery_low", "unknown",
+      ]).optional().describe("Filter by event type"),
+      start_time: z.string().optional().describe("Start of time range (ISO 8601)"),
+      end_time: z.string().optional().describe("End of time range (ISO 8601)"),
+      limit: z.number().optional().describe("Max number of events to return (default: all)"),
+    },
+    async ({ device_id, location_id, type, start_time, end_time, limit }) => {
+      try {
+        const events = await ring.queryEvents({
+          deviceId: device_id,
+          locationId: location_id,
+          type,
+          startTime: start_time,
+          endTime: end_time,
+          limit,
+        });
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ count: events.length, events }, null, 2),
+          }],
+        };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
     }
-  }
-);
-
-// ── Tool: query_routines ──
-
-server.tool(
-  "query_routines",
-  "Query the routine log — an audit trail of all device commands and alarm actions executed through this tool.",
-  {
-    action: z.string().optional().describe("Filter by action name"),
-    device_id: z.string().optional().describe("Filter by device ID"),
-    location_id: z.string().optional().describe("Filter by location ID"),
-    result: z.enum(["success", "failure", "pending"]).optional().describe("Filter by result status"),
-    start_time: z.string().optional().describe("Start of time range (ISO 8601)"),
-    end_time: z.string().optional().describe("End of time range (ISO 8601)"),
-    limit: z.number().optional().describe("Max number of entries to return"),
-  },
-  async ({ action, device_id, location_id, result, start_time, end_time, limit }) => {
-    try {
-      const entries = ring.queryRoutines({
-        action,
-        deviceId: device_id,
-        locationId: location_id,
-        result,
-        startTime: start_time,
-        endTime: end_time,
-        limit,
-      });
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({ count: entries.length, routines: entries }, null, 2),
-        }],
-      };
-    } catch (err) {
-      return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+  );
+
+  // ── Tool: wait_for_event ──
+
+  registerTool(
+    "wait_for_event",
+    "Wait for the next live Ring event matching a filter (e.g. the next doorbell press at the front door) instead of polling query_events. Returns the event, or timedOut: true if none arrives in time.",
+    {
+      device_id: z.string().optional().describe("Only match events from this device"),
+      location_id: z.string().optional().describe("Only match events from this location"),
+      types: z.array(z.string()).optional().describe("Only match these event types (e.g. [\"doorbell_press\"])"),
+      timeout_sec: z.number().min(1).max(300).optional().describe("How long to wait, in seconds (default: 60, max: 300)"),
+    },
+    async ({ device_id, location_id, types, timeout_sec }, extra) => {
+      try {
+        const filter: EventFilter = {
+          deviceId: device_id,
+          locationId: location_id,
+          types: types as RingEventType[] | undefined,
+        };
+        const event = await ring.waitForEvent(filter, (timeout_sec ?? 60) * 1000, extra.signal);
+        const result = event ? { event } : { timedOut: true };
+        return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
     }
-  }
-);
+  );
 
-// ── Tool: get_routine_summary ──
+  // ── Tool: get_event_summary ──
 
-server.tool(
-  "get_routine_summary",
-  "Get a summary of all routines grouped by action, showing total, success, and failure counts.",
-  {},
-  async () => {
-    try {
-      const summary = ring.getRoutineSummary();
-      return { content: [{ type: "text", text: JSON.stringify(summary, null, 2) }] };
-    } catch (err) {
-      return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+  registerTool(
+    "get_event_summary",
+    "Get a count of logged events grouped by event type, with optional filters.",
+    {
+      device_id: z.string().optional().describe("Filter by device ID"),
+      location_id: z.string().optional().describe("Filter by location ID"),
+      start_time: z.string().optional().describe("Start of time range (ISO 8601)"),
+      end_time: z.string().optional().describe("End of time range (ISO 8601)"),
+    },
+    async ({ device_id, location_id, start_time, end_time }) => {
+      try {
+        const summary = await ring.getEventSummary({
+          deviceId: device_id,
+          locationId: location_id,
+          startTime: start_time,
+          endTime: end_time,
+        });
+        return { content: [{ type: "text", text: JSON.stringify(summary, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
     }
-  }
-);
+  );
 
-// ── Tool: get_status ──
+  // ── Tool: query_spans ──
 
-server.tool(
-  "get_status",
-  "Get the current status of the Ring Ecosystem Tool, including whether real-time monitoring is active and how many events/routines have been logged.",
-  {},
-  async () => {
-    try {
-      const status = ring.status();
-      return { content: [{ type: "text", text: JSON.stringify(status, null, 2) }] };
-    } catch (err) {
-      return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+  registerTool(
+    "query_spans",
+    "Query how long things lasted: periods between a start event and its clear (camera motion, sensor motion, contact open → close, tamper → clear). Returns each span plus the total duration clipped to the time range — e.g. how long the garage door was open yesterday.",
+    {
+      device_id: z.string().optional().describe("Filter by device ID"),
+      location_id: z.string().optional().describe("Filter by location ID"),
+      type: z.enum(["motion", "sensor_motion", "contact_open", "tamper"]).optional()
+        .describe("Filter by span type (default: all)"),
+      start_time: z.string().optional().describe("Start of time range (ISO 8601)"),
+      end_time: z.string().optional().describe("End of time range (ISO 8601)"),
+      limit: z.number().optional().describe("Max number of spans to return (default: all)"),
+    },
+    async ({ device_id, location_id, type, start_time, end_time, limit }) => {
+      try {
+        const result = await ring.querySpans({
+          deviceId: device_id,
+          locationId: location_id,
+          type,
+          startTime: start_time,
+          endTime: end_time,
+          limit,
+        });
+        return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
     }
-  }
-);
-
-// ── Tool: get_cloud_events ──
-
-server.tool(
-  "get_cloud_events",
-  "Query Ring's cloud-stored camera event history (motion, doorbell presses, on-demand recordings, etc.). Returns events from Ring's cloud servers, which can go back up to 180 days depending on Ring Protect plan. Supports cursor-based pagination via pagination_key.",
-  {
-    device_id: z
-      .string()
-      .optional()
-      .describe("Camera device ID to query. If omitted, queries all cameras at the specified location or across all locations."),
-    location_id: z
-      .string()
-      .optional()
-      .describe("Location ID to scope the query. Used when device_id is not provided."),
-    kind: z
-      .enum(["motion", "ding", "on_demand", "alarm", "on_demand_link", "door_activity", "key_access"])
-      .optional()
-      .describe("Filter by event kind"),
-    state: z
-      .enum(["missed", "accepted", "person_detected"])
-      .optional()
-      .describe("Filter by event state"),
-    favorites: z.boolean().optional().describe("Only return favorited events"),
-    limit: z.number().optional().describe("Max events to return (default: 20)"),
-    pagination_key: z
-      .string()
-      .optional()
-      .describe("Cursor from a previous response to fetch the next page of results"),
-  },
-  async ({ device_id, location_id, kind, state, favorites, limit, pagination_key }) => {
-    try {
-      const result = await ring.getCloudEvents({
-        deviceId: device_id,
-        locationId: location_id,
-        kind,
-        state,
-        favorites,
-        limit,
-        paginationKey: pagination_key,
-      });
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify(result, null, 2),
-        }],
-      };
-    } catch (err) {
-      return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+  );
+
+  // ── Tool: get_device_health_history ──
+
+  registerTool(
+    "get_device_health_history",
+    "Get the time series of device health readings (online state, battery percentage, Wi-Fi RSSI, firmware version) collected by the periodic health poller, newest first.",
+    {
+      device_id: z.string().optional().describe("Filter by device ID"),
+      location_id: z.string().optional().describe("Filter by location ID"),
+      start_time: z.string().optional().describe("Start of time range (ISO 8601)"),
+      end_time: z.string().optional().describe("End of time range (ISO 8601)"),
+      limit: z.number().optional().describe("Max number of samples to return (default: all)"),
+    },
+    async ({ device_id, location_id, start_time, end_time, limit }) => {
+      try {
+        const samples = await ring.getDeviceHealthHistory({
+          deviceId: device_id,
+          locationId: location_id,
+          startTime: start_time,
+          endTime: end_time,
+          limit,
+        });
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ count: samples.length, samples }, null, 2),
+          }],
+        };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
     }
-  }
-);
-
-// ── Tool: search_videos ──
-
-server.tool(
-  "search_videos",
-  "Search for video recordings from a specific Ring camera within a date range. Returns video metadata including thumbnail URLs, playback URLs, duration, and person detection info. Requires a Ring Protect plan for recorded video access.",
-  {
-    device_id: z.string().describe("The camera device ID to search videos for"),
-    date_from: z.string().describe("Start of date range (ISO 8601, e.g., '2025-06-15T00:00:00Z')"),
-    date_to: z.string().describe("End of date range (ISO 8601, e.g., '2025-06-15T23:59:59Z')"),
-    order: z
-      .enum(["asc", "desc"])
-      .optional()
-      .describe("Sort order by creation time (default: desc)"),
-  },
-  async ({ device_id, date_from, date_to, order }) => {
-    try {
-      const results = await ring.searchVideos({
-        deviceId: device_id,
-        dateFrom: date_from,
-        dateTo: date_to,
-        order,
-      });
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({ count: results.length, videos: results }, null, 2),
-        }],
-      };
-    } catch (err) {
-      return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+  );
+
+  // ── Tool: get_battery_forecast ──
+
+  registerTool(
+    "get_battery_forecast",
+    "Predict when battery-powered cameras and sensors will reach a low battery level (default 10%), from a discharge trend fitted to readings since each device's last recharge. Requires the health poller to have collected a few readings.",
+    {
+      device_id: z.string().optional().describe("Forecast a single device (default: all battery devices, soonest first)"),
+      threshold_percent: z.number().min(0).max(100).optional().describe("Battery percentage to forecast (default: 10)"),
+    },
+    async ({ device_id, threshold_percent }) => {
+      try {
+        const forecasts = await ring.getBatteryForecast({
+          deviceId: device_id,
+          thresholdPercent: threshold_percent,
+        });
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ count: forecasts.length, forecasts }, null, 2),
+          }],
+        };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
     }
-  }
-);
+  );
 
-// ── Tool: get_recording_url ──
+  // ── Tool: query_snapshots ──
 
-server.tool(
-  "get_recording_url",
-  "Get a direct playback URL for a specific Ring camera recording by its ding ID. The URL is temporary and expires after a short period. Use get_cloud_events or search_videos first to find the ding ID.",
-  {
-    device_id: z.string().describe("The camera device ID"),
-    ding_id: z.string().describe("The ding ID string (from event or video search results)"),
-    transcoded: z
-      .boolean()
-      .optional()
-      .describe("Request the transcoded (H.264 MP4) version instead of original format (default: false)"),
-  },
-  async ({ device_id, ding_id, transcoded }) => {
-    try {
-      const url = await ring.getRecordingUrl(device_id, ding_id, { transcoded });
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({ deviceId: device_id, dingId: ding_id, recordingUrl: url }, null, 2),
-        }],
-      };
-    } catch (err) {
-      return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+  registerTool(
+    "query_snapshots",
+    "List archived camera snapshots (device, capture time, size), newest first. Snapshots are archived automatically by capture_snapshot and referenced from events by snapshotId.",
+    {
+      device_id: z.string().optional().describe("Filter by device ID"),
+      start_time: z.string().optional().describe("Start of time range (ISO 8601)"),
+      end_time: z.string().optional().describe("End of time range (ISO 8601)"),
+      limit: z.number().optional().describe("Max number of snapshots to return (default: all)"),
+    },
+    async ({ device_id, start_time, end_time, limit }) => {
+      try {
+        const snapshots = await ring.querySnapshots({
+          deviceId: device_id,
+          startTime: start_time,
+          endTime: end_time,
+          limit,
+        });
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ count: snapshots.length, snapshots }, null, 2),
+          }],
+        };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
     }
-  }
-);
-
-// ── Tool: get_device_history ──
-
-server.tool(
-  "get_device_history",
-  "Get alarm or Ring Beams device history for a location. Returns events from the security panel and connected sensors (not camera events — use get_cloud_events for cameras).",
-  {
-    location_id: z.string().describe("The location ID"),
-    limit: z.number().optional().describe("Max number of events (default: 50)"),
-    offset: z.number().optional().describe("Offset for pagination (default: 0)"),
-    category: z
-      .enum(["alarm", "beams"])
-      .optional()
-      .describe("Filter by device category"),
-  },
-  async ({ location_id, limit, offset, category }) => {
-    try {
-      const events = await ring.getDeviceHistory({
-        locationId: location_id,
-        limit,
-        offset,
-        category,
-      });
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({ count: events.length, events }, null, 2),
-        }],
-      };
-    } catch (err) {
-      return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+  );
+
+  // ── Tool: get_snapshot ──
+
+  registerTool(
+    "get_snapshot",
+    "Retrieve an archived camera snapshot image by its snapshot ID (as referenced by events and capture_snapshot results).",
+    {
+      snapshot_id: z.string().describe("The snapshot ID"),
+    },
+    async ({ snapshot_id }) => {
+      try {
+        const snapshot = await ring.getSnapshot(snapshot_id);
+        if (!snapshot) {
+          return { content: [{ type: "text", text: `Snapshot not found: ${snapshot_id}` }], isError: true };
+        }
+        return {
+          content: [
+            { type: "text", text: JSON.stringify(snapshot.record, null, 2) },
+            { type: "image", data: snapshot.data.toString("base64"), mimeType: snapshot.record.mimeType },
+          ],
+        };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
     }
-  }
-);
-
-// ── Tool: start_crawl ──
-
-server.tool(
-  "start_crawl",
-  "Start the background historic data crawler, which fetches all historical Ring cloud events, video metadata, and device history for all cameras and locations, storing them in the local database. Safe to call if already running. The crawl resumes from where it left off if previously stopped.",
-  {},
-  async () => {
-    try {
-      await ring.startCrawl();
-      const status = await ring.getCrawlStatus();
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({ started: true, ...status }, null, 2),
-        }],
-      };
-    } catch (err) {
-      return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+  );
+
+  // ── Tool: query_routines ──
+
+  registerTool(
+    "query_routines",
+    "Query the routine log — an audit trail of all device commands and alarm actions executed through this tool. Returns executions newest first, each with its status (pending, success, failure), start and finish times, duration and correlation ID. Scene runs, rule firings and schedule runs include the commands they issued as nested steps; an execution matches if it or any of its steps matches the filters.",
+    {
+      action: z.string().optional().describe("Filter by action name"),
+      device_id: z.string().optional().describe("Filter by device ID"),
+      location_id: z.string().optional().describe("Filter by location ID"),
+      result: z.enum(["success", "failure", "pending"]).optional().describe("Filter by result status"),
+      correlation_id: z.string().optional().describe("Only the execution with this correlation ID"),
+      simulated: z.boolean().optional().describe("Only dry runs (true) or only real actions (false)"),
+      start_time: z.string().optional().describe("Start of time range (ISO 8601)"),
+      end_time: z.string().optional().describe("End of time range (ISO 8601)"),
+      limit: z.number().optional().describe("Max number of executions to return"),
+    },
+    async ({ action, device_id, location_id, result, correlation_id, simulated, start_time, end_time, limit }) => {
+      try {
+        const entries = await ring.queryRoutines({
+          action,
+          deviceId: device_id,
+          locationId: location_id,
+          result,
+          correlationId: correlation_id,
+          simulated,
+          startTime: start_time,
+          endTime: end_time,
+          limit,
+        });
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ count: entries.length, routines: entries }, null, 2),
+          }],
+        };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
     }
-  }
-);
-
-// ── Tool: get_crawl_status ──
-
-server.tool(
-  "get_crawl_status",
-  "Get the current status of the background historic data crawler, including per-camera progress for cloud events and video crawling, and per-location progress for device history crawling.",
-  {},
-  async () => {
-    try {
-      const status = await ring.getCrawlStatus();
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify(status, null, 2),
-        }],
-      };
-    } catch (err) {
-      return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+  );
+
+  // ── Tool: get_routine_summary ──
+
+  registerTool(
+    "get_routine_summary",
+    "Get a summary of all routines grouped by action, showing total, success, and failure counts.",
+    {},
+    async () => {
+      try {
+        const summary = ring.getRoutineSummary();
+        return { content: [{ type: "text", text: JSON.stringify(summary, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
     }
-  }
-);
-
-// ── Tool: stop_crawl ──
-
-server.tool(
-  "stop_crawl",
-  "Stop the background historic data crawler. The crawl can be resumed later from where it left off by calling start_crawl.",
-  {},
-  async () => {
-    try {
-      ring.stopCrawl();
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({ stopped: true, message: "Crawl stopped. Can be resumed with start_crawl." }),
-        }],
-      };
-    } catch (err) {
-      return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+  );
+
+  // ── Tool: get_status ──
+
+  registerTool(
+    "get_status",
+    "Get the current status of the Ring Ecosystem Tool, including whether real-time monitoring is active and how many events/routines have been logged.",
+    {},
+    async () => {
+      try {
+        const status = ring.status();
+        return { content: [{ type: "text", text: JSON.stringify(status, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: create_webhook ──
+
+  registerTool(
+    "create_webhook",
+    "Register a persistent webhook. Matching events are POSTed as JSON to the URL with an HMAC-SHA256 signature of the body in the X-Ring-Signature header (sha256=<hex>), and retried with exponential backoff on failure. The secret is only shown in this response.",
+    {
+      url: z.string().describe("HTTP(S) endpoint that receives events"),
+      device_id: z.string().optional().describe("Only deliver events from this device"),
+      location_id: z.string().optional().describe("Only deliver events from this location"),
+      types: z.array(z.string()).optional().describe("Only deliver these event types (e.g. [\"doorbell_press\", \"motion\"])"),
+      secret: z.string().optional().describe("HMAC signing secret (default: randomly generated)"),
+    },
+    async ({ url, device_id, location_id, types, secret }) => {
+      try {
+        const filter = device_id || location_id || types
+          ? { deviceId: device_id, locationId: location_id, types: types as RingEventType[] | undefined }
+          : undefined;
+        const webhook = await ring.createWebhook({ url, filter, secret });
+        return { content: [{ type: "text", text: JSON.stringify(webhook, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: list_webhooks ──
+
+  registerTool(
+    "list_webhooks",
+    "List registered webhooks and their filters (secrets are not shown).",
+    {},
+    async () => {
+      try {
+        const webhooks = await ring.listWebhooks();
+        return { content: [{ type: "text", text: JSON.stringify({ count: webhooks.length, webhooks }, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: delete_webhook ──
+
+  registerTool(
+    "delete_webhook",
+    "Delete a webhook. Its pending deliveries are dropped; delivery history is kept.",
+    {
+      webhook_id: z.string().describe("The webhook ID"),
+    },
+    async ({ webhook_id }) => {
+      try {
+        const deleted = await ring.deleteWebhook(webhook_id);
+        if (!deleted) {
+          return { content: [{ type: "text", text: `Webhook not found: ${webhook_id}` }], isError: true };
+        }
+        return { content: [{ type: "text", text: JSON.stringify({ success: true, webhookId: webhook_id }) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: get_webhook_deliveries ──
+
+  registerTool(
+    "get_webhook_deliveries",
+    "Get webhook delivery history: pending retries, delivered events, and dead-lettered deliveries that exhausted their retries, newest first.",
+    {
+      webhook_id: z.string().optional().describe("Filter by webhook ID"),
+      event_id: z.string().optional().describe("Filter by event ID"),
+      status: z.enum(["pending", "delivered", "dead"]).optional().describe("Filter by delivery status"),
+      limit: z.number().optional().describe("Max number of deliveries to return (default: all)"),
+    },
+    async ({ webhook_id, event_id, status, limit }) => {
+      try {
+        const deliveries = await ring.getWebhookDeliveries({
+          webhookId: webhook_id,
+          eventId: event_id,
+          status,
+          limit,
+        });
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ count: deliveries.length, deliveries }, null, 2),
+          }],
+        };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: create_rule ──
+
+  registerTool(
+    "create_rule",
+    "Create an automation rule. When a live event matches the trigger and all conditions hold, the actions run in order (device commands, alarm changes, webhook deliveries). Every firing is recorded in the routine log as a rule_fired entry linked to the triggering event. Actions are checked against the action policy: denied and confirm-only actions are refused, and PIN-protected ones need pin.",
+    {
+      name: z.string().describe("Rule name"),
+      trigger: eventFilterSchema.describe("Events that trigger the rule (an empty object matches every event)"),
+      conditions: ruleConditionsSchema.optional().describe("Conditions that must all hold"),
+      actions: z.array(ruleActionSchema).describe("Actions to run when the rule fires"),
+      enabled: z.boolean().optional().describe("Whether the rule is active (default: true)"),
+      pin: z
+        .string()
+        .optional()
+        .describe("PIN, when a pin_required response asks for it to save a PIN-protected action; never guess it"),
+    },
+    async ({ name, trigger, conditions, actions, enabled, pin }) => {
+      try {
+        const decision = await ring.authorizeAutomation(actions, { pin });
+        if (decision.status !== "allowed") return policyResponse(decision);
+
+        const rule = await ring.createRule({
+          name,
+          trigger: trigger as EventFilter,
+          conditions: conditions as RuleConditions | undefined,
+          actions,
+          enabled,
+        });
+        return { content: [{ type: "text", text: JSON.stringify(rule, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: update_rule ──
+
+  registerTool(
+    "update_rule",
+    "Update an automation rule, e.g. to enable or disable it. Only the given fields change. New actions are checked against the action policy like in create_rule.",
+    {
+      rule_id: z.string().describe("The rule ID"),
+      name: z.string().optional().describe("New rule name"),
+      enabled: z.boolean().optional().describe("Enable or disable the rule"),
+      trigger: eventFilterSchema.optional().describe("New trigger"),
+      conditions: ruleConditionsSchema.optional().describe("New conditions (replaces the existing ones)"),
+      actions: z.array(ruleActionSchema).optional().describe("New actions (replaces the existing ones)"),
+      pin: z
+        .string()
+        .optional()
+        .describe("PIN, when a pin_required response asks for it to save a PIN-protected action; never guess it"),
+    },
+    async ({ rule_id, name, enabled, trigger, conditions, actions, pin }) => {
+      try {
+        if (actions) {
+          const decision = await ring.authorizeAutomation(actions, { pin });
+          if (decision.status !== "allowed") return policyResponse(decision);
+        }
+
+        const changes = Object.fromEntries(
+          Object.entries({ name, enabled, trigger, conditions, actions }).filter(([, v]) => v !== undefined)
+        );
+        const rule = await ring.updateRule(rule_id, changes);
+        return { content: [{ type: "text", text: JSON.stringify(rule, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: list_rules ──
+
+  registerTool(
+    "list_rules",
+    "List automation rules with their triggers, conditions, actions, and when each last fired.",
+    {},
+    async () => {
+      try {
+        const rules = await ring.listRules();
+        return { content: [{ type: "text", text: JSON.stringify({ count: rules.length, rules }, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: delete_rule ──
+
+  registerTool(
+    "delete_rule",
+    "Delete an automation rule. Its past firings stay in the routine log.",
+    {
+      rule_id: z.string().describe("The rule ID"),
+    },
+    async ({ rule_id }) => {
+      try {
+        const deleted = await ring.deleteRule(rule_id);
+        if (!deleted) {
+          return { content: [{ type: "text", text: `Rule not found: ${rule_id}` }], isError: true };
+        }
+        return { content: [{ type: "text", text: JSON.stringify({ success: true, ruleId: rule_id }) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: get_rule_firings ──
+
+  registerTool(
+    "get_rule_firings",
+    "Get recent rule firings from the routine log, newest first. Each entry names the rule, the triggering event ID, and the outcome of every action.",
+    {
+      rule_id: z.string().optional().describe("Filter by rule ID"),
+      event_id: z.string().optional().describe("Filter by triggering event ID"),
+      limit: z.number().optional().describe("Max number of firings to return (default: 50)"),
+    },
+    async ({ rule_id, event_id, limit }) => {
+      try {
+        const firings = ring.getRuleFirings({ ruleId: rule_id, eventId: event_id, limit: limit ?? 50 });
+        return { content: [{ type: "text", text: JSON.stringify({ count: firings.length, firings }, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: create_schedule ──
+
+  registerTool(
+    "create_schedule",
+    "Create a schedule that runs device commands or alarm changes at times given by a cron expression or by sunrise/sunset (with an offset) at the configured latitude/longitude. Optional end actions run a fixed duration after each run (e.g. lights off after 2 hours). Every run is recorded in the routine log as a schedule_run entry. Actions are checked against the action policy: denied and confirm-only actions are refused, and PIN-protected ones need pin.",
+    {
+      name: z.string().describe("Schedule name"),
+      cron: z
+        .string()
+        .optional()
+        .describe("5-field cron expression (minute hour day month weekday), e.g. \"0 22 * * 1-5\""),
+      time_zone: z.string().optional().describe("IANA time zone for the cron expression (default: RING_TIMEZONE or server local time)"),
+      sun_event: z.enum(["sunrise", "sunset"]).optional().describe("Run at sunrise or sunset instead of on a cron expression"),
+      offset_minutes: z.number().optional().describe("Minutes after (positive) or before (negative) the sun event"),
+      days_of_week: z
+        .array(z.number())
+        .optional()
+        .describe("Days the sun schedule runs, 0 (Sunday) to 6 (Saturday) (default: every day)"),
+      actions: z.array(commandStepSchema).describe("Actions to run at each scheduled time"),
+      end_actions: z.array(commandStepSchema).optional().describe("Actions to run duration_minutes after each run"),
+      duration_minutes: z.number().optional().describe("Delay before end_actions run (required with end_actions)"),
+      catch_up: z
+        .enum(["skip", "run_once"])
+        .optional()
+        .describe("What to do with runs missed while the server was stopped: skip them, or run once on startup (default: skip)"),
+      catch_up_window_minutes: z
+        .number()
+        .optional()
+        .describe("With run_once, only catch up if the latest missed run is at most this old (default: 60)"),
+      enabled: z.boolean().optional().describe("Whether the schedule is active (default: true)"),
+      pin: z
+        .string()
+        .optional()
+        .describe("PIN, when a pin_required response asks for it to save a PIN-protected action; never guess it"),
+    },
+    async (args) => {
+      try {
+        if ((args.cron === undefined) === (args.sun_event === undefined)) {
+          return { content: [{ type: "text", text: "Error: Provide exactly one of cron or sun_event" }], isError: true };
+        }
+        const decision = await ring.authorizeAutomation([...args.actions, ...(args.end_actions ?? [])], {
+          pin: args.pin,
+        });
+        if (decision.status !== "allowed") return policyResponse(decision);
+
+        const schedule = await ring.createSchedule({
+          name: args.name,
+          trigger: args.cron !== undefined
+            ? { type: "cron", expression: args.cron, timeZone: args.time_zone }
+            : {
+                type: "sun",
+                event: args.sun_event as "sunrise" | "sunset",
+                offsetMinutes: args.offset_minutes,
+                daysOfWeek: args.days_of_week,
+              },
+          actions: args.actions,
+          endActions: args.end_actions,
+          durationMinutes: args.duration_minutes,
+          catchUp: args.catch_up,
+          catchUpWindowMinutes: args.catch_up_window_minutes,
+          enabled: args.enabled,
+        });
+        return { content: [{ type: "text", text: JSON.stringify(schedule, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: list_schedules ──
+
+  registerTool(
+    "list_schedules",
+    "List schedules with their triggers, actions, and next and last run times.",
+    {},
+    async () => {
+      try {
+        const schedules = await ring.listSchedules();
+        return {
+          content: [{ type: "text", text: JSON.stringify({ count: schedules.length, schedules }, null, 2) }],
+        };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: pause_schedule ──
+
+  registerTool(
+    "pause_schedule",
+    "Pause a schedule so it no longer runs. End actions already pending still run.",
+    {
+      schedule_id: z.string().describe("The schedule ID"),
+    },
+    async ({ schedule_id }) => {
+      try {
+        const schedule = await ring.pauseSchedule(schedule_id);
+        return { content: [{ type: "text", text: JSON.stringify(schedule, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: resume_schedule ──
+
+  registerTool(
+    "resume_schedule",
+    "Resume a paused schedule from its next scheduled time. Runs skipped while paused are not caught up.",
+    {
+      schedule_id: z.string().describe("The schedule ID"),
+    },
+    async ({ schedule_id }) => {
+      try {
+        const schedule = await ring.resumeSchedule(schedule_id);
+        return { content: [{ type: "text", text: JSON.stringify(schedule, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: delete_schedule ──
+
+  registerTool(
+    "delete_schedule",
+    "Delete a schedule, including any pending end actions. Its past runs stay in the routine log.",
+    {
+      schedule_id: z.string().describe("The schedule ID"),
+    },
+    async ({ schedule_id }) => {
+      try {
+        const deleted = await ring.deleteSchedule(schedule_id);
+        if (!deleted) {
+          return { content: [{ type: "text", text: `Schedule not found: ${schedule_id}` }], isError: true };
+        }
+        return { content: [{ type: "text", text: JSON.stringify({ success: true, scheduleId: schedule_id }) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: create_scene ──
+
+  registerTool(
+    "create_scene",
+    "Create a named scene: an ordered list of device commands and alarm changes run together with run_scene (e.g. \"Night mode\" = arm home, floodlights off, chime volume low).",
+    {
+      name: z.string().describe("Scene name"),
+      description: z.string().optional().describe("What the scene does"),
+      steps: z.array(commandStepSchema).describe("Steps in run order"),
+      concurrency: z
+        .number()
+        .optional()
+        .describe("How many steps may run at once; steps still start in order (default: 1)"),
+      rollback_on_failure: z
+        .boolean()
+        .optional()
+        .describe("If a step fails, restore completed steps to their previous state (default: false)"),
+    },
+    async ({ name, description, steps, concurrency, rollback_on_failure }) => {
+      try {
+        const decision = await ring.authorizeSceneSteps(steps);
+        if (decision.status !== "allowed") return policyResponse(decision);
+
+        const scene = await ring.createScene({
+          name,
+          description,
+          steps,
+          concurrency,
+          rollbackOnFailure: rollback_on_failure,
+        });
+        return { content: [{ type: "text", text: JSON.stringify(scene, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: update_scene ──
+
+  registerTool(
+    "update_scene",
+    "Update a scene. Only the given fields change.",
+    {
+      scene_id: z.string().describe("The scene ID"),
+      name: z.string().optional().describe("New scene name"),
+      description: z.string().optional().describe("New description"),
+      steps: z.array(commandStepSchema).optional().describe("New steps (replaces the existing ones)"),
+      concurrency: z.number().optional().describe("New concurrency"),
+      rollback_on_failure: z.boolean().optional().describe("Enable or disable rollback on failure"),
+    },
+    async ({ scene_id, name, description, steps, concurrency, rollback_on_failure }) => {
+      try {
+        if (steps) {
+          const decision = await ring.authorizeSceneSteps(steps);
+          if (decision.status !== "allowed") return policyResponse(decision);
+        }
+
+        const changes = Object.fromEntries(
+          Object.entries({ name, description, steps, concurrency, rollbackOnFailure: rollback_on_failure }).filter(
+            ([, v]) => v !== undefined
+          )
+        );
+        const scene = await ring.updateScene(scene_id, changes);
+        return { content: [{ type: "text", text: JSON.stringify(scene, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: list_scenes ──
+
+  registerTool(
+    "list_scenes",
+    "List scenes with their steps and when each last ran.",
+    {},
+    async () => {
+      try {
+        const scenes = await ring.listScenes();
+        return { content: [{ type: "text", text: JSON.stringify({ count: scenes.length, scenes }, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: delete_scene ──
+
+  registerTool(
+    "delete_scene",
+    "Delete a scene. Its past runs stay in the routine log.",
+    {
+      scene_id: z.string().describe("The scene ID"),
+    },
+    async ({ scene_id }) => {
+      try {
+        const deleted = await ring.deleteScene(scene_id);
+        if (!deleted) {
+          return { content: [{ type: "text", text: `Scene not found: ${scene_id}` }], isError: true };
+        }
+        return { content: [{ type: "text", text: JSON.stringify({ success: true, sceneId: scene_id }) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: run_scene ──
+
+  registerTool(
+    "run_scene",
+    "Run a scene's steps. The run is recorded as one scene_run routine entry, and each step's command is logged with that entry's ID as parentRoutineId. With rollback, a failed step stops the run and completed steps are restored to their previous state where possible. If the action policy responds with confirmation_required or pin_required, repeat the same call with confirmation_token or pin.",
+    {
+      scene_id: z.string().describe("The scene ID"),
+      concurrency: z.number().optional().describe("Override the scene's concurrency for this run"),
+      rollback_on_failure: z.boolean().optional().describe("Override the scene's rollback setting for this run"),
+      confirmation_token: z
+        .string()
+        .optional()
+        .describe("Token from a confirmation_required response, to confirm the same request"),
+      pin: z.string().optional().describe("PIN, when a pin_required response asks for it; never guess it"),
+      dry_run: z
+        .boolean()
+        .optional()
+        .describe("Validate and log the request as simulated without sending it to Ring (default: server setting)"),
+    },
+    async ({ scene_id, concurrency, rollback_on_failure, confirmation_token, pin, dry_run }) => {
+      try {
+        const decision = await ring.authorizeScene(scene_id, { confirmationToken: confirmation_token, pin });
+        if (decision.status !== "allowed") return policyResponse(decision);
+
+        const result = await ring.runScene(scene_id, {
+          concurrency,
+          rollbackOnFailure: rollback_on_failure,
+          dryRun: dry_run,
+        });
+        return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: get_cloud_events ──
+
+  registerTool(
+    "get_cloud_events",
+    "Query Ring's cloud-stored camera event history (motion, doorbell presses, on-demand recordings, etc.). Returns events from Ring's cloud servers, which can go back up to 180 days depending on Ring Protect plan. Supports cursor-based pagination via pagination_key.",
+    {
+      device_id: z
+        .string()
+        .optional()
+        .describe("Camera device ID to query. If omitted, queries all cameras at the specified location or across all locations."),
+      location_id: z
+        .string()
+        .optional()
+        .describe("Location ID to scope the query. Used when device_id is not provided."),
+      kind: z
+        .enum(["motion", "ding", "on_demand", "alarm", "on_demand_link", "door_activity", "key_access"])
+        .optional()
+        .describe("Filter by event kind"),
+      state: z
+        .enum(["missed", "accepted", "person_detected"])
+        .optional()
+        .describe("Filter by event state"),
+      favorites: z.boolean().optional().describe("Only return favorited events"),
+      limit: z.number().optional().describe("Max events to return (default: 20)"),
+      pagination_key: z
+        .string()
+        .optional()
+        .describe("Cursor from a previous response to fetch the next page of results"),
+    },
+    async ({ device_id, location_id, kind, state, favorites, limit, pagination_key }) => {
+      try {
+        const result = await ring.getCloudEvents({
+          deviceId: device_id,
+          locationId: location_id,
+          kind,
+          state,
+          favorites,
+          limit,
+          paginationKey: pagination_key,
+        });
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          }],
+        };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: search_videos ──
+
+  registerTool(
+    "search_videos",
+    "Search for video recordings from a specific Ring camera within a date range. Returns video metadata including thumbnail URLs, playback URLs, duration, and person detection info. Requires a Ring Protect plan for recorded video access.",
+    {
+      device_id: z.string().describe("The camera device ID to search videos for"),
+      date_from: z.string().describe("Start of date range (ISO 8601, e.g., '2025-06-15T00:00:00Z')"),
+      date_to: z.string().describe("End of date range (ISO 8601, e.g., '2025-06-15T23:59:59Z')"),
+      order: z
+        .enum(["asc", "desc"])
+        .optional()
+        .describe("Sort order by creation time (default: desc)"),
+    },
+    async ({ device_id, date_from, date_to, order }) => {
+      try {
+        const results = await ring.searchVideos({
+          deviceId: device_id,
+          dateFrom: date_from,
+          dateTo: date_to,
+          order,
+        });
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ count: results.length, videos: results }, null, 2),
+          }],
+        };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: get_recording_url ──
+
+  registerTool(
+    "get_recording_url",
+    "Get a direct playback URL for a specific Ring camera recording by its ding ID. The URL is temporary and expires after a short period. Use get_cloud_events or search_videos first to find the ding ID.",
+    {
+      device_id: z.string().describe("The camera device ID"),
+      ding_id: z.string().describe("The ding ID string (from event or video search results)"),
+      transcoded: z
+        .boolean()
+        .optional()
+        .describe("Request the transcoded (H.264 MP4) version instead of original format (default: false)"),
+    },
+    async ({ device_id, ding_id, transcoded }) => {
+      try {
+        const url = await ring.getRecordingUrl(device_id, ding_id, { transcoded });
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ deviceId: device_id, dingId: ding_id, recordingUrl: url }, null, 2),
+          }],
+        };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: get_device_history ──
+
+  registerTool(
+    "get_device_history",
+    "Get alarm or Ring Beams device history for a location. Returns events from the security panel and connected sensors (not camera events — use get_cloud_events for cameras).",
+    {
+      location_id: z.string().describe("The location ID"),
+      limit: z.number().optional().describe("Max number of events (default: 50)"),
+      offset: z.number().optional().describe("Offset for pagination (default: 0)"),
+      category: z
+        .enum(["alarm", "beams"])
+        .optional()
+        .describe("Filter by device category"),
+    },
+    async ({ location_id, limit, offset, category }) => {
+      try {
+        const events = await ring.getDeviceHistory({
+          locationId: location_id,
+          limit,
+          offset,
+          category,
+        });
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ count: events.length, events }, null, 2),
+          }],
+        };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
     }
+  );
+
+  // ── Tool: start_crawl ──
+
+  registerTool(
+    "start_crawl",
+    "Start the background historic data crawler, which fetches all historical Ring cloud events, video metadata, and device history for all cameras and locations, storing them in the local database. Safe to call if already running. The crawl resumes from where it left off if previously stopped.",
+    {},
+    async () => {
+      try {
+        await ring.startCrawl();
+        const status = await ring.getCrawlStatus();
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ started: true, ...status }, null, 2),
+          }],
+        };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: get_crawl_status ──
+
+  registerTool(
+    "get_crawl_status",
+    "Get the current status of the background historic data crawler, including per-camera progress for cloud events and video crawling, and per-location progress for device history crawling.",
+    {},
+    async () => {
+      try {
+        const status = await ring.getCrawlStatus();
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(status, null, 2),
+          }],
+        };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Tool: stop_crawl ──
+
+  registerTool(
+    "stop_crawl",
+    "Stop the background historic data crawler. The crawl can be resumed later from where it left off by calling start_crawl.",
+    {},
+    async () => {
+      try {
+        ring.stopCrawl();
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ stopped: true, message: "Crawl stopped. Can be resumed with start_crawl." }),
+          }],
+        };
+      } catch (err) {
+        return { content: [{ type: "text", text: `Error: ${errorMessage(err)}` }], isError: true };
+      }
+    }
+  );
+
+  // ── Resources ──
+  // Offered when the access profile allows the tool that returns the same data
+
+  const resources = {
+    events: ring.allowsTool("query_events"),
+    devices: ring.allowsTool("list_devices"),
+    locations: ring.allowsTool("list_locations"),
+  };
+
+  if (resources.events) {
+    server.resource(
+      "recent-events",
+      RECENT_EVENTS_URI,
+      { description: "The 50 most recent Ring events, newest first", mimeType: "application/json" },
+      async (uri) => jsonResource(uri, ring.getRecentEvents(50))
+    );
+  }
+
+  if (resources.devices) {
+    server.resource(
+      "devices",
+      DEVICES_URI,
+      { description: "All Ring devices with their current state", mimeType: "application/json" },
+      async (uri) => jsonResource(uri, await ring.listDevices())
+    );
+  }
+
+  if (resources.locations) {
+    server.resource(
+      "location",
+      new ResourceTemplate(LOCATION_URI_TEMPLATE, {
+        list: async () => ({
+          resources: (await ring.listLocations()).map((location) => ({
+            uri: locationUri(location.id),
+            name: location.name,
+            mimeType: "application/json",
+          })),
+        }),
+      }),
+      { description: "A Ring location with its alarm mode and devices", mimeType: "application/json" },
+      async (uri, { id }) => {
+        const location = await ring.getLocation(decodeURIComponent(String(id)));
+        if (!location) throw new Error(`Location not found: ${id}`);
+        return jsonResource(uri, location);
+      }
+    );
+  }
+
+  // Subscribed resources are refreshed by notifications as live events arrive
+  if (resources.events || resources.devices || resources.locations) {
+    const subscriptions = new ResourceSubscriptions((uri) => server.server.sendResourceUpdated({ uri }), {
+      offers: (uri) =>
+        uri === RECENT_EVENTS_URI ? resources.events : uri === DEVICES_URI ? resources.devices : resources.locations,
+      allowsLocation: (locationId) => ring.allowsLocation(locationId),
+      allowsDevice: (device) => ring.allowsDevice(device),
+    });
+    server.server.registerCapabilities({ resources: { subscribe: true } });
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      subscriptions.subscribe(request.params.uri);
+      return {};
+    });
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.unsubscribe(request.params.uri);
+      return {};
+    });
+
+    const eventSubscriptionId = ring.subscribeToEvents((event) => subscriptions.handleEvent(event));
+    server.server.onclose = () => {
+      ring.unsubscribeFromEvents(eventSubscriptionId);
+    };
+  }
+
+  // ── Prompts ──
+  // Offered when the access profile allows every tool whose data the prompt gathers
+
+  const allowsTools = (...names: string[]) => names.every((name) => ring.allowsTool(name));
+
+  if (allowsTools("list_locations", "list_devices", "query_events", "get_event_summary", "get_alarm_mode")) {
+    server.prompt(
+      "activity_report",
+      "Summarize what happened at a location, or one device there (e.g. the front door), over a time range — overnight activity, a day away, etc.",
+      {
+        location_id: z.string().describe("Location ID"),
+        device_id: z.string().optional().describe("Only report on this device"),
+        start_time: z.string().optional().describe("Start of the range, ISO 8601 (default: 12 hours before end_time)"),
+        end_time: z.string().optional().describe("End of the range, ISO 8601 (default: now)"),
+      },
+      async ({ location_id, device_id, start_time, end_time }) =>
+        userPrompt(
+          await activityReportPrompt(ring, {
+            locationId: location_id,
+            deviceId: device_id,
+            startTime: start_time,
+            endTime: end_time,
+          })
+        )
+    );
+  }
+
+  if (
+    allowsTools("list_locations", "list_devices", "query_events", "get_event_summary", "get_alarm_mode", "get_faulted_sensors")
+  ) {
+    server.prompt(
+      "bedtime_check",
+      "Check whether a location is secure for the night: alarm mode, open doors and windows, unlocked locks, offline devices and recent activity.",
+      {
+        location_id: z.string().describe("Location ID"),
+        start_time: z.string().optional().describe("Start of the recent-activity range, ISO 8601 (default: 4 hours ago)"),
+        end_time: z.string().optional().describe("End of the recent-activity range, ISO 8601 (default: now)"),
+      },
+      async ({ location_id, start_time, end_time }) =>
+        userPrompt(await bedtimeCheckPrompt(ring, { locationId: location_id, startTime: start_time, endTime: end_time }))
+    );
   }
-);
+
+  return server;
+}
 
 // ── Start server ──
 
 async function main() {
+  // Validate HTTP settings before connecting to Ring
+  const httpServer = process.env.RING_MCP_TRANSPORT === "http" ? createHttpServer() : null;
+  handleShutdownSignals();
+
   try {
     const stats = await ring.initialize();
     console.error(
@@ -506,15 +1497,95 @@ async function main() {
     console.error("[ring-ecosystem-tool] Tools will attempt to connect on first use.");
   }
 
+  if (toolConfig.accessProfile) {
+    console.error(`[ring-ecosystem-tool] Access profile: ${toolConfig.accessProfile.name}`);
+  }
+
+  if (httpServer) {
+    closeTransport = () => httpServer.close();
+    const address = await httpServer.start();
+    console.error(`[ring-ecosystem-tool] MCP server listening on http://${address.host}:${address.port}/mcp`);
+    return;
+  }
+
+  const server = createServer();
   const transport = new StdioServerTransport();
+  closeTransport = () => server.close();
   await server.connect(transport);
   console.error("[ring-ecosystem-tool] MCP server running on stdio");
 }
 
+function createHttpServer(): McpHttpServer {
+  const port = Number(process.env.RING_MCP_PORT ?? 3000);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid RING_MCP_PORT: ${process.env.RING_MCP_PORT}`);
+  }
+  const idleMinutes = Number(process.env.RING_MCP_SESSION_IDLE_MINUTES ?? 30);
+  if (!(idleMinutes > 0)) {
+    throw new Error(`Invalid RING_MCP_SESSION_IDLE_MINUTES: ${process.env.RING_MCP_SESSION_IDLE_MINUTES}`);
+  }
+  return new McpHttpServer(createServer, {
+    token: process.env.RING_MCP_TOKEN ?? "",
+    host: process.env.RING_MCP_HOST || undefined,
+    port,
+    sessionIdleTimeoutMs: idleMinutes * 60_000,
+  });
+}
+
+/** Closes the active transport; set once it is running. */
+let closeTransport: () => Promise<void> = async () => {};
+
+/**
+ * Stop serving on SIGINT/SIGTERM: close the transport first so no new
+ * calls arrive, then stop the crawler and background jobs and close the
+ * database.
+ */
+function handleShutdownSignals(): void {
+  let shuttingDown = false;
+  const shutdown = (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.error(`[ring-ecosystem-tool] ${signal} received, shutting down`);
+    closeTransport()
+      .catch((err) => console.error(`[ring-ecosystem-tool] Failed to close transport — ${errorMessage(err)}`))
+      .then(() => ring.shutdown())
+      .catch((err) => console.error(`[ring-ecosystem-tool] Shutdown failed — ${errorMessage(err)}`))
+      .finally(() => process.exit(0));
+  };
+  process.once("SIGINT", () => shutdown("SIGINT"));
+  process.once("SIGTERM", () => shutdown("SIGTERM"));
+}
+
+function userPrompt(text: string) {
+  return { messages: [{ role: "user" as const, content: { type: "text" as const, text } }] };
+}
+
+function jsonResource(uri: URL, value: unknown) {
+  return { contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(value, null, 2) }] };
+}
+
 function errorMessage(err: unknown): string {
   return err instanceof Error ? err.message : String(err);
 }
 
+/**
+ * Response for a request the action policy denied or challenged. A
+ * challenge is not an error: the agent satisfies it by repeating the
+ * call with the confirmation token or the user's PIN.
+ */
+function policyResponse(decision: Exclude<PolicyDecision, { status: "allowed" }>) {
+  const next =
+    decision.status === "confirmation_required"
+      ? "Repeat the same call with confirmation_token set to confirm it."
+      : decision.status === "pin_required"
+        ? "Ask the user for the PIN, then repeat the same call with pin set."
+        : undefined;
+  return {
+    content: [{ type: "text" as const, text: JSON.stringify({ ...decision, next }, null, 2) }],
+    isError: decision.status === "denied",
+  };
+}
+
 main().catch((err) => {
   console.error("[ring-ecosystem-tool] Fatal:", err);
   process.exit(1);
@@ -0,0 +1,59 @@
+/**
+ * Clip recorder — captures short live-video clips from cameras into a
+ * local media directory using a pluggable MediaEncoder.
+ */
+
+import { mkdirSync, statSync } from "node:fs";
+import { join, resolve } from "node:path";
+import type { RingCamera } from "ring-client-api";
+import type { MediaEncoder } from "./media-encoder.js";
+import type { RecordedClip } from "../types/index.js";
+
+/** Longest clip a single record_clip call may request, in seconds. */
+export const MAX_CLIP_DURATION_SEC = 300;
+
+export class ClipRecorder {
+  private mediaDirectory: string;
+
+  constructor(
+    private encoder: MediaEncoder,
+    mediaDirectory: string
+  ) {
+    this.mediaDirectory = resolve(mediaDirectory);
+  }
+
+  /**
+   * Record a clip of `durationSec` seconds from the camera's live stream.
+   * Files are named `<deviceId>-<timestamp>.mp4` inside the media directory.
+   */
+  async record(camera: RingCamera, durationSec: number): Promise<RecordedClip> {
+    if (!Number.isFinite(durationSec) || durationSec <= 0 || durationSec > MAX_CLIP_DURATION_SEC) {
+      throw new Error(`duration must be between 1 and ${MAX_CLIP_DURATION_SEC} seconds`);
+    }
+
+    const deviceId = String(camera.id);
+    const startedAt = new Date().toISOString();
+    const fileName = `${deviceId}-${startedAt.replace(/[:.]/g, "-")}.mp4`;
+    const filePath = join(this.mediaDirectory, fileName);
+
+    mkdirSync(this.mediaDirectory, { recursive: true });
+    await this.encoder.recordClip(camera, filePath, Math.round(durationSec));
+
+    let sizeBytes = 0;
+    try {
+      sizeBytes = statSync(filePath).size;
+    } catch {
+      throw new Error(`Encoder did not produce a clip at ${filePath}`);
+    }
+
+    return {
+      deviceId,
+      deviceName: camera.name,
+      filePath,
+      durationSec: Math.round(durationSec),
+      sizeBytes,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+    };
+  }
+}
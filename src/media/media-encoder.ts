@@ -0,0 +1,26 @@
+/**
+ * Media encoder — turns a camera's live stream into a file on disk.
+ *
+ * The encoder is an interface so the clip recorder does not depend on
+ * ffmpeg directly; tests substitute a fake encoder that writes a stub file.
+ */
+
+import type { RingCamera } from "ring-client-api";
+
+export interface MediaEncoder {
+  /**
+   * Record `durationSec` seconds of the camera's live stream to an MP4
+   * file at `outputPath`. Resolves once the file has been fully written.
+   */
+  recordClip(camera: RingCamera, outputPath: string, durationSec: number): Promise<void>;
+}
+
+/**
+ * Default encoder — starts a live call and transcodes it with ffmpeg via
+ * ring-client-api. Requires ffmpeg to be available on the PATH.
+ */
+export class FfmpegMediaEncoder implements MediaEncoder {
+  async recordClip(camera: RingCamera, outputPath: string, durationSec: number): Promise<void> {
+    await camera.recordToFile(outputPath, durationSec);
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Access profiles — named restrictions on what one MCP client may do:
+ * which tools it is offered, and which devices, locations and actions it
+ * may touch. The MCP server registers only the profile's tools; the tool
+ * checks every request against the profile again and records each
+ * denial in the routine log.
+ */
+
+import { readFileSync } from "node:fs";
+import type { RoutineLogger } from "../logging/routine-logger.js";
+import type { AccessProfile, PolicyRequest } from "../types/index.js";
+
+export class AccessControl {
+  constructor(
+    private profile: AccessProfile | undefined,
+    private routineLogger: RoutineLogger
+  ) {}
+
+  get profileName(): string | undefined {
+    return this.profile?.name;
+  }
+
+  /** Whether the profile limits devices or locations, so query results need filtering. */
+  get restrictsTargets(): boolean {
+    return Boolean(this.profile?.deviceIds || this.profile?.locationIds);
+  }
+
+  allowsTool(name: string): boolean {
+    return !this.profile?.tools || matchesAny(this.profile.tools, name);
+  }
+
+  allowsLocation(locationId: string): boolean {
+    return !this.profile?.locationIds || this.profile.locationIds.includes(locationId);
+  }
+
+  allowsDevice(device: { id: string; locationId: string }): boolean {
+    return (
+      (!this.profile?.deviceIds || this.profile.deviceIds.includes(device.id)) &&
+      this.allowsLocation(device.locationId)
+    );
+  }
+
+  /**
+   * Whether a logged record is visible: one from a device must come from
+   * an allowed device, and one without a device (an alarm change, a scene
+   * run) only when the profile does not limit devices.
+   */
+  allowsRecord(record: { deviceId?: string; locationId: string }): boolean {
+    if (record.deviceId) return this.allowsDevice({ id: record.deviceId, locationId: record.locationId });
+    return !this.profile?.deviceIds && this.allowsLocation(record.locationId);
+  }
+
+  /**
+   * Whether a saved rule, schedule, scene or webhook is visible: every
+   * device and location it acts on or listens to must pass allowsRecord.
+   * A target naming neither (a trigger on every event) is visible only
+   * when the profile does not limit targets.
+   */
+  allowsTargets(targets: Array<{ deviceId?: string; locationId?: string }>): boolean {
+    return targets.every((t) => this.allowsRecord({ deviceId: t.deviceId, locationId: t.locationId ?? "" }));
+  }
+
+  /** Throw, and log the denial, unless allowsTargets holds, e.g. before changing a saved rule. */
+  assertTargets(action: string, targets: Array<{ deviceId?: string; locationId?: string }>): void {
+    for (const target of targets) this.assertScope({ ...target, action });
+  }
+
+  /** Throw, and log the denial, unless the profile allows the action on its target. */
+  assertCommand(request: PolicyRequest): void {
+    if (this.profile?.actions && !matchesAny(this.profile.actions, request.action)) {
+      this.deny(request, `does not allow ${request.action}`);
+    }
+    this.assertTarget(request);
+  }
+
+  /** Throw, and log the denial, unless the profile allows the request's device and location. */
+  assertTarget(request: PolicyRequest): void {
+    if (!this.profile) return;
+    if (request.deviceId && this.profile.deviceIds && !this.profile.deviceIds.includes(request.deviceId)) {
+      this.deny(request, `does not allow device ${request.deviceId}`);
+    }
+    if (this.profile.locationIds && !(request.locationId && this.profile.locationIds.includes(request.locationId))) {
+      this.deny(request, `does not allow location ${request.locationId ?? "unknown"}`);
+    }
+  }
+
+  /**
+   * Like assertTarget, for requests whose results cannot be filtered
+   * afterwards (a webhook, a location's alarm history): one naming only a
+   * location covers every device there, so it is refused when the profile
+   * limits devices.
+   */
+  assertScope(request: PolicyRequest): void {
+    this.assertTarget(request);
+    if (this.profile?.deviceIds && !request.deviceId) {
+      this.deny(request, `does not allow every device at location ${request.locationId ?? "unknown"}`);
+    }
+  }
+
+  private deny(request: PolicyRequest, reason: string): never {
+    const error = `Access denied: profile "${this.profile?.name}" ${reason}`;
+    this.routineLogger.log({
+      action: "access_denied",
+      deviceId: request.deviceId,
+      locationId: request.locationId ?? "unknown",
+      locationName: "unknown",
+      parameters: { profile: this.profile?.name, requestedAction: request.action },
+      result: "failure",
+      error,
+    });
+    throw new Error(error);
+  }
+}
+
+/**
+ * Read a profile by name from a JSON file mapping profile names to
+ * profiles, e.g. `{ "lighting": { "tools": ["list_devices", "control_device"] } }`.
+ */
+export function loadAccessProfile(path: string | undefined, name: string): AccessProfile {
+  if (!path) throw new Error(`Access profile "${name}" was selected but no profiles file is configured`);
+
+  let profiles: Record<string, Omit<AccessProfile, "name">>;
+  try {
+    profiles = JSON.parse(readFileSync(path, "utf-8")) as Record<string, Omit<AccessProfile, "name">>;
+  } catch (err) {
+    throw new Error(`Failed to read access profiles file ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!profiles || typeof profiles !== "object" || !Object.hasOwn(profiles, name)) {
+    throw new Error(`Unknown access profile: ${name}`);
+  }
+
+  const profile: AccessProfile = { ...profiles[name], name };
+  validateAccessProfile(profile);
+  return profile;
+}
+
+/** Throw if a profile's lists are not arrays of strings. */
+export function validateAccessProfile(profile: AccessProfile): void {
+  for (const key of ["tools", "deviceIds", "locationIds", "actions"] as const) {
+    const list = profile[key];
+    if (list !== undefined && (!Array.isArray(list) || list.some((item) => typeof item !== "string"))) {
+      throw new Error(`Access profile "${profile.name}": ${key} must be a list of strings`);
+    }
+  }
+}
+
+/** Whether a name matches one of the patterns; a trailing "*" matches any suffix. */
+function matchesAny(patterns: string[], name: string): boolean {
+  return patterns.some((pattern) =>
+    pattern.endsWith("*") ? name.startsWith(pattern.slice(0, -1)) : pattern === name
+  );
+}
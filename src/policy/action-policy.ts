@@ -0,0 +1,296 @@
+/**
+ * Action policy — decides whether an agent may run a device command,
+ * alarm change or scene: allow it, deny it, or challenge the caller for
+ * a confirmation token or PIN before it runs.
+ *
+ * Rules are checked in order and the first match decides an action. A
+ * request made of several actions (a scene run) gets the strictest
+ * decision among them. Confirmation tokens are single use, expire, and
+ * are only valid for the exact request they were issued for. Denials and
+ * challenges are recorded in the routine log.
+ *
+ * Rules, schedules and MQTT commands run with nobody to answer a
+ * challenge, so they are decided more strictly: confirm-only actions are
+ * refused, and PIN actions need the PIN when the rule or schedule is saved.
+ */
+
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { inTimeWindow, validateTimeWindow } from "../automation/rule-engine.js";
+import type { RoutineLogger } from "../logging/routine-logger.js";
+import type {
+  PolicyConfig,
+  PolicyCredentials,
+  PolicyDecision,
+  PolicyEffect,
+  PolicyRequest,
+  PolicyRule,
+} from "../types/index.js";
+
+const EFFECTS: PolicyEffect[] = ["allow", "deny", "confirm", "pin"];
+
+const STRICTNESS: Record<PolicyEffect, number> = { allow: 0, confirm: 1, pin: 2, deny: 3 };
+
+const DEFAULT_REASONS: Record<PolicyEffect, string> = {
+  allow: "Allowed by policy",
+  deny: "Denied by policy",
+  confirm: "This action needs confirmation",
+  pin: "This action needs the PIN",
+};
+
+export class ActionPolicy {
+  /** Outstanding confirmation tokens → the request they confirm */
+  private confirmations = new Map<string, { fingerprint: string; expiresAt: number }>();
+
+  constructor(
+    private config: PolicyConfig,
+    private routineLogger: RoutineLogger
+  ) {
+    validatePolicy(config);
+  }
+
+  get ruleCount(): number {
+    return this.config.rules.length;
+  }
+
+  /**
+   * Decide a request made of one or more actions. A confirmation token
+   * from an earlier challenge, or the PIN, satisfies the matching effect.
+   */
+  authorize(
+    requests: PolicyRequest[],
+    credentials: PolicyCredentials = {},
+    now: Date = new Date()
+  ): PolicyDecision {
+    this.expireConfirmations(now);
+
+    const strictest = this.strictest(requests, now);
+    if (!strictest) return { status: "allowed" };
+    const { request, effect, reason } = strictest;
+
+    switch (effect) {
+      case "deny":
+        return this.deny(request, reason);
+
+      case "pin":
+        if (credentials.pin === undefined) {
+          return this.challenge(request, { status: "pin_required", action: request.action, reason });
+        }
+        return pinMatches(credentials.pin, this.config.pin ?? "")
+          ? { status: "allowed" }
+          : this.deny(request, "Incorrect PIN");
+
+      case "confirm": {
+        const fingerprint = fingerprintOf(requests);
+        if (credentials.confirmationToken === undefined) {
+          const confirmationToken = randomUUID();
+          const expiresAt = now.getTime() + (this.config.confirmationTtlSec ?? 120) * 1000;
+          this.confirmations.set(confirmationToken, { fingerprint, expiresAt });
+          return this.challenge(request, {
+            status: "confirmation_required",
+            action: request.action,
+            reason,
+            confirmationToken,
+            expiresAt: new Date(expiresAt).toISOString(),
+          });
+        }
+
+        const pending = this.confirmations.get(credentials.confirmationToken);
+        if (!pending || pending.fingerprint !== fingerprint) {
+          return this.deny(request, "Confirmation token is invalid, expired, or for a different request");
+        }
+        this.confirmations.delete(credentials.confirmationToken);
+        return { status: "allowed" };
+      }
+    }
+  }
+
+  /**
+   * Decide actions being saved in a rule or schedule. Denied and
+   * confirm-only actions are refused; PIN actions need the PIN now.
+   */
+  authorizeAutomation(
+    requests: PolicyRequest[],
+    credentials: PolicyCredentials = {},
+    now: Date = new Date()
+  ): PolicyDecision {
+    const strictest = this.strictest(requests, now);
+    if (!strictest) return { status: "allowed" };
+    const { request, effect, reason } = strictest;
+
+    switch (effect) {
+      case "deny":
+        return this.deny(request, reason);
+      case "confirm":
+        return this.deny(request, `${reason}; rules and schedules cannot ask for confirmation`);
+      case "pin":
+        if (credentials.pin === undefined) {
+          return this.challenge(request, { status: "pin_required", action: request.action, reason });
+        }
+        return pinMatches(credentials.pin, this.config.pin ?? "")
+          ? { status: "allowed" }
+          : this.deny(request, "Incorrect PIN");
+    }
+  }
+
+  /**
+   * Decide actions run with nobody to answer a challenge: rule firings,
+   * schedule runs and MQTT commands. Denied and confirm-only actions are
+   * refused, and so are PIN actions unless `pinVerified` (the PIN was
+   * given when the rule or schedule was saved).
+   */
+  authorizeUnattended(
+    requests: PolicyRequest[],
+    options: { pinVerified?: boolean } = {},
+    now: Date = new Date()
+  ): PolicyDecision {
+    const strictest = this.strictest(requests, now);
+    if (!strictest) return { status: "allowed" };
+    const { request, effect, reason } = strictest;
+
+    switch (effect) {
+      case "deny":
+        return this.deny(request, reason);
+      case "confirm":
+        return this.deny(request, `${reason}; it cannot be confirmed unattended`);
+      case "pin":
+        return options.pinVerified
+          ? { status: "allowed" }
+          : this.deny(request, `${reason}; it cannot be given unattended`);
+    }
+  }
+
+  /**
+   * Decide actions being saved in a scene. Only denied actions are
+   * refused; challenges are answered when the scene runs.
+   */
+  authorizeSave(requests: PolicyRequest[], now: Date = new Date()): PolicyDecision {
+    const strictest = this.strictest(requests, now);
+    return strictest?.effect === "deny" ? this.deny(strictest.request, strictest.reason) : { status: "allowed" };
+  }
+
+  /** The strictest non-allow decision among requests, or null if all are allowed. */
+  private strictest(
+    requests: PolicyRequest[],
+    now: Date
+  ): { request: PolicyRequest; effect: Exclude<PolicyEffect, "allow">; reason: string } | null {
+    let strictest: { request: PolicyRequest; rule?: PolicyRule; effect: PolicyEffect } | null = null;
+    for (const request of requests) {
+      const rule = this.match(request, now);
+      const effect = rule?.effect ?? this.config.defaultEffect ?? "allow";
+      if (!strictest || STRICTNESS[effect] > STRICTNESS[strictest.effect]) {
+        strictest = { request, rule, effect };
+      }
+    }
+    if (!strictest || strictest.effect === "allow") return null;
+    return {
+      request: strictest.request,
+      effect: strictest.effect,
+      reason: strictest.rule?.reason ?? DEFAULT_REASONS[strictest.effect],
+    };
+  }
+
+  /** The first rule matching a request, if any. */
+  private match(request: PolicyRequest, now: Date): PolicyRule | undefined {
+    return this.config.rules.find(
+      (rule) =>
+        (rule.actions.includes("*") || rule.actions.includes(request.action)) &&
+        (!rule.deviceIds?.length || (!!request.deviceId && rule.deviceIds.includes(request.deviceId))) &&
+        (!rule.locationIds?.length || (!!request.locationId && rule.locationIds.includes(request.locationId))) &&
+        (!rule.timeWindow || inTimeWindow(now, rule.timeWindow))
+    );
+  }
+
+  private deny(request: PolicyRequest, reason: string): PolicyDecision {
+    this.record("policy_denied", request, { reason }, "failure", reason);
+    return { status: "denied", action: request.action, reason };
+  }
+
+  private challenge(request: PolicyRequest, decision: Exclude<PolicyDecision, { status: "allowed" }>): PolicyDecision {
+    this.record("policy_challenge", request, { challenge: decision.status, reason: decision.reason }, "success");
+    return decision;
+  }
+
+  private record(
+    action: string,
+    request: PolicyRequest,
+    details: Record<string, unknown>,
+    result: "success" | "failure",
+    error?: string
+  ): void {
+    this.routineLogger.log({
+      action,
+      deviceId: request.deviceId,
+      locationId: request.locationId ?? "unknown",
+      locationName: "unknown",
+      parameters: { requestedAction: request.action, ...request.parameters, ...details },
+      result,
+      error,
+    });
+  }
+
+  private expireConfirmations(now: Date): void {
+    for (const [token, pending] of this.confirmations) {
+      if (pending.expiresAt <= now.getTime()) this.confirmations.delete(token);
+    }
+  }
+}
+
+/** Read and validate a JSON policy file. */
+export function loadPolicyFile(path: string): PolicyConfig {
+  let config: PolicyConfig;
+  try {
+    config = JSON.parse(readFileSync(path, "utf-8")) as PolicyConfig;
+  } catch (err) {
+    throw new Error(`Failed to read policy file ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  validatePolicy(config);
+  return config;
+}
+
+/** Throw if a policy is incomplete or malformed. */
+export function validatePolicy(config: PolicyConfig): void {
+  if (!config || !Array.isArray(config.rules)) throw new Error("Policy needs a rules array");
+  if (config.defaultEffect !== undefined && !EFFECTS.includes(config.defaultEffect)) {
+    throw new Error(`Invalid policy defaultEffect: ${config.defaultEffect}`);
+  }
+  if (config.confirmationTtlSec !== undefined && !(config.confirmationTtlSec > 0)) {
+    throw new Error("Policy confirmationTtlSec must be positive");
+  }
+
+  for (const rule of config.rules) {
+    if (!Array.isArray(rule.actions) || rule.actions.length === 0) {
+      throw new Error("Policy rules need at least one action");
+    }
+    if (!EFFECTS.includes(rule.effect)) throw new Error(`Invalid policy effect: ${rule.effect}`);
+    if (rule.timeWindow) validateTimeWindow(rule.timeWindow);
+  }
+
+  const usesPin = config.defaultEffect === "pin" || config.rules.some((rule) => rule.effect === "pin");
+  if (usesPin && !config.pin) throw new Error('Policy rules with the "pin" effect need a pin');
+}
+
+/** A request's identity for confirmation: its actions, targets and parameters. */
+function fingerprintOf(requests: PolicyRequest[]): string {
+  return JSON.stringify(
+    requests.map((r) => [r.action, r.deviceId ?? null, r.locationId ?? null, canonical(r.parameters ?? {})])
+  );
+}
+
+/** A value with object keys sorted, so equal parameters compare equal. */
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([key, v]) => [key, canonical(v)])
+    );
+  }
+  return value;
+}
+
+function pinMatches(given: string, expected: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return expected !== "" && timingSafeEqual(digest(given), digest(expected));
+}
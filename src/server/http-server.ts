@@ -0,0 +1,241 @@
+/**
+ * HTTP server for the MCP Streamable HTTP transport — lets several agents
+ * share one long-running tool (one Ring session, one SQLite writer)
+ * instead of each spawning its own over stdio.
+ *
+ * Every request must carry `Authorization: Bearer <token>`. Each MCP
+ * session gets its own transport and server from `createServer`, tracked
+ * by the `mcp-session-id` header until the client ends it, it sits idle
+ * past the timeout, or the server closes.
+ */
+
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+/** Largest JSON-RPC request body accepted, in bytes */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** How often idle sessions are looked for, at most */
+const MAX_SWEEP_INTERVAL_MS = 60_000;
+
+export interface McpHttpServerOptions {
+  /** Bearer token clients must present */
+  token: string;
+  /** Default: 127.0.0.1 */
+  host?: string;
+  /** Default: 3000; 0 picks a free port */
+  port?: number;
+  /** Default: /mcp */
+  path?: string;
+  /** Close sessions with no request for this long. Default: 30 minutes */
+  sessionIdleTimeoutMs?: number;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  lastActiveAt: number;
+  /** Requests still being answered, e.g. an open notification stream; the session is not idle while any are */
+  openRequests: number;
+}
+
+export class McpHttpServer {
+  private httpServer: Server | null = null;
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private sessions = new Map<string, Session>();
+
+  constructor(
+    private createMcpServer: () => McpServer,
+    private options: McpHttpServerOptions
+  ) {
+    if (!options.token) throw new Error("The MCP HTTP server needs a bearer token");
+    if (options.sessionIdleTimeoutMs !== undefined && !(options.sessionIdleTimeoutMs > 0)) {
+      throw new Error("The session idle timeout must be positive");
+    }
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /** Start listening; resolves with the bound address. */
+  async start(): Promise<{ host: string; port: number }> {
+    if (this.httpServer) throw new Error("MCP HTTP server is already running");
+
+    const httpServer = createServer((req, res) => {
+      this.handle(req, res).catch((err) => {
+        console.error("[mcp-http] Request failed:", err);
+        if (!res.headersSent) sendError(res, 500, -32603, "Internal server error");
+        else res.end();
+      });
+    });
+    this.httpServer = httpServer;
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once("error", reject);
+      httpServer.listen(this.options.port ?? 3000, this.options.host ?? "127.0.0.1", () => {
+        httpServer.off("error", reject);
+        resolve();
+      });
+    });
+
+    this.sweepTimer = setInterval(() => this.closeIdleSessions(), Math.min(this.idleTimeoutMs, MAX_SWEEP_INTERVAL_MS));
+    this.sweepTimer.unref();
+
+    const address = httpServer.address() as AddressInfo;
+    return { host: address.address, port: address.port };
+  }
+
+  /** Close every session, then stop listening. */
+  async close(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.allSettled(sessions.map(closeSession));
+
+    const httpServer = this.httpServer;
+    this.httpServer = null;
+    if (!httpServer) return;
+    await new Promise<void>((resolve) => {
+      httpServer.close(() => resolve());
+      httpServer.closeAllConnections();
+    });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== (this.options.path ?? "/mcp")) {
+      sendError(res, 404, -32000, "Not found");
+      return;
+    }
+    if (!this.authorized(req)) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="ring-ecosystem-tool"');
+      sendError(res, 401, -32001, "Missing or invalid bearer token");
+      return;
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        sendError(res, 404, -32001, "Session not found");
+        return;
+      }
+      const body = req.method === "POST" ? await readJsonBody(req, res) : undefined;
+      if (body === INVALID_BODY) return;
+      trackRequest(session, res);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST") {
+      sendError(res, 400, -32000, "Missing mcp-session-id header");
+      return;
+    }
+    const body = await readJsonBody(req, res);
+    if (body === INVALID_BODY) return;
+    if (!isInitializeRequest(body)) {
+      sendError(res, 400, -32000, "Missing mcp-session-id header");
+      return;
+    }
+    await this.openSession(req, res, body);
+  }
+
+  /** Start a session for an initialize request; if it fails, close what was started. */
+  private async openSession(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    const server = this.createMcpServer();
+    let initialized = false;
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        initialized = true;
+        const session: Session = { transport, server, lastActiveAt: Date.now(), openRequests: 0 };
+        this.sessions.set(id, session);
+        trackRequest(session, res);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) this.sessions.delete(transport.sessionId);
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      if (!initialized) await closeSession({ transport, server }).catch(() => {});
+    }
+  }
+
+  /** Close sessions with no open request that have been idle past the timeout. */
+  private closeIdleSessions(now: number = Date.now()): void {
+    for (const [id, session] of this.sessions) {
+      if (session.openRequests > 0 || now - session.lastActiveAt < this.idleTimeoutMs) continue;
+      this.sessions.delete(id);
+      closeSession(session).catch((err) => {
+        console.error(`[mcp-http] Failed to close idle session ${id}:`, err);
+      });
+    }
+  }
+
+  private get idleTimeoutMs(): number {
+    return this.options.sessionIdleTimeoutMs ?? 30 * 60_000;
+  }
+
+  private authorized(req: IncomingMessage): boolean {
+    const header = req.headers.authorization ?? "";
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    if (!match) return false;
+    const digest = (value: string) => createHash("sha256").update(value).digest();
+    return timingSafeEqual(digest(match[1].trim()), digest(this.options.token));
+  }
+}
+
+const INVALID_BODY = Symbol("invalid body");
+
+async function closeSession({ transport, server }: Pick<Session, "transport" | "server">): Promise<void> {
+  await server.close();
+  await transport.close();
+}
+
+/** Keep a session from counting as idle until a response finishes. */
+function trackRequest(session: Session, res: ServerResponse): void {
+  session.openRequests++;
+  session.lastActiveAt = Date.now();
+  res.once("close", () => {
+    session.openRequests--;
+    session.lastActiveAt = Date.now();
+  });
+}
+
+/** Read and parse a JSON request body, answering the request itself if it is too large or malformed. */
+async function readJsonBody(req: IncomingMessage, res: ServerResponse): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      sendError(res, 413, -32000, "Request body too large");
+      return INVALID_BODY;
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    sendError(res, 400, -32700, "Parse error");
+    return INVALID_BODY;
+  }
+}
+
+function sendError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
@@ -0,0 +1,102 @@
+/**
+ * Resource subscriptions — the `ring://` resources one MCP session has
+ * subscribed to. Live events are mapped to the resources they change,
+ * and the session is notified of each subscribed one. Under an access
+ * profile, a session may only subscribe to the resources it is offered,
+ * and hears only of events from devices the profile allows.
+ */
+
+import type { RingEvent, RingEventType } from "../types/index.js";
+
+export const RECENT_EVENTS_URI = "ring://events/recent";
+export const DEVICES_URI = "ring://devices";
+export const LOCATION_URI_TEMPLATE = "ring://locations/{id}";
+
+/** Events that change device or location state, not just the event history */
+const STATE_EVENT_TYPES = new Set<RingEventType>([
+  "alarm_mode_change",
+  "device_online",
+  "device_offline",
+  "light_on",
+  "light_off",
+  "lock_locked",
+  "lock_unlocked",
+  "lock_jammed",
+  "siren_on",
+  "siren_off",
+  "thermostat_mode_change",
+  "battery_low",
+]);
+
+/** What a session may subscribe to and hear about (see AccessControl). */
+export interface SubscriptionAccess {
+  /** Whether the session is offered the resource at a URI */
+  offers(uri: string): boolean;
+  allowsLocation(locationId: string): boolean;
+  allowsDevice(device: { id: string; locationId: string }): boolean;
+}
+
+const UNRESTRICTED: SubscriptionAccess = {
+  offers: () => true,
+  allowsLocation: () => true,
+  allowsDevice: () => true,
+};
+
+export function locationUri(locationId: string): string {
+  return `ring://locations/${encodeURIComponent(locationId)}`;
+}
+
+/** Whether a URI names one of the server's resources. */
+export function isRingResourceUri(uri: string): boolean {
+  return uri === RECENT_EVENTS_URI || uri === DEVICES_URI || /^ring:\/\/locations\/[^/]+$/.test(uri);
+}
+
+/** The location ID in a location resource URI, or null for other URIs. */
+export function locationIdOf(uri: string): string | null {
+  const match = /^ring:\/\/locations\/([^/]+)$/.exec(uri);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+/** The resources an event changes. */
+export function resourcesChangedBy(event: RingEvent): string[] {
+  const uris = [RECENT_EVENTS_URI];
+  if (STATE_EVENT_TYPES.has(event.type)) uris.push(DEVICES_URI, locationUri(event.locationId));
+  return uris;
+}
+
+export class ResourceSubscriptions {
+  private uris = new Set<string>();
+
+  constructor(
+    private notify: (uri: string) => Promise<void>,
+    private access: SubscriptionAccess = UNRESTRICTED
+  ) {}
+
+  get size(): number {
+    return this.uris.size;
+  }
+
+  subscribe(uri: string): void {
+    if (!isRingResourceUri(uri)) throw new Error(`Unknown resource: ${uri}`);
+    const locationId = locationIdOf(uri);
+    if (!this.access.offers(uri) || (locationId !== null && !this.access.allowsLocation(locationId))) {
+      throw new Error(`Access denied: ${uri}`);
+    }
+    this.uris.add(uri);
+  }
+
+  unsubscribe(uri: string): boolean {
+    return this.uris.delete(uri);
+  }
+
+  /** Notify the session of each subscribed resource the event changes. */
+  handleEvent(event: RingEvent): void {
+    if (!this.access.allowsDevice({ id: event.deviceId, locationId: event.locationId })) return;
+    for (const uri of resourcesChangedBy(event)) {
+      if (!this.uris.has(uri)) continue;
+      this.notify(uri).catch((err) => {
+        console.error(`[mcp] Failed to notify resource update for ${uri}:`, err);
+      });
+    }
+  }
+}
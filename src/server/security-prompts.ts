@@ -0,0 +1,214 @@
+/**
+ * Security prompts — MCP prompt templates for recurring security
+ * workflows ("what happened at the front door overnight", "is the house
+ * secure before bed"). Each prompt gathers the events, event counts,
+ * alarm mode and sensor faults an agent would otherwise fetch with a
+ * dozen tool calls, and asks for a briefing in a fixed shape.
+ */
+
+import type {
+  EventQuery,
+  FaultedSensor,
+  RingDeviceInfo,
+  RingEvent,
+  RingEventType,
+  RingLocationInfo,
+} from "../types/index.js";
+
+/** Events included in a prompt; counts by type cover the rest */
+const MAX_PROMPT_EVENTS = 100;
+
+/** Events needing attention included in a prompt, gathered apart from the latest events */
+const MAX_ATTENTION_EVENTS = 50;
+
+/** Events a briefing should lead with */
+const ATTENTION_EVENT_TYPES = new Set<RingEventType>([
+  "alarm_triggered",
+  "smoke_alarm",
+  "co_alarm",
+  "flood",
+  "freeze",
+  "tamper",
+  "siren_on",
+  "lock_jammed",
+  "lock_unlocked",
+  "contact_open",
+  "device_offline",
+  "battery_low",
+]);
+
+const ALARM_MODE_LABELS: Record<string, string> = {
+  all: "armed away",
+  some: "armed home",
+  none: "disarmed",
+};
+
+/** Lookups the prompts need (see RingEcosystemTool). */
+export interface SecurityPromptSource {
+  listLocations(): Promise<RingLocationInfo[]>;
+  listDevices(): Promise<RingDeviceInfo[]>;
+  queryEvents(filter: EventQuery): Promise<RingEvent[]>;
+  getEventSummary(filter: Omit<EventQuery, "limit">): Promise<Record<string, number>>;
+  getAlarmMode(locationId: string): Promise<string>;
+  getFaultedSensors(locationId: string): Promise<FaultedSensor[]>;
+}
+
+export interface TimeRangeArgs {
+  /** ISO 8601; default depends on the prompt */
+  startTime?: string;
+  /** ISO 8601; default: now */
+  endTime?: string;
+}
+
+/**
+ * What happened at a location, or one device there, over a time range
+ * (default: the last 12 hours).
+ */
+export async function activityReportPrompt(
+  source: SecurityPromptSource,
+  args: TimeRangeArgs & { locationId: string; deviceId?: string },
+  now: Date = new Date()
+): Promise<string> {
+  const location = await findLocation(source, args.locationId);
+  const range = resolveTimeRange(args, 12, now);
+
+  let subject = location.name;
+  if (args.deviceId) {
+    const device = (await source.listDevices()).find((d) => d.id === args.deviceId);
+    if (!device || device.locationId !== location.id) {
+      throw new Error(`Device not found at ${location.name}: ${args.deviceId}`);
+    }
+    subject = `${device.name} (${location.name})`;
+  }
+
+  const filter = { locationId: location.id, deviceId: args.deviceId, ...range };
+  const context = {
+    location: { id: location.id, name: location.name },
+    timeRange: range,
+    ...(location.hasAlarm && { alarmMode: await describeAlarmMode(source, location.id) }),
+    ...(await eventContext(source, filter)),
+  };
+
+  return [
+    `Summarize what happened at ${subject} between ${range.startTime} and ${range.endTime}.`,
+    "",
+    "Start with anything that needs attention: alarms, smoke/CO, leaks, tamper, unlocks, doors left open, devices going offline. " +
+      "Then give a short timeline of the remaining activity, grouping repeated motion into periods rather than listing each event. " +
+      "Say plainly if nothing notable happened. Use local times and device names, not IDs.",
+    "",
+    contextBlock(context),
+  ].join("\n");
+}
+
+/**
+ * Whether a location is secure for the night: alarm mode, open sensors,
+ * unlocked locks and recent activity (default: the last 4 hours).
+ */
+export async function bedtimeCheckPrompt(
+  source: SecurityPromptSource,
+  args: TimeRangeArgs & { locationId: string },
+  now: Date = new Date()
+): Promise<string> {
+  const location = await findLocation(source, args.locationId);
+  const range = resolveTimeRange(args, 4, now);
+
+  const devices = (await source.listDevices()).filter((d) => d.locationId === location.id);
+  const context = {
+    location: { id: location.id, name: location.name },
+    // A camera-only location has no alarm mode or contact sensors to report
+    ...(location.hasAlarm && {
+      alarmMode: await describeAlarmMode(source, location.id),
+      faultedSensors: await source.getFaultedSensors(location.id),
+    }),
+    locks: devices
+      .filter((d) => d.type === "lock")
+      .map((d) => ({ id: d.id, name: d.name, lockState: d.lockState ?? "unknown" })),
+    offlineDevices: devices.filter((d) => !d.online).map((d) => ({ id: d.id, name: d.name })),
+    recentActivity: { timeRange: range, ...(await eventContext(source, { locationId: location.id, ...range })) },
+  };
+
+  return [
+    `Check whether ${location.name} is secure for the night.`,
+    "",
+    "Answer with a one-line verdict (secure / not secure), then list each problem with the fix: " +
+      "open doors or windows (faulted sensors), unlocked or jammed locks, offline devices, and the alarm not being armed. " +
+      "Mention recent activity only if it is unusual. Do not change any device or the alarm mode; only recommend.",
+    "",
+    contextBlock(context),
+  ].join("\n");
+}
+
+/** A time range from the arguments, defaulting to the last `defaultHours`. */
+export function resolveTimeRange(
+  args: TimeRangeArgs,
+  defaultHours: number,
+  now: Date = new Date()
+): { startTime: string; endTime: string } {
+  const end = args.endTime ? parseTime(args.endTime, "end_time") : now;
+  const start = args.startTime
+    ? parseTime(args.startTime, "start_time")
+    : new Date(end.getTime() - defaultHours * 3_600_000);
+  if (start >= end) throw new Error("start_time must be before end_time");
+  return { startTime: start.toISOString(), endTime: end.toISOString() };
+}
+
+function parseTime(value: string, name: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new Error(`Invalid ${name}: ${value}`);
+  return date;
+}
+
+async function findLocation(source: SecurityPromptSource, locationId: string): Promise<RingLocationInfo> {
+  const location = (await source.listLocations()).find((l) => l.id === locationId);
+  if (!location) throw new Error(`Location not found: ${locationId}`);
+  return location;
+}
+
+async function describeAlarmMode(source: SecurityPromptSource, locationId: string): Promise<string> {
+  const mode = await source.getAlarmMode(locationId);
+  return ALARM_MODE_LABELS[mode] ? `${mode} (${ALARM_MODE_LABELS[mode]})` : mode;
+}
+
+/**
+ * Event counts, the events needing attention, and the latest events,
+ * oldest first. Events needing attention are queried by type, so they
+ * are included however much other activity followed them.
+ */
+async function eventContext(source: SecurityPromptSource, filter: Omit<EventQuery, "limit">) {
+  const eventCounts = await source.getEventSummary(filter);
+  const events = await source.queryEvents({ ...filter, limit: MAX_PROMPT_EVENTS });
+  const total = Object.values(eventCounts).reduce((sum, count) => sum + count, 0);
+
+  const attentionTypes = (Object.keys(eventCounts) as RingEventType[]).filter(
+    (type) => ATTENTION_EVENT_TYPES.has(type) && eventCounts[type] > 0
+  );
+  const attention: RingEvent[] = [];
+  for (const type of attentionTypes) {
+    attention.push(...(await source.queryEvents({ ...filter, type, limit: MAX_ATTENTION_EVENTS })));
+  }
+  const needsAttention = attention
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .slice(0, MAX_ATTENTION_EVENTS);
+  const attentionTotal = attentionTypes.reduce((sum, type) => sum + eventCounts[type], 0);
+
+  return {
+    eventCounts,
+    needsAttention: needsAttention.map(briefEvent).reverse(),
+    ...(attentionTotal > needsAttention.length && { needsAttentionOmitted: attentionTotal - needsAttention.length }),
+    events: events.map(briefEvent).reverse(),
+    eventsOmitted: Math.max(0, total - events.length),
+  };
+}
+
+function briefEvent(event: RingEvent) {
+  return {
+    timestamp: event.timestamp,
+    type: event.type,
+    device: event.deviceName,
+    durationSec: event.durationSec,
+  };
+}
+
+function contextBlock(context: unknown): string {
+  return ["Context:", "```json", JSON.stringify(context, null, 2), "```"].join("\n");
+}
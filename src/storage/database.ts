@@ -5,21 +5,26 @@
 
 import Database from "better-sqlite3";
 import type { Database as DatabaseType } from "better-sqlite3";
+import { writeSnapshotFile } from "./snapshot-store.js";
 
-const CURRENT_SCHEMA_VERSION = 2;
+const CURRENT_SCHEMA_VERSION = 11;
 
 export interface DatabaseConfig {
   /** Path to the SQLite database file. Use ":memory:" for tests. */
   filePath?: string;
   /** Enable WAL mode for better concurrent read performance. Default: true */
   walMode?: boolean;
+  /** Snapshot archive directory, used when migrating inline snapshots. Default: "./ring-snapshots" */
+  snapshotDirectory?: string;
 }
 
 export class RingDatabase {
   private db: DatabaseType;
+  private snapshotDirectory: string;
 
   constructor(config: DatabaseConfig = {}) {
     const filePath = config.filePath ?? "./ring-data.db";
+    this.snapshotDirectory = config.snapshotDirectory ?? "./ring-snapshots";
     this.db = new Database(filePath);
 
     if (config.walMode !== false) {
@@ -67,6 +72,33 @@ export class RingDatabase {
       if (fromVersion < 2) {
         this.migrateToV2();
       }
+      if (fromVersion < 3) {
+        this.migrateToV3();
+      }
+      if (fromVersion < 4) {
+        this.migrateToV4();
+      }
+      if (fromVersion < 5) {
+        this.migrateToV5();
+      }
+      if (fromVersion < 6) {
+        this.migrateToV6();
+      }
+      if (fromVersion < 7) {
+        this.migrateToV7();
+      }
+      if (fromVersion < 8) {
+        this.migrateToV8();
+      }
+      if (fromVersion < 9) {
+        this.migrateToV9();
+      }
+      if (fromVersion < 10) {
+        this.migrateToV10();
+      }
+      if (fromVersion < 11) {
+        this.migrateToV11();
+      }
     });
     migrate();
   }
@@ -202,4 +234,297 @@ export class RingDatabase {
       "INSERT INTO schema_version (version, applied_at) VALUES (?, datetime('now'))"
     ).run(2);
   }
+
+  /**
+   * V3: snapshot archive. Adds the `snapshots` table and `events.snapshot_id`,
+   * then moves any inline base64 snapshots out of `events` onto disk.
+   */
+  private migrateToV3(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS snapshots (
+        id TEXT PRIMARY KEY,
+        device_id TEXT NOT NULL,
+        captured_at TEXT NOT NULL,
+        size_bytes INTEGER NOT NULL,
+        mime_type TEXT NOT NULL DEFAULT 'image/jpeg'
+      )
+    `);
+    this.db.exec("CREATE INDEX IF NOT EXISTS idx_snapshots_device_id ON snapshots(device_id)");
+    this.db.exec("CREATE INDEX IF NOT EXISTS idx_snapshots_captured_at ON snapshots(captured_at)");
+
+    this.db.exec("ALTER TABLE events ADD COLUMN snapshot_id TEXT");
+
+    const inline = this.db
+      .prepare("SELECT id, device_id, timestamp, snapshot_base64 FROM events WHERE snapshot_base64 IS NOT NULL")
+      .all() as { id: string; device_id: string; timestamp: string; snapshot_base64: string }[];
+
+    if (inline.length > 0) {
+      // Snapshots were keyed by their hash until V11
+      const insert = this.db.prepare(`
+        INSERT OR IGNORE INTO snapshots (id, device_id, captured_at, size_bytes)
+        VALUES (@id, @deviceId, @capturedAt, @sizeBytes)
+      `);
+      const update = this.db.prepare(
+        "UPDATE events SET snapshot_id = @snapshotId, snapshot_base64 = NULL WHERE id = @id"
+      );
+      for (const row of inline) {
+        const data = Buffer.from(row.snapshot_base64, "base64");
+        const snapshotId = writeSnapshotFile(this.snapshotDirectory, data);
+        insert.run({ id: snapshotId, deviceId: row.device_id, capturedAt: row.timestamp, sizeBytes: data.length });
+        update.run({ id: row.id, snapshotId });
+      }
+    }
+
+    this.db.prepare(
+      "INSERT INTO schema_version (version, applied_at) VALUES (?, datetime('now'))"
+    ).run(3);
+  }
+
+  /** V4: device health time series (online state, battery, Wi-Fi, firmware). */
+  private migrateToV4(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS device_health (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        device_id TEXT NOT NULL,
+        device_name TEXT NOT NULL,
+        location_id TEXT NOT NULL,
+        recorded_at TEXT NOT NULL,
+        online INTEGER NOT NULL,
+        battery_level REAL,
+        rssi INTEGER,
+        firmware_version TEXT
+      )
+    `);
+    this.db.exec("CREATE INDEX IF NOT EXISTS idx_device_health_device_id ON device_health(device_id, recorded_at)");
+    this.db.exec("CREATE INDEX IF NOT EXISTS idx_device_health_recorded_at ON device_health(recorded_at)");
+
+    this.db.prepare(
+      "INSERT INTO schema_version (version, applied_at) VALUES (?, datetime('now'))"
+    ).run(4);
+  }
+
+  /** V5: webhook subscriptions, delivery queue/history, and dead letters. */
+  private migrateToV5(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS webhooks (
+        id TEXT PRIMARY KEY,
+        url TEXT NOT NULL,
+        filter TEXT,
+        secret TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL
+      )
+    `);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        webhook_id TEXT NOT NULL,
+        event_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('pending', 'delivered', 'dead')),
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TEXT,
+        last_error TEXT,
+        response_status INTEGER,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+    this.db.exec("CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at)");
+    this.db.exec("CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON webhook_deliveries(webhook_id)");
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+        delivery_id TEXT PRIMARY KEY,
+        webhook_id TEXT NOT NULL,
+        event_id TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        last_error TEXT,
+        failed_at TEXT NOT NULL
+      )
+    `);
+
+    this.db.prepare(
+      "INSERT INTO schema_version (version, applied_at) VALUES (?, datetime('now'))"
+    ).run(5);
+  }
+
+  /** V6: automation rules. */
+  private migrateToV6(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS rules (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        trigger TEXT NOT NULL,
+        conditions TEXT,
+        actions TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        last_fired_at TEXT
+      )
+    `);
+
+    this.db.prepare(
+      "INSERT INTO schema_version (version, applied_at) VALUES (?, datetime('now'))"
+    ).run(6);
+  }
+
+  /** V7: time-based schedules. */
+  private migrateToV7(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schedules (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        trigger TEXT NOT NULL,
+        actions TEXT NOT NULL,
+        end_actions TEXT,
+        duration_minutes REAL,
+        catch_up TEXT NOT NULL DEFAULT 'skip',
+        catch_up_window_minutes REAL,
+        next_run_at TEXT,
+        end_at TEXT,
+        last_run_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
+    this.db.prepare(
+      "INSERT INTO schema_version (version, applied_at) VALUES (?, datetime('now'))"
+    ).run(7);
+  }
+
+  private migrateToV8(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS scenes (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        steps TEXT NOT NULL,
+        concurrency INTEGER,
+        rollback_on_failure INTEGER NOT NULL DEFAULT 0,
+        last_run_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
+    this.db.prepare(
+      "INSERT INTO schema_version (version, applied_at) VALUES (?, datetime('now'))"
+    ).run(8);
+  }
+
+  /**
+   * V9: routine execution lifecycle — one row per execution with its
+   * finish time, duration, parent and a correlation ID shared with its
+   * steps. Older versions wrote a failed device command as a separate
+   * "<id>-fail" row and an alarm change as unrelated pending and outcome
+   * rows; those are merged into the pending row.
+   */
+  private migrateToV9(): void {
+    this.db.exec("ALTER TABLE routines ADD COLUMN correlation_id TEXT");
+    this.db.exec("ALTER TABLE routines ADD COLUMN parent_id TEXT");
+    this.db.exec("ALTER TABLE routines ADD COLUMN finished_at TEXT");
+    this.db.exec("ALTER TABLE routines ADD COLUMN duration_ms INTEGER");
+
+    interface LegacyRow {
+      id: string;
+      timestamp: string;
+      action: string;
+      location_id: string;
+      parameters: string;
+      result: string;
+      error: string | null;
+    }
+    const finish = this.db.prepare(`
+      UPDATE routines
+      SET result = @result, error = @error, parameters = @parameters, finished_at = @finishedAt, duration_ms = @durationMs
+      WHERE id = @id
+    `);
+    const remove = this.db.prepare("DELETE FROM routines WHERE id = @id");
+    const mergeInto = (pending: LegacyRow, outcome: LegacyRow) => {
+      finish.run({
+        id: pending.id,
+        result: outcome.result,
+        error: outcome.error,
+        parameters: outcome.parameters,
+        finishedAt: outcome.timestamp,
+        durationMs: Math.max(0, Date.parse(outcome.timestamp) - Date.parse(pending.timestamp)),
+      });
+      remove.run({ id: outcome.id });
+    };
+
+    const pendingById = new Map(
+      (this.db.prepare("SELECT * FROM routines WHERE result = 'pending'").all() as LegacyRow[]).map((r) => [r.id, r])
+    );
+    const failRows = this.db
+      .prepare("SELECT * FROM routines WHERE id LIKE '%-fail'")
+      .all() as LegacyRow[];
+    for (const row of failRows) {
+      const pending = pendingById.get(row.id.slice(0, -"-fail".length));
+      if (pending) {
+        mergeInto(pending, row);
+        pendingById.delete(pending.id);
+      }
+    }
+
+    // Alarm changes: pair each outcome with the earliest open pending row for the same action and location
+    const alarmRows = this.db
+      .prepare("SELECT * FROM routines WHERE substr(action, 1, 6) = 'alarm_' ORDER BY timestamp ASC, rowid ASC")
+      .all() as LegacyRow[];
+    const open = new Map<string, LegacyRow[]>();
+    for (const row of alarmRows) {
+      const key = `${row.action}|${row.location_id}`;
+      if (row.result === "pending") {
+        open.set(key, [...(open.get(key) ?? []), row]);
+      } else {
+        const pending = open.get(key)?.shift();
+        if (pending) mergeInto(pending, row);
+      }
+    }
+
+    // Older outcomes overwrote their pending row, so only the finish time is known
+    this.db.exec("UPDATE routines SET finished_at = timestamp WHERE result != 'pending' AND finished_at IS NULL");
+
+    // Scene steps already named their run in the parameters
+    this.db.exec(`
+      UPDATE routines SET parent_id = json_extract(parameters, '$.parentRoutineId')
+      WHERE json_extract(parameters, '$.parentRoutineId') IS NOT NULL
+    `);
+    this.db.exec("UPDATE routines SET correlation_id = COALESCE(parent_id, id)");
+    this.db.exec("CREATE INDEX IF NOT EXISTS idx_routines_correlation_id ON routines(correlation_id)");
+    this.db.exec("CREATE INDEX IF NOT EXISTS idx_routines_parent_id ON routines(parent_id)");
+
+    this.db.prepare(
+      "INSERT INTO schema_version (version, applied_at) VALUES (?, datetime('now'))"
+    ).run(9);
+  }
+
+  private migrateToV10(): void {
+    this.db.exec("ALTER TABLE routines ADD COLUMN simulated INTEGER NOT NULL DEFAULT 0");
+
+    this.db.prepare(
+      "INSERT INTO schema_version (version, applied_at) VALUES (?, datetime('now'))"
+    ).run(10);
+  }
+
+  /**
+   * V11: one snapshot row per capture. Rows were keyed by the hash of the
+   * image, so a second capture of identical bytes was dropped; the hash
+   * moves to `content_hash` and existing rows keep it as their ID.
+   */
+  private migrateToV11(): void {
+    this.db.exec("ALTER TABLE snapshots ADD COLUMN content_hash TEXT NOT NULL DEFAULT ''");
+    this.db.exec("UPDATE snapshots SET content_hash = id");
+    this.db.exec("CREATE INDEX IF NOT EXISTS idx_snapshots_content_hash ON snapshots(content_hash)");
+
+    this.db.prepare(
+      "INSERT INTO schema_version (version, applied_at) VALUES (?, datetime('now'))"
+    ).run(11);
+  }
 }
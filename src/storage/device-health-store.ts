@@ -0,0 +1,132 @@
+/**
+ * Device health store — time series of device health readings
+ * (online state, battery percentage, Wi-Fi RSSI, firmware version)
+ * collected by the health poller.
+ */
+
+import type { Database as DatabaseType, Statement } from "better-sqlite3";
+import type { DeviceHealthQuery, DeviceHealthSample } from "../types/index.js";
+
+interface DeviceHealthRow {
+  id: number;
+  device_id: string;
+  device_name: string;
+  location_id: string;
+  recorded_at: string;
+  online: number;
+  battery_level: number | null;
+  rssi: number | null;
+  firmware_version: string | null;
+}
+
+export class DeviceHealthStore {
+  private insertStmt: Statement;
+  private latestStmt: Statement;
+  private countStmt: Statement;
+
+  constructor(private db: DatabaseType) {
+    this.insertStmt = this.db.prepare(`
+      INSERT INTO device_health
+        (device_id, device_name, location_id, recorded_at, online, battery_level, rssi, firmware_version)
+      VALUES
+        (@deviceId, @deviceName, @locationId, @recordedAt, @online, @batteryLevel, @rssi, @firmwareVersion)
+    `);
+
+    this.latestStmt = this.db.prepare(
+      "SELECT * FROM device_health WHERE device_id = @deviceId ORDER BY recorded_at DESC LIMIT 1"
+    );
+
+    this.countStmt = this.db.prepare("SELECT COUNT(*) as count FROM device_health");
+  }
+
+  /** Append a health sample. */
+  insert(sample: DeviceHealthSample): void {
+    this.insertStmt.run({
+      deviceId: sample.deviceId,
+      deviceName: sample.deviceName,
+      locationId: sample.locationId,
+      recordedAt: sample.recordedAt,
+      online: sample.online ? 1 : 0,
+      batteryLevel: sample.batteryLevel ?? null,
+      rssi: sample.rssi ?? null,
+      firmwareVersion: sample.firmwareVersion ?? null,
+    });
+  }
+
+  /** Most recent sample for a device, or null if it has never been polled. */
+  latest(deviceId: string): DeviceHealthSample | null {
+    const row = this.latestStmt.get({ deviceId }) as DeviceHealthRow | undefined;
+    return row ? this.mapRow(row) : null;
+  }
+
+  /** Query samples with optional filters, ordered newest-first. */
+  query(filter: DeviceHealthQuery = {}): DeviceHealthSample[] {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = {};
+
+    if (filter.deviceId !== undefined) {
+      conditions.push("device_id = @deviceId");
+      params.deviceId = filter.deviceId;
+    }
+    if (filter.locationId !== undefined) {
+      conditions.push("location_id = @locationId");
+      params.locationId = filter.locationId;
+    }
+    if (filter.startTime !== undefined) {
+      conditions.push("recorded_at >= @startTime");
+      params.startTime = filter.startTime;
+    }
+    if (filter.endTime !== undefined) {
+      conditions.push("recorded_at <= @endTime");
+      params.endTime = filter.endTime;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const limit = filter.limit !== undefined ? `LIMIT ${Number(filter.limit)}` : "";
+
+    const sql = `SELECT * FROM device_health ${where} ORDER BY recorded_at DESC ${limit}`;
+    const rows = this.db.prepare(sql).all(params) as DeviceHealthRow[];
+
+    return rows.map((r) => this.mapRow(r));
+  }
+
+  /** Battery readings for a device, oldest first. */
+  batterySeries(deviceId: string, startTime?: string): DeviceHealthSample[] {
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM device_health
+        WHERE device_id = @deviceId AND battery_level IS NOT NULL
+          AND (@startTime IS NULL OR recorded_at >= @startTime)
+        ORDER BY recorded_at ASC
+      `)
+      .all({ deviceId, startTime: startTime ?? null }) as DeviceHealthRow[];
+    return rows.map((r) => this.mapRow(r));
+  }
+
+  /** IDs of all devices that have reported a battery level. */
+  batteryDeviceIds(): string[] {
+    const rows = this.db
+      .prepare("SELECT DISTINCT device_id FROM device_health WHERE battery_level IS NOT NULL ORDER BY device_id")
+      .all() as { device_id: string }[];
+    return rows.map((r) => r.device_id);
+  }
+
+  /** Total number of stored samples. */
+  get size(): number {
+    const row = this.countStmt.get() as { count: number };
+    return row.count;
+  }
+
+  private mapRow(row: DeviceHealthRow): DeviceHealthSample {
+    return {
+      deviceId: row.device_id,
+      deviceName: row.device_name,
+      locationId: row.location_id,
+      recordedAt: row.recorded_at,
+      online: row.online === 1,
+      batteryLevel: row.battery_level ?? undefined,
+      rssi: row.rssi ?? undefined,
+      firmwareVersion: row.firmware_version ?? undefined,
+    };
+  }
+}
@@ -4,13 +4,25 @@
  */
 
 import type { Database as DatabaseType, Statement } from "better-sqlite3";
-import type { RingEvent, EventQuery, RingEventType } from "../types/index.js";
+import type {
+  RingEvent,
+  EventQuery,
+  RingEventType,
+  EventSpan,
+  SpanQuery,
+  SpanType,
+} from "../types/index.js";
+
+const SPAN_TYPES: SpanType[] = ["motion", "sensor_motion", "contact_open", "tamper"];
 
 export class EventStore {
   private insertStmt: Statement;
   private countStmt: Statement;
   private deleteOldestStmt: Statement;
   private clearStmt: Statement;
+  private setSnapshotStmt: Statement;
+  private setMetadataStmt: Statement;
+  private setDurationStmt: Statement;
 
   constructor(
     private db: DatabaseType,
@@ -18,9 +30,9 @@ export class EventStore {
   ) {
     this.insertStmt = db.prepare(`
       INSERT OR REPLACE INTO events
-        (id, timestamp, device_id, device_name, location_id, location_name, type, duration_sec, recording_url, snapshot_base64, metadata)
+        (id, timestamp, device_id, device_name, location_id, location_name, type, duration_sec, recording_url, snapshot_id, snapshot_base64, metadata)
       VALUES
-        (@id, @timestamp, @deviceId, @deviceName, @locationId, @locationName, @type, @durationSec, @recordingUrl, @snapshotBase64, @metadata)
+        (@id, @timestamp, @deviceId, @deviceName, @locationId, @locationName, @type, @durationSec, @recordingUrl, @snapshotId, @snapshotBase64, @metadata)
     `);
 
     this.countStmt = db.prepare("SELECT COUNT(*) as count FROM events");
@@ -32,6 +44,18 @@ export class EventStore {
     `);
 
     this.clearStmt = db.prepare("DELETE FROM events");
+
+    this.setSnapshotStmt = db.prepare(
+      "UPDATE events SET snapshot_id = @snapshotId WHERE id = @id"
+    );
+
+    this.setMetadataStmt = db.prepare(
+      "UPDATE events SET metadata = @metadata WHERE id = @id"
+    );
+
+    this.setDurationStmt = db.prepare(
+      "UPDATE events SET duration_sec = @durationSec WHERE id = @id"
+    );
   }
 
   /** Insert an event and trim the oldest entries if over maxSize. */
@@ -46,6 +70,7 @@ export class EventStore {
       type: event.type,
       durationSec: event.durationSec ?? null,
       recordingUrl: event.recordingUrl ?? null,
+      snapshotId: event.snapshotId ?? null,
       snapshotBase64: event.snapshotBase64 ?? null,
       metadata: JSON.stringify(event.metadata),
     });
@@ -53,6 +78,67 @@ export class EventStore {
     this.trimIfNeeded();
   }
 
+  /** Link an existing event to an archived snapshot. Returns false if the event is gone. */
+  setSnapshotId(id: string, snapshotId: string): boolean {
+    return this.setSnapshotStmt.run({ id, snapshotId }).changes > 0;
+  }
+
+  /** Replace an existing event's metadata. Returns false if the event is gone. */
+  setMetadata(id: string, metadata: Record<string, unknown>): boolean {
+    return this.setMetadataStmt.run({ id, metadata: JSON.stringify(metadata) }).changes > 0;
+  }
+
+  /** Record how long an event's span lasted. Returns false if the event is gone. */
+  setDuration(id: string, durationSec: number): boolean {
+    return this.setDurationStmt.run({ id, durationSec }).changes > 0;
+  }
+
+  /**
+   * Query spans (span-opening events and their durations) overlapping
+   * the given time range, ordered newest-first.
+   */
+  querySpans(filter: SpanQuery = {}): EventSpan[] {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = {};
+
+    if (filter.type) {
+      conditions.push("type = @type");
+      params.type = filter.type;
+    } else {
+      conditions.push(`type IN (${SPAN_TYPES.map((t) => `'${t}'`).join(", ")})`);
+    }
+    if (filter.deviceId) {
+      conditions.push("device_id = @deviceId");
+      params.deviceId = filter.deviceId;
+    }
+    if (filter.locationId) {
+      conditions.push("location_id = @locationId");
+      params.locationId = filter.locationId;
+    }
+    if (filter.startTime) {
+      // Closed spans that end inside the range count too, not just ones that start in it
+      conditions.push(`(
+        (duration_sec IS NULL AND timestamp >= @startTime) OR
+        (duration_sec IS NOT NULL AND julianday(timestamp) + duration_sec / 86400.0 >= julianday(@startTime))
+      )`);
+      params.startTime = filter.startTime;
+    }
+    if (filter.endTime) {
+      conditions.push("timestamp <= @endTime");
+      params.endTime = filter.endTime;
+    }
+
+    const limit = filter.limit ? `LIMIT @limit` : "";
+    if (filter.limit) {
+      params.limit = filter.limit;
+    }
+
+    const sql = `SELECT * FROM events WHERE ${conditions.join(" AND ")} ORDER BY timestamp DESC ${limit}`;
+    const rows = this.db.prepare(sql).all(params) as EventRow[];
+
+    return rows.map(rowToSpan);
+  }
+
   /** Query events with optional filters, ordered newest-first. */
   query(filter: EventQuery = {}): RingEvent[] {
     const conditions: string[] = [];
@@ -159,6 +245,7 @@ interface EventRow {
   type: string;
   duration_sec: number | null;
   recording_url: string | null;
+  snapshot_id: string | null;
   snapshot_base64: string | null;
   metadata: string;
 }
@@ -174,7 +261,24 @@ function rowToEvent(row: EventRow): RingEvent {
     type: row.type as RingEventType,
     durationSec: row.duration_sec ?? undefined,
     recordingUrl: row.recording_url ?? undefined,
+    snapshotId: row.snapshot_id ?? undefined,
     snapshotBase64: row.snapshot_base64 ?? undefined,
     metadata: JSON.parse(row.metadata) as Record<string, unknown>,
   };
 }
+
+function rowToSpan(row: EventRow): EventSpan {
+  const span: EventSpan = {
+    eventId: row.id,
+    deviceId: row.device_id,
+    deviceName: row.device_name,
+    locationId: row.location_id,
+    type: row.type as SpanType,
+    startedAt: row.timestamp,
+  };
+  if (row.duration_sec !== null) {
+    span.durationSec = row.duration_sec;
+    span.endedAt = new Date(Date.parse(row.timestamp) + row.duration_sec * 1000).toISOString();
+  }
+  return span;
+}
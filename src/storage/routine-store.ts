@@ -4,10 +4,12 @@
  */
 
 import type { Database as DatabaseType, Statement } from "better-sqlite3";
-import type { RoutineLogEntry } from "../types/index.js";
+import type { RoutineExecution, RoutineLogEntry, RoutineQuery } from "../types/index.js";
 
 export class RoutineStore {
   private insertStmt: Statement;
+  private getStmt: Statement;
+  private finishStmt: Statement;
   private countStmt: Statement;
   private deleteOldestStmt: Statement;
   private clearStmt: Statement;
@@ -18,9 +20,19 @@ export class RoutineStore {
   ) {
     this.insertStmt = db.prepare(`
       INSERT OR REPLACE INTO routines
-        (id, timestamp, action, device_id, device_name, location_id, location_name, parameters, result, error)
+        (id, timestamp, action, device_id, device_name, location_id, location_name, parameters, result, error,
+         correlation_id, parent_id, finished_at, duration_ms, simulated)
       VALUES
-        (@id, @timestamp, @action, @deviceId, @deviceName, @locationId, @locationName, @parameters, @result, @error)
+        (@id, @timestamp, @action, @deviceId, @deviceName, @locationId, @locationName, @parameters, @result, @error,
+         @correlationId, @parentId, @finishedAt, @durationMs, @simulated)
+    `);
+
+    this.getStmt = db.prepare("SELECT * FROM routines WHERE id = @id");
+
+    this.finishStmt = db.prepare(`
+      UPDATE routines
+      SET result = @result, error = @error, parameters = @parameters, finished_at = @finishedAt, duration_ms = @durationMs
+      WHERE id = @id
     `);
 
     this.countStmt = db.prepare("SELECT COUNT(*) as count FROM routines");
@@ -47,50 +59,36 @@ export class RoutineStore {
       parameters: JSON.stringify(entry.parameters),
       result: entry.result,
       error: entry.error ?? null,
+      correlationId: entry.correlationId,
+      parentId: entry.parentId ?? null,
+      finishedAt: entry.finishedAt ?? null,
+      durationMs: entry.durationMs ?? null,
+      simulated: entry.simulated ? 1 : 0,
     });
 
     this.trimIfNeeded();
   }
 
-  /** Query routine log entries with optional filters, ordered newest-first. */
-  query(filter: {
-    action?: string;
-    deviceId?: string;
-    locationId?: string;
-    result?: "success" | "failure" | "pending";
-    startTime?: string;
-    endTime?: string;
-    limit?: number;
-  } = {}): RoutineLogEntry[] {
-    const conditions: string[] = [];
-    const params: Record<string, unknown> = {};
-
-    if (filter.action) {
-      conditions.push("action = @action");
-      params.action = filter.action;
-    }
-    if (filter.deviceId) {
-      conditions.push("device_id = @deviceId");
-      params.deviceId = filter.deviceId;
-    }
-    if (filter.locationId) {
-      conditions.push("location_id = @locationId");
-      params.locationId = filter.locationId;
-    }
-    if (filter.result) {
-      conditions.push("result = @result");
-      params.result = filter.result;
-    }
-    if (filter.startTime) {
-      conditions.push("timestamp >= @startTime");
-      params.startTime = filter.startTime;
-    }
-    if (filter.endTime) {
-      conditions.push("timestamp <= @endTime");
-      params.endTime = filter.endTime;
-    }
+  get(id: string): RoutineLogEntry | null {
+    const row = this.getStmt.get({ id }) as RoutineRow | undefined;
+    return row ? rowToEntry(row) : null;
+  }
 
-    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  /** Record the outcome of a pending entry. */
+  finish(entry: RoutineLogEntry): void {
+    this.finishStmt.run({
+      id: entry.id,
+      result: entry.result,
+      error: entry.error ?? null,
+      parameters: JSON.stringify(entry.parameters),
+      finishedAt: entry.finishedAt ?? null,
+      durationMs: entry.durationMs ?? null,
+    });
+  }
+
+  /** Query routine log entries with optional filters, ordered newest-first. */
+  query(filter: RoutineQuery = {}): RoutineLogEntry[] {
+    const { where, params } = buildWhere(filter);
     const limit = filter.limit ? `LIMIT @limit` : "";
     if (filter.limit) {
       params.limit = filter.limit;
@@ -102,6 +100,42 @@ export class RoutineStore {
     return rows.map(rowToEntry);
   }
 
+  /**
+   * Query top-level executions, newest first, with their steps nested.
+   * An execution matches if it or any of its steps matches the filter,
+   * so e.g. filtering by device finds the scene runs that commanded it.
+   */
+  queryExecutions(filter: RoutineQuery = {}): RoutineExecution[] {
+    const { where, params } = buildWhere(filter);
+    const limit = filter.limit ? `LIMIT @limit` : "";
+    if (filter.limit) {
+      params.limit = filter.limit;
+    }
+
+    const roots = this.db.prepare(`
+      SELECT * FROM routines
+      WHERE parent_id IS NULL AND correlation_id IN (SELECT correlation_id FROM routines ${where})
+      ORDER BY timestamp DESC ${limit}
+    `).all(params) as RoutineRow[];
+    if (roots.length === 0) return [];
+
+    const correlationIds = roots.map((r) => r.correlation_id);
+    const steps = this.db.prepare(`
+      SELECT * FROM routines
+      WHERE parent_id IS NOT NULL AND correlation_id IN (${correlationIds.map(() => "?").join(", ")})
+      ORDER BY timestamp ASC, rowid ASC
+    `).all(...correlationIds) as RoutineRow[];
+
+    const executions = new Map<string, RoutineExecution>();
+    for (const row of [...roots, ...steps]) {
+      executions.set(row.id, { ...rowToEntry(row), steps: [] });
+    }
+    for (const row of steps) {
+      executions.get(row.parent_id as string)?.steps.push(executions.get(row.id) as RoutineExecution);
+    }
+    return roots.map((r) => executions.get(r.id) as RoutineExecution);
+  }
+
   /** Get routine counts grouped by action, with success/failure breakdown. */
   summary(): Record<string, { total: number; success: number; failure: number }> {
     const sql = `
@@ -150,6 +184,49 @@ export class RoutineStore {
   }
 }
 
+// ── Query Building ──
+
+function buildWhere(filter: RoutineQuery): { where: string; params: Record<string, unknown> } {
+  const conditions: string[] = [];
+  const params: Record<string, unknown> = {};
+
+  if (filter.action) {
+    conditions.push("action = @action");
+    params.action = filter.action;
+  }
+  if (filter.deviceId) {
+    conditions.push("device_id = @deviceId");
+    params.deviceId = filter.deviceId;
+  }
+  if (filter.locationId) {
+    conditions.push("location_id = @locationId");
+    params.locationId = filter.locationId;
+  }
+  if (filter.result) {
+    conditions.push("result = @result");
+    params.result = filter.result;
+  }
+  if (filter.correlationId) {
+    conditions.push("correlation_id = @correlationId");
+    params.correlationId = filter.correlationId;
+  }
+  if (filter.simulated !== undefined) {
+    conditions.push("simulated = @simulated");
+    params.simulated = filter.simulated ? 1 : 0;
+  }
+  if (filter.startTime) {
+    conditions.push("timestamp >= @startTime");
+    params.startTime = filter.startTime;
+  }
+  if (filter.endTime) {
+    conditions.push("timestamp <= @endTime");
+    params.endTime = filter.endTime;
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  return { where, params };
+}
+
 // ── Row Mapping ──
 
 interface RoutineRow {
@@ -163,6 +240,11 @@ interface RoutineRow {
   parameters: string;
   result: string;
   error: string | null;
+  correlation_id: string;
+  parent_id: string | null;
+  finished_at: string | null;
+  duration_ms: number | null;
+  simulated: number;
 }
 
 function rowToEntry(row: RoutineRow): RoutineLogEntry {
@@ -177,5 +259,10 @@ function rowToEntry(row: RoutineRow): RoutineLogEntry {
     parameters: JSON.parse(row.parameters) as Record<string, unknown>,
     result: row.result as RoutineLogEntry["result"],
     error: row.error ?? undefined,
+    correlationId: row.correlation_id,
+    parentId: row.parent_id ?? undefined,
+    finishedAt: row.finished_at ?? undefined,
+    durationMs: row.duration_ms ?? undefined,
+    simulated: row.simulated === 1 ? true : undefined,
   };
 }
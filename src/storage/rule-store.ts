@@ -0,0 +1,99 @@
+/**
+ * Rule store — persists automation rules in SQLite. Trigger, conditions
+ * and actions are stored as JSON.
+ */
+
+import type { Database as DatabaseType, Statement } from "better-sqlite3";
+import type { EventFilter, Rule, RuleAction, RuleConditions } from "../types/index.js";
+
+interface RuleRow {
+  id: string;
+  name: string;
+  enabled: number;
+  trigger: string;
+  conditions: string | null;
+  actions: string;
+  created_at: string;
+  updated_at: string;
+  last_fired_at: string | null;
+}
+
+export class RuleStore {
+  private upsertStmt: Statement;
+  private getStmt: Statement;
+  private listStmt: Statement;
+  private listEnabledStmt: Statement;
+  private deleteStmt: Statement;
+  private markFiredStmt: Statement;
+
+  constructor(private db: DatabaseType) {
+    this.upsertStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO rules
+        (id, name, enabled, trigger, conditions, actions, created_at, updated_at, last_fired_at)
+      VALUES
+        (@id, @name, @enabled, @trigger, @conditions, @actions, @createdAt, @updatedAt, @lastFiredAt)
+    `);
+    this.getStmt = this.db.prepare("SELECT * FROM rules WHERE id = @id");
+    this.listStmt = this.db.prepare("SELECT * FROM rules ORDER BY created_at ASC");
+    this.listEnabledStmt = this.db.prepare(
+      "SELECT * FROM rules WHERE enabled = 1 ORDER BY created_at ASC"
+    );
+    this.deleteStmt = this.db.prepare("DELETE FROM rules WHERE id = @id");
+    this.markFiredStmt = this.db.prepare(
+      "UPDATE rules SET last_fired_at = @firedAt WHERE id = @id"
+    );
+  }
+
+  /** Insert a rule, or replace it if the ID exists. */
+  save(rule: Rule): void {
+    this.upsertStmt.run({
+      id: rule.id,
+      name: rule.name,
+      enabled: rule.enabled ? 1 : 0,
+      trigger: JSON.stringify(rule.trigger),
+      conditions: rule.conditions ? JSON.stringify(rule.conditions) : null,
+      actions: JSON.stringify(rule.actions),
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt,
+      lastFiredAt: rule.lastFiredAt ?? null,
+    });
+  }
+
+  get(id: string): Rule | null {
+    const row = this.getStmt.get({ id }) as RuleRow | undefined;
+    return row ? this.mapRow(row) : null;
+  }
+
+  /** All rules, oldest first. */
+  list(options: { enabledOnly?: boolean } = {}): Rule[] {
+    const stmt = options.enabledOnly ? this.listEnabledStmt : this.listStmt;
+    return (stmt.all() as RuleRow[]).map((r) => this.mapRow(r));
+  }
+
+  delete(id: string): boolean {
+    return this.deleteStmt.run({ id }).changes > 0;
+  }
+
+  markFired(id: string, firedAt: string): void {
+    this.markFiredStmt.run({ id, firedAt });
+  }
+
+  get size(): number {
+    const row = this.db.prepare("SELECT COUNT(*) as count FROM rules").get() as { count: number };
+    return row.count;
+  }
+
+  private mapRow(row: RuleRow): Rule {
+    return {
+      id: row.id,
+      name: row.name,
+      enabled: row.enabled === 1,
+      trigger: JSON.parse(row.trigger) as EventFilter,
+      conditions: row.conditions ? (JSON.parse(row.conditions) as RuleConditions) : undefined,
+      actions: JSON.parse(row.actions) as RuleAction[],
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      lastFiredAt: row.last_fired_at ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Scene store — persists named scenes in SQLite. Steps are stored as
+ * JSON in run order.
+ */
+
+import type { Database as DatabaseType, Statement } from "better-sqlite3";
+import type { Scene, SceneStep } from "../types/index.js";
+
+interface SceneRow {
+  id: string;
+  name: string;
+  description: string | null;
+  steps: string;
+  concurrency: number | null;
+  rollback_on_failure: number;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export class SceneStore {
+  private upsertStmt: Statement;
+  private getStmt: Statement;
+  private listStmt: Statement;
+  private deleteStmt: Statement;
+  private markRunStmt: Statement;
+
+  constructor(private db: DatabaseType) {
+    this.upsertStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO scenes
+        (id, name, description, steps, concurrency, rollback_on_failure, last_run_at, created_at, updated_at)
+      VALUES
+        (@id, @name, @description, @steps, @concurrency, @rollbackOnFailure, @lastRunAt, @createdAt, @updatedAt)
+    `);
+    this.getStmt = this.db.prepare("SELECT * FROM scenes WHERE id = @id");
+    this.listStmt = this.db.prepare("SELECT * FROM scenes ORDER BY created_at ASC");
+    this.deleteStmt = this.db.prepare("DELETE FROM scenes WHERE id = @id");
+    this.markRunStmt = this.db.prepare("UPDATE scenes SET last_run_at = @runAt WHERE id = @id");
+  }
+
+  /** Insert a scene, or replace it if the ID exists. */
+  save(scene: Scene): void {
+    this.upsertStmt.run({
+      id: scene.id,
+      name: scene.name,
+      description: scene.description ?? null,
+      steps: JSON.stringify(scene.steps),
+      concurrency: scene.concurrency ?? null,
+      rollbackOnFailure: scene.rollbackOnFailure ? 1 : 0,
+      lastRunAt: scene.lastRunAt ?? null,
+      createdAt: scene.createdAt,
+      updatedAt: scene.updatedAt,
+    });
+  }
+
+  get(id: string): Scene | null {
+    const row = this.getStmt.get({ id }) as SceneRow | undefined;
+    return row ? this.mapRow(row) : null;
+  }
+
+  /** All scenes, oldest first. */
+  list(): Scene[] {
+    return (this.listStmt.all() as SceneRow[]).map((r) => this.mapRow(r));
+  }
+
+  delete(id: string): boolean {
+    return this.deleteStmt.run({ id }).changes > 0;
+  }
+
+  markRun(id: string, runAt: string): void {
+    this.markRunStmt.run({ id, runAt });
+  }
+
+  get size(): number {
+    const row = this.db.prepare("SELECT COUNT(*) as count FROM scenes").get() as { count: number };
+    return row.count;
+  }
+
+  private mapRow(row: SceneRow): Scene {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description ?? undefined,
+      steps: JSON.parse(row.steps) as SceneStep[],
+      concurrency: row.concurrency ?? undefined,
+      rollbackOnFailure: row.rollback_on_failure === 1,
+      lastRunAt: row.last_run_at ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
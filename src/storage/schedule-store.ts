@@ -0,0 +1,131 @@
+/**
+ * Schedule store — persists time-based schedules in SQLite, including
+ * when each runs next and any pending end actions, so runs missed while
+ * the tool was stopped can be detected on restart.
+ */
+
+import type { Database as DatabaseType, Statement } from "better-sqlite3";
+import type {
+  Schedule,
+  ScheduleAction,
+  ScheduleCatchUpPolicy,
+  ScheduleTrigger,
+} from "../types/index.js";
+
+interface ScheduleRow {
+  id: string;
+  name: string;
+  enabled: number;
+  trigger: string;
+  actions: string;
+  end_actions: string | null;
+  duration_minutes: number | null;
+  catch_up: string;
+  catch_up_window_minutes: number | null;
+  next_run_at: string | null;
+  end_at: string | null;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export class ScheduleStore {
+  private upsertStmt: Statement;
+  private getStmt: Statement;
+  private listStmt: Statement;
+  private deleteStmt: Statement;
+  private dueStmt: Statement;
+  private endDueStmt: Statement;
+
+  constructor(private db: DatabaseType) {
+    this.upsertStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO schedules
+        (id, name, enabled, trigger, actions, end_actions, duration_minutes, catch_up,
+         catch_up_window_minutes, next_run_at, end_at, last_run_at, created_at, updated_at)
+      VALUES
+        (@id, @name, @enabled, @trigger, @actions, @endActions, @durationMinutes, @catchUp,
+         @catchUpWindowMinutes, @nextRunAt, @endAt, @lastRunAt, @createdAt, @updatedAt)
+    `);
+    this.getStmt = this.db.prepare("SELECT * FROM schedules WHERE id = @id");
+    this.listStmt = this.db.prepare("SELECT * FROM schedules ORDER BY created_at ASC");
+    this.deleteStmt = this.db.prepare("DELETE FROM schedules WHERE id = @id");
+    this.dueStmt = this.db.prepare(`
+      SELECT * FROM schedules
+      WHERE enabled = 1 AND next_run_at IS NOT NULL AND next_run_at <= @now
+      ORDER BY next_run_at ASC
+    `);
+    this.endDueStmt = this.db.prepare(`
+      SELECT * FROM schedules
+      WHERE end_at IS NOT NULL AND end_at <= @now
+      ORDER BY end_at ASC
+    `);
+  }
+
+  /** Insert a schedule, or replace it if the ID exists. */
+  save(schedule: Schedule): void {
+    this.upsertStmt.run({
+      id: schedule.id,
+      name: schedule.name,
+      enabled: schedule.enabled ? 1 : 0,
+      trigger: JSON.stringify(schedule.trigger),
+      actions: JSON.stringify(schedule.actions),
+      endActions: schedule.endActions ? JSON.stringify(schedule.endActions) : null,
+      durationMinutes: schedule.durationMinutes ?? null,
+      catchUp: schedule.catchUp,
+      catchUpWindowMinutes: schedule.catchUpWindowMinutes ?? null,
+      nextRunAt: schedule.nextRunAt ?? null,
+      endAt: schedule.endAt ?? null,
+      lastRunAt: schedule.lastRunAt ?? null,
+      createdAt: schedule.createdAt,
+      updatedAt: schedule.updatedAt,
+    });
+  }
+
+  get(id: string): Schedule | null {
+    const row = this.getStmt.get({ id }) as ScheduleRow | undefined;
+    return row ? this.mapRow(row) : null;
+  }
+
+  /** All schedules, oldest first. */
+  list(): Schedule[] {
+    return (this.listStmt.all() as ScheduleRow[]).map((r) => this.mapRow(r));
+  }
+
+  delete(id: string): boolean {
+    return this.deleteStmt.run({ id }).changes > 0;
+  }
+
+  /** Enabled schedules whose next run is at or before `now`, earliest first. */
+  due(now: string): Schedule[] {
+    return (this.dueStmt.all({ now }) as ScheduleRow[]).map((r) => this.mapRow(r));
+  }
+
+  /** Schedules (paused or not) whose end actions are due. */
+  endDue(now: string): Schedule[] {
+    return (this.endDueStmt.all({ now }) as ScheduleRow[]).map((r) => this.mapRow(r));
+  }
+
+  get size(): number {
+    const row = this.db.prepare("SELECT COUNT(*) as count FROM schedules").get() as { count: number };
+    return row.count;
+  }
+
+  private mapRow(row: ScheduleRow): Schedule {
+    return {
+      id: row.id,
+      name: row.name,
+      enabled: row.enabled === 1,
+      trigger: JSON.parse(row.trigger) as ScheduleTrigger,
+      actions: JSON.parse(row.actions) as ScheduleAction[],
+      endActions: row.end_actions ? (JSON.parse(row.end_actions) as ScheduleAction[]) : undefined,
+      durationMinutes: row.duration_minutes ?? undefined,
+      catchUp: row.catch_up as ScheduleCatchUpPolicy,
+      catchUpWindowMinutes: row.catch_up_window_minutes ?? undefined,
+      nextRunAt: row.next_run_at ?? undefined,
+      endAt: row.end_at ?? undefined,
+      lastRunAt: row.last_run_at ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Snapshot store — content-addressed archive of camera snapshots.
+ *
+ * Image bytes live on disk under `<directory>/<hash[0..2]>/<hash>.jpg`,
+ * keyed by their SHA-256 hash, while the `snapshots` table keeps one row
+ * per capture with its device, capture time, and size. Captures with
+ * identical bytes share a file. Events reference snapshots by ID instead
+ * of carrying the JPEG inline.
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import type { Database as DatabaseType, Statement } from "better-sqlite3";
+import type { SnapshotQuery, SnapshotRecord } from "../types/index.js";
+
+interface SnapshotRow {
+  id: string;
+  content_hash: string;
+  device_id: string;
+  captured_at: string;
+  size_bytes: number;
+  mime_type: string;
+}
+
+export class SnapshotStore {
+  private directory: string;
+  private insertStmt: Statement;
+  private getStmt: Statement;
+  private countStmt: Statement;
+  private oldestStmt: Statement;
+  private deleteStmt: Statement;
+  private hashInUseStmt: Statement;
+
+  constructor(
+    private db: DatabaseType,
+    directory: string,
+    private maxSize: number = 10000
+  ) {
+    this.directory = resolve(directory);
+
+    this.insertStmt = this.db.prepare(`
+      INSERT INTO snapshots (id, content_hash, device_id, captured_at, size_bytes, mime_type)
+      VALUES (@id, @contentHash, @deviceId, @capturedAt, @sizeBytes, @mimeType)
+    `);
+
+    this.getStmt = this.db.prepare("SELECT * FROM snapshots WHERE id = @id");
+
+    this.countStmt = this.db.prepare("SELECT COUNT(*) as count FROM snapshots");
+
+    this.oldestStmt = this.db.prepare(
+      "SELECT id, content_hash FROM snapshots ORDER BY captured_at ASC LIMIT @excess"
+    );
+
+    this.deleteStmt = this.db.prepare("DELETE FROM snapshots WHERE id = @id");
+
+    this.hashInUseStmt = this.db.prepare("SELECT 1 FROM snapshots WHERE content_hash = @contentHash LIMIT 1");
+  }
+
+  /**
+   * Store a capture and return its record. Identical bytes are written to
+   * disk once, but every capture gets its own record.
+   */
+  save(
+    data: Buffer,
+    meta: { deviceId: string; capturedAt?: string; mimeType?: string }
+  ): SnapshotRecord {
+    const id = randomUUID();
+    this.insertStmt.run({
+      id,
+      contentHash: writeSnapshotFile(this.directory, data),
+      deviceId: meta.deviceId,
+      capturedAt: meta.capturedAt ?? new Date().toISOString(),
+      sizeBytes: data.length,
+      mimeType: meta.mimeType ?? "image/jpeg",
+    });
+
+    this.trimIfNeeded();
+    return this.get(id) as SnapshotRecord;
+  }
+
+  /** Look up a snapshot record by ID. */
+  get(id: string): SnapshotRecord | null {
+    const row = this.getStmt.get({ id }) as SnapshotRow | undefined;
+    return row ? this.mapRow(row) : null;
+  }
+
+  /** Read a snapshot's bytes from disk, or null if it is unknown or missing. */
+  read(id: string): Buffer | null {
+    const record = this.get(id);
+    if (!record) return null;
+    try {
+      return readFileSync(record.filePath);
+    } catch {
+      return null;
+    }
+  }
+
+  /** Query snapshot records with optional filters, ordered newest-first. */
+  query(filter: SnapshotQuery = {}): SnapshotRecord[] {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = {};
+
+    if (filter.deviceId !== undefined) {
+      conditions.push("device_id = @deviceId");
+      params.deviceId = filter.deviceId;
+    }
+    if (filter.startTime !== undefined) {
+      conditions.push("captured_at >= @startTime");
+      params.startTime = filter.startTime;
+    }
+    if (filter.endTime !== undefined) {
+      conditions.push("captured_at <= @endTime");
+      params.endTime = filter.endTime;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    let limit = "";
+    if (filter.limit !== undefined) {
+      limit = "LIMIT @limit";
+      params.limit = filter.limit;
+    }
+
+    const sql = `SELECT * FROM snapshots ${where} ORDER BY captured_at DESC ${limit}`;
+    const rows = this.db.prepare(sql).all(params) as SnapshotRow[];
+
+    return rows.map((r) => this.mapRow(r));
+  }
+
+  /** Total number of stored snapshots. */
+  get size(): number {
+    const row = this.countStmt.get() as { count: number };
+    return row.count;
+  }
+
+  /** Delete the oldest captures past the size limit, and files no capture still uses. */
+  private trimIfNeeded(): void {
+    const excess = this.size - this.maxSize;
+    if (excess <= 0) return;
+
+    const oldest = this.oldestStmt.all({ excess }) as Pick<SnapshotRow, "id" | "content_hash">[];
+    for (const row of oldest) this.deleteStmt.run({ id: row.id });
+    for (const contentHash of new Set(oldest.map((row) => row.content_hash))) {
+      if (this.hashInUseStmt.get({ contentHash })) continue;
+      try {
+        unlinkSync(snapshotPath(this.directory, contentHash));
+      } catch {
+        // Already gone
+      }
+    }
+  }
+
+  private mapRow(row: SnapshotRow): SnapshotRecord {
+    return {
+      id: row.id,
+      contentHash: row.content_hash,
+      deviceId: row.device_id,
+      capturedAt: row.captured_at,
+      sizeBytes: row.size_bytes,
+      mimeType: row.mime_type,
+      filePath: snapshotPath(this.directory, row.content_hash),
+    };
+  }
+}
+
+/** Write snapshot bytes to the archive, unless already there, and return their hash. */
+export function writeSnapshotFile(directory: string, data: Buffer): string {
+  const contentHash = createHash("sha256").update(data).digest("hex");
+  const filePath = snapshotPath(directory, contentHash);
+  if (!existsSync(filePath)) {
+    mkdirSync(join(directory, contentHash.slice(0, 2)), { recursive: true });
+    writeFileSync(filePath, data);
+  }
+  return contentHash;
+}
+
+function snapshotPath(directory: string, contentHash: string): string {
+  return join(resolve(directory), contentHash.slice(0, 2), `${contentHash}.jpg`);
+}
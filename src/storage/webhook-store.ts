@@ -0,0 +1,314 @@
+/**
+ * Webhook store — persists webhook subscriptions, the delivery queue
+ * (which doubles as delivery history), and dead-lettered deliveries.
+ * Finished deliveries and dead letters are trimmed, oldest first, to
+ * `historyMaxSize` each; pending deliveries are never dropped.
+ */
+
+import type { Database as DatabaseType, Statement } from "better-sqlite3";
+import type {
+  EventFilter,
+  RingEventType,
+  WebhookDeadLetter,
+  WebhookDelivery,
+  WebhookDeliveryQuery,
+  WebhookSubscription,
+} from "../types/index.js";
+
+interface WebhookRow {
+  id: string;
+  url: string;
+  filter: string | null;
+  secret: string;
+  enabled: number;
+  created_at: string;
+}
+
+interface DeliveryRow {
+  id: string;
+  webhook_id: string;
+  event_id: string;
+  event_type: string;
+  payload: string;
+  status: string;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  response_status: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface DeadLetterRow {
+  delivery_id: string;
+  webhook_id: string;
+  event_id: string;
+  payload: string;
+  attempts: number;
+  last_error: string | null;
+  failed_at: string;
+}
+
+/** A pending delivery together with what is needed to send it. */
+export interface DueDelivery {
+  delivery: WebhookDelivery;
+  payload: string;
+}
+
+export class WebhookStore {
+  private insertWebhookStmt: Statement;
+  private getWebhookStmt: Statement;
+  private listWebhooksStmt: Statement;
+  private deleteWebhookStmt: Statement;
+  private deletePendingStmt: Statement;
+  private insertDeliveryStmt: Statement;
+  private dueStmt: Statement;
+  private markDeliveredStmt: Statement;
+  private markRetryStmt: Statement;
+  private markDeadStmt: Statement;
+  private insertDeadLetterStmt: Statement;
+  private countHistoryStmt: Statement;
+  private deleteOldestHistoryStmt: Statement;
+  private countDeadLettersStmt: Statement;
+  private deleteOldestDeadLettersStmt: Statement;
+
+  constructor(
+    private db: DatabaseType,
+    private historyMaxSize = 10000
+  ) {
+    this.insertWebhookStmt = this.db.prepare(`
+      INSERT INTO webhooks (id, url, filter, secret, enabled, created_at)
+      VALUES (@id, @url, @filter, @secret, @enabled, @createdAt)
+    `);
+    this.getWebhookStmt = this.db.prepare("SELECT * FROM webhooks WHERE id = @id");
+    this.listWebhooksStmt = this.db.prepare("SELECT * FROM webhooks ORDER BY created_at ASC");
+    this.deleteWebhookStmt = this.db.prepare("DELETE FROM webhooks WHERE id = @id");
+    this.deletePendingStmt = this.db.prepare(
+      "DELETE FROM webhook_deliveries WHERE webhook_id = @id AND status = 'pending'"
+    );
+
+    this.insertDeliveryStmt = this.db.prepare(`
+      INSERT INTO webhook_deliveries
+        (id, webhook_id, event_id, event_type, payload, status, attempts, next_attempt_at, created_at, updated_at)
+      VALUES
+        (@id, @webhookId, @eventId, @eventType, @payload, 'pending', 0, @now, @now, @now)
+    `);
+    this.dueStmt = this.db.prepare(`
+      SELECT * FROM webhook_deliveries
+      WHERE status = 'pending' AND next_attempt_at <= @now
+      ORDER BY next_attempt_at ASC
+      LIMIT @limit
+    `);
+    this.markDeliveredStmt = this.db.prepare(`
+      UPDATE webhook_deliveries
+      SET status = 'delivered', attempts = attempts + 1, next_attempt_at = NULL,
+          response_status = @responseStatus, last_error = NULL, updated_at = @now
+      WHERE id = @id
+    `);
+    this.markRetryStmt = this.db.prepare(`
+      UPDATE webhook_deliveries
+      SET attempts = attempts + 1, next_attempt_at = @nextAttemptAt,
+          response_status = @responseStatus, last_error = @error, updated_at = @now
+      WHERE id = @id
+    `);
+    this.markDeadStmt = this.db.prepare(`
+      UPDATE webhook_deliveries
+      SET status = 'dead', attempts = attempts + 1, next_attempt_at = NULL,
+          response_status = @responseStatus, last_error = @error, updated_at = @now
+      WHERE id = @id
+    `);
+    this.insertDeadLetterStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO webhook_dead_letters
+        (delivery_id, webhook_id, event_id, payload, attempts, last_error, failed_at)
+      SELECT id, webhook_id, event_id, payload, attempts, last_error, updated_at
+      FROM webhook_deliveries WHERE id = @id
+    `);
+
+    this.countHistoryStmt = this.db.prepare(
+      "SELECT COUNT(*) AS count FROM webhook_deliveries WHERE status != 'pending'"
+    );
+    this.deleteOldestHistoryStmt = this.db.prepare(`
+      DELETE FROM webhook_deliveries WHERE id IN (
+        SELECT id FROM webhook_deliveries WHERE status != 'pending' ORDER BY updated_at ASC LIMIT @excess
+      )
+    `);
+    this.countDeadLettersStmt = this.db.prepare("SELECT COUNT(*) AS count FROM webhook_dead_letters");
+    this.deleteOldestDeadLettersStmt = this.db.prepare(`
+      DELETE FROM webhook_dead_letters WHERE delivery_id IN (
+        SELECT delivery_id FROM webhook_dead_letters ORDER BY failed_at ASC LIMIT @excess
+      )
+    `);
+  }
+
+  // ── Subscriptions ──
+
+  createWebhook(webhook: WebhookSubscription): void {
+    this.insertWebhookStmt.run({
+      id: webhook.id,
+      url: webhook.url,
+      filter: webhook.filter ? JSON.stringify(webhook.filter) : null,
+      secret: webhook.secret,
+      enabled: webhook.enabled ? 1 : 0,
+      createdAt: webhook.createdAt,
+    });
+  }
+
+  getWebhook(id: string): WebhookSubscription | null {
+    const row = this.getWebhookStmt.get({ id }) as WebhookRow | undefined;
+    return row ? this.mapWebhook(row) : null;
+  }
+
+  listWebhooks(): WebhookSubscription[] {
+    return (this.listWebhooksStmt.all() as WebhookRow[]).map((r) => this.mapWebhook(r));
+  }
+
+  /** Delete a webhook and drop its pending deliveries. History is kept. */
+  deleteWebhook(id: string): boolean {
+    const remove = this.db.transaction(() => {
+      this.deletePendingStmt.run({ id });
+      return this.deleteWebhookStmt.run({ id }).changes > 0;
+    });
+    return remove();
+  }
+
+  // ── Delivery Queue ──
+
+  enqueue(delivery: {
+    id: string;
+    webhookId: string;
+    eventId: string;
+    eventType: RingEventType;
+    payload: string;
+    now: string;
+  }): void {
+    this.insertDeliveryStmt.run(delivery);
+  }
+
+  /** Pending deliveries whose next attempt is due, oldest first. */
+  due(now: string, limit = 50): DueDelivery[] {
+    const rows = this.dueStmt.all({ now, limit }) as DeliveryRow[];
+    return rows.map((r) => ({ delivery: this.mapDelivery(r), payload: r.payload }));
+  }
+
+  markDelivered(id: string, responseStatus: number, now: string): void {
+    this.markDeliveredStmt.run({ id, responseStatus, now });
+    this.trimIfNeeded();
+  }
+
+  markRetry(
+    id: string,
+    failure: { error: string; responseStatus?: number },
+    nextAttemptAt: string,
+    now: string
+  ): void {
+    this.markRetryStmt.run({
+      id,
+      error: failure.error,
+      responseStatus: failure.responseStatus ?? null,
+      nextAttemptAt,
+      now,
+    });
+  }
+
+  /** Give up on a delivery and copy it to the dead-letter table. */
+  markDead(id: string, failure: { error: string; responseStatus?: number }, now: string): void {
+    const kill = this.db.transaction(() => {
+      this.markDeadStmt.run({
+        id,
+        error: failure.error,
+        responseStatus: failure.responseStatus ?? null,
+        now,
+      });
+      this.insertDeadLetterStmt.run({ id });
+    });
+    kill();
+    this.trimIfNeeded();
+  }
+
+  /** Delivery history with optional filters, newest first. */
+  queryDeliveries(filter: WebhookDeliveryQuery = {}): WebhookDelivery[] {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = {};
+
+    if (filter.webhookId !== undefined) {
+      conditions.push("webhook_id = @webhookId");
+      params.webhookId = filter.webhookId;
+    }
+    if (filter.eventId !== undefined) {
+      conditions.push("event_id = @eventId");
+      params.eventId = filter.eventId;
+    }
+    if (filter.status !== undefined) {
+      conditions.push("status = @status");
+      params.status = filter.status;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const limit = filter.limit !== undefined ? "LIMIT @limit" : "";
+    if (filter.limit !== undefined) params.limit = filter.limit;
+
+    const sql = `SELECT * FROM webhook_deliveries ${where} ORDER BY created_at DESC ${limit}`;
+    const rows = this.db.prepare(sql).all(params) as DeliveryRow[];
+
+    return rows.map((r) => this.mapDelivery(r));
+  }
+
+  /** Dead-lettered deliveries, newest first. */
+  queryDeadLetters(webhookId?: string): WebhookDeadLetter[] {
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM webhook_dead_letters
+        WHERE (@webhookId IS NULL OR webhook_id = @webhookId)
+        ORDER BY failed_at DESC
+      `)
+      .all({ webhookId: webhookId ?? null }) as DeadLetterRow[];
+
+    return rows.map((r) => ({
+      deliveryId: r.delivery_id,
+      webhookId: r.webhook_id,
+      eventId: r.event_id,
+      payload: r.payload,
+      attempts: r.attempts,
+      lastError: r.last_error ?? undefined,
+      failedAt: r.failed_at,
+    }));
+  }
+
+  private trimIfNeeded(): void {
+    const history = (this.countHistoryStmt.get() as { count: number }).count;
+    if (history > this.historyMaxSize) {
+      this.deleteOldestHistoryStmt.run({ excess: history - this.historyMaxSize });
+    }
+    const deadLetters = (this.countDeadLettersStmt.get() as { count: number }).count;
+    if (deadLetters > this.historyMaxSize) {
+      this.deleteOldestDeadLettersStmt.run({ excess: deadLetters - this.historyMaxSize });
+    }
+  }
+
+  private mapWebhook(row: WebhookRow): WebhookSubscription {
+    return {
+      id: row.id,
+      url: row.url,
+      filter: row.filter ? (JSON.parse(row.filter) as EventFilter) : undefined,
+      secret: row.secret,
+      enabled: row.enabled === 1,
+      createdAt: row.created_at,
+    };
+  }
+
+  private mapDelivery(row: DeliveryRow): WebhookDelivery {
+    return {
+      id: row.id,
+      webhookId: row.webhook_id,
+      eventId: row.event_id,
+      eventType: row.event_type as RingEventType,
+      status: row.status as WebhookDelivery["status"],
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at ?? undefined,
+      lastError: row.last_error ?? undefined,
+      responseStatus: row.response_status ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -6,25 +6,77 @@
 
 import { RingClient } from "../client/ring-client.js";
 import { DeviceManager } from "../devices/device-manager.js";
+import { BatteryForecaster } from "../devices/battery-forecaster.js";
+import type { BatteryForecastOptions } from "../devices/battery-forecaster.js";
 import { RingDatabase } from "../storage/database.js";
 import { EventStore } from "../storage/event-store.js";
 import { RoutineStore } from "../storage/routine-store.js";
 import { CloudCache } from "../storage/cloud-cache.js";
 import { CrawlStore } from "../storage/crawl-store.js";
 import { DeviceHistoryStore } from "../storage/device-history-store.js";
+import { SnapshotStore } from "../storage/snapshot-store.js";
+import { DeviceHealthStore } from "../storage/device-health-store.js";
+import { WebhookStore } from "../storage/webhook-store.js";
+import { RuleStore } from "../storage/rule-store.js";
+import { ScheduleStore } from "../storage/schedule-store.js";
+import { SceneStore } from "../storage/scene-store.js";
 import { EventLogger } from "../events/event-logger.js";
+import { totalSpanDuration } from "../events/span-tracker.js";
 import { CloudHistory } from "../events/cloud-history.js";
 import { HistoricCrawler } from "../events/historic-crawler.js";
 import { RealtimeMonitor } from "../events/realtime-monitor.js";
+import { HealthPoller } from "../events/health-poller.js";
+import { WebhookDispatcher } from "../events/webhook-dispatcher.js";
+import { MqttBridge } from "../events/mqtt-bridge.js";
+import { RuleEngine } from "../automation/rule-engine.js";
+import type { RuleInput } from "../automation/rule-engine.js";
+import { Scheduler } from "../automation/scheduler.js";
+import type { ScheduleInput } from "../automation/scheduler.js";
+import { SceneRunner } from "../automation/scene-runner.js";
+import type { SceneInput, SceneRunOptions } from "../automation/scene-runner.js";
 import { RoutineLogger } from "../logging/routine-logger.js";
+import { AccessControl } from "../policy/access-profile.js";
+import { ActionPolicy } from "../policy/action-policy.js";
+import { ClipRecorder } from "../media/clip-recorder.js";
+import { FfmpegMediaEncoder } from "../media/media-encoder.js";
+import type { MediaEncoder } from "../media/media-encoder.js";
 import type {
   RingToolConfig,
   RingDeviceInfo,
   RingLocationInfo,
   RingEvent,
   RoutineLogEntry,
+  RoutineExecution,
+  RoutineQuery,
   DeviceCommand,
   AlarmAction,
+  AlarmActionOptions,
+  AlarmActionResult,
+  CommandOptions,
+  CommandOrigin,
+  FaultedSensor,
+  PolicyCredentials,
+  PolicyDecision,
+  PolicyRequest,
+  SnapshotQuery,
+  SnapshotRecord,
+  SpanQuery,
+  SpanQueryResult,
+  DeviceHealthQuery,
+  DeviceHealthSample,
+  BatteryForecast,
+  EventFilter,
+  Rule,
+  RuleAction,
+  Schedule,
+  ScheduleAction,
+  Scene,
+  SceneStep,
+  SceneRunResult,
+  WebhookSubscription,
+  WebhookDelivery,
+  WebhookDeliveryQuery,
+  WebhookDeadLetter,
   EventQuery,
   CloudEventQuery,
   CloudEventQueryResult,
@@ -44,15 +96,32 @@ export class RingEcosystemTool {
   private historicCrawler: HistoricCrawler;
   private realtimeMonitor: RealtimeMonitor;
   private routineLogger: RoutineLogger;
+  private snapshotStore: SnapshotStore;
+  private deviceHealthStore: DeviceHealthStore;
+  private healthPoller: HealthPoller;
+  private batteryForecaster: BatteryForecaster;
+  private webhookDispatcher: WebhookDispatcher;
+  private mqttBridge: MqttBridge | null = null;
+  private ruleEngine: RuleEngine;
+  private scheduler: Scheduler;
+  private sceneRunner: SceneRunner;
+  private actionPolicy: ActionPolicy;
+  private accessControl: AccessControl;
 
-  constructor(config: RingToolConfig) {
+  constructor(config: RingToolConfig, options: { mediaEncoder?: MediaEncoder } = {}) {
     this.config = config;
     this.client = new RingClient(config);
-    this.deviceManager = new DeviceManager(this.client);
+    const clipRecorder = new ClipRecorder(
+      options.mediaEncoder ?? new FfmpegMediaEncoder(),
+      config.mediaDirectory ?? "./ring-media"
+    );
+    this.deviceManager = new DeviceManager(this.client, clipRecorder);
 
     // Initialize SQLite database and stores
+    const snapshotDirectory = config.snapshotDirectory ?? "./ring-snapshots";
     this.database = new RingDatabase({
       filePath: config.databasePath ?? "./ring-data.db",
+      snapshotDirectory,
     });
     const conn = this.database.getConnection();
 
@@ -65,8 +134,15 @@ export class RingEcosystemTool {
 
     const crawlStore = new CrawlStore(conn);
     const deviceHistoryStore = new DeviceHistoryStore(conn);
+    this.snapshotStore = new SnapshotStore(conn, snapshotDirectory, config.snapshotMaxSize);
+    this.deviceHealthStore = new DeviceHealthStore(conn);
+    this.batteryForecaster = new BatteryForecaster(this.deviceHealthStore);
+    this.webhookDispatcher = new WebhookDispatcher(
+      new WebhookStore(conn, config.webhooks?.historyMaxSize),
+      config.webhooks
+    );
 
-    this.eventLogger = new EventLogger(eventStore, config.eventLogFile);
+    this.eventLogger = new EventLogger(eventStore, config.eventLogFile, this.snapshotStore);
     this.routineLogger = new RoutineLogger(routineStore);
     this.cloudHistory = new CloudHistory(this.client, cloudCache);
     this.historicCrawler = new HistoricCrawler(
@@ -82,7 +158,76 @@ export class RingEcosystemTool {
         incrementalIntervalMinutes: config.crawlIncrementalIntervalMinutes ?? 15,
       }
     );
-    this.realtimeMonitor = new RealtimeMonitor(this.client, this.eventLogger);
+    this.realtimeMonitor = new RealtimeMonitor(this.client, this.eventLogger, {
+      temperatureHighC: config.temperatureHighC,
+      temperatureLowC: config.temperatureLowC,
+      autoSnapshot: config.autoSnapshot,
+      dedupWindowSec: config.eventDedupWindowSec,
+    }, this.webhookDispatcher);
+    this.healthPoller = new HealthPoller(
+      this.client,
+      this.deviceHealthStore,
+      (event) => this.realtimeMonitor.publish(event),
+      {
+        intervalMinutes: config.healthPollIntervalMinutes ?? 15,
+        batteryThresholds: config.batteryThresholds ?? [20, 10, 5],
+      }
+    );
+
+    this.ruleEngine = new RuleEngine(new RuleStore(conn), this.routineLogger, {
+      getAlarmMode: (locationId) => this.deviceManager.getAlarmMode(locationId),
+      countEvents: (filter, startTime, endTime) => {
+        const counts = this.eventLogger.summary({
+          deviceId: filter.deviceId,
+          locationId: filter.locationId,
+          startTime,
+          endTime,
+        });
+        return Object.entries(counts)
+          .filter(([type]) => !filter.types?.length || filter.types.includes(type as RingEvent["type"]))
+          .reduce((total, [, count]) => total + count, 0);
+      },
+      controlDevice: (command, origin) => this.controlDeviceUnattended(command, origin, true),
+      setAlarmMode: (locationId, action, options, origin) =>
+        this.setAlarmModeUnattended(locationId, action, options, origin, true),
+      deliverWebhook: (webhookId, event) => this.webhookDispatcher.deliver(webhookId, event),
+    });
+    this.scheduler = new Scheduler(
+      new ScheduleStore(conn),
+      this.routineLogger,
+      {
+        controlDevice: (command, origin) => this.controlDeviceUnattended(command, origin, true),
+        setAlarmMode: (locationId, action, options, origin) =>
+          this.setAlarmModeUnattended(locationId, action, options, origin, true),
+      },
+      config.scheduler
+    );
+    this.sceneRunner = new SceneRunner(new SceneStore(conn), this.routineLogger, {
+      getDevice: (deviceId) => this.deviceManager.getDevice(deviceId),
+      getAlarmState: (locationId) => this.deviceManager.getAlarmState(locationId),
+      authorizeRollback: async (step) => {
+        const requests = await this.policyRequests([step]);
+        for (const request of requests) this.accessControl.assertCommand(request);
+        this.assertUnattended(requests, false);
+      },
+      controlDevice: (command, origin, options) => this.controlDevice(command, origin, options),
+      setAlarmMode: (locationId, action, options, origin) =>
+        this.setAlarmMode(locationId, action, options, origin),
+    });
+
+    this.actionPolicy = new ActionPolicy(config.policy ?? { rules: [] }, this.routineLogger);
+    this.accessControl = new AccessControl(config.accessProfile, this.routineLogger);
+
+    // Commands received over MQTT are audited and decided by the policy like other unattended commands
+    if (config.mqtt) {
+      this.mqttBridge = new MqttBridge(config.mqtt, {
+        listLocations: () => this.deviceManager.listLocations(),
+        listDevices: () => this.deviceManager.listAllDevices(),
+        controlDevice: (command) => this.controlDeviceUnattended(command, { source: "mqtt" }, false),
+        setAlarmMode: (locationId, action) =>
+          this.setAlarmModeUnattended(locationId, action, {}, { source: "mqtt" }, false),
+      });
+    }
   }
 
   // ── Lifecycle ──
@@ -90,6 +235,29 @@ export class RingEcosystemTool {
   async initialize(): Promise<{ locations: number; devices: number }> {
     await this.client.initialize();
     await this.realtimeMonitor.start();
+    this.healthPoller.start();
+    this.webhookDispatcher.start();
+    this.scheduler.start();
+
+    this.realtimeMonitor.subscribe({
+      callback: (event) => {
+        this.ruleEngine.handleEvent(event).catch((err) => {
+          console.error("[rules] Failed to evaluate rules:", err);
+        });
+      },
+    });
+
+    if (this.mqttBridge) {
+      const bridge = this.mqttBridge;
+      this.realtimeMonitor.subscribe({
+        callback: (event) => {
+          bridge.publishEvent(event).catch((err) => {
+            console.error("[mqtt-bridge] Failed to publish event:", err);
+          });
+        },
+      });
+      bridge.start();
+    }
 
     // Start background historic data crawl if enabled
     if (this.historicCrawler && this.config.crawlEnabled) {
@@ -101,69 +269,150 @@ export class RingEcosystemTool {
     return { locations: locations.length, devices: devices.length };
   }
 
-  shutdown(): void {
-    this.historicCrawler.stop();
+  /**
+   * Stop background work, wait for webhook deliveries, schedule runs and
+   * the MQTT disconnect in progress, then close the database.
+   */
+  async shutdown(): Promise<void> {
     this.realtimeMonitor.stop();
+    this.historicCrawler.stop();
+    this.healthPoller.stop();
+    const stopped = await Promise.allSettled([
+      this.scheduler.stop(),
+      this.webhookDispatcher.stop(),
+      this.mqttBridge?.stop(),
+    ]);
+    for (const result of stopped) {
+      if (result.status === "rejected") console.error("[ring-ecosystem-tool] Shutdown step failed:", result.reason);
+    }
     this.database.close();
   }
 
   // ── Location Operations ──
 
+  /** Locations, limited to those the access profile allows. */
   async listLocations(): Promise<RingLocationInfo[]> {
-    return this.deviceManager.listLocations();
+    const locations = await this.deviceManager.listLocations();
+    return locations.filter((l) => this.accessControl.allowsLocation(l.id));
+  }
+
+  /** One location with the devices at it, or null if it is unknown. */
+  async getLocation(locationId: string): Promise<(RingLocationInfo & { devices: RingDeviceInfo[] }) | null> {
+    this.accessControl.assertTarget({ action: "get_location", locationId });
+    const location = (await this.deviceManager.listLocations()).find((l) => l.id === locationId);
+    if (!location) return null;
+    const devices = await this.listDevices();
+    return { ...location, devices: devices.filter((d) => d.locationId === locationId) };
   }
 
   // ── Device Operations ──
 
+  /** Devices, limited to those the access profile allows. */
   async listDevices(): Promise<RingDeviceInfo[]> {
-    return this.deviceManager.listAllDevices();
+    const devices = await this.deviceManager.listAllDevices();
+    return devices.filter((d) => this.accessControl.allowsDevice(d));
   }
 
   async getDevice(deviceId: string): Promise<RingDeviceInfo | null> {
-    return this.deviceManager.getDevice(deviceId);
+    const device = await this.deviceManager.getDevice(deviceId);
+    if (device) {
+      this.accessControl.assertTarget({ action: "get_device", deviceId, locationId: device.locationId });
+    }
+    return device;
   }
 
-  async controlDevice(command: DeviceCommand): Promise<Record<string, unknown>> {
+  /**
+   * Execute a device command, audited in the routine log. `origin` records
+   * where the command came from (e.g. MQTT, or a rule and its triggering event).
+   * A dry run is validated and logged as simulated but not sent to Ring.
+   */
+  async controlDevice(
+    command: DeviceCommand,
+    origin: CommandOrigin = {},
+    options: CommandOptions = {}
+  ): Promise<Record<string, unknown>> {
     const device = await this.deviceManager.getDevice(command.deviceId);
+    this.accessControl.assertCommand({
+      action: command.action,
+      deviceId: command.deviceId,
+      locationId: device?.locationId,
+    });
+    const source = originParameters(origin);
+    const dryRun = options.dryRun ?? this.config.dryRun ?? false;
 
-    // Log the routine attempt
-    const logEntry = this.routineLogger.log({
+    // Start the routine execution; it is finished below with the outcome
+    const logEntry = this.routineLogger.start({
       action: command.action,
       deviceId: command.deviceId,
       deviceName: device?.name,
       locationId: device?.locationId ?? "unknown",
       locationName: device?.locationName ?? "unknown",
-      parameters: command.parameters ?? {},
-      result: "pending",
+      parameters: { ...command.parameters, ...source },
+      parentId: origin.parentRoutineId,
+      simulated: dryRun,
     });
 
     try {
-      const result = await this.deviceManager.executeCommand(command);
-
-      // Update the routine log to success
-      this.routineLogger.log({
-        id: logEntry.id,
-        timestamp: logEntry.timestamp,
-        action: command.action,
-        deviceId: command.deviceId,
-        deviceName: device?.name,
-        locationId: device?.locationId ?? "unknown",
-        locationName: device?.locationName ?? "unknown",
-        parameters: command.parameters ?? {},
+      const result = dryRun
+        ? await this.deviceManager.simulateCommand(command)
+        : await this.deviceManager.executeCommand(command);
+
+      // Recorded clips are also logged as events, linked back to this routine
+      if (command.action === "record_clip" && !dryRun) {
+        const clipEvent = this.eventLogger.record({
+          deviceId: command.deviceId,
+          deviceName: device?.name ?? command.deviceId,
+          locationId: device?.locationId ?? "unknown",
+          locationName: device?.locationName ?? "unknown",
+          type: "clip_recorded",
+          durationSec: result.durationSec as number,
+          metadata: {
+            filePath: result.filePath,
+            sizeBytes: result.sizeBytes,
+            startedAt: result.startedAt,
+            routineId: logEntry.id,
+          },
+        });
+        result.eventId = clipEvent.id;
+      }
+
+      // Captured snapshots are archived and logged as events referencing them
+      if (command.action === "capture_snapshot" && !dryRun) {
+        const snapshot = this.snapshotStore.save(
+          Buffer.from(result.snapshotBase64 as string, "base64"),
+          { deviceId: command.deviceId, mimeType: result.mimeType as string }
+        );
+        const snapshotEvent = this.eventLogger.record({
+          deviceId: command.deviceId,
+          deviceName: device?.name ?? command.deviceId,
+          locationId: device?.locationId ?? "unknown",
+          locationName: device?.locationName ?? "unknown",
+          type: "snapshot_captured",
+          snapshotId: snapshot.id,
+          metadata: { sizeBytes: snapshot.sizeBytes, routineId: logEntry.id },
+        });
+        result.snapshotId = snapshot.id;
+        result.eventId = snapshotEvent.id;
+      }
+
+      // Settings changes report the value they replaced, which is kept in
+      // the audit trail so they can be reverted.
+      this.routineLogger.finish(logEntry.id, {
         result: "success",
+        parameters: {
+          ...("previousValue" in result ? { previousValue: result.previousValue } : {}),
+          ...(command.action === "record_clip"
+            ? { filePath: result.filePath, eventId: result.eventId }
+            : {}),
+          ...(command.action === "capture_snapshot"
+            ? { snapshotId: result.snapshotId, eventId: result.eventId }
+            : {}),
+        },
       });
 
       return result;
     } catch (err) {
-      this.routineLogger.log({
-        id: logEntry.id + "-fail",
-        timestamp: new Date().toISOString(),
-        action: command.action,
-        deviceId: command.deviceId,
-        deviceName: device?.name,
-        locationId: device?.locationId ?? "unknown",
-        locationName: device?.locationName ?? "unknown",
-        parameters: command.parameters ?? {},
+      this.routineLogger.finish(logEntry.id, {
         result: "failure",
         error: err instanceof Error ? err.message : String(err),
       });
@@ -175,37 +424,45 @@ export class RingEcosystemTool {
 
   async setAlarmMode(
     locationId: string,
-    action: AlarmAction
-  ): Promise<Record<string, unknown>> {
+    action: AlarmAction,
+    options: AlarmActionOptions = {},
+    origin: CommandOrigin = {}
+  ): Promise<AlarmActionResult> {
+    this.accessControl.assertCommand({ action: `alarm_${action}`, locationId });
     const locations = await this.deviceManager.listLocations();
     const loc = locations.find((l) => l.id === locationId);
+    const dryRun = options.dryRun ?? this.config.dryRun ?? false;
+    const parameters: Record<string, unknown> = {
+      action,
+      bypassSensorIds: options.bypassSensorIds ?? [],
+      ...originParameters(origin),
+    };
 
-    this.routineLogger.log({
+    const logEntry = this.routineLogger.start({
       action: `alarm_${action}`,
       locationId,
       locationName: loc?.name ?? "unknown",
-      parameters: { action },
-      result: "pending",
+      parameters,
+      parentId: origin.parentRoutineId,
+      simulated: dryRun,
     });
 
     try {
-      const result = await this.deviceManager.setAlarmMode(locationId, action);
+      const result = dryRun
+        ? await this.deviceManager.simulateAlarmMode(locationId, action, options)
+        : await this.deviceManager.setAlarmMode(locationId, action, options);
 
-      this.routineLogger.log({
-        action: `alarm_${action}`,
-        locationId,
-        locationName: loc?.name ?? "unknown",
-        parameters: { action },
+      this.routineLogger.finish(logEntry.id, {
         result: "success",
+        parameters: {
+          bypassedSensorIds: result.bypassedSensorIds,
+          faultedSensors: result.faultedSensors,
+        },
       });
 
       return result;
     } catch (err) {
-      this.routineLogger.log({
-        action: `alarm_${action}`,
-        locationId,
-        locationName: loc?.name ?? "unknown",
-        parameters: { action },
+      this.routineLogger.finish(logEntry.id, {
         result: "failure",
         error: err instanceof Error ? err.message : String(err),
       });
@@ -213,41 +470,320 @@ export class RingEcosystemTool {
     }
   }
 
+  async getFaultedSensors(locationId: string): Promise<FaultedSensor[]> {
+    this.accessControl.assertTarget({ action: "get_faulted_sensors", locationId });
+    return this.deviceManager.getFaultedSensors(locationId);
+  }
+
   async getAlarmMode(locationId: string): Promise<string> {
+    this.accessControl.assertTarget({ action: "get_alarm_mode", locationId });
     return this.deviceManager.getAlarmMode(locationId);
   }
 
+  // ── Policy ──
+
+  /**
+   * Check an agent's device command against the access profile and the
+   * action policy before running it. Denials and challenges are recorded
+   * in the routine log.
+   */
+  async authorizeCommand(command: DeviceCommand, credentials: PolicyCredentials = {}): Promise<PolicyDecision> {
+    const device = await this.deviceManager.getDevice(command.deviceId);
+    const request: PolicyRequest = {
+      action: command.action,
+      deviceId: command.deviceId,
+      locationId: device?.locationId,
+      parameters: command.parameters,
+    };
+    this.accessControl.assertCommand(request);
+    return this.actionPolicy.authorize([request], credentials);
+  }
+
+  authorizeAlarmMode(
+    locationId: string,
+    action: AlarmAction,
+    options: AlarmActionOptions = {},
+    credentials: PolicyCredentials = {}
+  ): PolicyDecision {
+    const request: PolicyRequest = {
+      action: `alarm_${action}`,
+      locationId,
+      parameters: { bypassSensorIds: options.bypassSensorIds ?? [] },
+    };
+    this.accessControl.assertCommand(request);
+    return this.actionPolicy.authorize([request], credentials);
+  }
+
+  /**
+   * Check a scene run against the access profile, which must allow every
+   * step, and the action policy, whose strictest decision among the steps
+   * applies.
+   */
+  async authorizeScene(sceneId: string, credentials: PolicyCredentials = {}): Promise<PolicyDecision> {
+    const scene = this.sceneRunner.getScene(sceneId);
+    if (!scene) throw new Error(`Scene not found: ${sceneId}`);
+
+    const requests = await this.policyRequests(scene.steps);
+    for (const request of requests) this.accessControl.assertCommand(request);
+    return this.actionPolicy.authorize(requests, credentials);
+  }
+
+  /**
+   * Check the actions of a rule or schedule before saving it. They will
+   * run unattended, so confirm-only actions are refused and PIN actions
+   * need the PIN now.
+   */
+  async authorizeAutomation(
+    actions: Array<RuleAction | ScheduleAction>,
+    credentials: PolicyCredentials = {}
+  ): Promise<PolicyDecision> {
+    const requests = await this.policyRequests(actions);
+    for (const request of requests) this.accessControl.assertCommand(request);
+    return this.actionPolicy.authorizeAutomation(requests, credentials);
+  }
+
+  /** Check a scene's steps before saving it; only denied steps are refused. */
+  async authorizeSceneSteps(steps: SceneStep[]): Promise<PolicyDecision> {
+    const requests = await this.policyRequests(steps);
+    for (const request of requests) this.accessControl.assertCommand(request);
+    return this.actionPolicy.authorizeSave(requests);
+  }
+
+  /** Policy requests for rule, schedule or scene actions (webhook deliveries need none). */
+  private async policyRequests(actions: Array<RuleAction | ScheduleAction | SceneStep>): Promise<PolicyRequest[]> {
+    const requests: PolicyRequest[] = [];
+    for (const action of actions) {
+      if (action.type === "alarm") {
+        requests.push({
+          action: `alarm_${action.action}`,
+          locationId: action.locationId,
+          parameters: { bypassSensorIds: action.bypassSensorIds ?? [] },
+        });
+      } else if (action.type === "device_command") {
+        const device = await this.deviceManager.getDevice(action.command.deviceId);
+        requests.push({
+          action: action.command.action,
+          deviceId: action.command.deviceId,
+          locationId: device?.locationId,
+          parameters: action.command.parameters,
+        });
+      }
+    }
+    return requests;
+  }
+
+  /**
+   * Run a command from a rule, schedule or MQTT once the policy allows
+   * it unattended. `pinVerified` is set for rules and schedules, whose
+   * PIN actions were authorized when they were saved.
+   */
+  private async controlDeviceUnattended(
+    command: DeviceCommand,
+    origin: CommandOrigin,
+    pinVerified: boolean
+  ): Promise<Record<string, unknown>> {
+    this.assertUnattended(await this.policyRequests([{ type: "device_command", command }]), pinVerified);
+    return this.controlDevice(command, origin);
+  }
+
+  private async setAlarmModeUnattended(
+    locationId: string,
+    action: AlarmAction,
+    options: AlarmActionOptions,
+    origin: CommandOrigin,
+    pinVerified: boolean
+  ): Promise<AlarmActionResult> {
+    this.assertUnattended(
+      await this.policyRequests([{ type: "alarm", locationId, action, bypassSensorIds: options.bypassSensorIds }]),
+      pinVerified
+    );
+    return this.setAlarmMode(locationId, action, options, origin);
+  }
+
+  /**
+   * Throw unless the access profile allows the device or location a query
+   * names. A device named without its location is looked up.
+   */
+  private async assertQueryTarget(action: string, target: { deviceId?: string; locationId?: string }): Promise<void> {
+    if (!this.accessControl.restrictsTargets || (!target.deviceId && !target.locationId)) return;
+    this.accessControl.assertTarget({
+      action,
+      deviceId: target.deviceId,
+      locationId: target.locationId ?? (target.deviceId ? await this.deviceLocation(target.deviceId) : undefined),
+    });
+  }
+
+  /**
+   * Run a query under a restricted access profile: drop the records it
+   * does not allow, then apply the limit.
+   */
+  private scoped<Q extends { limit?: number }, T>(
+    query: (filter: Q) => T[],
+    filter: Q,
+    allows: (record: T) => boolean
+  ): T[] {
+    if (!this.accessControl.restrictsTargets) return query(filter);
+    const records = query({ ...filter, limit: undefined }).filter(allows);
+    return filter.limit !== undefined ? records.slice(0, filter.limit) : records;
+  }
+
+  private async deviceLocation(deviceId: string): Promise<string | undefined> {
+    return (await this.deviceManager.getDevice(deviceId))?.locationId;
+  }
+
+  /** Each device's location, for records that carry only a device ID. */
+  private async deviceLocations(): Promise<Map<string, string>> {
+    const devices = await this.deviceManager.listAllDevices();
+    return new Map(devices.map((d) => [d.id, d.locationId]));
+  }
+
+  private assertUnattended(requests: PolicyRequest[], pinVerified: boolean): void {
+    const decision = this.actionPolicy.authorizeUnattended(requests, { pinVerified });
+    if (decision.status !== "allowed") throw new Error(`Refused by action policy: ${decision.reason}`);
+  }
+
+  /** Whether the access profile lets the MCP server offer a tool. */
+  allowsTool(name: string): boolean {
+    return this.accessControl.allowsTool(name);
+  }
+
+  /** Whether the access profile allows a location, e.g. for a resource subscription. */
+  allowsLocation(locationId: string): boolean {
+    return this.accessControl.allowsLocation(locationId);
+  }
+
+  /** Whether the access profile allows a device, e.g. for a live event. */
+  allowsDevice(device: { id: string; locationId: string }): boolean {
+    return this.accessControl.allowsDevice(device);
+  }
+
   // ── Event Queries ──
 
-  queryEvents(filter: EventQuery = {}): RingEvent[] {
-    return this.eventLogger.query(filter);
+  /** Logged events, newest first, from devices the access profile allows. */
+  async queryEvents(filter: EventQuery = {}): Promise<RingEvent[]> {
+    await this.assertQueryTarget("query_events", filter);
+    return this.scoped((f) => this.eventLogger.query(f), filter, (e) => this.accessControl.allowsRecord(e));
+  }
+
+  /** The latest events, newest first, from devices the access profile allows. */
+  getRecentEvents(limit = 50): RingEvent[] {
+    return this.scoped((f) => this.eventLogger.query(f), { limit }, (e) =>
+      this.accessControl.allowsDevice({ id: e.deviceId, locationId: e.locationId })
+    );
   }
 
-  getEventSummary(
+  async getEventSummary(
     filter: Omit<EventQuery, "limit"> = {}
-  ): Record<string, number> {
-    return this.eventLogger.summary(filter);
+  ): Promise<Record<string, number>> {
+    await this.assertQueryTarget("get_event_summary", filter);
+    if (!this.accessControl.restrictsTargets) return this.eventLogger.summary(filter);
+
+    const counts: Record<string, number> = {};
+    for (const event of await this.queryEvents(filter)) counts[event.type] = (counts[event.type] ?? 0) + 1;
+    return counts;
+  }
+
+  async querySpans(filter: SpanQuery = {}): Promise<SpanQueryResult> {
+    await this.assertQueryTarget("query_spans", filter);
+    if (!this.accessControl.restrictsTargets) return this.eventLogger.querySpans(filter);
+
+    const spans = this.scoped(
+      (f) => this.eventLogger.querySpans(f).spans,
+      filter,
+      (span) => this.accessControl.allowsRecord(span)
+    );
+    return {
+      count: spans.length,
+      totalDurationSec: totalSpanDuration(spans, filter.startTime, filter.endTime),
+      spans,
+    };
+  }
+
+  // ── Device Health ──
+
+  async getDeviceHealthHistory(filter: DeviceHealthQuery = {}): Promise<DeviceHealthSample[]> {
+    await this.assertQueryTarget("get_device_health_history", filter);
+    return this.scoped((f) => this.deviceHealthStore.query(f), filter, (s) => this.accessControl.allowsRecord(s));
+  }
+
+  /**
+   * Forecast when battery-powered devices will reach the threshold
+   * (default 10%), from the readings collected by the health poller.
+   * Returns one device if deviceId is given, otherwise all, soonest first.
+   */
+  async getBatteryForecast(
+    options: BatteryForecastOptions & { deviceId?: string } = {}
+  ): Promise<BatteryForecast[]> {
+    const { deviceId, ...forecastOptions } = options;
+    if (deviceId) {
+      await this.assertQueryTarget("get_battery_forecast", { deviceId });
+      const forecast = this.batteryForecaster.forecast(deviceId, forecastOptions);
+      return forecast ? [forecast] : [];
+    }
+    const forecasts = this.batteryForecaster.forecastAll(forecastOptions);
+    if (!this.accessControl.restrictsTargets) return forecasts;
+    const locations = await this.deviceLocations();
+    return forecasts.filter((f) => this.accessControl.allowsRecord({ ...f, locationId: locations.get(f.deviceId) ?? "" }));
+  }
+
+  // ── Snapshot Archive ──
+
+  /** Look up an archived snapshot and its image bytes. */
+  async getSnapshot(snapshotId: string): Promise<{ record: SnapshotRecord; data: Buffer } | null> {
+    const record = this.snapshotStore.get(snapshotId);
+    if (!record) return null;
+    await this.assertQueryTarget("get_snapshot", { deviceId: record.deviceId });
+    const data = this.snapshotStore.read(snapshotId);
+    return data ? { record, data } : null;
+  }
+
+  async querySnapshots(filter: SnapshotQuery = {}): Promise<SnapshotRecord[]> {
+    await this.assertQueryTarget("query_snapshots", filter);
+    if (!this.accessControl.restrictsTargets) return this.snapshotStore.query(filter);
+    const locations = await this.deviceLocations();
+    return this.scoped((f) => this.snapshotStore.query(f), filter, (s) =>
+      this.accessControl.allowsRecord({ ...s, locationId: locations.get(s.deviceId) ?? "" })
+    );
   }
 
   // ── Routine Queries ──
 
-  queryRoutines(filter: {
-    action?: string;
-    deviceId?: string;
-    locationId?: string;
-    result?: "success" | "failure" | "pending";
-    startTime?: string;
-    endTime?: string;
-    limit?: number;
-  } = {}): RoutineLogEntry[] {
-    return this.routineLogger.query(filter);
+  /**
+   * Query routine executions, newest first. Each top-level execution
+   * (a command, alarm change, scene run, rule firing or schedule run)
+   * carries the entries it issued as nested steps; it matches if it or
+   * any of its steps matches the filter. Executions and steps outside the
+   * access profile are left out.
+   */
+  async queryRoutines(filter: RoutineQuery = {}): Promise<RoutineExecution[]> {
+    await this.assertQueryTarget("query_routines", filter);
+    if (!this.accessControl.restrictsTargets) return this.routineLogger.queryExecutions(filter);
+
+    const allowed = (executions: RoutineExecution[]): RoutineExecution[] =>
+      executions
+        .filter((e) => this.accessControl.allowsRecord(e))
+        .map((e) => ({ ...e, steps: allowed(e.steps) }));
+    const { limit, ...rest } = filter;
+    const executions = allowed(this.routineLogger.queryExecutions(rest));
+    return limit !== undefined ? executions.slice(0, limit) : executions;
   }
 
+  /** Routine counts by action, from entries the access profile allows. */
   getRoutineSummary(): Record<
     string,
     { total: number; success: number; failure: number }
   > {
-    return this.routineLogger.summary();
+    if (!this.accessControl.restrictsTargets) return this.routineLogger.summary();
+
+    const summary: Record<string, { total: number; success: number; failure: number }> = {};
+    for (const entry of this.routineLogger.query()) {
+      if (!this.accessControl.allowsRecord(entry)) continue;
+      const counts = (summary[entry.action] ??= { total: 0, success: 0, failure: 0 });
+      counts.total++;
+      if (entry.result === "success") counts.success++;
+      if (entry.result === "failure") counts.failure++;
+    }
+    return summary;
   }
 
   // ── Real-time Subscriptions ──
@@ -267,13 +803,225 @@ export class RingEcosystemTool {
     return this.realtimeMonitor.unsubscribe(subscriptionId);
   }
 
+  /**
+   * Wait for the next live event matching the filter from a device the
+   * access profile allows. Resolves with null on timeout or abort.
+   */
+  waitForEvent(filter: EventFilter | undefined, timeoutMs: number, signal?: AbortSignal): Promise<RingEvent | null> {
+    return this.realtimeMonitor.waitFor(filter, timeoutMs, {
+      signal,
+      accept: (event) => this.accessControl.allowsDevice({ id: event.deviceId, locationId: event.locationId }),
+    });
+  }
+
+  // ── Webhooks ──
+
+  /**
+   * Register a persistent webhook. Matching events are POSTed as JSON and
+   * signed with the secret (generated if omitted) in X-Ring-Signature.
+   * A restricted access profile must name an allowed device (or, if it
+   * only limits locations, an allowed location) in the filter.
+   */
+  async createWebhook(options: { url: string; filter?: EventFilter; secret?: string }): Promise<WebhookSubscription> {
+    if (this.accessControl.restrictsTargets) {
+      const { deviceId, locationId } = options.filter ?? {};
+      this.accessControl.assertScope({
+        action: "create_webhook",
+        deviceId,
+        locationId: locationId ?? (deviceId ? await this.deviceLocation(deviceId) : undefined),
+      });
+    }
+    return this.webhookDispatcher.createWebhook(options);
+  }
+
+  /** List webhooks the access profile allows. Secrets are only returned when a webhook is created. */
+  async listWebhooks(): Promise<Omit<WebhookSubscription, "secret">[]> {
+    const webhooks = await this.visible(this.webhookDispatcher.listWebhooks(), webhookTargets);
+    return webhooks.map(({ secret: _secret, ...webhook }) => webhook);
+  }
+
+  async deleteWebhook(webhookId: string): Promise<boolean> {
+    const webhook = this.webhookDispatcher.listWebhooks().find((w) => w.id === webhookId);
+    await this.assertVisible("delete_webhook", webhook, webhookTargets);
+    return this.webhookDispatcher.deleteWebhook(webhookId);
+  }
+
+  async getWebhookDeliveries(filter: WebhookDeliveryQuery = {}): Promise<WebhookDelivery[]> {
+    if (!this.accessControl.restrictsTargets) return this.webhookDispatcher.queryDeliveries(filter);
+    const webhookIds = await this.visibleWebhookIds();
+    return this.scoped((f) => this.webhookDispatcher.queryDeliveries(f), filter, (d) => webhookIds.has(d.webhookId));
+  }
+
+  async getWebhookDeadLetters(webhookId?: string): Promise<WebhookDeadLetter[]> {
+    const deadLetters = this.webhookDispatcher.queryDeadLetters(webhookId);
+    if (!this.accessControl.restrictsTargets) return deadLetters;
+    const webhookIds = await this.visibleWebhookIds();
+    return deadLetters.filter((d) => webhookIds.has(d.webhookId));
+  }
+
+  private async visibleWebhookIds(): Promise<Set<string>> {
+    const webhooks = await this.visible(this.webhookDispatcher.listWebhooks(), webhookTargets);
+    return new Set(webhooks.map((w) => w.id));
+  }
+
+  // ── Rules ──
+
+  /**
+   * Create an automation rule. It fires on live events matching the
+   * trigger when all conditions hold; each firing is logged as a
+   * "rule_fired" routine linked to the triggering event.
+   */
+  async createRule(input: RuleInput): Promise<Rule> {
+    await this.assertAutomation("create_rule", input.actions, [input.trigger]);
+    return this.ruleEngine.createRule(input);
+  }
+
+  async updateRule(ruleId: string, changes: Partial<RuleInput>): Promise<Rule> {
+    await this.assertVisible("update_rule", this.ruleEngine.getRule(ruleId), ruleTargets);
+    await this.assertAutomation("update_rule", changes.actions ?? [], changes.trigger ? [changes.trigger] : []);
+    return this.ruleEngine.updateRule(ruleId, changes);
+  }
+
+  async getRule(ruleId: string): Promise<Rule | null> {
+    const rule = this.ruleEngine.getRule(ruleId);
+    await this.assertVisible("get_rule", rule, ruleTargets);
+    return rule;
+  }
+
+  async listRules(): Promise<Rule[]> {
+    return this.visible(this.ruleEngine.listRules(), ruleTargets);
+  }
+
+  async deleteRule(ruleId: string): Promise<boolean> {
+    await this.assertVisible("delete_rule", this.ruleEngine.getRule(ruleId), ruleTargets);
+    return this.ruleEngine.deleteRule(ruleId);
+  }
+
+  /** Recent rule firings from the routine log, newest first, for events the access profile allows. */
+  getRuleFirings(filter: { ruleId?: string; eventId?: string; limit?: number } = {}): RoutineLogEntry[] {
+    const firings = this.routineLogger
+      .query({ action: "rule_fired" })
+      .filter(
+        (entry) =>
+          (!filter.ruleId || entry.parameters.ruleId === filter.ruleId) &&
+          (!filter.eventId || entry.parameters.eventId === filter.eventId) &&
+          this.accessControl.allowsRecord(entry)
+      );
+    return filter.limit !== undefined ? firings.slice(0, filter.limit) : firings;
+  }
+
+  // ── Schedules ──
+
+  /**
+   * Create a cron or sunrise/sunset schedule. Each run is logged as a
+   * "schedule_run" routine; runs missed while the tool was stopped are
+   * caught up or skipped on startup according to the catch-up policy.
+   */
+  async createSchedule(input: ScheduleInput): Promise<Schedule> {
+    await this.assertAutomation("create_schedule", [...input.actions, ...(input.endActions ?? [])], []);
+    return this.scheduler.createSchedule(input);
+  }
+
+  async getSchedule(scheduleId: string): Promise<Schedule | null> {
+    const schedule = this.scheduler.getSchedule(scheduleId);
+    await this.assertVisible("get_schedule", schedule, scheduleTargets);
+    return schedule;
+  }
+
+  async listSchedules(): Promise<Schedule[]> {
+    return this.visible(this.scheduler.listSchedules(), scheduleTargets);
+  }
+
+  async pauseSchedule(scheduleId: string): Promise<Schedule> {
+    await this.assertVisible("pause_schedule", this.scheduler.getSchedule(scheduleId), scheduleTargets);
+    return this.scheduler.pauseSchedule(scheduleId);
+  }
+
+  async resumeSchedule(scheduleId: string): Promise<Schedule> {
+    await this.assertVisible("resume_schedule", this.scheduler.getSchedule(scheduleId), scheduleTargets);
+    return this.scheduler.resumeSchedule(scheduleId);
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<boolean> {
+    await this.assertVisible("delete_schedule", this.scheduler.getSchedule(scheduleId), scheduleTargets);
+    return this.scheduler.deleteSchedule(scheduleId);
+  }
+
+  // ── Scenes ──
+
+  /** Create a named scene: an ordered group of device commands and alarm changes. */
+  async createScene(input: SceneInput): Promise<Scene> {
+    await this.assertAutomation("create_scene", input.steps, []);
+    return this.sceneRunner.createScene(input);
+  }
+
+  async updateScene(sceneId: string, changes: Partial<SceneInput>): Promise<Scene> {
+    await this.assertVisible("update_scene", this.sceneRunner.getScene(sceneId), sceneTargets);
+    await this.assertAutomation("update_scene", changes.steps ?? [], []);
+    return this.sceneRunner.updateScene(sceneId, changes);
+  }
+
+  async getScene(sceneId: string): Promise<Scene | null> {
+    const scene = this.sceneRunner.getScene(sceneId);
+    await this.assertVisible("get_scene", scene, sceneTargets);
+    return scene;
+  }
+
+  async listScenes(): Promise<Scene[]> {
+    return this.visible(this.sceneRunner.listScenes(), sceneTargets);
+  }
+
+  async deleteScene(sceneId: string): Promise<boolean> {
+    await this.assertVisible("delete_scene", this.sceneRunner.getScene(sceneId), sceneTargets);
+    return this.sceneRunner.deleteScene(sceneId);
+  }
+
+  /**
+   * Throw unless the access profile allows every action and the devices
+   * or locations each event filter (a rule trigger) listens to.
+   */
+  private async assertAutomation(
+    action: string,
+    actions: Array<RuleAction | ScheduleAction | SceneStep>,
+    filters: EventFilter[]
+  ): Promise<void> {
+    for (const request of await this.policyRequests(actions)) this.accessControl.assertCommand(request);
+    if (filters.length === 0 || !this.accessControl.restrictsTargets) return;
+    this.accessControl.assertTargets(action, automationTargets([], filters, await this.deviceLocations()));
+  }
+
+  /** Saved rules, schedules, scenes or webhooks whose targets the access profile allows. */
+  private async visible<T>(records: T[], targets: RecordTargets<T>): Promise<T[]> {
+    if (!this.accessControl.restrictsTargets) return records;
+    const locations = await this.deviceLocations();
+    return records.filter((record) => this.accessControl.allowsTargets(targets(record, locations)));
+  }
+
+  /** Throw, and log the denial, unless the access profile allows a saved record's targets. */
+  private async assertVisible<T>(action: string, record: T | null | undefined, targets: RecordTargets<T>): Promise<void> {
+    if (!record || !this.accessControl.restrictsTargets) return;
+    this.accessControl.assertTargets(action, targets(record, await this.deviceLocations()));
+  }
+
+  /**
+   * Run a scene's steps. The run is logged as a "scene_run" routine and
+   * each step's command is logged with that entry's ID as parentRoutineId.
+   */
+  async runScene(sceneId: string, options: SceneRunOptions = {}): Promise<SceneRunResult> {
+    return this.sceneRunner.runScene(sceneId, { ...options, dryRun: options.dryRun ?? this.config.dryRun });
+  }
+
   // ── Cloud History ──
 
   async getCloudEvents(query: CloudEventQuery = {}): Promise<CloudEventQueryResult> {
-    return this.cloudHistory.getEvents(query);
+    await this.assertQueryTarget("get_cloud_events", query);
+    const result = await this.cloudHistory.getEvents(query);
+    if (!this.accessControl.restrictsTargets) return result;
+    return { ...result, events: result.events.filter((e) => this.accessControl.allowsRecord(e)) };
   }
 
   async searchVideos(query: VideoSearchQuery): Promise<CloudVideoResult[]> {
+    await this.assertQueryTarget("search_videos", query);
     return this.cloudHistory.searchVideos(query);
   }
 
@@ -282,10 +1030,13 @@ export class RingEcosystemTool {
     dingIdStr: string,
     options?: { transcoded?: boolean }
   ): Promise<string> {
+    await this.assertQueryTarget("get_recording_url", { deviceId });
     return this.cloudHistory.getRecordingUrl(deviceId, dingIdStr, options);
   }
 
+  /** A location's alarm or beams history; it spans every device there, so it cannot be filtered per device. */
   async getDeviceHistory(query: DeviceHistoryQuery): Promise<unknown[]> {
+    this.accessControl.assertScope({ action: "get_device_history", locationId: query.locationId });
     return this.cloudHistory.getDeviceHistory(query);
   }
 
@@ -313,12 +1064,74 @@ export class RingEcosystemTool {
     eventsLogged: number;
     routinesLogged: number;
     crawling: boolean;
+    healthPolling: boolean;
+    healthSamples: number;
+    mqttConnected: boolean;
+    scheduling: boolean;
+    dryRun: boolean;
+    accessProfile: string | null;
   } {
     return {
       monitoring: this.realtimeMonitor.isRunning,
       eventsLogged: this.eventLogger.size,
       routinesLogged: this.routineLogger.size,
       crawling: this.historicCrawler.isRunning,
+      healthPolling: this.healthPoller.isRunning,
+      healthSamples: this.deviceHealthStore.size,
+      mqttConnected: this.mqttBridge?.isConnected ?? false,
+      scheduling: this.scheduler.isRunning,
+      dryRun: this.config.dryRun ?? false,
+      accessProfile: this.accessControl.profileName ?? null,
     };
   }
 }
+
+/**
+ * Origin fields recorded alongside a command's parameters in the routine
+ * log. The parent routine is recorded as the entry's parentId instead.
+ */
+function originParameters(origin: CommandOrigin): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(origin).filter(([key, value]) => value !== undefined && key !== "parentRoutineId")
+  );
+}
+
+/** A saved record's targets, given each device's location. */
+type RecordTargets<T> = (record: T, locations: Map<string, string>) => AutomationTarget[];
+
+type AutomationTarget = { deviceId?: string; locationId?: string };
+
+/**
+ * The devices and locations actions act on and event filters listen to.
+ * A filter naming neither covers every event.
+ */
+function automationTargets(
+  actions: Array<RuleAction | ScheduleAction | SceneStep>,
+  filters: Array<EventFilter | undefined>,
+  locations: Map<string, string>
+): AutomationTarget[] {
+  const targets: AutomationTarget[] = [];
+  for (const action of actions) {
+    if (action.type === "alarm") {
+      targets.push({ locationId: action.locationId });
+    } else if (action.type === "device_command") {
+      targets.push({ deviceId: action.command.deviceId, locationId: locations.get(action.command.deviceId) });
+    }
+  }
+  for (const filter of filters) {
+    const deviceId = filter?.deviceId;
+    targets.push({ deviceId, locationId: filter?.locationId ?? (deviceId ? locations.get(deviceId) : undefined) });
+  }
+  return targets;
+}
+
+const ruleTargets: RecordTargets<Rule> = (rule, locations) =>
+  automationTargets(rule.actions, [rule.trigger], locations);
+
+const scheduleTargets: RecordTargets<Schedule> = (schedule, locations) =>
+  automationTargets([...schedule.actions, ...(schedule.endActions ?? [])], [], locations);
+
+const sceneTargets: RecordTargets<Scene> = (scene, locations) => automationTargets(scene.steps, [], locations);
+
+const webhookTargets: RecordTargets<WebhookSubscription> = (webhook, locations) =>
+  automationTargets([], [webhook.filter], locations);
@@ -13,6 +13,12 @@ export interface RingDeviceInfo {
   online: boolean;
   batteryLevel?: number;
   firmwareVersion?: string;
+  /** Current lock state (locks only) */
+  lockState?: LockState;
+  /** Current temperature, setpoint and mode (thermostats only) */
+  thermostat?: ThermostatState;
+  /** Current on/off state (Smart Lighting and camera lights) and brightness (Smart Lighting only) */
+  lightState?: LightState;
   /** Device-specific capabilities */
   capabilities: DeviceCapabilities;
   /** Raw device data from Ring API */
@@ -29,11 +35,34 @@ export type RingDeviceCategory =
   | "light"
   | "lock"
   | "thermostat"
+  | "chime"
+  | "intercom"
   | "unknown";
 
+export type LockState = "locked" | "unlocked" | "jammed" | "unknown";
+
+export type ThermostatMode = "heat" | "cool" | "off" | "aux";
+
+export interface LightState {
+  on: boolean;
+  /** Brightness percentage (0-100) for dimmable lights */
+  brightness?: number;
+}
+
+export interface ThermostatState {
+  /** Ambient temperature from the thermostat's temperature sensor */
+  currentTemperatureC?: number;
+  setpointC?: number;
+  setpointMinC?: number;
+  setpointMaxC?: number;
+  mode?: ThermostatMode;
+}
+
 export interface DeviceCapabilities {
   hasLight: boolean;
   hasSiren: boolean;
+  hasLock: boolean;
+  hasThermostat: boolean;
   hasCamera: boolean;
   hasBattery: boolean;
   supportsMotionDetection: boolean;
@@ -41,6 +70,14 @@ export interface DeviceCapabilities {
   supportsSnapshot: boolean;
   supportsVideo: boolean;
   supportsAlarm: boolean;
+  /** Motion detection can be switched on/off */
+  supportsMotionDetectionToggle: boolean;
+  /** Privacy mode (live view and motion disabled) can be switched on/off */
+  supportsPrivacyMode: boolean;
+  /** Motion alerts can be snoozed for a number of minutes */
+  supportsMotionSnooze: boolean;
+  /** Motion sensitivity can be read and updated */
+  supportsMotionSensitivity: boolean;
 }
 
 // ── Location Types ──
@@ -70,7 +107,13 @@ export interface RingEvent {
   durationSec?: number;
   /** URL to recording if available */
   recordingUrl?: string;
-  /** Snapshot buffer encoded as base64, if captured */
+  /** ID of the archived snapshot (see SnapshotStore), if captured */
+  snapshotId?: string;
+  /**
+   * Snapshot buffer encoded as base64.
+   * @deprecated Snapshots are archived on disk and referenced by `snapshotId`;
+   * EventLogger moves inline snapshots into the archive when one is configured.
+   */
   snapshotBase64?: string;
   /** Additional event-specific metadata */
   metadata: Record<string, unknown>;
@@ -87,6 +130,7 @@ export type RingEventType =
   | "light_off"
   | "lock_locked"
   | "lock_unlocked"
+  | "lock_jammed"
   | "siren_on"
   | "siren_off"
   | "snapshot_captured"
@@ -101,12 +145,24 @@ export type RingEventType =
   | "freeze"
   | "smoke_alarm"
   | "co_alarm"
+  | "thermostat_mode_change"
+  | "temperature_high"
+  | "temperature_low"
+  | "intercom_ding"
+  | "intercom_unlock"
+  | "clip_recorded"
+  | "battery_low"
   | "unknown";
 
 // ── Routine Types ──
 
+/**
+ * One routine execution. It is written as "pending" when it starts and
+ * moves to "success" or "failure" once when it finishes.
+ */
 export interface RoutineLogEntry {
   id: string;
+  /** When the execution started */
   timestamp: string;
   action: string;
   deviceId?: string;
@@ -116,6 +172,33 @@ export interface RoutineLogEntry {
   parameters: Record<string, unknown>;
   result: "success" | "failure" | "pending";
   error?: string;
+  /** Shared by an execution and all of its steps: the ID of the top-level execution */
+  correlationId: string;
+  /** Execution this entry is a step of (e.g. the scene run that issued a command) */
+  parentId?: string;
+  /** Absent while pending, and for entries migrated from before finish times were recorded */
+  finishedAt?: string;
+  durationMs?: number;
+  /** A dry run: validated and logged, but nothing was sent to Ring */
+  simulated?: boolean;
+}
+
+/** A top-level routine execution with its steps, nested by parent. */
+export interface RoutineExecution extends RoutineLogEntry {
+  steps: RoutineExecution[];
+}
+
+export interface RoutineQuery {
+  action?: string;
+  deviceId?: string;
+  locationId?: string;
+  result?: "success" | "failure" | "pending";
+  correlationId?: string;
+  /** Only dry runs (true) or only real actions (false) */
+  simulated?: boolean;
+  startTime?: string;
+  endTime?: string;
+  limit?: number;
 }
 
 // ── Tool / Action Types ──
@@ -134,10 +217,79 @@ export type DeviceAction =
   | "capture_snapshot"
   | "get_health"
   | "get_recording_url"
-  | "set_volume";
+  | "set_volume"
+  | "lock"
+  | "unlock"
+  | "set_thermostat_mode"
+  | "set_thermostat_setpoint"
+  | "set_light_brightness"
+  | "get_motion_settings"
+  | "set_motion_detection"
+  | "set_privacy_mode"
+  | "snooze_motion_alerts"
+  | "set_motion_sensitivity"
+  | "snooze_chime"
+  | "play_test_sound"
+  | "unlock_door"
+  | "record_clip";
 
 export type AlarmAction = "arm_home" | "arm_away" | "disarm";
 
+/** Where a command came from, recorded in its routine log entry. */
+export interface CommandOrigin {
+  /** e.g. "mqtt" or "rule" */
+  source?: string;
+  /** Rule that issued the command */
+  ruleId?: string;
+  /** Schedule that issued the command */
+  scheduleId?: string;
+  /** Event that caused the command */
+  eventId?: string;
+  /** Scene whose step issued the command */
+  sceneId?: string;
+  /** Routine entry of the run (e.g. a scene run) this command is part of */
+  parentRoutineId?: string;
+}
+
+/** Per-call options for device commands and alarm changes. */
+export interface CommandOptions {
+  /** Validate and log without sending anything to Ring. Default: the tool's dryRun setting */
+  dryRun?: boolean;
+}
+
+export interface AlarmActionOptions extends CommandOptions {
+  /** Sensor zids to bypass when arming (e.g., an open window) */
+  bypassSensorIds?: string[];
+}
+
+/** An alarm sensor currently reporting a fault (e.g., an open contact sensor). */
+export interface FaultedSensor {
+  id: string;
+  name: string;
+  type: RingDeviceCategory;
+  deviceType: string;
+}
+
+/** Result of an alarm mode change, including the arming preflight. */
+export interface AlarmActionResult {
+  success: boolean;
+  locationId: string;
+  action: AlarmAction;
+  /** Sensors that were faulted when the action was requested */
+  faultedSensors: FaultedSensor[];
+  /** Sensor zids passed to Ring as bypassed */
+  bypassedSensorIds: string[];
+  /** Set for dry runs: the change was checked but not made */
+  simulated?: boolean;
+}
+
+/** A location's alarm mode and the sensors bypassed while it is armed. */
+export interface AlarmState {
+  mode: AlarmMode;
+  /** Sensor zids bypassed; empty while disarmed (see DeviceManager.getAlarmState) */
+  bypassedSensorIds: string[];
+}
+
 export interface EventQuery {
   /** Filter by device ID */
   deviceId?: string;
@@ -153,15 +305,57 @@ export interface EventQuery {
   limit?: number;
 }
 
+/** Event types that open a span, closed by their matching clear event. */
+export type SpanType = "motion" | "sensor_motion" | "contact_open" | "tamper";
+
+/** A period between a start event and its matching clear (e.g. door open → closed). */
+export interface EventSpan {
+  /** ID of the event that opened the span */
+  eventId: string;
+  deviceId: string;
+  deviceName: string;
+  locationId: string;
+  type: SpanType;
+  startedAt: string;
+  /** When the span closed; absent while still open or if the clear was never seen */
+  endedAt?: string;
+  durationSec?: number;
+}
+
+export interface SpanQuery {
+  /** Filter by device ID */
+  deviceId?: string;
+  /** Filter by location ID */
+  locationId?: string;
+  /** Filter by span type */
+  type?: SpanType;
+  /** Start of time range (ISO 8601); spans overlapping the range are included */
+  startTime?: string;
+  /** End of time range (ISO 8601) */
+  endTime?: string;
+  /** Max number of spans to return */
+  limit?: number;
+}
+
+export interface SpanQueryResult {
+  count: number;
+  /** Sum of closed span durations, clipped to the query's time range */
+  totalDurationSec: number;
+  spans: EventSpan[];
+}
+
+/** Criteria an event must match to be delivered to a subscriber. */
+export interface EventFilter {
+  deviceId?: string;
+  locationId?: string;
+  types?: RingEventType[];
+}
+
 export interface EventSubscription {
   /** Unique subscription ID */
   id: string;
   /** Filter criteria for events to receive */
-  filter?: {
-    deviceId?: string;
-    locationId?: string;
-    types?: RingEventType[];
-  };
+  filter?: EventFilter;
   /** Callback invoked when a matching event occurs */
   callback: (event: RingEvent) => void;
 }
@@ -372,6 +566,504 @@ export interface DeviceHistoryStoreQuery {
   limit?: number;
 }
 
+// ── Media Types ──
+
+/** A camera snapshot capture; its image is archived on disk by the SHA-256 of its bytes. */
+export interface SnapshotRecord {
+  id: string;
+  /** SHA-256 hash of the image bytes, shared by captures of identical images */
+  contentHash: string;
+  deviceId: string;
+  capturedAt: string;
+  sizeBytes: number;
+  mimeType: string;
+  /** Absolute path of the image file */
+  filePath: string;
+}
+
+/** Query parameters for the snapshot archive. */
+export interface SnapshotQuery {
+  deviceId?: string;
+  /** Start of time range (ISO 8601) */
+  startTime?: string;
+  /** End of time range (ISO 8601) */
+  endTime?: string;
+  limit?: number;
+}
+
+/** A live-video clip recorded to the local media directory. */
+export interface RecordedClip {
+  deviceId: string;
+  deviceName: string;
+  /** Absolute path of the MP4 file */
+  filePath: string;
+  durationSec: number;
+  sizeBytes: number;
+  startedAt: string;
+  finishedAt: string;
+}
+
+// ── Monitor Types ──
+
+/** Camera event types that can trigger an automatic snapshot. */
+export type AutoSnapshotTrigger = "motion" | "doorbell_press";
+
+/**
+ * Opt-in policy for grabbing a snapshot right after camera events.
+ * Nothing is captured unless `eventTypes` or a `devices` entry is set.
+ */
+export interface AutoSnapshotPolicy {
+  /** Event types that trigger a snapshot on every camera. Default: none */
+  eventTypes?: AutoSnapshotTrigger[];
+  /**
+   * Per-camera overrides of `eventTypes`, keyed by device ID.
+   * An empty list disables automatic snapshots for that camera.
+   */
+  devices?: Record<string, AutoSnapshotTrigger[]>;
+  /** Minimum seconds between automatic snapshots from the same camera. Default: 60 */
+  minIntervalSec?: number;
+}
+
+/** Configuration for the real-time monitor. */
+export interface MonitorConfig {
+  /**
+   * Ambient temperature (°C) above which a temperature_high event is emitted.
+   * Falls back to the sensor's own faultHigh when unset.
+   */
+  temperatureHighC?: number;
+  /**
+   * Ambient temperature (°C) below which a temperature_low event is emitted.
+   * Falls back to the sensor's own faultLow when unset.
+   */
+  temperatureLowC?: number;
+  /** Automatic snapshot capture after motion and doorbell events. */
+  autoSnapshot?: AutoSnapshotPolicy;
+  /**
+   * Window (seconds) within which motion/doorbell reports from different
+   * camera streams are merged into one event. 0 disables. Default: 10
+   */
+  dedupWindowSec?: number;
+}
+
+// ── Webhook Types ──
+
+/** A persistent webhook: matching events are POSTed to the URL, signed with the secret. */
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  /** Same shape as EventSubscription.filter; omitted means every event */
+  filter?: EventFilter;
+  /** HMAC-SHA256 key used for the X-Ring-Signature header */
+  secret: string;
+  enabled: boolean;
+  createdAt: string;
+}
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "dead";
+
+/** One event queued for (or delivered to) one webhook. */
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventId: string;
+  eventType: RingEventType;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** When the next attempt is due (pending deliveries only) */
+  nextAttemptAt?: string;
+  lastError?: string;
+  /** HTTP status of the last attempt, if a response was received */
+  responseStatus?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDeliveryQuery {
+  webhookId?: string;
+  eventId?: string;
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+}
+
+/** A delivery that exhausted its retries, kept with its payload for inspection or replay. */
+export interface WebhookDeadLetter {
+  deliveryId: string;
+  webhookId: string;
+  eventId: string;
+  payload: string;
+  attempts: number;
+  lastError?: string;
+  failedAt: string;
+}
+
+export interface WebhookDispatcherConfig {
+  /** Attempts before a delivery is dead-lettered. Default: 5 */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles on each further attempt. Default: 1000 */
+  baseDelayMs?: number;
+  /** Upper bound on the retry delay. Default: 300000 (5 minutes) */
+  maxDelayMs?: number;
+  /** Per-request timeout. Default: 10000 */
+  timeoutMs?: number;
+  /** How often the queue is checked for due retries. Default: 1000 */
+  pollIntervalMs?: number;
+  /** Webhooks sent to at once; each webhook's deliveries go out in order. Default: 4 */
+  concurrency?: number;
+  /** Finished deliveries, and dead letters, kept as history. Default: 10000 */
+  historyMaxSize?: number;
+}
+
+// ── MQTT Types ──
+
+export interface MqttBridgeConfig {
+  /** Broker URL, e.g. "mqtt://localhost:1883" */
+  url: string;
+  username?: string;
+  password?: string;
+  /** Root of all published and subscribed topics. Default: "ring" */
+  topicPrefix?: string;
+  /** Publish Home Assistant discovery configs. Default: true */
+  discovery?: boolean;
+  /** Home Assistant discovery topic prefix. Default: "homeassistant" */
+  discoveryPrefix?: string;
+  /** Seconds between full retained state refreshes. 0 disables. Default: 300 */
+  stateIntervalSec?: number;
+}
+
+// ── Rule Types ──
+
+/**
+ * Time-of-day window ("HH:MM", 24h). The window wraps past midnight when
+ * start is later than end.
+ */
+export interface TimeWindow {
+  start: string;
+  end: string;
+  /** IANA time zone. Default: the server's local time zone */
+  timeZone?: string;
+}
+
+/** Conditions that must all hold for a triggered rule to fire. */
+export interface RuleConditions {
+  /** Time-of-day window the event must fall in */
+  timeWindow?: TimeWindow;
+  /** Alarm modes the event's location must currently be in */
+  alarmModes?: AlarmMode[];
+  /**
+   * Number of events (including the triggering one) in the last
+   * `windowSec` seconds. The filter defaults to the rule's trigger.
+   */
+  recentEvents?: {
+    filter?: EventFilter;
+    windowSec: number;
+    minCount?: number;
+    maxCount?: number;
+  };
+}
+
+export type RuleAction =
+  | { type: "device_command"; command: DeviceCommand }
+  | {
+      type: "alarm";
+      action: AlarmAction;
+      /** Default: the triggering event's location */
+      locationId?: string;
+      bypassSensorIds?: string[];
+    }
+  | {
+      /** Deliver the triggering event to a registered webhook, regardless of its filter */
+      type: "webhook";
+      webhookId: string;
+    };
+
+/** A declarative automation: when a matching event arrives and the conditions hold, run the actions. */
+export interface Rule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  trigger: EventFilter;
+  conditions?: RuleConditions;
+  actions: RuleAction[];
+  createdAt: string;
+  updatedAt: string;
+  lastFiredAt?: string;
+}
+
+/** Outcome of one action in a rule firing. */
+export interface RuleActionResult {
+  type: RuleAction["type"];
+  success: boolean;
+  error?: string;
+  result?: Record<string, unknown>;
+}
+
+/** A rule firing, as recorded in the routine log. */
+export interface RuleFiring {
+  ruleId: string;
+  ruleName: string;
+  eventId: string;
+  routineId: string;
+  success: boolean;
+  actions: RuleActionResult[];
+}
+
+// ── Schedule Types ──
+
+export type ScheduleTrigger =
+  | {
+      type: "cron";
+      /** 5-field cron expression, e.g. "0 23 * * 1-5" */
+      expression: string;
+      /** IANA time zone. Default: the scheduler's time zone */
+      timeZone?: string;
+    }
+  | {
+      type: "sun";
+      event: "sunrise" | "sunset";
+      /** Minutes after (positive) or before (negative) the event. Default: 0 */
+      offsetMinutes?: number;
+      /** Days of week the schedule runs on (0 = Sunday). Default: every day */
+      daysOfWeek?: number[];
+    };
+
+export type ScheduleAction =
+  | { type: "device_command"; command: DeviceCommand }
+  | { type: "alarm"; locationId: string; action: AlarmAction; bypassSensorIds?: string[] };
+
+/**
+ * What to do with runs missed while the tool was not running:
+ * "skip" drops them; "run_once" runs the schedule once on startup if the
+ * latest missed run is within the catch-up window.
+ */
+export type ScheduleCatchUpPolicy = "skip" | "run_once";
+
+/** A persistent time-based automation. */
+export interface Schedule {
+  id: string;
+  name: string;
+  /** False while paused */
+  enabled: boolean;
+  trigger: ScheduleTrigger;
+  actions: ScheduleAction[];
+  /**
+   * Actions run `durationMinutes` after each run, e.g. turning a light
+   * back off. Requires durationMinutes.
+   */
+  endActions?: ScheduleAction[];
+  durationMinutes?: number;
+  catchUp: ScheduleCatchUpPolicy;
+  /** How late a missed run may be and still be caught up (minutes). Default: 60 */
+  catchUpWindowMinutes?: number;
+  /** When the schedule runs next; absent while paused or if it never matches again */
+  nextRunAt?: string;
+  /** When pending end actions are due */
+  endAt?: string;
+  lastRunAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SchedulerConfig {
+  /** Latitude for sunrise/sunset schedules */
+  latitude?: number;
+  /** Longitude for sunrise/sunset schedules (east positive) */
+  longitude?: number;
+  /** Default IANA time zone for cron schedules and sun days. Default: server local */
+  timeZone?: string;
+  /** How often due schedules are checked, in ms. Default: 15000 */
+  tickIntervalMs?: number;
+}
+
+// ── Scene Types ──
+
+/** One step of a scene: a device command or an alarm mode change. */
+export type SceneStep =
+  | { type: "device_command"; command: DeviceCommand }
+  | { type: "alarm"; locationId: string; action: AlarmAction; bypassSensorIds?: string[] };
+
+/** A named, ordered group of commands run together (e.g. "Night mode"). */
+export interface Scene {
+  id: string;
+  name: string;
+  description?: string;
+  steps: SceneStep[];
+  /** How many steps may run at once; steps still start in order. Default: 1 */
+  concurrency?: number;
+  /** Restore the previous state of completed steps if a step fails. Default: false */
+  rollbackOnFailure: boolean;
+  lastRunAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SceneStepResult {
+  index: number;
+  step: SceneStep;
+  /** "skipped" when an earlier failure stopped the run before this step started */
+  status: "succeeded" | "failed" | "skipped";
+  error?: string;
+  /** Outcome of undoing this step, for completed steps of a rolled-back run */
+  rollback?: "rolled_back" | "rollback_failed" | "not_reversible";
+  rollbackError?: string;
+}
+
+export interface SceneRunResult {
+  /** ID of the "scene_run" routine execution; step commands are logged with it as parentId */
+  routineId: string;
+  sceneId: string;
+  sceneName: string;
+  success: boolean;
+  rolledBack: boolean;
+  steps: SceneStepResult[];
+}
+
+// ── Policy Types ──
+
+/**
+ * What a policy rule does with a matching request: run it, refuse it,
+ * or run it only once the caller repeats it with a confirmation token
+ * or the configured PIN.
+ */
+export type PolicyEffect = "allow" | "deny" | "confirm" | "pin";
+
+/** A policy rule. The first rule matching a request decides it. */
+export interface PolicyRule {
+  /**
+   * Actions the rule covers: device actions (e.g. "enable_siren"),
+   * alarm changes as "alarm_<action>" (e.g. "alarm_disarm"), or "*"
+   */
+  actions: string[];
+  /** Only match commands for these devices */
+  deviceIds?: string[];
+  /** Only match requests at these locations */
+  locationIds?: string[];
+  /** Only match during this time of day */
+  timeWindow?: TimeWindow;
+  effect: PolicyEffect;
+  /** Shown to the caller when the rule denies or challenges a request */
+  reason?: string;
+}
+
+/** Action policy for agent requests, usually loaded from a JSON file. */
+export interface PolicyConfig {
+  rules: PolicyRule[];
+  /** Effect for requests no rule matches. Default: "allow" */
+  defaultEffect?: PolicyEffect;
+  /** PIN for rules with the "pin" effect */
+  pin?: string;
+  /** How long a confirmation token stays valid, in seconds. Default: 120 */
+  confirmationTtlSec?: number;
+}
+
+/** An action an agent asked for, as seen by the policy. */
+export interface PolicyRequest {
+  /** Device action, or "alarm_<action>" for alarm changes */
+  action: string;
+  deviceId?: string;
+  locationId?: string;
+  /** Command parameters; a confirmation token is only valid for the same parameters */
+  parameters?: Record<string, unknown>;
+}
+
+export interface PolicyCredentials {
+  /** Token from an earlier "confirmation_required" response */
+  confirmationToken?: string;
+  pin?: string;
+}
+
+export type PolicyDecision =
+  | { status: "allowed" }
+  | { status: "denied"; action: string; reason: string }
+  | { status: "pin_required"; action: string; reason: string }
+  | {
+      status: "confirmation_required";
+      action: string;
+      reason: string;
+      /** Repeat the same request with this token to confirm it; single use */
+      confirmationToken: string;
+      expiresAt: string;
+    };
+
+// ── Access Profile Types ──
+
+/**
+ * What one MCP client may do. Omitted lists allow everything; in `tools`
+ * and `actions` a trailing "*" matches a prefix (e.g. "query_*").
+ */
+export interface AccessProfile {
+  name: string;
+  /** MCP tools the server registers */
+  tools?: string[];
+  deviceIds?: string[];
+  locationIds?: string[];
+  /** Device actions and alarm changes as "alarm_<action>" */
+  actions?: string[];
+}
+
+// ── Health Types ──
+
+/** One health reading for a device, taken by the health poller. */
+export interface DeviceHealthSample {
+  deviceId: string;
+  deviceName: string;
+  locationId: string;
+  recordedAt: string;
+  online: boolean;
+  /** Battery percentage (0-100), if the device reports one */
+  batteryLevel?: number;
+  /** Wi-Fi signal strength in dBm, if the device reports one */
+  rssi?: number;
+  firmwareVersion?: string;
+}
+
+export interface DeviceHealthQuery {
+  /** Filter by device ID */
+  deviceId?: string;
+  /** Filter by location ID */
+  locationId?: string;
+  /** Start of time range (ISO 8601) */
+  startTime?: string;
+  /** End of time range (ISO 8601) */
+  endTime?: string;
+  /** Max number of samples to return */
+  limit?: number;
+}
+
+export interface HealthPollerConfig {
+  /** Minutes between polls */
+  intervalMinutes: number;
+  /** Battery percentages that emit battery_low when crossed downward */
+  batteryThresholds: number[];
+}
+
+export type BatteryForecastStatus =
+  /** A discharge trend was fitted and the threshold date predicted */
+  | "ok"
+  /** Fewer than two readings since the last recharge */
+  | "insufficient_data"
+  /** Battery level is flat or rising since the last recharge */
+  | "not_discharging"
+  /** The latest reading is already at or below the threshold */
+  | "below_threshold";
+
+/** Predicted battery depletion for one device, fitted on readings since its last recharge. */
+export interface BatteryForecast {
+  deviceId: string;
+  deviceName: string;
+  status: BatteryForecastStatus;
+  currentLevel: number;
+  lastReadingAt: string;
+  thresholdPercent: number;
+  /** Fitted discharge rate in percentage points per day */
+  dischargePerDay?: number;
+  /** When the battery is predicted to reach thresholdPercent (ISO 8601) */
+  predictedAt?: string;
+  daysRemaining?: number;
+  /** Start of the discharge segment used for the fit (after the last recharge) */
+  segmentStartedAt: string;
+  samplesUsed: number;
+}
+
 // ── Configuration ──
 
 export interface RingToolConfig {
@@ -398,4 +1090,37 @@ export interface RingToolConfig {
   crawlVideoWindowDays?: number;
   /** Incremental crawl interval in minutes after backfill. Default: 15 */
   crawlIncrementalIntervalMinutes?: number;
+  /** Directory for the content-addressed snapshot archive. Default: "./ring-snapshots" */
+  snapshotDirectory?: string;
+  /** Max snapshot captures to keep; the oldest are deleted first. Default: 10000 */
+  snapshotMaxSize?: number;
+  /** Directory where recorded clips are written. Default: "./ring-media" */
+  mediaDirectory?: string;
+  /** Thermostat temperature above which temperature_high is emitted (°C) */
+  temperatureHighC?: number;
+  /** Thermostat temperature below which temperature_low is emitted (°C) */
+  temperatureLowC?: number;
+  /** Automatic snapshot capture after motion and doorbell events. Default: off */
+  autoSnapshot?: AutoSnapshotPolicy;
+  /** Window for merging duplicate camera events across streams (seconds). Default: 10 */
+  eventDedupWindowSec?: number;
+  /** Minutes between device health polls (online state, battery, Wi-Fi). 0 disables. Default: 15 */
+  healthPollIntervalMinutes?: number;
+  /** Battery percentages that emit battery_low when crossed downward. Default: [20, 10, 5] */
+  batteryThresholds?: number[];
+  /** Webhook delivery retry and timeout settings */
+  webhooks?: WebhookDispatcherConfig;
+  /** Location and time zone for schedules */
+  scheduler?: SchedulerConfig;
+  /** Mirror events and device state to an MQTT broker. Default: off */
+  mqtt?: MqttBridgeConfig;
+  /** Policy for agent-issued commands, alarm changes and scene runs. Default: allow all */
+  policy?: PolicyConfig;
+  /** Restrict tools, devices, locations and actions to an access profile. Default: unrestricted */
+  accessProfile?: AccessProfile;
+  /**
+   * Validate and log device commands and alarm changes as simulated
+   * without sending them to Ring. Can be overridden per call. Default: false
+   */
+  dryRun?: boolean;
 }
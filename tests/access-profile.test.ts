@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AccessControl, loadAccessProfile, validateAccessProfile } from "../src/policy/access-profile.js";
+import { RoutineLogger } from "../src/logging/routine-logger.js";
+import { createTestRoutineStore } from "./helpers/test-db.js";
+import type { AccessProfile } from "../src/types/index.js";
+
+const LIGHTING: AccessProfile = {
+  name: "lighting",
+  tools: ["list_devices", "control_device", "query_*"],
+  actions: ["turn_light_on", "turn_light_off", "alarm_*"],
+  locationIds: ["loc-1"],
+};
+
+describe("AccessControl", () => {
+  let routineLogger: RoutineLogger;
+  let access: AccessControl;
+
+  beforeEach(() => {
+    routineLogger = new RoutineLogger(createTestRoutineStore());
+    access = new AccessControl(LIGHTING, routineLogger);
+  });
+
+  it("allows everything without a profile", () => {
+    const open = new AccessControl(undefined, routineLogger);
+
+    expect(open.profileName).toBeUndefined();
+    expect(open.allowsTool("set_alarm_mode")).toBe(true);
+    expect(() => open.assertCommand({ action: "unlock", deviceId: "lock-1", locationId: "loc-2" })).not.toThrow();
+  });
+
+  it("offers only the profile's tools", () => {
+    expect(access.allowsTool("control_device")).toBe(true);
+    expect(access.allowsTool("query_routines")).toBe(true);
+    expect(access.allowsTool("set_alarm_mode")).toBe(false);
+  });
+
+  it("limits devices and locations", () => {
+    const scoped = new AccessControl({ name: "front", deviceIds: ["cam-1"] }, routineLogger);
+
+    expect(access.allowsDevice({ id: "cam-9", locationId: "loc-1" })).toBe(true);
+    expect(access.allowsDevice({ id: "cam-1", locationId: "loc-2" })).toBe(false);
+    expect(scoped.allowsDevice({ id: "cam-1", locationId: "loc-2" })).toBe(true);
+    expect(scoped.allowsDevice({ id: "cam-2", locationId: "loc-2" })).toBe(false);
+    expect(scoped.allowsLocation("loc-2")).toBe(true);
+  });
+
+  it("refuses actions, devices and locations outside the profile", () => {
+    expect(() => access.assertCommand({ action: "turn_light_on", deviceId: "light-1", locationId: "loc-1" })).not.toThrow();
+    expect(() => access.assertCommand({ action: "alarm_disarm", locationId: "loc-1" })).not.toThrow();
+    expect(() => access.assertCommand({ action: "unlock", deviceId: "lock-1", locationId: "loc-1" })).toThrow(
+      'Access denied: profile "lighting" does not allow unlock'
+    );
+    expect(() => access.assertCommand({ action: "turn_light_on", deviceId: "light-2", locationId: "loc-2" })).toThrow(
+      "does not allow location loc-2"
+    );
+    expect(() => access.assertTarget({ action: "get_device", deviceId: "light-3" })).toThrow(
+      "does not allow location unknown"
+    );
+  });
+
+  it("filters logged records by device and location", () => {
+    const scoped = new AccessControl({ name: "front", deviceIds: ["cam-1"] }, routineLogger);
+    const open = new AccessControl(undefined, routineLogger);
+
+    expect(open.restrictsTargets).toBe(false);
+    expect(access.restrictsTargets).toBe(true);
+    expect(access.allowsRecord({ deviceId: "cam-9", locationId: "loc-1" })).toBe(true);
+    expect(access.allowsRecord({ deviceId: "cam-9", locationId: "loc-2" })).toBe(false);
+    expect(access.allowsRecord({ locationId: "loc-1" })).toBe(true);
+    expect(scoped.allowsRecord({ deviceId: "cam-1", locationId: "loc-2" })).toBe(true);
+    // An alarm change or scene run is not from any one device
+    expect(scoped.allowsRecord({ locationId: "loc-2" })).toBe(false);
+  });
+
+  it("refuses unfilterable requests that reach past the profile", () => {
+    const scoped = new AccessControl({ name: "front", deviceIds: ["cam-1"] }, routineLogger);
+
+    expect(() => access.assertScope({ action: "create_webhook", locationId: "loc-1" })).not.toThrow();
+    expect(() => access.assertScope({ action: "create_webhook" })).toThrow("does not allow location unknown");
+    expect(() => scoped.assertScope({ action: "create_webhook", deviceId: "cam-1", locationId: "loc-2" })).not.toThrow();
+    expect(() => scoped.assertScope({ action: "get_device_history", locationId: "loc-2" })).toThrow(
+      "does not allow every device at location loc-2"
+    );
+  });
+
+  it("hides and protects saved records that target anything outside the profile", () => {
+    const scoped = new AccessControl({ name: "front", deviceIds: ["cam-1"] }, routineLogger);
+    const open = new AccessControl(undefined, routineLogger);
+    const inside = [{ deviceId: "light-1", locationId: "loc-1" }, { locationId: "loc-1" }];
+    const reaching = [...inside, { deviceId: "lock-2", locationId: "loc-2" }];
+
+    expect(access.allowsTargets(inside)).toBe(true);
+    expect(access.allowsTargets(reaching)).toBe(false);
+    // A trigger on every event listens past any restriction
+    expect(access.allowsTargets([{}])).toBe(false);
+    expect(open.allowsTargets([{}])).toBe(true);
+    expect(scoped.allowsTargets([{ deviceId: "cam-1", locationId: "loc-2" }])).toBe(true);
+    expect(scoped.allowsTargets([{ locationId: "loc-2" }])).toBe(false);
+
+    expect(() => access.assertTargets("delete_rule", inside)).not.toThrow();
+    expect(() => access.assertTargets("delete_rule", reaching)).toThrow("does not allow location loc-2");
+    expect(() => scoped.assertTargets("pause_schedule", [{ locationId: "loc-2" }])).toThrow(
+      "does not allow every device at location loc-2"
+    );
+    expect(routineLogger.query({ action: "access_denied" }).map((e) => e.parameters.requestedAction).sort()).toEqual([
+      "delete_rule",
+      "pause_schedule",
+    ]);
+  });
+
+  it("records each denial in the routine log", () => {
+    expect(() => access.assertCommand({ action: "unlock", deviceId: "lock-1", locationId: "loc-1" })).toThrow();
+
+    const [denial] = routineLogger.query({ action: "access_denied" });
+    expect(denial).toMatchObject({
+      deviceId: "lock-1",
+      locationId: "loc-1",
+      result: "failure",
+      error: 'Access denied: profile "lighting" does not allow unlock',
+      parameters: { profile: "lighting", requestedAction: "unlock" },
+    });
+  });
+});
+
+describe("loadAccessProfile", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ring-profiles-"));
+    file = join(dir, "profiles.json");
+    writeFileSync(file, JSON.stringify({ lighting: { tools: ["list_devices"] }, broken: { tools: "list_devices" } }));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads a profile by name", () => {
+    expect(loadAccessProfile(file, "lighting")).toEqual({ name: "lighting", tools: ["list_devices"] });
+  });
+
+  it("rejects unknown, malformed or unconfigured profiles", () => {
+    expect(() => loadAccessProfile(file, "security")).toThrow("Unknown access profile: security");
+    expect(() => loadAccessProfile(file, "broken")).toThrow("tools must be a list of strings");
+    expect(() => loadAccessProfile(undefined, "lighting")).toThrow("no profiles file");
+    expect(() => loadAccessProfile(join(dir, "missing.json"), "lighting")).toThrow("Failed to read access profiles file");
+    expect(() => validateAccessProfile({ name: "x", actions: [1 as unknown as string] })).toThrow("actions");
+  });
+});
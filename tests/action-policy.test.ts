@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { ActionPolicy, validatePolicy } from "../src/policy/action-policy.js";
+import { RoutineLogger } from "../src/logging/routine-logger.js";
+import { createTestRoutineStore } from "./helpers/test-db.js";
+import type { PolicyConfig, PolicyRequest } from "../src/types/index.js";
+
+const DISARM: PolicyRequest = { action: "alarm_disarm", locationId: "loc-1", parameters: { bypassSensorIds: [] } };
+const SIREN: PolicyRequest = { action: "enable_siren", deviceId: "cam-1", locationId: "loc-1" };
+const LIGHT_ON: PolicyRequest = { action: "turn_light_on", deviceId: "cam-1", locationId: "loc-1" };
+const UNLOCK: PolicyRequest = { action: "unlock", deviceId: "lock-1", locationId: "loc-1" };
+
+const POLICY: PolicyConfig = {
+  pin: "2468",
+  rules: [
+    { actions: ["alarm_disarm"], effect: "pin", reason: "Disarming needs the PIN" },
+    { actions: ["enable_siren"], effect: "confirm" },
+    { actions: ["unlock"], effect: "deny", timeWindow: { start: "22:00", end: "06:00", timeZone: "UTC" } },
+    { actions: ["unlock"], effect: "confirm" },
+  ],
+};
+
+const at = (iso: string) => new Date(iso);
+
+describe("ActionPolicy", () => {
+  let routineLogger: RoutineLogger;
+  let policy: ActionPolicy;
+
+  beforeEach(() => {
+    routineLogger = new RoutineLogger(createTestRoutineStore());
+    policy = new ActionPolicy(POLICY, routineLogger);
+  });
+
+  it("allows requests no rule matches by default", () => {
+    expect(policy.authorize([LIGHT_ON])).toEqual({ status: "allowed" });
+    expect(routineLogger.size).toBe(0);
+  });
+
+  it("asks for the PIN and checks it", () => {
+    expect(policy.authorize([DISARM])).toEqual({
+      status: "pin_required",
+      action: "alarm_disarm",
+      reason: "Disarming needs the PIN",
+    });
+    expect(policy.authorize([DISARM], { pin: "2468" })).toEqual({ status: "allowed" });
+    expect(policy.authorize([DISARM], { pin: "1234" })).toMatchObject({ status: "denied", reason: "Incorrect PIN" });
+  });
+
+  it("issues single-use confirmation tokens for the same request only", () => {
+    const challenge = policy.authorize([SIREN], {}, at("2025-01-15T12:00:00Z"));
+    expect(challenge).toMatchObject({ status: "confirmation_required", expiresAt: "2025-01-15T12:02:00.000Z" });
+    const confirmationToken = challenge.status === "confirmation_required" ? challenge.confirmationToken : "";
+
+    const otherDevice = { ...SIREN, deviceId: "cam-2" };
+    expect(policy.authorize([otherDevice], { confirmationToken }, at("2025-01-15T12:00:30Z")).status).toBe("denied");
+    expect(policy.authorize([SIREN], { confirmationToken }, at("2025-01-15T12:00:30Z"))).toEqual({ status: "allowed" });
+    expect(policy.authorize([SIREN], { confirmationToken }, at("2025-01-15T12:00:40Z")).status).toBe("denied");
+  });
+
+  it("expires confirmation tokens", () => {
+    const challenge = policy.authorize([SIREN], {}, at("2025-01-15T12:00:00Z"));
+    const confirmationToken = challenge.status === "confirmation_required" ? challenge.confirmationToken : "";
+
+    expect(policy.authorize([SIREN], { confirmationToken }, at("2025-01-15T12:02:00Z")).status).toBe("denied");
+  });
+
+  it("applies time-of-day rules only inside their window", () => {
+    expect(policy.authorize([UNLOCK], {}, at("2025-01-15T23:30:00Z"))).toMatchObject({
+      status: "denied",
+      reason: "Denied by policy",
+    });
+    expect(policy.authorize([UNLOCK], {}, at("2025-01-15T12:00:00Z")).status).toBe("confirmation_required");
+  });
+
+  it("takes the strictest decision among several actions", () => {
+    expect(policy.authorize([LIGHT_ON, SIREN, DISARM]).status).toBe("pin_required");
+    expect(policy.authorize([LIGHT_ON, UNLOCK], {}, at("2025-01-15T23:30:00Z")).status).toBe("denied");
+  });
+
+  it("matches rules by device and location", () => {
+    const scoped = new ActionPolicy(
+      { rules: [{ actions: ["*"], deviceIds: ["lock-1"], effect: "deny" }], defaultEffect: "allow" },
+      routineLogger
+    );
+
+    expect(scoped.authorize([UNLOCK]).status).toBe("denied");
+    expect(scoped.authorize([SIREN]).status).toBe("allowed");
+  });
+
+  it("records denials and challenges in the routine log", () => {
+    policy.authorize([SIREN]);
+    policy.authorize([DISARM], { pin: "0000" });
+
+    const [challenge] = routineLogger.query({ action: "policy_challenge" });
+    expect(challenge).toMatchObject({
+      deviceId: "cam-1",
+      locationId: "loc-1",
+      result: "success",
+      parameters: { requestedAction: "enable_siren", challenge: "confirmation_required" },
+    });
+    const [denial] = routineLogger.query({ action: "policy_denied" });
+    expect(denial).toMatchObject({
+      locationId: "loc-1",
+      result: "failure",
+      error: "Incorrect PIN",
+      parameters: { requestedAction: "alarm_disarm" },
+    });
+  });
+});
+
+describe("ActionPolicy — unattended actions", () => {
+  let routineLogger: RoutineLogger;
+  let policy: ActionPolicy;
+
+  beforeEach(() => {
+    routineLogger = new RoutineLogger(createTestRoutineStore());
+    policy = new ActionPolicy(POLICY, routineLogger);
+  });
+
+  it("refuses confirm-only actions in rules and schedules, and wants the PIN for PIN actions", () => {
+    expect(policy.authorizeAutomation([LIGHT_ON])).toEqual({ status: "allowed" });
+    expect(policy.authorizeAutomation([LIGHT_ON, SIREN])).toMatchObject({
+      status: "denied",
+      reason: "This action needs confirmation; rules and schedules cannot ask for confirmation",
+    });
+    expect(policy.authorizeAutomation([DISARM]).status).toBe("pin_required");
+    expect(policy.authorizeAutomation([DISARM], { pin: "2468" })).toEqual({ status: "allowed" });
+    expect(policy.authorizeAutomation([DISARM], { pin: "0000" }).status).toBe("denied");
+  });
+
+  it("runs PIN actions unattended only when the PIN was checked on save", () => {
+    expect(policy.authorizeUnattended([DISARM], { pinVerified: true })).toEqual({ status: "allowed" });
+    expect(policy.authorizeUnattended([DISARM])).toMatchObject({ status: "denied" });
+    expect(policy.authorizeUnattended([SIREN], { pinVerified: true }).status).toBe("denied");
+    expect(policy.authorizeUnattended([UNLOCK], { pinVerified: true }, at("2025-01-15T23:30:00Z")).status).toBe(
+      "denied"
+    );
+    expect(routineLogger.query({ action: "policy_denied" })).toHaveLength(3);
+  });
+
+  it("refuses only denied steps when a scene is saved", () => {
+    expect(policy.authorizeSave([SIREN, DISARM])).toEqual({ status: "allowed" });
+    expect(policy.authorizeSave([LIGHT_ON, UNLOCK], at("2025-01-15T23:30:00Z")).status).toBe("denied");
+    expect(routineLogger.query({ action: "policy_challenge" })).toHaveLength(0);
+  });
+});
+
+describe("validatePolicy", () => {
+  it("rejects malformed policies", () => {
+    expect(() => validatePolicy({} as PolicyConfig)).toThrow("rules array");
+    expect(() => validatePolicy({ rules: [{ actions: [], effect: "deny" }] })).toThrow("at least one action");
+    expect(() => validatePolicy({ rules: [{ actions: ["unlock"], effect: "maybe" as "deny" }] })).toThrow(
+      "Invalid policy effect"
+    );
+    expect(() => validatePolicy({ rules: [{ actions: ["alarm_disarm"], effect: "pin" }] })).toThrow("need a pin");
+    expect(() =>
+      validatePolicy({ rules: [{ actions: ["unlock"], effect: "deny", timeWindow: { start: "25:00", end: "06:00" } }] })
+    ).toThrow("Invalid time of day");
+  });
+});
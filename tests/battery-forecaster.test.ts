@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  BatteryForecaster,
+  forecastSeries,
+  latestDischargeSegment,
+} from "../src/devices/battery-forecaster.js";
+import { DeviceHealthStore } from "../src/storage/device-health-store.js";
+import { createTestDeviceHealthStore } from "./helpers/test-db.js";
+import type { DeviceHealthSample } from "../src/types/index.js";
+
+/** One reading per day starting 2025-01-01, with the given battery levels. */
+function dailySeries(levels: number[], deviceId = "cam-1"): DeviceHealthSample[] {
+  return levels.map((batteryLevel, day) => ({
+    deviceId,
+    deviceName: "Front Door",
+    locationId: "loc-1",
+    recordedAt: new Date(Date.UTC(2025, 0, 1 + day)).toISOString(),
+    online: true,
+    batteryLevel,
+  }));
+}
+
+describe("latestDischargeSegment", () => {
+  it("starts the segment after the last recharge jump", () => {
+    const segment = latestDischargeSegment(dailySeries([60, 50, 40, 100, 98, 96]));
+    expect(segment.map((s) => s.batteryLevel)).toEqual([100, 98, 96]);
+  });
+
+  it("ignores small upward noise", () => {
+    const segment = latestDischargeSegment(dailySeries([60, 58, 59, 56]));
+    expect(segment).toHaveLength(4);
+  });
+});
+
+describe("forecastSeries", () => {
+  it("predicts when a steadily discharging battery reaches 10%", () => {
+    const forecast = forecastSeries(dailySeries([90, 88, 86, 84, 82]));
+
+    expect(forecast).toMatchObject({
+      status: "ok",
+      currentLevel: 82,
+      dischargePerDay: 2,
+      daysRemaining: 36,
+      predictedAt: "2025-02-10T00:00:00.000Z",
+      samplesUsed: 5,
+    });
+  });
+
+  it("fits only readings since the last recharge", () => {
+    const forecast = forecastSeries(dailySeries([30, 20, 15, 100, 95, 90]));
+
+    expect(forecast?.segmentStartedAt).toBe("2025-01-04T00:00:00.000Z");
+    expect(forecast?.dischargePerDay).toBe(5);
+    expect(forecast?.daysRemaining).toBe(16);
+  });
+
+  it("supports a custom threshold", () => {
+    const forecast = forecastSeries(dailySeries([90, 88, 86, 84, 82]), { thresholdPercent: 50 });
+    expect(forecast?.daysRemaining).toBe(16);
+  });
+
+  it("reports devices that cannot be forecast", () => {
+    expect(forecastSeries([])).toBeNull();
+    expect(forecastSeries(dailySeries([80]))?.status).toBe("insufficient_data");
+    expect(forecastSeries(dailySeries([80, 80, 80]))?.status).toBe("not_discharging");
+    expect(forecastSeries(dailySeries([20, 12, 8]))).toMatchObject({
+      status: "below_threshold",
+      daysRemaining: 0,
+    });
+  });
+});
+
+describe("BatteryForecaster", () => {
+  let store: DeviceHealthStore;
+
+  beforeEach(() => {
+    store = createTestDeviceHealthStore().store;
+  });
+
+  it("forecasts every battery device from stored readings, soonest first", () => {
+    for (const sample of dailySeries([90, 88, 86], "slow")) store.insert(sample);
+    for (const sample of dailySeries([60, 50, 40], "fast")) store.insert(sample);
+    store.insert({ ...dailySeries([0], "wired")[0], batteryLevel: undefined });
+
+    const forecasts = new BatteryForecaster(store).forecastAll({}, new Date("2025-01-04T00:00:00Z"));
+
+    expect(forecasts.map((f) => f.deviceId)).toEqual(["fast", "slow"]);
+  });
+
+  it("ignores readings outside the lookback window", () => {
+    for (const sample of dailySeries([90, 88, 86, 84])) store.insert(sample);
+
+    const forecast = new BatteryForecaster(store).forecast(
+      "cam-1",
+      { lookbackDays: 1.5 },
+      new Date("2025-01-04T00:00:00Z")
+    );
+
+    expect(forecast?.samplesUsed).toBe(2);
+  });
+});
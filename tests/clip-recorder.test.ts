@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync, existsSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ClipRecorder, MAX_CLIP_DURATION_SEC } from "../src/media/clip-recorder.js";
+import type { MediaEncoder } from "../src/media/media-encoder.js";
+import type { RingCamera } from "ring-client-api";
+
+/** Fake encoder that writes a stub file instead of running ffmpeg. */
+class FakeEncoder implements MediaEncoder {
+  calls: { outputPath: string; durationSec: number }[] = [];
+
+  constructor(private writeFile = true) {}
+
+  async recordClip(_camera: RingCamera, outputPath: string, durationSec: number): Promise<void> {
+    this.calls.push({ outputPath, durationSec });
+    if (this.writeFile) {
+      writeFileSync(outputPath, Buffer.alloc(1024));
+    }
+  }
+}
+
+const camera = { id: 12345, name: "Front Door" } as unknown as RingCamera;
+
+describe("ClipRecorder", () => {
+  let mediaDir: string;
+
+  beforeEach(() => {
+    mediaDir = join(mkdtempSync(join(tmpdir(), "ring-media-")), "clips");
+  });
+
+  afterEach(() => {
+    rmSync(join(mediaDir, ".."), { recursive: true, force: true });
+  });
+
+  it("records a clip into the media directory", async () => {
+    const encoder = new FakeEncoder();
+    const recorder = new ClipRecorder(encoder, mediaDir);
+
+    const clip = await recorder.record(camera, 15);
+
+    expect(encoder.calls).toHaveLength(1);
+    expect(encoder.calls[0].durationSec).toBe(15);
+    expect(clip.deviceId).toBe("12345");
+    expect(clip.deviceName).toBe("Front Door");
+    expect(clip.filePath.startsWith(mediaDir)).toBe(true);
+    expect(clip.filePath.endsWith(".mp4")).toBe(true);
+    expect(clip.sizeBytes).toBe(1024);
+    expect(clip.durationSec).toBe(15);
+    expect(existsSync(clip.filePath)).toBe(true);
+  });
+
+  it("rejects durations outside the allowed range", async () => {
+    const recorder = new ClipRecorder(new FakeEncoder(), mediaDir);
+
+    await expect(recorder.record(camera, 0)).rejects.toThrow(/duration/);
+    await expect(recorder.record(camera, MAX_CLIP_DURATION_SEC + 1)).rejects.toThrow(/duration/);
+  });
+
+  it("fails when the encoder produces no file", async () => {
+    const recorder = new ClipRecorder(new FakeEncoder(false), mediaDir);
+
+    await expect(recorder.record(camera, 10)).rejects.toThrow(/did not produce/);
+  });
+});
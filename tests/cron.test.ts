@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { parseCron, nextCronTime } from "../src/automation/cron.js";
+
+function next(expression: string, after: string, timeZone = "UTC"): string | undefined {
+  return nextCronTime(parseCron(expression), new Date(after), timeZone)?.toISOString();
+}
+
+describe("parseCron", () => {
+  it("expands ranges, steps, lists and names", () => {
+    const cron = parseCron("*/15 8-10 1,15 JAN-MAR mon-fri");
+
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([8, 9, 10]);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect([...cron.months]).toEqual([1, 2, 3]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("treats day-of-week 7 as Sunday", () => {
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseCron("0 0 * *")).toThrow("expected 5 fields");
+    expect(() => parseCron("60 0 * * *")).toThrow("bad field");
+    expect(() => parseCron("0 0 * * 5-1")).toThrow("bad field");
+    expect(() => parseCron("*/0 0 * * *")).toThrow("bad field");
+  });
+});
+
+describe("nextCronTime", () => {
+  it("finds the next matching minute strictly after the given time", () => {
+    expect(next("0 23 * * *", "2025-01-15T22:00:00Z")).toBe("2025-01-15T23:00:00.000Z");
+    expect(next("0 23 * * *", "2025-01-15T23:00:00Z")).toBe("2025-01-16T23:00:00.000Z");
+    expect(next("*/15 * * * *", "2025-01-15T10:07:30Z")).toBe("2025-01-15T10:15:00.000Z");
+  });
+
+  it("skips to weekdays", () => {
+    // 2025-01-17 is a Friday
+    expect(next("0 23 * * 1-5", "2025-01-17T23:00:00Z")).toBe("2025-01-20T23:00:00.000Z");
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // 2025-01-15 is a Wednesday; the 20th is a Monday
+    expect(next("0 12 20 * MON", "2025-01-15T00:00:00Z")).toBe("2025-01-20T12:00:00.000Z");
+    expect(next("0 12 16 * MON", "2025-01-15T00:00:00Z")).toBe("2025-01-16T12:00:00.000Z");
+  });
+
+  it("evaluates the expression on the wall clock of the time zone across DST", () => {
+    // 07:00 New York is 12:00Z in winter and 11:00Z in summer
+    expect(next("0 7 * * *", "2025-03-08T13:00:00Z", "America/New_York")).toBe("2025-03-09T11:00:00.000Z");
+    // 02:30 does not exist on the spring-forward day and runs at 03:30 EDT
+    expect(next("30 2 * * *", "2025-03-09T05:00:00Z", "America/New_York")).toBe("2025-03-09T07:30:00.000Z");
+  });
+
+  it("returns null for expressions that never match", () => {
+    expect(next("0 0 31 2 *", "2025-01-15T00:00:00Z")).toBeUndefined();
+  });
+});
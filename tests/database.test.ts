@@ -1,5 +1,9 @@
 import { describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { RingDatabase } from "../src/storage/database.js";
+import { SnapshotStore, writeSnapshotFile } from "../src/storage/snapshot-store.js";
 
 describe("RingDatabase", () => {
   it("creates an in-memory database with all tables", () => {
@@ -19,11 +23,19 @@ describe("RingDatabase", () => {
     expect(tableNames).toContain("cloud_videos");
     expect(tableNames).toContain("crawl_state");
     expect(tableNames).toContain("device_history");
+    expect(tableNames).toContain("snapshots");
+    expect(tableNames).toContain("device_health");
+    expect(tableNames).toContain("webhooks");
+    expect(tableNames).toContain("webhook_deliveries");
+    expect(tableNames).toContain("webhook_dead_letters");
+    expect(tableNames).toContain("rules");
+    expect(tableNames).toContain("schedules");
+    expect(tableNames).toContain("scenes");
 
     db.close();
   });
 
-  it("records schema versions 1 and 2 on first creation", () => {
+  it("records schema versions 1 through 11 on first creation", () => {
     const db = new RingDatabase({ filePath: ":memory:" });
     const conn = db.getConnection();
 
@@ -31,13 +43,13 @@ describe("RingDatabase", () => {
       .prepare("SELECT version FROM schema_version ORDER BY version DESC LIMIT 1")
       .get() as { version: number };
 
-    expect(row.version).toBe(2);
+    expect(row.version).toBe(11);
 
     const allVersions = conn
       .prepare("SELECT version FROM schema_version ORDER BY version ASC")
       .all() as { version: number }[];
 
-    expect(allVersions.map((v) => v.version)).toEqual([1, 2]);
+    expect(allVersions.map((v) => v.version)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
 
     db.close();
   });
@@ -52,7 +64,7 @@ describe("RingDatabase", () => {
       .prepare("SELECT MAX(version) as version FROM schema_version")
       .get() as { version: number };
 
-    expect(version.version).toBe(2);
+    expect(version.version).toBe(11);
 
     db1.close();
   });
@@ -143,4 +155,147 @@ describe("RingDatabase", () => {
 
     db.close();
   });
+
+  it("merges legacy routine rows into one execution each", () => {
+    const dir = mkdtempSync(join(tmpdir(), "ring-db-"));
+    const filePath = join(dir, "ring.db");
+
+    try {
+      // Roll a fresh database back to the v8 routines layout
+      const v8 = new RingDatabase({ filePath });
+      const conn = v8.getConnection();
+      conn.exec("DELETE FROM schema_version WHERE version >= 9");
+      conn.exec("DROP INDEX idx_routines_correlation_id");
+      conn.exec("DROP INDEX idx_routines_parent_id");
+      for (const column of ["correlation_id", "parent_id", "finished_at", "duration_ms", "simulated"]) {
+        conn.exec(`ALTER TABLE routines DROP COLUMN ${column}`);
+      }
+      conn.exec("DROP INDEX idx_snapshots_content_hash");
+      conn.exec("ALTER TABLE snapshots DROP COLUMN content_hash");
+      const insert = conn.prepare(`
+        INSERT INTO routines (id, timestamp, action, location_id, location_name, parameters, result, error)
+        VALUES (@id, @timestamp, @action, 'loc-1', 'Home', @parameters, @result, @error)
+      `);
+      const rows = [
+        ["scene", "2025-01-15T10:00:00.000Z", "scene_run", "{}", "success", null],
+        ["light", "2025-01-15T10:00:01.000Z", "turn_light_on", '{"parentRoutineId":"scene"}', "pending", null],
+        ["light-fail", "2025-01-15T10:00:03.000Z", "turn_light_on", '{"parentRoutineId":"scene"}', "failure", "Light offline"],
+        ["arm-1", "2025-01-15T11:00:00.000Z", "alarm_arm_home", "{}", "pending", null],
+        ["arm-2", "2025-01-15T11:00:02.500Z", "alarm_arm_home", '{"bypassedSensorIds":[]}', "success", null],
+      ];
+      for (const [id, timestamp, action, parameters, result, error] of rows) {
+        insert.run({ id, timestamp, action, parameters, result, error });
+      }
+      v8.close();
+
+      const db = new RingDatabase({ filePath });
+      const routines = db.getConnection()
+        .prepare("SELECT id, result, error, parameters, correlation_id, parent_id, finished_at, duration_ms FROM routines ORDER BY timestamp")
+        .all();
+
+      expect(routines).toEqual([
+        {
+          id: "scene", result: "success", error: null, parameters: "{}",
+          correlation_id: "scene", parent_id: null, finished_at: "2025-01-15T10:00:00.000Z", duration_ms: null,
+        },
+        {
+          id: "light", result: "failure", error: "Light offline", parameters: '{"parentRoutineId":"scene"}',
+          correlation_id: "scene", parent_id: "scene", finished_at: "2025-01-15T10:00:03.000Z", duration_ms: 2000,
+        },
+        {
+          id: "arm-1", result: "success", error: null, parameters: '{"bypassedSensorIds":[]}',
+          correlation_id: "arm-1", parent_id: null, finished_at: "2025-01-15T11:00:02.500Z", duration_ms: 2500,
+        },
+      ]);
+
+      db.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("migrates inline base64 snapshots out of the events table", () => {
+    const dir = mkdtempSync(join(tmpdir(), "ring-db-"));
+    const filePath = join(dir, "ring.db");
+    const snapshotDirectory = join(dir, "snapshots");
+    const jpeg = Buffer.from("fake-jpeg-bytes");
+
+    try {
+      // Roll a fresh database back to the v2 layout with an inline snapshot
+      const v2 = new RingDatabase({ filePath, snapshotDirectory });
+      const conn = v2.getConnection();
+      conn.exec("DROP TABLE snapshots");
+      conn.exec("ALTER TABLE events DROP COLUMN snapshot_id");
+      conn.exec("DELETE FROM schema_version WHERE version >= 3");
+      conn.exec("DROP TABLE device_health");
+      conn.exec("DROP TABLE webhooks");
+      conn.exec("DROP TABLE webhook_deliveries");
+      conn.exec("DROP TABLE webhook_dead_letters");
+      conn.exec("DROP TABLE rules");
+      conn.exec("DROP TABLE schedules");
+      conn.exec("DROP TABLE scenes");
+      conn.exec("DROP INDEX idx_routines_correlation_id");
+      conn.exec("DROP INDEX idx_routines_parent_id");
+      for (const column of ["correlation_id", "parent_id", "finished_at", "duration_ms", "simulated"]) {
+        conn.exec(`ALTER TABLE routines DROP COLUMN ${column}`);
+      }
+      conn.prepare(`
+        INSERT INTO events (id, timestamp, device_id, device_name, location_id, location_name, type, snapshot_base64, metadata)
+        VALUES ('evt-1', '2025-01-15T12:00:00Z', 'cam-1', 'Front Door', 'loc-1', 'Home', 'snapshot_captured', ?, '{}')
+      `).run(jpeg.toString("base64"));
+      v2.close();
+
+      const db = new RingDatabase({ filePath, snapshotDirectory });
+      const event = db.getConnection()
+        .prepare("SELECT snapshot_id, snapshot_base64 FROM events WHERE id = 'evt-1'")
+        .get() as { snapshot_id: string | null; snapshot_base64: string | null };
+      const snapshot = db.getConnection()
+        .prepare("SELECT * FROM snapshots WHERE id = ?")
+        .get(event.snapshot_id) as { device_id: string; captured_at: string; size_bytes: number };
+
+      expect(event.snapshot_base64).toBeNull();
+      expect(event.snapshot_id).toMatch(/^[0-9a-f]{64}$/);
+      expect(snapshot.device_id).toBe("cam-1");
+      expect(snapshot.captured_at).toBe("2025-01-15T12:00:00Z");
+      expect(snapshot.size_bytes).toBe(jpeg.length);
+
+      const id = event.snapshot_id as string;
+      expect(readFileSync(join(snapshotDirectory, id.slice(0, 2), `${id}.jpg`))).toEqual(jpeg);
+
+      db.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps hash-keyed snapshots readable after moving to one row per capture", () => {
+    const dir = mkdtempSync(join(tmpdir(), "ring-db-"));
+    const filePath = join(dir, "ring.db");
+    const snapshotDirectory = join(dir, "snapshots");
+    const jpeg = Buffer.from("fake-jpeg-bytes");
+
+    try {
+      // Roll a fresh database back to the v10 snapshots layout with a hash-keyed row
+      const v10 = new RingDatabase({ filePath, snapshotDirectory });
+      const conn = v10.getConnection();
+      conn.exec("DELETE FROM schema_version WHERE version >= 11");
+      conn.exec("DROP INDEX idx_snapshots_content_hash");
+      conn.exec("ALTER TABLE snapshots DROP COLUMN content_hash");
+      const hash = writeSnapshotFile(snapshotDirectory, jpeg);
+      conn.prepare(`
+        INSERT INTO snapshots (id, device_id, captured_at, size_bytes)
+        VALUES (?, 'cam-1', '2025-01-15T12:00:00Z', ?)
+      `).run(hash, jpeg.length);
+      v10.close();
+
+      const db = new RingDatabase({ filePath, snapshotDirectory });
+      const store = new SnapshotStore(db.getConnection(), snapshotDirectory);
+      expect(store.get(hash)).toMatchObject({ id: hash, contentHash: hash, deviceId: "cam-1" });
+      expect(store.read(hash)).toEqual(jpeg);
+
+      db.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
 });
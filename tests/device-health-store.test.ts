@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { DeviceHealthStore } from "../src/storage/device-health-store.js";
+import { createTestDeviceHealthStore } from "./helpers/test-db.js";
+import type { DeviceHealthSample } from "../src/types/index.js";
+
+function makeSample(overrides: Partial<DeviceHealthSample> = {}): DeviceHealthSample {
+  return {
+    deviceId: "cam-1",
+    deviceName: "Front Door",
+    locationId: "loc-1",
+    recordedAt: "2025-01-15T12:00:00.000Z",
+    online: true,
+    batteryLevel: 80,
+    rssi: -55,
+    firmwareVersion: "1.2.3",
+    ...overrides,
+  };
+}
+
+describe("DeviceHealthStore", () => {
+  let store: DeviceHealthStore;
+
+  beforeEach(() => {
+    store = createTestDeviceHealthStore().store;
+  });
+
+  it("inserts and reads back a sample", () => {
+    store.insert(makeSample());
+
+    expect(store.size).toBe(1);
+    expect(store.query()).toEqual([makeSample()]);
+  });
+
+  it("keeps optional readings absent when the device does not report them", () => {
+    store.insert(makeSample({ online: false, batteryLevel: undefined, rssi: undefined, firmwareVersion: undefined }));
+
+    const [sample] = store.query();
+    expect(sample.online).toBe(false);
+    expect(sample.batteryLevel).toBeUndefined();
+    expect(sample.rssi).toBeUndefined();
+    expect(sample.firmwareVersion).toBeUndefined();
+  });
+
+  it("returns the latest sample per device", () => {
+    store.insert(makeSample({ recordedAt: "2025-01-15T12:00:00.000Z", batteryLevel: 80 }));
+    store.insert(makeSample({ recordedAt: "2025-01-15T13:00:00.000Z", batteryLevel: 78 }));
+    store.insert(makeSample({ deviceId: "cam-2", recordedAt: "2025-01-15T14:00:00.000Z" }));
+
+    expect(store.latest("cam-1")?.batteryLevel).toBe(78);
+    expect(store.latest("unknown")).toBeNull();
+  });
+
+  it("filters by device and time range, newest first", () => {
+    store.insert(makeSample({ recordedAt: "2025-01-15T10:00:00.000Z" }));
+    store.insert(makeSample({ recordedAt: "2025-01-15T11:00:00.000Z" }));
+    store.insert(makeSample({ recordedAt: "2025-01-15T12:00:00.000Z" }));
+    store.insert(makeSample({ deviceId: "cam-2", recordedAt: "2025-01-15T11:30:00.000Z" }));
+
+    const results = store.query({
+      deviceId: "cam-1",
+      startTime: "2025-01-15T10:30:00.000Z",
+      endTime: "2025-01-15T12:00:00.000Z",
+    });
+    expect(results.map((s) => s.recordedAt)).toEqual([
+      "2025-01-15T12:00:00.000Z",
+      "2025-01-15T11:00:00.000Z",
+    ]);
+    expect(store.query({ limit: 2 })).toHaveLength(2);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from "vitest";
+import { DeviceManager, planAlarmChange, simulateCommand } from "../src/devices/device-manager.js";
+import type { RingClient } from "../src/client/ring-client.js";
+import type { DeviceCapabilities, DeviceCommand, FaultedSensor, RingDeviceInfo } from "../src/types/index.js";
+
+const NONE: DeviceCapabilities = {
+  hasLight: false,
+  hasSiren: false,
+  hasLock: false,
+  hasThermostat: false,
+  hasCamera: false,
+  hasBattery: false,
+  supportsMotionDetection: false,
+  supportsDoorbellPress: false,
+  supportsSnapshot: false,
+  supportsVideo: false,
+  supportsAlarm: false,
+  supportsMotionDetectionToggle: false,
+  supportsPrivacyMode: false,
+  supportsMotionSnooze: false,
+  supportsMotionSensitivity: false,
+};
+
+function makeDevice(overrides: Partial<RingDeviceInfo> = {}): RingDeviceInfo {
+  return {
+    id: "dev-1",
+    name: "Device",
+    type: "unknown",
+    locationId: "loc-1",
+    locationName: "Home",
+    online: true,
+    capabilities: NONE,
+    ...overrides,
+  };
+}
+
+const camera = makeDevice({
+  id: "cam-1",
+  name: "Front Door",
+  type: "camera",
+  capabilities: { ...NONE, hasCamera: true, hasLight: true, hasSiren: false },
+});
+const lock = makeDevice({ id: "lock-1", type: "lock", lockState: "locked", capabilities: { ...NONE, hasLock: true } });
+const light = makeDevice({ id: "light-1", type: "light", lightState: { on: false, brightness: 40 } });
+const thermostat = makeDevice({
+  id: "thermo-1",
+  type: "thermostat",
+  thermostat: { setpointC: 20, setpointMinC: 10, setpointMaxC: 30, mode: "heat" },
+});
+
+const clips = { clipRecording: true };
+
+describe("simulateCommand", () => {
+  it("returns the real result shape, marked simulated", () => {
+    expect(simulateCommand({ deviceId: "cam-1", action: "turn_light_on" }, camera, clips)).toEqual({
+      success: true,
+      simulated: true,
+      action: "turn_light_on",
+      deviceId: "cam-1",
+    });
+    expect(
+      simulateCommand({ deviceId: "light-1", action: "turn_light_on", parameters: { duration: 99999 } }, light, clips)
+    ).toMatchObject({ durationSeconds: 32767 });
+  });
+
+  it("reports previous values the device info holds", () => {
+    expect(simulateCommand({ deviceId: "lock-1", action: "unlock" }, lock, clips)).toMatchObject({
+      previousValue: "locked",
+    });
+    expect(
+      simulateCommand({ deviceId: "light-1", action: "set_light_brightness", parameters: { brightness: 80 } }, light, clips)
+    ).toMatchObject({ brightness: 80, previousValue: 40 });
+    expect(
+      simulateCommand({ deviceId: "thermo-1", action: "set_thermostat_mode", parameters: { mode: "cool" } }, thermostat, clips)
+    ).toMatchObject({ mode: "cool", previousValue: "heat" });
+  });
+
+  it("rejects commands the device cannot perform", () => {
+    expect(() => simulateCommand({ deviceId: "cam-1", action: "enable_siren" }, camera, clips)).toThrow("has no siren");
+    expect(() => simulateCommand({ deviceId: "cam-1", action: "lock" }, camera, clips)).toThrow("is not a lock");
+    expect(() => simulateCommand({ deviceId: "missing", action: "turn_light_on" }, null, clips)).toThrow(
+      "Camera/light not found"
+    );
+    expect(() => simulateCommand({ deviceId: "lock-1", action: "capture_snapshot" }, lock, clips)).toThrow(
+      "Camera not found"
+    );
+    expect(() => simulateCommand({ deviceId: "cam-1", action: "record_clip" }, camera, { clipRecording: false })).toThrow(
+      "not configured"
+    );
+  });
+
+  it("validates parameters like the real command", () => {
+    expect(() =>
+      simulateCommand({ deviceId: "cam-1", action: "snooze_motion_alerts", parameters: { minutes: -1 } }, camera, clips)
+    ).toThrow("minutes parameter is required");
+    expect(() =>
+      simulateCommand({ deviceId: "thermo-1", action: "set_thermostat_setpoint", parameters: { setpoint: 35 } }, thermostat, clips)
+    ).toThrow("outside the supported range");
+    expect(() =>
+      simulateCommand({ deviceId: "cam-1", action: "record_clip", parameters: { duration: 600 } }, camera, clips)
+    ).toThrow("duration must be between");
+    expect(() =>
+      simulateCommand({ deviceId: "cam-1", action: "set_motion_sensitivity", parameters: { sensitivity: 11 } }, camera, clips)
+    ).toThrow("sensitivity parameter is required (1-10)");
+    expect(() =>
+      simulateCommand({ deviceId: "cam-1", action: "set_motion_sensitivity", parameters: { sensitivity: 2.5 } }, camera, clips)
+    ).toThrow("sensitivity parameter is required");
+  });
+
+  it("turns motion detection off with privacy mode unless told otherwise", () => {
+    expect(
+      simulateCommand({ deviceId: "cam-1", action: "set_privacy_mode", parameters: { enabled: true } }, camera, clips)
+    ).toMatchObject({ enabled: true, motionDetection: false });
+    expect(
+      simulateCommand(
+        { deviceId: "cam-1", action: "set_privacy_mode", parameters: { enabled: false, motionDetection: false } },
+        camera,
+        clips
+      )
+    ).toMatchObject({ enabled: false, motionDetection: false });
+  });
+});
+
+describe("command parameter validation", () => {
+  // A client that finds no devices: parameters are checked before the device is looked up
+  const client = {
+    getCameraById: async () => undefined,
+    getChimeById: async () => undefined,
+    getIntercomById: async () => undefined,
+    getLocations: async () => [],
+  } as unknown as RingClient;
+  const manager = new DeviceManager(client);
+  const chime = makeDevice({ id: "chime-1", type: "chime" });
+
+  const invalid: Array<[DeviceCommand, RingDeviceInfo, string]> = [
+    [{ deviceId: "light-1", action: "turn_light_on", parameters: { duration: -5 } }, light, "duration must be a positive"],
+    [{ deviceId: "cam-1", action: "record_clip", parameters: { duration: 600 } }, camera, "duration must be between"],
+    [{ deviceId: "cam-1", action: "get_recording_url" }, camera, "dingId parameter is required"],
+    [{ deviceId: "cam-1", action: "set_motion_detection", parameters: { enabled: "yes" } }, camera, "enabled parameter is required"],
+    [
+      { deviceId: "cam-1", action: "set_privacy_mode", parameters: { enabled: true, motionDetection: 1 } },
+      camera,
+      "motionDetection parameter must be",
+    ],
+    [{ deviceId: "cam-1", action: "snooze_motion_alerts", parameters: { minutes: 2000 } }, camera, "minutes parameter is required"],
+    [{ deviceId: "cam-1", action: "set_motion_sensitivity", parameters: { sensitivity: 0 } }, camera, "sensitivity parameter is required"],
+    [{ deviceId: "chime-1", action: "set_volume", parameters: { volume: "loud" } }, chime, "volume parameter is required"],
+    [{ deviceId: "chime-1", action: "snooze_chime" }, chime, "minutes parameter is required"],
+    [{ deviceId: "chime-1", action: "play_test_sound", parameters: { kind: "ring" } }, chime, "kind parameter must be"],
+    [{ deviceId: "light-1", action: "set_light_brightness", parameters: { brightness: 101 } }, light, "brightness parameter is required"],
+    [{ deviceId: "thermo-1", action: "set_thermostat_mode", parameters: { mode: "fan" } }, thermostat, "mode parameter is required"],
+    [{ deviceId: "thermo-1", action: "set_thermostat_setpoint", parameters: { setpoint: "20" } }, thermostat, "setpoint parameter is required"],
+  ];
+
+  it("rejects the same parameters in a dry run as for real", async () => {
+    for (const [command, device, message] of invalid) {
+      expect(() => simulateCommand(command, device, clips)).toThrow(message);
+      await expect(manager.executeCommand(command)).rejects.toThrow(message);
+    }
+  });
+});
+
+describe("planAlarmChange", () => {
+  const backDoor: FaultedSensor = { id: "sensor-1", name: "Back Door", type: "alarm_sensor", deviceType: "sensor.contact" };
+
+  it("refuses to arm over faulted sensors unless they are bypassed", () => {
+    expect(() => planAlarmChange("arm_away", {}, [backDoor], ["sensor-1"])).toThrow("Back Door (sensor-1)");
+    expect(planAlarmChange("arm_away", { bypassSensorIds: ["sensor-1", "sensor-1"] }, [backDoor], ["sensor-1"])).toEqual([
+      "sensor-1",
+    ]);
+  });
+
+  it("ignores faults and bypasses when disarming, and rejects unknown sensors", () => {
+    expect(planAlarmChange("disarm", { bypassSensorIds: ["sensor-1"] }, [backDoor], ["sensor-1"])).toEqual([]);
+    expect(() => planAlarmChange("arm_home", { bypassSensorIds: ["nope"] }, [], ["sensor-1"])).toThrow(
+      "Cannot bypass unknown sensor(s): nope"
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { EventDeduplicator } from "../src/events/event-deduplicator.js";
+import type { RingEvent } from "../src/types/index.js";
+
+function makeEvent(overrides: Partial<RingEvent> = {}): RingEvent {
+  return {
+    id: "evt-1",
+    timestamp: "2025-01-15T12:00:00Z",
+    deviceId: "cam-1",
+    deviceName: "Front Door",
+    locationId: "loc-1",
+    locationName: "Home",
+    type: "doorbell_press",
+    metadata: { sources: ["doorbell"] },
+    ...overrides,
+  };
+}
+
+describe("EventDeduplicator", () => {
+  let dedup: EventDeduplicator;
+
+  beforeEach(() => {
+    dedup = new EventDeduplicator(10_000);
+  });
+
+  it("treats an untracked event as new", () => {
+    expect(dedup.match({ deviceId: "cam-1", type: "motion", metadata: {} }, 0)).toBeNull();
+  });
+
+  it("merges a duplicate within the window into the tracked event", () => {
+    dedup.track(makeEvent(), 0);
+
+    const merged = dedup.match(
+      {
+        deviceId: "cam-1",
+        type: "doorbell_press",
+        metadata: { dingId: "ding-1", category: "com.ring.pn.live-event.ding", sources: ["notification"] },
+      },
+      2_000
+    );
+
+    expect(merged?.id).toBe("evt-1");
+    expect(merged?.metadata).toEqual({
+      dingId: "ding-1",
+      category: "com.ring.pn.live-event.ding",
+      sources: ["doorbell", "notification"],
+      duplicateCount: 1,
+    });
+  });
+
+  it("does not merge across devices, types, or after the window", () => {
+    dedup.track(makeEvent(), 0);
+
+    expect(dedup.match({ deviceId: "cam-2", type: "doorbell_press", metadata: {} }, 1_000)).toBeNull();
+    expect(dedup.match({ deviceId: "cam-1", type: "motion", metadata: {} }, 1_000)).toBeNull();
+    expect(dedup.match({ deviceId: "cam-1", type: "doorbell_press", metadata: {} }, 11_000)).toBeNull();
+  });
+
+  it("keeps events with different ding IDs separate", () => {
+    dedup.track(makeEvent({ metadata: { dingId: "ding-1" } }), 0);
+
+    expect(
+      dedup.match({ deviceId: "cam-1", type: "doorbell_press", metadata: { dingId: "ding-2" } }, 1_000)
+    ).toBeNull();
+    expect(
+      dedup.match({ deviceId: "cam-1", type: "doorbell_press", metadata: { dingId: "ding-1" } }, 1_000)
+    ).not.toBeNull();
+  });
+
+  it("is disabled with a zero window", () => {
+    const disabled = new EventDeduplicator(0);
+    disabled.track(makeEvent(), 0);
+    expect(disabled.match({ deviceId: "cam-1", type: "doorbell_press", metadata: {} }, 0)).toBeNull();
+  });
+});
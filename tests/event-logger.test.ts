@@ -1,6 +1,10 @@
 import { describe, it, expect, beforeEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { EventLogger } from "../src/events/event-logger.js";
-import { createTestEventStore } from "./helpers/test-db.js";
+import { EventStore } from "../src/storage/event-store.js";
+import { createTestEventStore, createTestSnapshotStore } from "./helpers/test-db.js";
 
 describe("EventLogger", () => {
   let logger: EventLogger;
@@ -160,4 +164,30 @@ describe("EventLogger", () => {
     logger.clear();
     expect(logger.size).toBe(0);
   });
+
+  it("moves inline snapshots into the snapshot archive", () => {
+    const dir = mkdtempSync(join(tmpdir(), "ring-snapshots-"));
+    try {
+      const { store: snapshots, db } = createTestSnapshotStore(dir);
+      const archiving = new EventLogger(new EventStore(db.getConnection(), 100), undefined, snapshots);
+      const jpeg = Buffer.from("jpeg-bytes");
+
+      const event = archiving.record({
+        deviceId: "cam-1",
+        deviceName: "Front Door",
+        locationId: "loc-1",
+        locationName: "Home",
+        type: "snapshot_captured",
+        snapshotBase64: jpeg.toString("base64"),
+        metadata: {},
+      });
+
+      expect(event.snapshotBase64).toBeUndefined();
+      expect(event.snapshotId).toBeDefined();
+      expect(snapshots.read(event.snapshotId as string)).toEqual(jpeg);
+      expect(archiving.query({})[0].snapshotId).toBe(event.snapshotId);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
 });
@@ -181,4 +181,43 @@ describe("EventStore", () => {
     expect(store.size).toBe(0);
     expect(store.query()).toHaveLength(0);
   });
+
+  describe("spans", () => {
+    beforeEach(() => {
+      // Garage door: open 23:50 → 00:20 (straddles midnight), then 08:00 → 08:15
+      store.insert(makeEvent({ id: "s1", type: "contact_open", deviceId: "garage", timestamp: "2025-01-14T23:50:00.000Z", durationSec: 1800 }));
+      store.insert(makeEvent({ id: "s2", type: "contact_open", deviceId: "garage", timestamp: "2025-01-15T08:00:00.000Z", durationSec: 900 }));
+      store.insert(makeEvent({ id: "s3", type: "contact_open", deviceId: "garage", timestamp: "2025-01-15T20:00:00.000Z" }));
+      store.insert(makeEvent({ id: "c1", type: "contact_close", deviceId: "garage", timestamp: "2025-01-15T08:15:00.000Z" }));
+      store.insert(makeEvent({ id: "m1", type: "motion", deviceId: "cam-1", timestamp: "2025-01-15T09:00:00.000Z", durationSec: 30 }));
+    });
+
+    it("records durations on existing events", () => {
+      expect(store.setDuration("s3", 60)).toBe(true);
+      expect(store.setDuration("missing", 60)).toBe(false);
+      expect(store.query({ type: "contact_open" })[0].durationSec).toBe(60);
+    });
+
+    it("returns only span-opening events with computed end times", () => {
+      const spans = store.querySpans();
+      expect(spans.map((s) => s.eventId)).toEqual(["s3", "m1", "s2", "s1"]);
+      expect(spans[2]).toMatchObject({
+        type: "contact_open",
+        startedAt: "2025-01-15T08:00:00.000Z",
+        endedAt: "2025-01-15T08:15:00.000Z",
+        durationSec: 900,
+      });
+      expect(spans[0].endedAt).toBeUndefined();
+    });
+
+    it("includes spans that started before the range but ended inside it", () => {
+      const spans = store.querySpans({
+        deviceId: "garage",
+        type: "contact_open",
+        startTime: "2025-01-15T00:00:00.000Z",
+        endTime: "2025-01-15T23:59:59.999Z",
+      });
+      expect(spans.map((s) => s.eventId)).toEqual(["s3", "s2", "s1"]);
+    });
+  });
 });
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { HealthPoller } from "../src/events/health-poller.js";
+import { EventLogger } from "../src/events/event-logger.js";
+import { DeviceHealthStore } from "../src/storage/device-health-store.js";
+import { createTestDeviceHealthStore, createTestEventStore } from "./helpers/test-db.js";
+import type { RingClient } from "../src/client/ring-client.js";
+
+function makeMockCamera(overrides: { isOffline?: boolean; batteryLevel?: number | null } = {}) {
+  return {
+    id: 1,
+    name: "Front Door",
+    isOffline: overrides.isOffline ?? false,
+    batteryLevel: overrides.batteryLevel ?? 90,
+    getHealth: vi.fn().mockResolvedValue({
+      battery_percentage: "90",
+      latest_signal_strength: -60,
+      firmware: "cam-fw-1",
+    }),
+  };
+}
+
+function makeMockHubDevice(data: Record<string, unknown>) {
+  return { zid: "sensor-1", name: "Back Door", data };
+}
+
+describe("HealthPoller", () => {
+  let store: DeviceHealthStore;
+  let logger: EventLogger;
+  let camera: ReturnType<typeof makeMockCamera>;
+  let hubDevice: ReturnType<typeof makeMockHubDevice>;
+  let poller: HealthPoller;
+
+  beforeEach(() => {
+    store = createTestDeviceHealthStore().store;
+    logger = new EventLogger(createTestEventStore(100));
+    camera = makeMockCamera();
+    hubDevice = makeMockHubDevice({ batteryLevel: 50, commStatus: "ok", firmwareVersion: "hub-fw-2" });
+
+    const location = {
+      id: "loc-1",
+      name: "Home",
+      hasHubs: true,
+      cameras: [camera],
+      getDevices: vi.fn().mockResolvedValue([hubDevice]),
+    };
+    const client = { getLocations: vi.fn().mockResolvedValue([location]) };
+    poller = new HealthPoller(
+      client as unknown as RingClient,
+      store,
+      (event) => logger.record({ ...event, metadata: event.metadata ?? {} }),
+      { intervalMinutes: 15, batteryThresholds: [20, 10, 5] }
+    );
+  });
+
+  it("stores a health sample per camera and hub device", async () => {
+    expect(await poller.poll()).toBe(2);
+
+    expect(store.latest("1")).toMatchObject({
+      deviceName: "Front Door",
+      locationId: "loc-1",
+      online: true,
+      batteryLevel: 90,
+      rssi: -60,
+      firmwareVersion: "cam-fw-1",
+    });
+    expect(store.latest("sensor-1")).toMatchObject({
+      online: true,
+      batteryLevel: 50,
+      firmwareVersion: "hub-fw-2",
+    });
+  });
+
+  it("falls back to camera data when the health endpoint fails", async () => {
+    camera.getHealth.mockRejectedValue(new Error("unavailable"));
+    camera.batteryLevel = 42;
+
+    await poller.poll();
+
+    expect(store.latest("1")?.batteryLevel).toBe(42);
+    expect(store.latest("1")?.rssi).toBeUndefined();
+  });
+
+  it("only establishes a baseline on the first poll", async () => {
+    camera.isOffline = true;
+    await poller.poll();
+
+    expect(logger.size).toBe(0);
+  });
+
+  it("emits device_offline and device_online on transitions", async () => {
+    await poller.poll();
+    camera.isOffline = true;
+    hubDevice.data = { ...hubDevice.data, commStatus: "error" };
+    await poller.poll();
+    camera.isOffline = false;
+    await poller.poll();
+
+    const offline = logger.query({ type: "device_offline" });
+    expect(offline.map((e) => e.deviceId).sort()).toEqual(["1", "sensor-1"]);
+    expect(offline[0].locationName).toBe("Home");
+
+    const online = logger.query({ type: "device_online" });
+    expect(online).toHaveLength(1);
+    expect(online[0].deviceId).toBe("1");
+  });
+
+  it("emits battery_low for the lowest threshold crossed", async () => {
+    await poller.poll();
+    hubDevice.data = { ...hubDevice.data, batteryLevel: 19 };
+    await poller.poll();
+    hubDevice.data = { ...hubDevice.data, batteryLevel: 18 };
+    await poller.poll();
+    hubDevice.data = { ...hubDevice.data, batteryLevel: 4 };
+    await poller.poll();
+
+    const events = logger.query({ type: "battery_low" });
+    expect(events.map((e) => Number(e.metadata.thresholdPercent)).sort((a, b) => a - b)).toEqual([5, 20]);
+    expect(events.find((e) => e.metadata.thresholdPercent === 5)?.metadata).toMatchObject({
+      batteryLevel: 4,
+      previousBatteryLevel: 18,
+    });
+  });
+});
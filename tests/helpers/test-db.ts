@@ -10,6 +10,12 @@ import { RoutineStore } from "../../src/storage/routine-store.js";
 import { CloudCache } from "../../src/storage/cloud-cache.js";
 import { CrawlStore } from "../../src/storage/crawl-store.js";
 import { DeviceHistoryStore } from "../../src/storage/device-history-store.js";
+import { SnapshotStore } from "../../src/storage/snapshot-store.js";
+import { DeviceHealthStore } from "../../src/storage/device-health-store.js";
+import { WebhookStore } from "../../src/storage/webhook-store.js";
+import { RuleStore } from "../../src/storage/rule-store.js";
+import { ScheduleStore } from "../../src/storage/schedule-store.js";
+import { SceneStore } from "../../src/storage/scene-store.js";
 
 /** Create an in-memory RingDatabase for tests. */
 export function createTestDatabase(): RingDatabase {
@@ -45,3 +51,39 @@ export function createTestDeviceHistoryStore(): { store: DeviceHistoryStore; db:
   const db = createTestDatabase();
   return { store: new DeviceHistoryStore(db.getConnection()), db };
 }
+
+/** Create a SnapshotStore backed by an in-memory database, writing files to the given directory. */
+export function createTestSnapshotStore(directory: string, maxSize?: number): { store: SnapshotStore; db: RingDatabase } {
+  const db = createTestDatabase();
+  return { store: new SnapshotStore(db.getConnection(), directory, maxSize), db };
+}
+
+/** Create an in-memory DeviceHealthStore. */
+export function createTestDeviceHealthStore(): { store: DeviceHealthStore; db: RingDatabase } {
+  const db = createTestDatabase();
+  return { store: new DeviceHealthStore(db.getConnection()), db };
+}
+
+/** Create an in-memory WebhookStore. */
+export function createTestWebhookStore(historyMaxSize?: number): { store: WebhookStore; db: RingDatabase } {
+  const db = createTestDatabase();
+  return { store: new WebhookStore(db.getConnection(), historyMaxSize), db };
+}
+
+/** Create an in-memory RuleStore. */
+export function createTestRuleStore(): { store: RuleStore; db: RingDatabase } {
+  const db = createTestDatabase();
+  return { store: new RuleStore(db.getConnection()), db };
+}
+
+/** Create an in-memory ScheduleStore. */
+export function createTestScheduleStore(): { store: ScheduleStore; db: RingDatabase } {
+  const db = createTestDatabase();
+  return { store: new ScheduleStore(db.getConnection()), db };
+}
+
+/** Create an in-memory SceneStore. */
+export function createTestSceneStore(): { store: SceneStore; db: RingDatabase } {
+  const db = createTestDatabase();
+  return { store: new SceneStore(db.getConnection()), db };
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { McpHttpServer } from "../src/server/http-server.js";
+
+const TOKEN = "test-token";
+const HEADERS = { Authorization: `Bearer ${TOKEN}`, "Content-Type": "application/json" };
+const INITIALIZE = JSON.stringify({
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } },
+});
+
+describe("McpHttpServer", () => {
+  let calls: number;
+  let servers: McpServer[];
+  let httpServer: McpHttpServer;
+  let url: URL;
+
+  function createServer(): McpServer {
+    const server = new McpServer({ name: "test", version: "1.0.0" });
+    server.tool("count", "Count calls across sessions", {}, async () => {
+      calls++;
+      return { content: [{ type: "text", text: String(calls) }] };
+    });
+    servers.push(server);
+    return server;
+  }
+
+  async function connect(token = TOKEN): Promise<Client> {
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(
+      new StreamableHTTPClientTransport(url, { requestInit: { headers: { Authorization: `Bearer ${token}` } } })
+    );
+    return client;
+  }
+
+  beforeEach(async () => {
+    calls = 0;
+    servers = [];
+    httpServer = new McpHttpServer(createServer, { token: TOKEN, port: 0 });
+    const address = await httpServer.start();
+    url = new URL(`http://${address.host}:${address.port}/mcp`);
+  });
+
+  afterEach(async () => {
+    await httpServer.close();
+  });
+
+  it("serves concurrent sessions against shared state", async () => {
+    const first = await connect();
+    const second = await connect();
+    expect(httpServer.sessionCount).toBe(2);
+
+    await first.callTool({ name: "count", arguments: {} });
+    const result = await second.callTool({ name: "count", arguments: {} });
+    expect(result.content).toEqual([{ type: "text", text: "2" }]);
+
+    await first.close();
+    await second.close();
+  });
+
+  it("rejects requests without the bearer token", async () => {
+    await expect(connect("wrong")).rejects.toThrow();
+
+    const response = await fetch(url, { method: "POST", body: "{}" });
+    expect(response.status).toBe(401);
+    expect(response.headers.get("www-authenticate")).toMatch(/^Bearer/);
+    expect(httpServer.sessionCount).toBe(0);
+  });
+
+  it("requires a session for anything but initialize", async () => {
+    const headers = { Authorization: `Bearer ${TOKEN}`, "Content-Type": "application/json" };
+    const listTools = JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" });
+
+    expect((await fetch(url, { method: "POST", headers, body: listTools })).status).toBe(400);
+    expect(
+      (await fetch(url, { method: "POST", headers: { ...headers, "mcp-session-id": "nope" }, body: listTools })).status
+    ).toBe(404);
+    expect((await fetch(url, { method: "POST", headers, body: "{" })).status).toBe(400);
+    expect((await fetch(new URL("/other", url), { headers })).status).toBe(404);
+  });
+
+  it("closes open sessions on shutdown", async () => {
+    await connect();
+    await httpServer.close();
+
+    expect(httpServer.sessionCount).toBe(0);
+    await expect(fetch(url, { method: "POST", body: "{}" })).rejects.toThrow();
+  });
+
+  it("closes sessions left idle past the timeout", async () => {
+    await httpServer.close();
+    httpServer = new McpHttpServer(createServer, { token: TOKEN, port: 0, sessionIdleTimeoutMs: 50 });
+    const address = await httpServer.start();
+    url = new URL(`http://${address.host}:${address.port}/mcp`);
+
+    // A client that initializes and goes away without ending its session or opening a stream
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { ...HEADERS, Accept: "application/json, text/event-stream" },
+      body: INITIALIZE,
+    });
+    await response.text();
+    expect(httpServer.sessionCount).toBe(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    expect(httpServer.sessionCount).toBe(0);
+  });
+
+  it("closes the session when initialization fails", async () => {
+    // The transport refuses requests that cannot accept an event stream
+    const response = await fetch(url, { method: "POST", headers: { ...HEADERS, Accept: "application/json" }, body: INITIALIZE });
+
+    expect(response.ok).toBe(false);
+    expect(httpServer.sessionCount).toBe(0);
+    expect(servers).toHaveLength(1);
+    expect(servers[0].isConnected()).toBe(false);
+  });
+
+  it("needs a token", () => {
+    expect(() => new McpHttpServer(createServer, { token: "" })).toThrow("bearer token");
+    expect(() => new McpHttpServer(createServer, { token: TOKEN, sessionIdleTimeoutMs: 0 })).toThrow("idle timeout");
+  });
+});
@@ -0,0 +1,338 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createServer } from "node:net";
+import type { Server } from "node:net";
+import type { AddressInfo } from "node:net";
+import { createBroker } from "aedes";
+import type Aedes from "aedes";
+import { connectAsync } from "mqtt";
+import type { MqttClient } from "mqtt";
+import { MqttBridge, deviceDiscovery } from "../src/events/mqtt-bridge.js";
+import type { MqttBridgeHandler } from "../src/events/mqtt-bridge.js";
+import type { RingDeviceInfo, RingEvent, RingLocationInfo } from "../src/types/index.js";
+
+const NO_CAPABILITIES: RingDeviceInfo["capabilities"] = {
+  hasLight: false,
+  hasSiren: false,
+  hasLock: false,
+  hasThermostat: false,
+  hasCamera: false,
+  hasBattery: false,
+  supportsMotionDetection: false,
+  supportsDoorbellPress: false,
+  supportsSnapshot: false,
+  supportsVideo: false,
+  supportsAlarm: false,
+  supportsMotionDetectionToggle: false,
+  supportsPrivacyMode: false,
+  supportsMotionSnooze: false,
+  supportsMotionSensitivity: false,
+};
+
+const LOCATION: RingLocationInfo = {
+  id: "loc-1",
+  name: "Home",
+  alarmMode: "none",
+  hasAlarm: true,
+  deviceCount: 2,
+  cameraCount: 1,
+};
+
+const LOCK: RingDeviceInfo = {
+  id: "lock-1",
+  name: "Front Lock",
+  type: "lock",
+  locationId: "loc-1",
+  locationName: "Home",
+  online: true,
+  batteryLevel: 80,
+  lockState: "locked",
+  capabilities: { ...NO_CAPABILITIES, hasLock: true, hasBattery: true },
+};
+
+const DOORBELL: RingDeviceInfo = {
+  id: "cam-1",
+  name: "Front Door",
+  type: "doorbell",
+  locationId: "loc-1",
+  locationName: "Home",
+  online: true,
+  capabilities: { ...NO_CAPABILITIES, hasCamera: true, supportsDoorbellPress: true },
+};
+
+function makeHandler(): MqttBridgeHandler & {
+  listDevices: ReturnType<typeof vi.fn>;
+  controlDevice: ReturnType<typeof vi.fn>;
+  setAlarmMode: ReturnType<typeof vi.fn>;
+} {
+  return {
+    listLocations: async () => [LOCATION],
+    listDevices: vi.fn(async () => [LOCK, DOORBELL]),
+    controlDevice: vi.fn(async (command) => ({ success: true, action: command.action })),
+    setAlarmMode: vi.fn(async (locationId, action) => ({
+      success: true,
+      locationId,
+      action,
+      faultedSensors: [],
+      bypassedSensorIds: [],
+    })),
+  };
+}
+
+/** Collect messages on an observer client and wait for specific topics. */
+function collect(client: MqttClient) {
+  const messages = new Map<string, string>();
+  const waiters: { topic: string; resolve: (payload: string) => void }[] = [];
+  client.on("message", (topic, payload) => {
+    messages.set(topic, payload.toString());
+    for (const waiter of waiters.filter((w) => w.topic === topic)) {
+      waiters.splice(waiters.indexOf(waiter), 1);
+      waiter.resolve(payload.toString());
+    }
+  });
+  return {
+    messages,
+    next: (topic: string) => new Promise<string>((resolve) => waiters.push({ topic, resolve })),
+  };
+}
+
+describe("MqttBridge", () => {
+  let broker: Aedes;
+  let server: Server;
+  let url: string;
+  let bridge: MqttBridge;
+  let handler: ReturnType<typeof makeHandler>;
+  let observer: MqttClient;
+
+  beforeEach(async () => {
+    broker = createBroker();
+    server = createServer(broker.handle);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `mqtt://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    handler = makeHandler();
+    bridge = new MqttBridge({ url, stateIntervalSec: 0 }, handler);
+    observer = await connectAsync(url);
+  });
+
+  afterEach(async () => {
+    await bridge.stop();
+    await observer.endAsync();
+    await new Promise<void>((resolve) => broker.close(() => resolve()));
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  /** Start the bridge and wait until it reports itself online. */
+  async function startBridge() {
+    const received = collect(observer);
+    await observer.subscribeAsync("#");
+    const online = received.next("ring/status");
+    bridge.start();
+    expect(await online).toBe("online");
+    return received;
+  }
+
+  it("publishes retained device state, alarm state and discovery configs", async () => {
+    await startBridge();
+
+    // A late subscriber gets everything that was retained
+    const late = await connectAsync(url);
+    const received = collect(late);
+    await late.subscribeAsync("#");
+    await vi.waitFor(() => expect(received.messages.has("ring/loc-1/cam-1/state")).toBe(true));
+    await late.endAsync();
+
+    expect(JSON.parse(received.messages.get("ring/loc-1/lock-1/state") as string)).toEqual({
+      id: "lock-1",
+      name: "Front Lock",
+      type: "lock",
+      online: true,
+      batteryLevel: 80,
+      lockState: "locked",
+    });
+    expect(received.messages.get("ring/loc-1/alarm/state")).toBe("disarmed");
+    expect(received.messages.get("ring/status")).toBe("online");
+
+    const lockConfig = JSON.parse(
+      received.messages.get("homeassistant/lock/ring_lock-1/lock/config") as string
+    );
+    expect(lockConfig).toMatchObject({
+      command_topic: "ring/loc-1/lock-1/command",
+      state_topic: "ring/loc-1/lock-1/state",
+      payload_lock: '{"action":"lock"}',
+      availability_topic: "ring/status",
+    });
+    expect(received.messages.has("homeassistant/sensor/ring_lock-1/battery/config")).toBe(true);
+    expect(received.messages.has("homeassistant/alarm_control_panel/ring_location_loc-1/alarm/config")).toBe(true);
+    expect(received.messages.has("homeassistant/device_automation/ring_cam-1/doorbell_press/config")).toBe(true);
+  });
+
+  it("mirrors events to per-device topics", async () => {
+    const received = await startBridge();
+    const event: RingEvent = {
+      id: "evt-1",
+      timestamp: "2025-01-15T12:00:00.000Z",
+      deviceId: "cam-1",
+      deviceName: "Front Door",
+      locationId: "loc-1",
+      locationName: "Home",
+      type: "doorbell_press",
+      metadata: {},
+    };
+
+    const published = received.next("ring/loc-1/cam-1/doorbell_press");
+    await bridge.publishEvent(event);
+
+    expect(JSON.parse(await published)).toEqual(event);
+  });
+
+  it("enumerates devices once for the events that arrive while it runs", async () => {
+    const received = await startBridge();
+    handler.listDevices.mockClear();
+    let release = () => {};
+    handler.listDevices.mockImplementationOnce(
+      () => new Promise((resolve) => (release = () => resolve([LOCK, DOORBELL])))
+    );
+    const event = (id: string, deviceId: string): RingEvent => ({
+      id,
+      timestamp: "2025-01-15T12:00:00.000Z",
+      deviceId,
+      deviceName: "Device",
+      locationId: "loc-1",
+      locationName: "Home",
+      type: "lock_unlocked",
+      metadata: {},
+    });
+
+    const state = received.next("ring/loc-1/cam-1/state");
+    const published = Promise.all([
+      bridge.publishEvent(event("evt-1", "lock-1")),
+      bridge.publishEvent(event("evt-2", "cam-1")),
+      bridge.publishEvent(event("evt-3", "lock-1")),
+      bridge.publishEvent(event("evt-4", "cam-1")),
+    ]);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    release();
+    await published;
+
+    expect(JSON.parse(await state)).toMatchObject({ id: "cam-1" });
+    expect(handler.listDevices.mock.calls.length).toBeLessThanOrEqual(2);
+  });
+
+  it("updates the retained alarm state on alarm mode changes", async () => {
+    const received = await startBridge();
+
+    const state = received.next("ring/loc-1/alarm/state");
+    await bridge.publishEvent({
+      id: "evt-2",
+      timestamp: "2025-01-15T12:00:00.000Z",
+      deviceId: "panel-1",
+      deviceName: "Security Panel",
+      locationId: "loc-1",
+      locationName: "Home",
+      type: "alarm_mode_change",
+      metadata: { previousMode: "none", currentMode: "all" },
+    });
+
+    expect(await state).toBe("armed_away");
+  });
+
+  it("maps device command topics onto controlDevice", async () => {
+    const received = await startBridge();
+
+    const result = received.next("ring/loc-1/lock-1/command/result");
+    await observer.publishAsync(
+      "ring/loc-1/lock-1/command",
+      JSON.stringify({ action: "unlock", parameters: { reason: "test" } })
+    );
+
+    expect(JSON.parse(await result)).toEqual({ action: "unlock", success: true });
+    expect(handler.controlDevice).toHaveBeenCalledWith({
+      deviceId: "lock-1",
+      action: "unlock",
+      parameters: { reason: "test" },
+    });
+  });
+
+  it("maps alarm command topics onto setAlarmMode", async () => {
+    const received = await startBridge();
+
+    const result = received.next("ring/loc-1/alarm/command/result");
+    await observer.publishAsync("ring/loc-1/alarm/command", "arm_home");
+
+    expect(JSON.parse(await result)).toEqual({ action: "arm_home", success: true });
+    expect(handler.setAlarmMode).toHaveBeenCalledWith("loc-1", "arm_home");
+  });
+
+  it("reports invalid and failed commands on the result topic", async () => {
+    const received = await startBridge();
+
+    let result = received.next("ring/loc-1/lock-1/command/result");
+    await observer.publishAsync("ring/loc-1/lock-1/command", "unlock please");
+    expect(JSON.parse(await result)).toMatchObject({ success: false, error: expect.stringContaining("JSON") });
+    expect(handler.controlDevice).not.toHaveBeenCalled();
+
+    result = received.next("ring/loc-1/alarm/command/result");
+    await observer.publishAsync("ring/loc-1/alarm/command", "panic");
+    expect(JSON.parse(await result)).toMatchObject({ action: "panic", success: false });
+    expect(handler.setAlarmMode).not.toHaveBeenCalled();
+
+    handler.controlDevice.mockRejectedValueOnce(new Error("Lock jammed"));
+    result = received.next("ring/loc-1/lock-1/command/result");
+    await observer.publishAsync("ring/loc-1/lock-1/command", JSON.stringify({ action: "lock" }));
+    expect(JSON.parse(await result)).toEqual({ action: "lock", success: false, error: "Lock jammed" });
+  });
+
+  it("refuses device commands on another location's topic", async () => {
+    const received = await startBridge();
+
+    let result = received.next("ring/loc-2/lock-1/command/result");
+    await observer.publishAsync("ring/loc-2/lock-1/command", JSON.stringify({ action: "unlock" }));
+    expect(JSON.parse(await result)).toEqual({
+      action: "unlock",
+      success: false,
+      error: "Device lock-1 is not at location loc-2",
+    });
+
+    result = received.next("ring/loc-1/lock-9/command/result");
+    await observer.publishAsync("ring/loc-1/lock-9/command", JSON.stringify({ action: "unlock" }));
+    expect(JSON.parse(await result)).toMatchObject({ success: false, error: "Device not found: lock-9" });
+    expect(handler.controlDevice).not.toHaveBeenCalled();
+  });
+
+  it("marks itself offline when stopped", async () => {
+    const received = await startBridge();
+
+    const offline = received.next("ring/status");
+    await bridge.stop();
+
+    expect(await offline).toBe("offline");
+    expect(bridge.isRunning).toBe(false);
+  });
+});
+
+describe("deviceDiscovery", () => {
+  it("only advertises entities the device supports", () => {
+    const topics = deviceDiscovery(DOORBELL, "ring", "homeassistant").map((m) => m.topic);
+
+    expect(topics).toEqual([
+      "homeassistant/binary_sensor/ring_cam-1/online/config",
+      "homeassistant/device_automation/ring_cam-1/doorbell_press/config",
+      "homeassistant/device_automation/ring_cam-1/motion/config",
+    ]);
+  });
+
+  it("maps dimmable light brightness onto set_light_brightness", () => {
+    const light: RingDeviceInfo = {
+      ...DOORBELL,
+      id: "light-1",
+      type: "light",
+      lightState: { on: true, brightness: 50 },
+      capabilities: { ...NO_CAPABILITIES, hasLight: true },
+    };
+    const [, lightConfig] = deviceDiscovery(light, "ring", "homeassistant");
+
+    expect(lightConfig.topic).toBe("homeassistant/light/ring_light-1/light/config");
+    expect(lightConfig.config.command_on_template).toContain("set_light_brightness");
+    expect(lightConfig.config.state_topic).toBe("ring/loc-1/light-1/state");
+  });
+});
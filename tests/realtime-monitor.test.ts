@@ -1,8 +1,13 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { BehaviorSubject, Subject } from "rxjs";
 import { RealtimeMonitor } from "../src/events/realtime-monitor.js";
 import { EventLogger } from "../src/events/event-logger.js";
-import { createTestEventStore } from "./helpers/test-db.js";
+import { EventStore } from "../src/storage/event-store.js";
+import { createTestEventStore, createTestSnapshotStore } from "./helpers/test-db.js";
+import type { MonitorConfig } from "../src/types/index.js";
 import type { RingClient } from "../src/client/ring-client.js";
 import type { RingDeviceData } from "ring-client-api";
 import { RingDeviceType } from "ring-client-api";
@@ -45,6 +50,7 @@ function makeMockLocation(overrides: {
   name: string;
   hasHubs?: boolean;
   cameras?: unknown[];
+  intercoms?: unknown[];
   devices?: ReturnType<typeof makeMockDevice>[];
 }) {
   const onConnected = new Subject<boolean>();
@@ -53,6 +59,7 @@ function makeMockLocation(overrides: {
     name: overrides.name,
     hasHubs: overrides.hasHubs ?? true,
     cameras: overrides.cameras ?? [],
+    intercoms: overrides.intercoms ?? [],
     onConnected,
     getDevices: vi.fn().mockResolvedValue(overrides.devices ?? []),
   };
@@ -212,6 +219,224 @@ describe("RealtimeMonitor — alarm device monitoring", () => {
     });
   });
 
+  // ── Spans ──
+
+  describe("spans", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("writes the open duration onto the contact_open event when the contact closes", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2025-01-15T12:00:00.000Z"));
+      const device = makeMockDevice(
+        makeBaseDeviceData({ zid: "garage", name: "Garage Door", faulted: false })
+      );
+
+      await startWithDevices([device]);
+      device.pushUpdate({ faulted: true });
+      vi.setSystemTime(new Date("2025-01-15T12:04:00.000Z"));
+      device.pushUpdate({ faulted: false });
+
+      const [open] = logger.query({ type: "contact_open" });
+      const [close] = logger.query({ type: "contact_close" });
+      expect(open.durationSec).toBe(240);
+      expect(close.metadata.spanEventId).toBe(open.id);
+      expect(close.metadata.spanDurationSec).toBe(240);
+
+      const spans = logger.querySpans({ deviceId: "garage" });
+      expect(spans.count).toBe(1);
+      expect(spans.totalDurationSec).toBe(240);
+    });
+
+    it("closes tamper spans on tamper_clear", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2025-01-15T12:00:00.000Z"));
+      const device = makeMockDevice(makeBaseDeviceData({ zid: "sensor-1", tamperStatus: "ok" }));
+
+      await startWithDevices([device]);
+      device.pushUpdate({ tamperStatus: "tamper" });
+      vi.setSystemTime(new Date("2025-01-15T12:00:10.000Z"));
+      device.pushUpdate({ tamperStatus: "ok" });
+
+      expect(logger.query({ type: "tamper" })[0].durationSec).toBe(10);
+    });
+  });
+
+  // ── Lock ──
+
+  describe("lock", () => {
+    function makeLock(locked: RingDeviceData["locked"]) {
+      return makeMockDevice(
+        makeBaseDeviceData({
+          zid: "lock-1",
+          name: "Front Door Lock",
+          deviceType: "lock" as RingDeviceData["deviceType"],
+          categoryId: 10,
+          locked,
+        })
+      );
+    }
+
+    it("emits lock_locked and lock_unlocked on state changes", async () => {
+      const device = makeLock("unlocked");
+
+      await startWithDevices([device]);
+      device.pushUpdate({ locked: "locked" });
+      device.pushUpdate({ locked: "unlocked" });
+
+      const locked = logger.query({ type: "lock_locked" });
+      expect(locked).toHaveLength(1);
+      expect(locked[0].deviceName).toBe("Front Door Lock");
+      expect(locked[0].metadata.previousValue).toBe("unlocked");
+      expect(locked[0].metadata.currentValue).toBe("locked");
+      expect(logger.query({ type: "lock_unlocked" })).toHaveLength(1);
+    });
+
+    it("emits lock_jammed when the lock reports jammed", async () => {
+      const device = makeLock("locked");
+
+      await startWithDevices([device]);
+      device.pushUpdate({ locked: "jammed" });
+
+      expect(logger.query({ type: "lock_jammed" })).toHaveLength(1);
+    });
+
+    it("does not emit when the lock state becomes unknown", async () => {
+      const device = makeLock("locked");
+
+      await startWithDevices([device]);
+      device.pushUpdate({ locked: "unknown" });
+
+      const lockEvents = logger
+        .query()
+        .filter((e) => e.type.startsWith("lock_"));
+      expect(lockEvents).toHaveLength(0);
+    });
+  });
+
+  // ── Thermostat ──
+
+  describe("thermostat", () => {
+    function makeThermostat() {
+      return makeMockDevice(
+        makeBaseDeviceData({
+          zid: "thermostat-1",
+          name: "Hallway Thermostat",
+          deviceType: RingDeviceType.Thermostat,
+          categoryId: 11,
+          mode: "heat",
+          setPoint: 20,
+        })
+      );
+    }
+
+    function makeTemperatureSensor(celsius: number, faults: Partial<RingDeviceData> = {}) {
+      return makeMockDevice(
+        makeBaseDeviceData({
+          zid: "temp-1",
+          name: "Hallway Thermostat Temperature",
+          deviceType: RingDeviceType.TemperatureSensor,
+          parentZid: "thermostat-1",
+          celsius,
+          ...faults,
+        })
+      );
+    }
+
+    it("emits thermostat_mode_change instead of alarm_mode_change", async () => {
+      const thermostat = makeThermostat();
+
+      await startWithDevices([thermostat]);
+      thermostat.pushUpdate({ mode: "cool" });
+
+      const events = logger.query({ type: "thermostat_mode_change" });
+      expect(events).toHaveLength(1);
+      expect(events[0].metadata.previousMode).toBe("heat");
+      expect(events[0].metadata.currentMode).toBe("cool");
+      expect(logger.query({ type: "alarm_mode_change" })).toHaveLength(0);
+    });
+
+    it("attributes temperature threshold crossings to the parent thermostat", async () => {
+      monitor = new RealtimeMonitor(mockClient as unknown as RingClient, logger, {
+        temperatureHighC: 26,
+        temperatureLowC: 15,
+      });
+      const thermostat = makeThermostat();
+      const sensor = makeTemperatureSensor(21);
+
+      await startWithDevices([thermostat, sensor]);
+      sensor.pushUpdate({ celsius: 27 });
+      sensor.pushUpdate({ celsius: 28 });
+      sensor.pushUpdate({ celsius: 14 });
+
+      const high = logger.query({ type: "temperature_high" });
+      expect(high).toHaveLength(1);
+      expect(high[0].deviceId).toBe("thermostat-1");
+      expect(high[0].metadata.sensorId).toBe("temp-1");
+      expect(high[0].metadata.thresholdC).toBe(26);
+      expect(logger.query({ type: "temperature_low" })).toHaveLength(1);
+    });
+
+    it("falls back to the sensor's fault thresholds", async () => {
+      const sensor = makeTemperatureSensor(10, { faultLow: 5, faultHigh: 35 });
+
+      await startWithDevices([sensor]);
+      sensor.pushUpdate({ celsius: 4 });
+
+      const low = logger.query({ type: "temperature_low" });
+      expect(low).toHaveLength(1);
+      expect(low[0].deviceId).toBe("temp-1");
+      expect(low[0].metadata.thresholdC).toBe(5);
+    });
+  });
+
+  // ── Smart Lighting (Beams) ──
+
+  describe("smart lighting", () => {
+    it("emits light_on and light_off for Beams lights", async () => {
+      const light = makeMockDevice(
+        makeBaseDeviceData({
+          zid: "beam-1",
+          name: "Driveway Pathlight",
+          deviceType: RingDeviceType.BeamsMultiLevelSwitch,
+          on: false,
+          level: 0.5,
+        })
+      );
+
+      await startWithDevices([light]);
+      light.pushUpdate({ on: true, motionStatus: "faulted" });
+      light.pushUpdate({ on: false, motionStatus: "clear" });
+
+      const on = logger.query({ type: "light_on" });
+      expect(on).toHaveLength(1);
+      expect(on[0].metadata.brightness).toBe(50);
+      expect(on[0].metadata.motionTriggered).toBe(true);
+      expect(logger.query({ type: "light_off" })).toHaveLength(1);
+
+      const motion = logger.query({ type: "sensor_motion" });
+      expect(motion).toHaveLength(1);
+      expect(motion[0].metadata.beams).toBe(true);
+    });
+
+    it("ignores on/off changes from non-Beams switches", async () => {
+      const outlet = makeMockDevice(
+        makeBaseDeviceData({
+          zid: "switch-1",
+          name: "Z-Wave Outlet",
+          deviceType: RingDeviceType.Switch,
+          on: false,
+        })
+      );
+
+      await startWithDevices([outlet]);
+      outlet.pushUpdate({ on: true });
+
+      expect(logger.query({ type: "light_on" })).toHaveLength(0);
+    });
+  });
+
   // ── Alarm Mode ──
 
   describe("alarm mode", () => {
@@ -397,4 +622,270 @@ describe("RealtimeMonitor — alarm device monitoring", () => {
       expect(received).toEqual(["contact_open", "contact_close"]);
     });
   });
+
+  describe("waitFor", () => {
+    const publishOpen = (deviceId: string) =>
+      monitor.publish({ deviceId, deviceName: "Door", locationId: "loc-1", locationName: "Home", type: "contact_open" });
+
+    it("resolves with the next matching event and unsubscribes", async () => {
+      const next = monitor.waitFor({ types: ["contact_open"] }, 1000, { accept: (e) => e.deviceId !== "back" });
+
+      monitor.publish({ deviceId: "front", deviceName: "Door", locationId: "loc-1", locationName: "Home", type: "motion" });
+      publishOpen("back");
+      const event = publishOpen("front");
+
+      await expect(next).resolves.toEqual(event);
+      expect(monitor["userSubscriptions"].size).toBe(0);
+    });
+
+    it("resolves with null on timeout or abort", async () => {
+      vi.useFakeTimers();
+      try {
+        const timedOut = monitor.waitFor(undefined, 5000);
+        vi.advanceTimersByTime(5000);
+        await expect(timedOut).resolves.toBeNull();
+
+        const controller = new AbortController();
+        const aborted = monitor.waitFor(undefined, 5000, { signal: controller.signal });
+        controller.abort();
+        await expect(aborted).resolves.toBeNull();
+        expect(monitor["userSubscriptions"].size).toBe(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+});
+
+describe("RealtimeMonitor — intercom monitoring", () => {
+  it("records intercom dings and unlocks", async () => {
+    const logger = new EventLogger(createTestEventStore(100));
+    const intercom = {
+      id: 42,
+      name: "Lobby Intercom",
+      deviceType: "intercom_handset_audio",
+      onDing: new Subject<void>(),
+      onUnlocked: new Subject<void>(),
+    };
+    const location = makeMockLocation({
+      id: "loc-1",
+      name: "Apartment",
+      hasHubs: false,
+      intercoms: [intercom],
+    });
+    const client = { getLocations: vi.fn().mockResolvedValue([location]) };
+    const monitor = new RealtimeMonitor(client as unknown as RingClient, logger);
+
+    await monitor.start();
+    intercom.onDing.next();
+    intercom.onUnlocked.next();
+    monitor.stop();
+
+    const dings = logger.query({ type: "intercom_ding" });
+    expect(dings).toHaveLength(1);
+    expect(dings[0].deviceId).toBe("42");
+    expect(dings[0].deviceName).toBe("Lobby Intercom");
+    expect(logger.query({ type: "intercom_unlock" })).toHaveLength(1);
+  });
+});
+
+describe("RealtimeMonitor — automatic snapshots", () => {
+  let dir: string;
+  let logger: EventLogger;
+  let monitor: RealtimeMonitor | undefined;
+
+  function makeMockCamera(id: number, name: string) {
+    return {
+      id,
+      name,
+      isDoorbot: true,
+      onMotionDetected: new Subject<boolean>(),
+      onDoorbellPressed: new Subject<unknown>(),
+      onNewNotification: new Subject<unknown>(),
+      getSnapshot: vi.fn().mockResolvedValue(Buffer.from(`snapshot-${id}`)),
+    };
+  }
+
+  async function startWithCameras(
+    cameras: ReturnType<typeof makeMockCamera>[],
+    config: MonitorConfig
+  ) {
+    const location = makeMockLocation({ id: "loc-1", name: "Home", hasHubs: false, cameras });
+    const client = { getLocations: vi.fn().mockResolvedValue([location]) };
+    monitor = new RealtimeMonitor(client as unknown as RingClient, logger, config);
+    await monitor.start();
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ring-snapshots-"));
+    const { store: snapshots, db } = createTestSnapshotStore(dir);
+    logger = new EventLogger(new EventStore(db.getConnection(), 100), undefined, snapshots);
+  });
+
+  afterEach(() => {
+    monitor?.stop();
+    monitor = undefined;
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("captures nothing without a policy", async () => {
+    const camera = makeMockCamera(1, "Front Door");
+    await startWithCameras([camera], {});
+
+    camera.onMotionDetected.next(true);
+
+    expect(camera.getSnapshot).not.toHaveBeenCalled();
+  });
+
+  it("attaches a snapshot to the triggering event and logs snapshot_captured", async () => {
+    const camera = makeMockCamera(1, "Front Door");
+    await startWithCameras([camera], { autoSnapshot: { eventTypes: ["doorbell_press"] } });
+
+    camera.onDoorbellPressed.next({ data: { event: { ding: { id: "ding-1" } } } });
+
+    await vi.waitFor(() => expect(logger.query({ type: "snapshot_captured" })).toHaveLength(1));
+    const [snapshot] = logger.query({ type: "snapshot_captured" });
+    const [press] = logger.query({ type: "doorbell_press" });
+
+    expect(snapshot.snapshotId).toBeDefined();
+    expect(snapshot.snapshotBase64).toBeUndefined();
+    expect(snapshot.metadata).toMatchObject({
+      automatic: true,
+      trigger: "doorbell_press",
+      triggerEventId: press.id,
+    });
+    expect(press.snapshotId).toBe(snapshot.snapshotId);
+  });
+
+  it("only fires for the configured event types and honors per-device overrides", async () => {
+    const front = makeMockCamera(1, "Front Door");
+    const back = makeMockCamera(2, "Back Yard");
+    await startWithCameras([front, back], {
+      autoSnapshot: { eventTypes: ["doorbell_press"], devices: { "2": ["motion"] } },
+    });
+
+    front.onMotionDetected.next(true);
+    back.onMotionDetected.next(true);
+
+    await vi.waitFor(() => expect(logger.query({ type: "snapshot_captured" })).toHaveLength(1));
+    expect(front.getSnapshot).not.toHaveBeenCalled();
+    expect(back.getSnapshot).toHaveBeenCalledTimes(1);
+  });
+
+  it("rate-limits snapshots per camera", async () => {
+    const now = vi.spyOn(Date, "now").mockReturnValue(1_000_000);
+    const camera = makeMockCamera(1, "Front Door");
+    await startWithCameras([camera], { autoSnapshot: { eventTypes: ["motion"], minIntervalSec: 30 } });
+
+    camera.onMotionDetected.next(true);
+    now.mockReturnValue(1_000_000 + 10_000);
+    camera.onMotionDetected.next(true);
+    expect(camera.getSnapshot).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(1_000_000 + 31_000);
+    camera.onMotionDetected.next(true);
+    expect(camera.getSnapshot).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps the triggering event when the snapshot fails", async () => {
+    const camera = makeMockCamera(1, "Front Door");
+    camera.getSnapshot.mockRejectedValue(new Error("camera asleep"));
+    await startWithCameras([camera], { autoSnapshot: { eventTypes: ["motion"] } });
+
+    camera.onMotionDetected.next(true);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(logger.query({ type: "motion" })).toHaveLength(1);
+    expect(logger.query({ type: "snapshot_captured" })).toHaveLength(0);
+  });
+});
+
+describe("RealtimeMonitor — camera event deduplication", () => {
+  function makeMockCamera() {
+    return {
+      id: 7,
+      name: "Front Door",
+      isDoorbot: true,
+      onMotionDetected: new Subject<boolean>(),
+      onDoorbellPressed: new Subject<unknown>(),
+      onNewNotification: new Subject<unknown>(),
+    };
+  }
+
+  async function startWithCamera(camera: ReturnType<typeof makeMockCamera>, config: MonitorConfig = {}) {
+    const logger = new EventLogger(createTestEventStore(100));
+    const location = makeMockLocation({ id: "loc-1", name: "Home", hasHubs: false, cameras: [camera] });
+    const client = { getLocations: vi.fn().mockResolvedValue([location]) };
+    const monitor = new RealtimeMonitor(client as unknown as RingClient, logger, config);
+    await monitor.start();
+    return { logger, monitor };
+  }
+
+  const dingNotification = (id: string) => ({
+    android_config: { category: "com.ring.pn.live-event.ding" },
+    data: { event: { ding: { id, subtype: "human" } } },
+  });
+
+  it("merges a doorbell press reported by the ding and notification streams", async () => {
+    const camera = makeMockCamera();
+    const { logger, monitor } = await startWithCamera(camera);
+    const received: string[] = [];
+    monitor.subscribe({ callback: (e) => received.push(e.type) });
+
+    camera.onDoorbellPressed.next({ data: { event: { ding: { id: "ding-1" } } } });
+    camera.onNewNotification.next(dingNotification("ding-1"));
+    monitor.stop();
+
+    const presses = logger.query({ type: "doorbell_press" });
+    expect(presses).toHaveLength(1);
+    expect(presses[0].metadata).toMatchObject({
+      dingId: "ding-1",
+      subtype: "human",
+      sources: ["doorbell", "notification"],
+      duplicateCount: 1,
+    });
+    expect(logger.summary().doorbell_press).toBe(1);
+    expect(received).toEqual(["doorbell_press"]);
+  });
+
+  it("keeps presses with different ding IDs as separate events", async () => {
+    const camera = makeMockCamera();
+    const { logger, monitor } = await startWithCamera(camera);
+
+    camera.onNewNotification.next(dingNotification("ding-1"));
+    camera.onNewNotification.next(dingNotification("ding-2"));
+    monitor.stop();
+
+    expect(logger.query({ type: "doorbell_press" })).toHaveLength(2);
+  });
+
+  it("records the motion duration when the camera reports motion ended", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      vi.setSystemTime(new Date("2025-01-15T12:00:00.000Z"));
+      const camera = makeMockCamera();
+      const { logger, monitor } = await startWithCamera(camera);
+
+      camera.onMotionDetected.next(true);
+      vi.setSystemTime(new Date("2025-01-15T12:00:45.000Z"));
+      camera.onMotionDetected.next(false);
+      monitor.stop();
+
+      expect(logger.query({ type: "motion" })[0].durationSec).toBe(45);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("records every report when deduplication is disabled", async () => {
+    const camera = makeMockCamera();
+    const { logger, monitor } = await startWithCamera(camera, { dedupWindowSec: 0 });
+
+    camera.onDoorbellPressed.next({ data: { event: { ding: { id: "ding-1" } } } });
+    camera.onNewNotification.next(dingNotification("ding-1"));
+    monitor.stop();
+
+    expect(logger.query({ type: "doorbell_press" })).toHaveLength(2);
+  });
 });
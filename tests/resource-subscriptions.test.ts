@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  ResourceSubscriptions,
+  isRingResourceUri,
+  locationIdOf,
+  locationUri,
+  resourcesChangedBy,
+} from "../src/server/resource-subscriptions.js";
+import type { RingEvent } from "../src/types/index.js";
+
+function makeEvent(overrides: Partial<RingEvent> = {}): RingEvent {
+  return {
+    id: "evt-1",
+    timestamp: "2025-01-15T12:00:00.000Z",
+    type: "motion",
+    deviceId: "cam-1",
+    deviceName: "Front Door",
+    locationId: "loc-1",
+    locationName: "Home",
+    metadata: {},
+    ...overrides,
+  };
+}
+
+describe("resourcesChangedBy", () => {
+  it("updates recent events for every event", () => {
+    expect(resourcesChangedBy(makeEvent())).toEqual(["ring://events/recent"]);
+  });
+
+  it("updates devices and the location for state changes", () => {
+    expect(resourcesChangedBy(makeEvent({ type: "lock_unlocked" }))).toEqual([
+      "ring://events/recent",
+      "ring://devices",
+      "ring://locations/loc-1",
+    ]);
+  });
+});
+
+describe("ResourceSubscriptions", () => {
+  it("notifies only subscribed resources", () => {
+    const notify = vi.fn(async () => {});
+    const subscriptions = new ResourceSubscriptions(notify);
+    subscriptions.subscribe("ring://devices");
+
+    subscriptions.handleEvent(makeEvent());
+    expect(notify).not.toHaveBeenCalled();
+
+    subscriptions.handleEvent(makeEvent({ type: "device_offline" }));
+    expect(notify).toHaveBeenCalledWith("ring://devices");
+
+    expect(subscriptions.unsubscribe("ring://devices")).toBe(true);
+    subscriptions.handleEvent(makeEvent({ type: "device_offline" }));
+    expect(notify).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects unknown resources", () => {
+    const subscriptions = new ResourceSubscriptions(async () => {});
+
+    expect(() => subscriptions.subscribe("ring://cameras")).toThrow("Unknown resource");
+    expect(isRingResourceUri(locationUri("loc 1"))).toBe(true);
+    expect(subscriptions.size).toBe(0);
+  });
+
+  it("limits subscriptions and notifications to the access profile", () => {
+    const notify = vi.fn(async () => {});
+    const subscriptions = new ResourceSubscriptions(notify, {
+      offers: (uri) => uri !== "ring://devices",
+      allowsLocation: (id) => id === "loc-1",
+      allowsDevice: (device) => device.id === "cam-1" && device.locationId === "loc-1",
+    });
+
+    expect(() => subscriptions.subscribe("ring://devices")).toThrow("Access denied");
+    expect(() => subscriptions.subscribe(locationUri("loc-2"))).toThrow("Access denied");
+    subscriptions.subscribe(locationUri("loc-1"));
+    subscriptions.subscribe("ring://events/recent");
+
+    subscriptions.handleEvent(makeEvent({ deviceId: "cam-2" }));
+    expect(notify).not.toHaveBeenCalled();
+
+    subscriptions.handleEvent(makeEvent({ type: "lock_unlocked" }));
+    expect(notify.mock.calls).toEqual([["ring://events/recent"], ["ring://locations/loc-1"]]);
+  });
+});
+
+describe("locationIdOf", () => {
+  it("decodes the location ID of a location URI", () => {
+    expect(locationIdOf(locationUri("loc 1"))).toBe("loc 1");
+    expect(locationIdOf("ring://devices")).toBeNull();
+  });
+});
@@ -41,6 +41,63 @@ describe("RoutineLogger", () => {
     expect(actions).not.toContain("a");
   });
 
+  describe("execution lifecycle", () => {
+    const start = { action: "turn_light_on", deviceId: "cam-1", locationId: "loc-1", locationName: "Home", parameters: {} };
+
+    it("starts pending and records the outcome and duration on finish", () => {
+      const entry = logger.start({ ...start, timestamp: "2025-01-15T10:00:00.000Z" });
+      expect(entry).toMatchObject({ result: "pending", correlationId: entry.id });
+      expect(entry.finishedAt).toBeUndefined();
+
+      const finished = logger.finish(
+        entry.id,
+        { result: "success", parameters: { previousValue: false } },
+        new Date("2025-01-15T10:00:01.250Z")
+      );
+
+      expect(finished).toMatchObject({
+        result: "success",
+        finishedAt: "2025-01-15T10:00:01.250Z",
+        durationMs: 1250,
+        parameters: { previousValue: false },
+      });
+      expect(logger.get(entry.id)).toEqual(finished);
+      expect(logger.size).toBe(1);
+    });
+
+    it("finishes an execution only once", () => {
+      const entry = logger.start(start);
+      logger.finish(entry.id, { result: "failure", error: "Camera offline" });
+
+      expect(() => logger.finish(entry.id, { result: "success" })).toThrow("already finished");
+      expect(() => logger.finish("missing", { result: "success" })).toThrow("Routine not found");
+    });
+
+    it("gives steps the correlation ID of their top-level execution", () => {
+      const scene = logger.start({ ...start, action: "scene_run" });
+      const alarm = logger.start({ ...start, action: "arm_home", parentId: scene.id });
+      const nested = logger.log({ ...start, parentId: alarm.id, result: "success" });
+
+      expect(alarm.correlationId).toBe(scene.id);
+      expect(nested.correlationId).toBe(scene.id);
+      expect(nested).toMatchObject({ finishedAt: nested.timestamp, durationMs: 0 });
+    });
+
+    it("returns executions with their steps, matching on any step", () => {
+      const scene = logger.start({ ...start, action: "scene_run", timestamp: "2025-01-15T10:00:00Z" });
+      logger.log({ ...start, deviceId: "light-1", parentId: scene.id, timestamp: "2025-01-15T10:00:01Z", result: "success" });
+      logger.log({ ...start, deviceId: "chime-1", parentId: scene.id, timestamp: "2025-01-15T10:00:02Z", result: "success" });
+      logger.log({ ...start, deviceId: "lock-1", timestamp: "2025-01-15T11:00:00Z", result: "success" });
+
+      const [execution] = logger.queryExecutions({ deviceId: "chime-1" });
+      expect(execution.id).toBe(scene.id);
+      expect(execution.steps.map((s) => s.deviceId)).toEqual(["light-1", "chime-1"]);
+
+      expect(logger.queryExecutions().map((e) => e.deviceId)).toEqual(["lock-1", "cam-1"]);
+      expect(logger.queryExecutions({ correlationId: scene.id })).toHaveLength(1);
+    });
+  });
+
   describe("query", () => {
     beforeEach(() => {
       logger.log({
@@ -5,8 +5,9 @@ import type { RingDatabase } from "../src/storage/database.js";
 import type { RoutineLogEntry } from "../src/types/index.js";
 
 function makeEntry(overrides: Partial<RoutineLogEntry> = {}): RoutineLogEntry {
+  const id = overrides.id ?? `r-${Math.random().toString(36).slice(2, 8)}`;
   return {
-    id: overrides.id ?? `r-${Math.random().toString(36).slice(2, 8)}`,
+    id,
     timestamp: overrides.timestamp ?? "2025-01-15T12:00:00Z",
     action: overrides.action ?? "turn_light_on",
     deviceId: overrides.deviceId,
@@ -16,6 +17,11 @@ function makeEntry(overrides: Partial<RoutineLogEntry> = {}): RoutineLogEntry {
     parameters: overrides.parameters ?? {},
     result: overrides.result ?? "success",
     error: overrides.error,
+    correlationId: overrides.correlationId ?? id,
+    parentId: overrides.parentId,
+    finishedAt: overrides.finishedAt,
+    durationMs: overrides.durationMs,
+    simulated: overrides.simulated,
   };
 }
 
@@ -87,6 +93,31 @@ describe("RoutineStore", () => {
     expect(actions).not.toContain("a");
   });
 
+  it("records the outcome of a pending entry in place", () => {
+    store.insert(makeEntry({ id: "r1", result: "pending" }));
+    store.finish(
+      makeEntry({ id: "r1", result: "failure", error: "Offline", finishedAt: "2025-01-15T12:00:02Z", durationMs: 2000 })
+    );
+
+    expect(store.size).toBe(1);
+    expect(store.get("r1")).toMatchObject({
+      result: "failure",
+      error: "Offline",
+      finishedAt: "2025-01-15T12:00:02Z",
+      durationMs: 2000,
+    });
+  });
+
+  it("marks and filters simulated entries", () => {
+    store.insert(makeEntry({ id: "real" }));
+    store.insert(makeEntry({ id: "dry", simulated: true }));
+
+    expect(store.get("dry")?.simulated).toBe(true);
+    expect(store.get("real")?.simulated).toBeUndefined();
+    expect(store.query({ simulated: true }).map((e) => e.id)).toEqual(["dry"]);
+    expect(store.query({ simulated: false }).map((e) => e.id)).toEqual(["real"]);
+  });
+
   describe("query filters", () => {
     beforeEach(() => {
       store.insert(makeEntry({ id: "r1", timestamp: "2025-01-15T10:00:00Z", action: "turn_light_on", deviceId: "cam-1", result: "success" }));
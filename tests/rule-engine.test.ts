@@ -0,0 +1,302 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { MAX_RULE_CHAIN_DEPTH, RuleEngine, inTimeWindow } from "../src/automation/rule-engine.js";
+import type { RuleActionHandler } from "../src/automation/rule-engine.js";
+import { RoutineLogger } from "../src/logging/routine-logger.js";
+import { createTestRoutineStore, createTestRuleStore } from "./helpers/test-db.js";
+import type { AlarmMode, RingEvent } from "../src/types/index.js";
+
+function makeEvent(overrides: Partial<RingEvent> = {}): RingEvent {
+  return {
+    id: "evt-1",
+    timestamp: "2025-01-15T21:30:00.000Z",
+    deviceId: "cam-1",
+    deviceName: "Front Door",
+    locationId: "loc-1",
+    locationName: "Home",
+    type: "doorbell_press",
+    metadata: {},
+    ...overrides,
+  };
+}
+
+function makeHandler(alarmMode: AlarmMode = "none", eventCount = 1) {
+  return {
+    getAlarmMode: vi.fn(async () => alarmMode),
+    countEvents: vi.fn(() => eventCount),
+    controlDevice: vi.fn(async (command) => ({ success: true, action: command.action })),
+    setAlarmMode: vi.fn(async (locationId, action) => ({
+      success: true,
+      locationId,
+      action,
+      faultedSensors: [],
+      bypassedSensorIds: [],
+    })),
+    deliverWebhook: vi.fn(() => "delivery-1"),
+  } satisfies RuleActionHandler;
+}
+
+const LIGHT_ON = {
+  type: "device_command" as const,
+  command: { deviceId: "light-1", action: "turn_light_on" as const },
+};
+
+describe("RuleEngine", () => {
+  let routineLogger: RoutineLogger;
+  let handler: ReturnType<typeof makeHandler>;
+  let engine: RuleEngine;
+
+  function createEngine(h = makeHandler()) {
+    handler = h;
+    engine = new RuleEngine(createTestRuleStore().store, routineLogger, handler);
+  }
+
+  beforeEach(() => {
+    routineLogger = new RoutineLogger(createTestRoutineStore());
+    createEngine();
+  });
+
+  it("runs actions for matching events and logs the firing against the event", async () => {
+    const rule = engine.createRule({
+      name: "Porch light on doorbell",
+      trigger: { types: ["doorbell_press"], deviceId: "cam-1" },
+      actions: [LIGHT_ON, { type: "webhook", webhookId: "wh-1" }],
+    });
+
+    const [firing] = await engine.handleEvent(makeEvent());
+
+    expect(handler.controlDevice).toHaveBeenCalledWith(LIGHT_ON.command, {
+      source: "rule",
+      ruleId: rule.id,
+      eventId: "evt-1",
+      parentRoutineId: firing.routineId,
+    });
+    expect(handler.deliverWebhook).toHaveBeenCalledWith("wh-1", makeEvent());
+    expect(firing).toMatchObject({ ruleId: rule.id, eventId: "evt-1", success: true });
+
+    const [entry] = routineLogger.query({ action: "rule_fired" });
+    expect(entry.id).toBe(firing.routineId);
+    expect(entry.result).toBe("success");
+    expect(entry.parameters).toMatchObject({
+      ruleId: rule.id,
+      ruleName: "Porch light on doorbell",
+      eventId: "evt-1",
+      eventType: "doorbell_press",
+    });
+    expect(engine.getRule(rule.id)?.lastFiredAt).toBeDefined();
+  });
+
+  it("ignores events that do not match the trigger and disabled rules", async () => {
+    engine.createRule({ name: "Doorbell", trigger: { types: ["doorbell_press"] }, actions: [LIGHT_ON] });
+    engine.createRule({ name: "Disabled", trigger: {}, actions: [LIGHT_ON], enabled: false });
+
+    expect(await engine.handleEvent(makeEvent({ type: "motion" }))).toEqual([]);
+    expect(handler.controlDevice).not.toHaveBeenCalled();
+  });
+
+  it("keeps running actions after one fails and records the failure", async () => {
+    handler.controlDevice.mockRejectedValueOnce(new Error("Light not found: light-1"));
+    engine.createRule({
+      name: "Light and alarm",
+      trigger: {},
+      actions: [LIGHT_ON, { type: "alarm", action: "arm_away" }],
+    });
+
+    const [firing] = await engine.handleEvent(makeEvent());
+
+    expect(handler.setAlarmMode).toHaveBeenCalledWith(
+      "loc-1",
+      "arm_away",
+      { bypassSensorIds: undefined },
+      expect.objectContaining({ eventId: "evt-1" })
+    );
+    expect(firing.success).toBe(false);
+    expect(firing.actions.map((a) => a.success)).toEqual([false, true]);
+
+    const [entry] = routineLogger.query({ action: "rule_fired" });
+    expect(entry.result).toBe("failure");
+    expect(entry.error).toBe("device_command: Light not found: light-1");
+  });
+
+  it("links firings caused by a rule's commands and stops rules triggering each other", async () => {
+    // Each rule switches the light the other one watches
+    engine.createRule({
+      name: "A",
+      trigger: { types: ["light_on"], deviceId: "light-1" },
+      actions: [{ type: "device_command", command: { deviceId: "light-2", action: "turn_light_on" } }],
+    });
+    engine.createRule({
+      name: "B",
+      trigger: { types: ["light_on"], deviceId: "light-2" },
+      actions: [{ type: "device_command", command: { deviceId: "light-1", action: "turn_light_on" } }],
+    });
+
+    const firings = [];
+    let event = makeEvent({ id: "evt-0", deviceId: "light-1", type: "light_on" });
+    for (let i = 1; i <= MAX_RULE_CHAIN_DEPTH + 2; i++) {
+      const [firing] = await engine.handleEvent(event);
+      if (!firing) break;
+      firings.push(firing);
+      const commanded = handler.controlDevice.mock.lastCall?.[0].deviceId as string;
+      event = makeEvent({ id: `evt-${i}`, deviceId: commanded, type: "light_on" });
+    }
+
+    expect(firings).toHaveLength(MAX_RULE_CHAIN_DEPTH);
+    const entries = firings.map((f) => routineLogger.get(f.routineId)!);
+    expect(entries[0].parentId).toBeUndefined();
+    expect(entries[1].parentId).toBe(entries[0].id);
+    expect(new Set(entries.map((e) => e.correlationId)).size).toBe(1);
+    expect(entries[MAX_RULE_CHAIN_DEPTH - 1].parameters.chainDepth).toBe(MAX_RULE_CHAIN_DEPTH);
+
+    const [limit] = routineLogger.query({ action: "rule_chain_limit" });
+    expect(limit).toMatchObject({ result: "failure", parentId: entries[MAX_RULE_CHAIN_DEPTH - 1].id });
+  });
+
+  it("does not chain events from devices no rule commanded", async () => {
+    engine.createRule({ name: "Porch light", trigger: { types: ["doorbell_press"] }, actions: [LIGHT_ON] });
+
+    for (let i = 0; i < MAX_RULE_CHAIN_DEPTH + 1; i++) {
+      expect(await engine.handleEvent(makeEvent({ id: `evt-${i}` }))).toHaveLength(1);
+    }
+    expect(routineLogger.query({ action: "rule_fired" }).every((e) => e.parentId === undefined)).toBe(true);
+  });
+
+  it("chains only the first event of the type a command produces", async () => {
+    engine.createRule({ name: "Porch light", trigger: { types: ["doorbell_press"] }, actions: [LIGHT_ON] });
+    const watcher = engine.createRule({
+      name: "Light watcher",
+      trigger: { deviceId: "light-1" },
+      actions: [{ type: "webhook", webhookId: "wh-1" }],
+    });
+    const [porch] = await engine.handleEvent(makeEvent());
+
+    // Real motion at the light is not what turning it on produces
+    await engine.handleEvent(makeEvent({ id: "evt-2", deviceId: "light-1", type: "motion" }));
+    await engine.handleEvent(makeEvent({ id: "evt-3", deviceId: "light-1", type: "light_on" }));
+    await engine.handleEvent(makeEvent({ id: "evt-4", deviceId: "light-1", type: "light_on" }));
+
+    const parents = Object.fromEntries(
+      routineLogger
+        .query({ action: "rule_fired" })
+        .filter((e) => e.parameters.ruleId === watcher.id)
+        .map((e) => [e.parameters.eventId, e.parentId])
+    );
+    expect(parents).toEqual({ "evt-2": undefined, "evt-3": porch.routineId, "evt-4": undefined });
+  });
+
+  it("records events a rule skips while it is still running", async () => {
+    let finish!: () => void;
+    handler.controlDevice.mockImplementationOnce(
+      (command) => new Promise((resolve) => (finish = () => resolve({ success: true, action: command.action })))
+    );
+    const rule = engine.createRule({ name: "Any light", trigger: { types: ["light_on"] }, actions: [LIGHT_ON] });
+
+    const first = engine.handleEvent(makeEvent({ id: "evt-1", deviceId: "light-2", type: "light_on" }));
+    await vi.waitFor(() => expect(handler.controlDevice).toHaveBeenCalled());
+    expect(await engine.handleEvent(makeEvent({ id: "evt-2", deviceId: "light-1", type: "light_on" }))).toEqual([]);
+    finish();
+    const [firing] = await first;
+
+    const [skipped] = routineLogger.query({ action: "rule_skipped" });
+    expect(skipped).toMatchObject({
+      result: "failure",
+      parentId: firing.routineId,
+      parameters: { ruleId: rule.id, eventId: "evt-2", reason: "still_running" },
+    });
+  });
+
+  describe("conditions", () => {
+    it("only fires inside the time window", async () => {
+      engine.createRule({
+        name: "Night only",
+        trigger: {},
+        conditions: { timeWindow: { start: "20:00", end: "06:00", timeZone: "UTC" } },
+        actions: [LIGHT_ON],
+      });
+
+      expect(await engine.handleEvent(makeEvent({ timestamp: "2025-01-15T12:00:00.000Z" }))).toHaveLength(0);
+      expect(await engine.handleEvent(makeEvent({ timestamp: "2025-01-15T21:30:00.000Z" }))).toHaveLength(1);
+      expect(await engine.handleEvent(makeEvent({ timestamp: "2025-01-16T05:59:00.000Z" }))).toHaveLength(1);
+    });
+
+    it("only fires in the listed alarm modes", async () => {
+      createEngine(makeHandler("some"));
+      engine.createRule({ name: "Away only", trigger: {}, conditions: { alarmModes: ["all"] }, actions: [LIGHT_ON] });
+      engine.createRule({ name: "Home or away", trigger: {}, conditions: { alarmModes: ["all", "some"] }, actions: [LIGHT_ON] });
+
+      const firings = await engine.handleEvent(makeEvent());
+
+      expect(firings.map((f) => f.ruleName)).toEqual(["Home or away"]);
+      expect(handler.getAlarmMode).toHaveBeenCalledWith("loc-1");
+    });
+
+    it("counts recent events over the window, defaulting to the trigger filter", async () => {
+      createEngine(makeHandler("none", 2));
+      engine.createRule({
+        name: "Repeated motion",
+        trigger: { types: ["motion"], deviceId: "cam-1" },
+        conditions: { recentEvents: { windowSec: 300, minCount: 3 } },
+        actions: [LIGHT_ON],
+      });
+
+      expect(await engine.handleEvent(makeEvent({ type: "motion" }))).toHaveLength(0);
+      expect(handler.countEvents).toHaveBeenCalledWith(
+        { types: ["motion"], deviceId: "cam-1" },
+        "2025-01-15T21:25:00.000Z",
+        "2025-01-15T21:30:00.000Z"
+      );
+
+      handler.countEvents.mockReturnValue(3);
+      expect(await engine.handleEvent(makeEvent({ type: "motion" }))).toHaveLength(1);
+    });
+  });
+
+  describe("rule management", () => {
+    it("validates rules", () => {
+      expect(() => engine.createRule({ name: "", trigger: {}, actions: [LIGHT_ON] })).toThrow("name");
+      expect(() => engine.createRule({ name: "No actions", trigger: {}, actions: [] })).toThrow("at least one action");
+      expect(() =>
+        engine.createRule({
+          name: "Bad window",
+          trigger: {},
+          conditions: { timeWindow: { start: "25:00", end: "06:00" } },
+          actions: [LIGHT_ON],
+        })
+      ).toThrow("Invalid time of day");
+      expect(() =>
+        engine.createRule({
+          name: "Bad count",
+          trigger: {},
+          conditions: { recentEvents: { windowSec: 60 } },
+          actions: [LIGHT_ON],
+        })
+      ).toThrow("minCount or maxCount");
+    });
+
+    it("updates and deletes rules", async () => {
+      const rule = engine.createRule({ name: "Doorbell", trigger: {}, actions: [LIGHT_ON] });
+
+      const updated = engine.updateRule(rule.id, { enabled: false });
+      expect(updated.enabled).toBe(false);
+      expect(await engine.handleEvent(makeEvent())).toHaveLength(0);
+
+      expect(() => engine.updateRule("missing", { enabled: true })).toThrow("Rule not found");
+      expect(engine.deleteRule(rule.id)).toBe(true);
+      expect(engine.listRules()).toEqual([]);
+    });
+  });
+});
+
+describe("inTimeWindow", () => {
+  it("treats the start as inclusive and the end as exclusive", () => {
+    const window = { start: "08:00", end: "17:00", timeZone: "UTC" };
+    expect(inTimeWindow(new Date("2025-01-15T08:00:00Z"), window)).toBe(true);
+    expect(inTimeWindow(new Date("2025-01-15T17:00:00Z"), window)).toBe(false);
+  });
+
+  it("evaluates the window in the given time zone", () => {
+    const window = { start: "08:00", end: "17:00", timeZone: "America/New_York" };
+    // 14:00 UTC is 09:00 in New York in January
+    expect(inTimeWindow(new Date("2025-01-15T14:00:00Z"), window)).toBe(true);
+    expect(inTimeWindow(new Date("2025-01-15T23:00:00Z"), window)).toBe(false);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { RuleStore } from "../src/storage/rule-store.js";
+import { createTestRuleStore } from "./helpers/test-db.js";
+import type { Rule } from "../src/types/index.js";
+
+function makeRule(overrides: Partial<Rule> = {}): Rule {
+  return {
+    id: "rule-1",
+    name: "Porch light on doorbell",
+    enabled: true,
+    trigger: { types: ["doorbell_press"], deviceId: "cam-1" },
+    conditions: { timeWindow: { start: "20:00", end: "06:00" } },
+    actions: [{ type: "device_command", command: { deviceId: "light-1", action: "turn_light_on" } }],
+    createdAt: "2025-01-15T12:00:00.000Z",
+    updatedAt: "2025-01-15T12:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("RuleStore", () => {
+  let store: RuleStore;
+
+  beforeEach(() => {
+    store = createTestRuleStore().store;
+  });
+
+  it("round-trips rules", () => {
+    store.save(makeRule());
+    expect(store.get("rule-1")).toEqual(makeRule());
+    expect(store.get("missing")).toBeNull();
+  });
+
+  it("replaces a rule saved with the same ID", () => {
+    store.save(makeRule());
+    store.save(makeRule({ name: "Renamed", conditions: undefined }));
+
+    expect(store.size).toBe(1);
+    expect(store.get("rule-1")).toMatchObject({ name: "Renamed", conditions: undefined });
+  });
+
+  it("lists all or only enabled rules, oldest first", () => {
+    store.save(makeRule({ id: "b", createdAt: "2025-01-15T13:00:00.000Z" }));
+    store.save(makeRule({ id: "a", enabled: false }));
+
+    expect(store.list().map((r) => r.id)).toEqual(["a", "b"]);
+    expect(store.list({ enabledOnly: true }).map((r) => r.id)).toEqual(["b"]);
+  });
+
+  it("records when a rule last fired", () => {
+    store.save(makeRule());
+    store.markFired("rule-1", "2025-01-15T21:00:00.000Z");
+
+    expect(store.get("rule-1")?.lastFiredAt).toBe("2025-01-15T21:00:00.000Z");
+  });
+
+  it("deletes rules", () => {
+    store.save(makeRule());
+    expect(store.delete("rule-1")).toBe(true);
+    expect(store.delete("rule-1")).toBe(false);
+    expect(store.size).toBe(0);
+  });
+});
@@ -0,0 +1,263 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { SceneRunner, rollbackStep } from "../src/automation/scene-runner.js";
+import type { SceneStepHandler } from "../src/automation/scene-runner.js";
+import { RoutineLogger } from "../src/logging/routine-logger.js";
+import { ActionPolicy } from "../src/policy/action-policy.js";
+import { createTestRoutineStore, createTestSceneStore } from "./helpers/test-db.js";
+import type { AlarmMode, DeviceCommand, RingDeviceInfo, SceneStep } from "../src/types/index.js";
+
+function makeHandler(alarmMode: AlarmMode = "none", lightOn = true) {
+  return {
+    getDevice: vi.fn(async (deviceId: string) => ({ id: deviceId, lightState: { on: lightOn } }) as RingDeviceInfo),
+    getAlarmState: vi.fn(async () => ({ mode: alarmMode, bypassedSensorIds: [] as string[] })),
+    authorizeRollback: vi.fn(async (_step: SceneStep) => {}),
+    controlDevice: vi.fn(async (command: DeviceCommand) => ({
+      success: true,
+      action: command.action,
+      previousValue: command.action === "set_volume" ? 8 : undefined,
+    })),
+    setAlarmMode: vi.fn(async (locationId, action) => ({
+      success: true,
+      locationId,
+      action,
+      faultedSensors: [],
+      bypassedSensorIds: [],
+    })),
+  } satisfies SceneStepHandler;
+}
+
+const ARM_HOME = { type: "alarm" as const, locationId: "loc-1", action: "arm_home" as const };
+const LIGHT_OFF = {
+  type: "device_command" as const,
+  command: { deviceId: "light-1", action: "turn_light_off" as const },
+};
+const CHIME_LOW = {
+  type: "device_command" as const,
+  command: { deviceId: "chime-1", action: "set_volume" as const, parameters: { volume: 2 } },
+};
+
+describe("SceneRunner", () => {
+  let routineLogger: RoutineLogger;
+  let handler: ReturnType<typeof makeHandler>;
+  let runner: SceneRunner;
+
+  beforeEach(() => {
+    routineLogger = new RoutineLogger(createTestRoutineStore());
+    handler = makeHandler();
+    runner = new SceneRunner(createTestSceneStore().store, routineLogger, handler);
+  });
+
+  it("runs steps in order and logs one parent entry referenced by each command", async () => {
+    const scene = runner.createScene({ name: "Night mode", steps: [ARM_HOME, LIGHT_OFF, CHIME_LOW] });
+
+    const result = await runner.runScene(scene.id);
+
+    expect(result).toMatchObject({ sceneId: scene.id, success: true, rolledBack: false });
+    expect(result.steps.map((s) => s.status)).toEqual(["succeeded", "succeeded", "succeeded"]);
+
+    const origin = { source: "scene", sceneId: scene.id, parentRoutineId: result.routineId };
+    expect(handler.setAlarmMode).toHaveBeenCalledWith("loc-1", "arm_home", { bypassSensorIds: undefined }, origin);
+    expect(handler.controlDevice.mock.calls).toEqual([
+      [LIGHT_OFF.command, origin, { dryRun: undefined }],
+      [CHIME_LOW.command, origin, { dryRun: undefined }],
+    ]);
+
+    const [entry] = routineLogger.query({ action: "scene_run" });
+    expect(entry.id).toBe(result.routineId);
+    expect(entry.result).toBe("success");
+    expect(entry.parameters).toMatchObject({ sceneId: scene.id, sceneName: "Night mode", rolledBack: false });
+    expect(runner.getScene(scene.id)?.lastRunAt).toBeDefined();
+  });
+
+  it("keeps running after a failure when rollback is off", async () => {
+    handler.controlDevice.mockRejectedValueOnce(new Error("Light not found: light-1"));
+    const scene = runner.createScene({ name: "Night mode", steps: [ARM_HOME, LIGHT_OFF, CHIME_LOW] });
+
+    const result = await runner.runScene(scene.id);
+
+    expect(result.success).toBe(false);
+    expect(result.steps.map((s) => s.status)).toEqual(["succeeded", "failed", "succeeded"]);
+    const [entry] = routineLogger.query({ action: "scene_run" });
+    expect(entry.result).toBe("failure");
+    expect(entry.error).toBe("step 1: Light not found: light-1");
+  });
+
+  it("rolls back completed steps to their captured state, newest first", async () => {
+    const scene = runner.createScene({
+      name: "Night mode",
+      steps: [ARM_HOME, LIGHT_OFF, CHIME_LOW, { type: "device_command", command: { deviceId: "cam-1", action: "capture_snapshot" } }],
+      rollbackOnFailure: true,
+    });
+    handler.controlDevice
+      .mockResolvedValueOnce({ success: true, action: "turn_light_off", previousValue: undefined })
+      .mockResolvedValueOnce({ success: true, action: "set_volume", previousValue: 8 })
+      .mockRejectedValueOnce(new Error("Camera not found: cam-1"));
+
+    const result = await runner.runScene(scene.id);
+
+    expect(result.rolledBack).toBe(true);
+    expect(result.steps.map((s) => s.rollback)).toEqual(["rolled_back", "rolled_back", "rolled_back", undefined]);
+
+    const rollbackOrigin = { source: "scene_rollback", sceneId: scene.id, parentRoutineId: result.routineId };
+    expect(handler.controlDevice.mock.calls.slice(3)).toEqual([
+      [{ deviceId: "chime-1", action: "set_volume", parameters: { volume: 8 } }, rollbackOrigin, { dryRun: undefined }],
+      [{ deviceId: "light-1", action: "turn_light_on", parameters: undefined }, rollbackOrigin, { dryRun: undefined }],
+    ]);
+    expect(handler.setAlarmMode).toHaveBeenLastCalledWith("loc-1", "disarm", { bypassSensorIds: undefined }, rollbackOrigin);
+  });
+
+  it("re-arms over the sensors bypassed before the scene ran", async () => {
+    handler.getAlarmState.mockResolvedValueOnce({ mode: "some", bypassedSensorIds: ["window-1"] });
+    handler.controlDevice.mockRejectedValueOnce(new Error("Light not found: light-1"));
+    const scene = runner.createScene({
+      name: "Away",
+      steps: [{ ...ARM_HOME, action: "arm_away" }, LIGHT_OFF],
+      rollbackOnFailure: true,
+    });
+
+    const result = await runner.runScene(scene.id);
+
+    expect(result.steps[0].rollback).toBe("rolled_back");
+    expect(handler.setAlarmMode).toHaveBeenLastCalledWith(
+      "loc-1",
+      "arm_home",
+      { bypassSensorIds: ["window-1"] },
+      { source: "scene_rollback", sceneId: scene.id, parentRoutineId: result.routineId }
+    );
+  });
+
+  it("does not run restores the action policy would challenge", async () => {
+    const policy = new ActionPolicy(
+      { pin: "2468", rules: [{ actions: ["alarm_disarm"], effect: "pin", reason: "Disarming needs the PIN" }] },
+      routineLogger
+    );
+    handler.authorizeRollback.mockImplementation(async (step) => {
+      const request =
+        step.type === "alarm"
+          ? { action: `alarm_${step.action}`, locationId: step.locationId }
+          : { action: step.command.action, deviceId: step.command.deviceId };
+      const decision = policy.authorizeUnattended([request]);
+      if (decision.status !== "allowed") throw new Error(`Refused by action policy: ${decision.reason}`);
+    });
+    handler.controlDevice
+      .mockResolvedValueOnce({ success: true, action: "set_volume", previousValue: 8 })
+      .mockRejectedValueOnce(new Error("Light not found: light-1"));
+    const scene = runner.createScene({ name: "Night mode", steps: [ARM_HOME, CHIME_LOW, LIGHT_OFF], rollbackOnFailure: true });
+
+    const result = await runner.runScene(scene.id);
+
+    expect(result.steps.map((s) => s.rollback)).toEqual(["rollback_failed", "rolled_back", undefined]);
+    expect(result.steps[0].rollbackError).toContain("Disarming needs the PIN");
+    expect(handler.setAlarmMode).toHaveBeenCalledTimes(1);
+    expect(handler.controlDevice).toHaveBeenLastCalledWith(
+      { deviceId: "chime-1", action: "set_volume", parameters: { volume: 8 } },
+      expect.objectContaining({ source: "scene_rollback" }),
+      { dryRun: undefined }
+    );
+  });
+
+  it("stops starting steps after a failure when rolling back", async () => {
+    handler.setAlarmMode.mockRejectedValueOnce(new Error("Sensors faulted: Back Door"));
+    const scene = runner.createScene({ name: "Night mode", steps: [ARM_HOME, LIGHT_OFF], rollbackOnFailure: true });
+
+    const result = await runner.runScene(scene.id);
+
+    expect(result.steps.map((s) => s.status)).toEqual(["failed", "skipped"]);
+    expect(result.rolledBack).toBe(false);
+    expect(handler.controlDevice).not.toHaveBeenCalled();
+  });
+
+  it("passes dry runs to every step and marks the run as simulated", async () => {
+    const scene = runner.createScene({ name: "Night mode", steps: [ARM_HOME, LIGHT_OFF] });
+
+    const result = await runner.runScene(scene.id, { dryRun: true });
+
+    const origin = { source: "scene", sceneId: scene.id, parentRoutineId: result.routineId };
+    expect(handler.setAlarmMode).toHaveBeenCalledWith("loc-1", "arm_home", { bypassSensorIds: undefined, dryRun: true }, origin);
+    expect(handler.controlDevice).toHaveBeenCalledWith(LIGHT_OFF.command, origin, { dryRun: true });
+    expect(routineLogger.get(result.routineId)?.simulated).toBe(true);
+  });
+
+  it("runs up to `concurrency` steps at once", async () => {
+    let active = 0;
+    let maxActive = 0;
+    handler.controlDevice.mockImplementation(async (command: DeviceCommand) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return { success: true, action: command.action };
+    });
+    const scene = runner.createScene({ name: "Lights", steps: [LIGHT_OFF, LIGHT_OFF, LIGHT_OFF, LIGHT_OFF] });
+
+    await runner.runScene(scene.id);
+    expect(maxActive).toBe(1);
+
+    await runner.runScene(scene.id, { concurrency: 2 });
+    expect(maxActive).toBe(2);
+  });
+
+  it("validates scenes", () => {
+    expect(() => runner.createScene({ name: "", steps: [ARM_HOME] })).toThrow("name");
+    expect(() => runner.createScene({ name: "Empty", steps: [] })).toThrow("at least one step");
+    expect(() => runner.createScene({ name: "Bad", steps: [ARM_HOME], concurrency: 0 })).toThrow("concurrency");
+    expect(() => runner.updateScene("missing", { name: "x" })).toThrow("Scene not found");
+  });
+});
+
+describe("rollbackStep", () => {
+  it("restores the previous alarm mode with the sensors it bypassed", () => {
+    expect(rollbackStep(ARM_HOME, { mode: "all", bypassedSensorIds: [] })).toEqual({
+      type: "alarm",
+      locationId: "loc-1",
+      action: "arm_away",
+    });
+    expect(rollbackStep(ARM_HOME, { mode: "all", bypassedSensorIds: ["window-1"] })).toEqual({
+      type: "alarm",
+      locationId: "loc-1",
+      action: "arm_away",
+      bypassSensorIds: ["window-1"],
+    });
+    expect(rollbackStep(ARM_HOME, undefined)).toBeNull();
+  });
+
+  it("restores the siren to the state it was in", () => {
+    const siren = { type: "device_command" as const, command: { deviceId: "cam-1", action: "enable_siren" as const } };
+    expect(rollbackStep(siren, false)).toMatchObject({ command: { action: "disable_siren" } });
+    // Already sounding: it keeps sounding
+    expect(rollbackStep(siren, true)).toMatchObject({ command: { action: "enable_siren" } });
+    expect(rollbackStep(siren, undefined)).toBeNull();
+  });
+
+  it("restores previous values and leaves irreversible steps alone", () => {
+    const lock = { type: "device_command" as const, command: { deviceId: "lock-1", action: "unlock" as const } };
+    expect(rollbackStep(lock, "locked")).toMatchObject({ command: { action: "lock" } });
+    expect(rollbackStep(lock, "jammed")).toBeNull();
+    expect(rollbackStep(LIGHT_OFF, undefined)).toBeNull();
+    expect(
+      rollbackStep({ type: "device_command", command: { deviceId: "cam-1", action: "capture_snapshot" } }, undefined)
+    ).toBeNull();
+  });
+
+  it("restores privacy mode with the motion detection it replaced", () => {
+    const privacy = {
+      type: "device_command" as const,
+      command: { deviceId: "cam-1", action: "set_privacy_mode" as const, parameters: { enabled: true } },
+    };
+    expect(rollbackStep(privacy, { enabled: false, motionDetection: false })).toMatchObject({
+      command: { action: "set_privacy_mode", parameters: { enabled: false, motionDetection: false } },
+    });
+    expect(rollbackStep(privacy, { enabled: undefined })).toBeNull();
+  });
+
+  it("restores the remaining time of a replaced motion snooze", () => {
+    const snooze = {
+      type: "device_command" as const,
+      command: { deviceId: "cam-1", action: "snooze_motion_alerts" as const, parameters: { minutes: 60 } },
+    };
+    expect(rollbackStep(snooze, 0)).toMatchObject({ command: { parameters: { minutes: 0 } } });
+    expect(rollbackStep(snooze, 25)).toMatchObject({ command: { parameters: { minutes: 25 } } });
+    // Snoozed elsewhere, for an unknown time
+    expect(rollbackStep(snooze, undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { SceneStore } from "../src/storage/scene-store.js";
+import { createTestSceneStore } from "./helpers/test-db.js";
+import type { Scene } from "../src/types/index.js";
+
+function makeScene(overrides: Partial<Scene> = {}): Scene {
+  return {
+    id: "scene-1",
+    name: "Night mode",
+    description: "Arm home and lights off",
+    steps: [
+      { type: "alarm", locationId: "loc-1", action: "arm_home" },
+      { type: "device_command", command: { deviceId: "light-1", action: "turn_light_off" } },
+    ],
+    concurrency: 2,
+    rollbackOnFailure: true,
+    createdAt: "2025-01-15T12:00:00.000Z",
+    updatedAt: "2025-01-15T12:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("SceneStore", () => {
+  let store: SceneStore;
+
+  beforeEach(() => {
+    store = createTestSceneStore().store;
+  });
+
+  it("round-trips scenes with steps in order", () => {
+    store.save(makeScene());
+    expect(store.get("scene-1")).toEqual(makeScene());
+    expect(store.get("missing")).toBeNull();
+  });
+
+  it("replaces a scene saved with the same ID", () => {
+    store.save(makeScene());
+    store.save(makeScene({ name: "Renamed", description: undefined, concurrency: undefined }));
+
+    expect(store.size).toBe(1);
+    expect(store.get("scene-1")).toMatchObject({ name: "Renamed", description: undefined, concurrency: undefined });
+  });
+
+  it("lists scenes oldest first and deletes by ID", () => {
+    store.save(makeScene({ id: "b", createdAt: "2025-01-15T13:00:00.000Z" }));
+    store.save(makeScene({ id: "a" }));
+
+    expect(store.list().map((s) => s.id)).toEqual(["a", "b"]);
+    expect(store.delete("a")).toBe(true);
+    expect(store.delete("a")).toBe(false);
+  });
+
+  it("records when a scene last ran", () => {
+    store.save(makeScene());
+    store.markRun("scene-1", "2025-01-15T22:00:00.000Z");
+
+    expect(store.get("scene-1")?.lastRunAt).toBe("2025-01-15T22:00:00.000Z");
+  });
+});
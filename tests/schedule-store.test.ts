@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { ScheduleStore } from "../src/storage/schedule-store.js";
+import { createTestScheduleStore } from "./helpers/test-db.js";
+import type { Schedule } from "../src/types/index.js";
+
+function makeSchedule(overrides: Partial<Schedule> = {}): Schedule {
+  return {
+    id: "sched-1",
+    name: "Nightly arm",
+    enabled: true,
+    trigger: { type: "cron", expression: "0 23 * * *", timeZone: "UTC" },
+    actions: [{ type: "alarm", locationId: "loc-1", action: "arm_away" }],
+    catchUp: "run_once",
+    catchUpWindowMinutes: 120,
+    nextRunAt: "2025-01-15T23:00:00.000Z",
+    createdAt: "2025-01-15T12:00:00.000Z",
+    updatedAt: "2025-01-15T12:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("ScheduleStore", () => {
+  let store: ScheduleStore;
+
+  beforeEach(() => {
+    store = createTestScheduleStore().store;
+  });
+
+  it("round-trips schedules", () => {
+    const schedule = makeSchedule({
+      trigger: { type: "sun", event: "sunset", offsetMinutes: -15, daysOfWeek: [1, 2] },
+      endActions: [{ type: "device_command", command: { deviceId: "light-1", action: "turn_light_off" } }],
+      durationMinutes: 240,
+      endAt: "2025-01-16T03:00:00.000Z",
+      lastRunAt: "2025-01-15T23:00:00.000Z",
+    });
+    store.save(schedule);
+
+    expect(store.get("sched-1")).toEqual(schedule);
+    expect(store.get("missing")).toBeNull();
+  });
+
+  it("replaces a schedule saved with the same ID and deletes by ID", () => {
+    store.save(makeSchedule());
+    store.save(makeSchedule({ name: "Renamed", nextRunAt: undefined }));
+
+    expect(store.size).toBe(1);
+    expect(store.get("sched-1")).toMatchObject({ name: "Renamed", nextRunAt: undefined });
+    expect(store.delete("sched-1")).toBe(true);
+    expect(store.delete("sched-1")).toBe(false);
+  });
+
+  it("returns enabled schedules that are due, earliest first", () => {
+    store.save(makeSchedule({ id: "later", nextRunAt: "2025-01-15T23:30:00.000Z" }));
+    store.save(makeSchedule({ id: "earlier", nextRunAt: "2025-01-15T22:00:00.000Z" }));
+    store.save(makeSchedule({ id: "future", nextRunAt: "2025-01-16T23:00:00.000Z" }));
+    store.save(makeSchedule({ id: "paused", enabled: false }));
+
+    expect(store.due("2025-01-15T23:30:00.000Z").map((s) => s.id)).toEqual(["earlier", "later"]);
+  });
+
+  it("returns due end actions even for paused schedules", () => {
+    store.save(makeSchedule({ id: "a", enabled: false, endAt: "2025-01-16T01:00:00.000Z" }));
+    store.save(makeSchedule({ id: "b", endAt: "2025-01-16T05:00:00.000Z" }));
+
+    expect(store.endDue("2025-01-16T02:00:00.000Z").map((s) => s.id)).toEqual(["a"]);
+  });
+});
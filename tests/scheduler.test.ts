@@ -0,0 +1,282 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { Scheduler } from "../src/automation/scheduler.js";
+import type { ScheduleActionHandler } from "../src/automation/scheduler.js";
+import { RoutineLogger } from "../src/logging/routine-logger.js";
+import { ScheduleStore } from "../src/storage/schedule-store.js";
+import { createTestRoutineStore, createTestScheduleStore } from "./helpers/test-db.js";
+
+function makeHandler() {
+  return {
+    controlDevice: vi.fn(async (command) => ({ success: true, action: command.action })),
+    setAlarmMode: vi.fn(async (locationId, action) => ({
+      success: true,
+      locationId,
+      action,
+      faultedSensors: [],
+      bypassedSensorIds: [],
+    })),
+  } satisfies ScheduleActionHandler;
+}
+
+const LIGHT_ON = {
+  type: "device_command" as const,
+  command: { deviceId: "light-1", action: "turn_light_on" as const },
+};
+const LIGHT_OFF = {
+  type: "device_command" as const,
+  command: { deviceId: "light-1", action: "turn_light_off" as const },
+};
+const ARM_AWAY = { type: "alarm" as const, locationId: "loc-1", action: "arm_away" as const };
+const NIGHTLY = { type: "cron" as const, expression: "0 23 * * *", timeZone: "UTC" };
+
+const at = (iso: string) => new Date(iso);
+
+describe("Scheduler", () => {
+  let store: ScheduleStore;
+  let routineLogger: RoutineLogger;
+  let handler: ReturnType<typeof makeHandler>;
+  let scheduler: Scheduler;
+
+  beforeEach(() => {
+    store = createTestScheduleStore().store;
+    routineLogger = new RoutineLogger(createTestRoutineStore());
+    handler = makeHandler();
+    scheduler = new Scheduler(store, routineLogger, handler, { latitude: 40.7128, longitude: -74.006, timeZone: "UTC" });
+  });
+
+  it("computes the next run when a schedule is created", () => {
+    const schedule = scheduler.createSchedule({ name: "Nightly arm", trigger: NIGHTLY, actions: [ARM_AWAY] }, at("2025-01-15T12:00:00Z"));
+
+    expect(schedule).toMatchObject({ enabled: true, catchUp: "skip", nextRunAt: "2025-01-15T23:00:00.000Z" });
+    expect(scheduler.getSchedule(schedule.id)).toEqual(schedule);
+  });
+
+  it("runs due schedules through the handler and logs the run", async () => {
+    const schedule = scheduler.createSchedule({ name: "Nightly arm", trigger: NIGHTLY, actions: [ARM_AWAY] }, at("2025-01-15T12:00:00Z"));
+
+    await scheduler.tick(at("2025-01-15T22:59:00Z"));
+    expect(handler.setAlarmMode).not.toHaveBeenCalled();
+
+    await scheduler.tick(at("2025-01-15T23:00:10Z"));
+    expect(handler.setAlarmMode).toHaveBeenCalledWith(
+      "loc-1",
+      "arm_away",
+      { bypassSensorIds: undefined },
+      { source: "schedule", scheduleId: schedule.id, parentRoutineId: expect.any(String) }
+    );
+    expect(scheduler.getSchedule(schedule.id)).toMatchObject({
+      lastRunAt: "2025-01-15T23:00:10.000Z",
+      nextRunAt: "2025-01-16T23:00:00.000Z",
+    });
+
+    const [entry] = routineLogger.query({ action: "schedule_run" });
+    expect(entry.result).toBe("success");
+    expect(entry.locationId).toBe("loc-1");
+    expect(entry.parameters).toMatchObject({
+      scheduleId: schedule.id,
+      scheduleName: "Nightly arm",
+      phase: "start",
+      scheduledFor: "2025-01-15T23:00:00.000Z",
+    });
+  });
+
+  it("runs end actions after the duration, even once paused", async () => {
+    const schedule = scheduler.createSchedule(
+      { name: "Evening light", trigger: NIGHTLY, actions: [LIGHT_ON], endActions: [LIGHT_OFF], durationMinutes: 120 },
+      at("2025-01-15T12:00:00Z")
+    );
+
+    await scheduler.tick(at("2025-01-15T23:00:00Z"));
+    expect(scheduler.getSchedule(schedule.id)?.endAt).toBe("2025-01-16T01:00:00.000Z");
+
+    scheduler.pauseSchedule(schedule.id, at("2025-01-15T23:30:00Z"));
+    await scheduler.tick(at("2025-01-16T01:00:00Z"));
+
+    expect(handler.controlDevice).toHaveBeenLastCalledWith(LIGHT_OFF.command, {
+      source: "schedule",
+      scheduleId: schedule.id,
+      parentRoutineId: expect.any(String),
+    });
+    expect(scheduler.getSchedule(schedule.id)?.endAt).toBeUndefined();
+    expect(routineLogger.query({ action: "schedule_run" }).map((e) => e.parameters.phase).sort()).toEqual([
+      "end",
+      "start",
+    ]);
+  });
+
+  it("records failed actions without stopping the rest", async () => {
+    handler.controlDevice.mockRejectedValueOnce(new Error("Light not found: light-1"));
+    scheduler.createSchedule({ name: "Both", trigger: NIGHTLY, actions: [LIGHT_ON, ARM_AWAY] }, at("2025-01-15T12:00:00Z"));
+
+    await scheduler.tick(at("2025-01-15T23:00:00Z"));
+
+    expect(handler.setAlarmMode).toHaveBeenCalled();
+    const [entry] = routineLogger.query({ action: "schedule_run" });
+    expect(entry.result).toBe("failure");
+    expect(entry.error).toBe("device_command: Light not found: light-1");
+  });
+
+  it("keeps a pause or delete made while the actions run", async () => {
+    const paused = scheduler.createSchedule({ name: "Paused", trigger: NIGHTLY, actions: [ARM_AWAY] }, at("2025-01-15T12:00:00Z"));
+    const deleted = scheduler.createSchedule(
+      { name: "Deleted", trigger: NIGHTLY, actions: [LIGHT_ON], endActions: [LIGHT_OFF], durationMinutes: 60 },
+      at("2025-01-15T12:00:00Z")
+    );
+    handler.setAlarmMode.mockImplementationOnce(async (locationId, action) => {
+      scheduler.pauseSchedule(paused.id);
+      return { success: true, locationId, action, faultedSensors: [], bypassedSensorIds: [] };
+    });
+    handler.controlDevice.mockImplementationOnce(async (command) => {
+      scheduler.deleteSchedule(deleted.id);
+      return { success: true, action: command.action };
+    });
+
+    await scheduler.tick(at("2025-01-15T23:00:00Z"));
+
+    expect(scheduler.getSchedule(paused.id)).toMatchObject({
+      enabled: false,
+      nextRunAt: undefined,
+      lastRunAt: "2025-01-15T23:00:00.000Z",
+    });
+    expect(scheduler.getSchedule(deleted.id)).toBeNull();
+  });
+
+  it("keeps running other schedules when one cannot be scheduled", async () => {
+    const sunset = scheduler.createSchedule(
+      { name: "Sunset", trigger: { type: "sun", event: "sunset" }, actions: [LIGHT_ON] },
+      at("2025-01-15T12:00:00Z")
+    );
+    const nightly = scheduler.createSchedule({ name: "Nightly arm", trigger: NIGHTLY, actions: [ARM_AWAY] }, at("2025-01-15T12:00:00Z"));
+    // Restarted without a configured location
+    const restarted = new Scheduler(store, routineLogger, handler, { timeZone: "UTC" });
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await restarted.tick(at("2025-01-16T00:00:00Z"));
+
+    expect(handler.controlDevice).not.toHaveBeenCalled();
+    expect(handler.setAlarmMode).toHaveBeenCalledTimes(1);
+    expect(restarted.getSchedule(nightly.id)?.lastRunAt).toBe("2025-01-16T00:00:00.000Z");
+    expect(consoleError).toHaveBeenCalledWith(expect.stringContaining(sunset.id), expect.any(Error));
+    consoleError.mockRestore();
+  });
+
+  it("waits for a running pass when stopped", async () => {
+    let finish: () => void = () => {};
+    handler.controlDevice.mockImplementationOnce(async (command) => {
+      await new Promise<void>((resolve) => (finish = resolve));
+      return { success: true, action: command.action };
+    });
+    const schedule = scheduler.createSchedule({ name: "Nightly", trigger: NIGHTLY, actions: [LIGHT_ON] }, at("2025-01-15T12:00:00Z"));
+
+    const tick = scheduler.tick(at("2025-01-15T23:00:00Z"));
+    let stopped = false;
+    const stopping = scheduler.stop().then(() => (stopped = true));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(stopped).toBe(false);
+
+    finish();
+    await Promise.all([tick, stopping]);
+    expect(scheduler.getSchedule(schedule.id)?.lastRunAt).toBe("2025-01-15T23:00:00.000Z");
+  });
+
+  describe("missed runs", () => {
+    it("skips missed runs by default and logs them", async () => {
+      const schedule = scheduler.createSchedule({ name: "Nightly arm", trigger: NIGHTLY, actions: [ARM_AWAY] }, at("2025-01-15T12:00:00Z"));
+
+      // Stopped from the 15th until the morning of the 18th: three runs missed
+      await scheduler.catchUp(at("2025-01-18T08:00:00Z"));
+
+      expect(handler.setAlarmMode).not.toHaveBeenCalled();
+      const [entry] = routineLogger.query({ action: "schedule_missed" });
+      expect(entry.parameters).toMatchObject({
+        scheduleId: schedule.id,
+        missedRuns: 3,
+        firstMissedAt: "2025-01-15T23:00:00.000Z",
+        lastMissedAt: "2025-01-17T23:00:00.000Z",
+      });
+      expect(scheduler.getSchedule(schedule.id)?.nextRunAt).toBe("2025-01-18T23:00:00.000Z");
+    });
+
+    it("runs once within the catch-up window", async () => {
+      const schedule = scheduler.createSchedule(
+        { name: "Nightly arm", trigger: NIGHTLY, actions: [ARM_AWAY], catchUp: "run_once", catchUpWindowMinutes: 120 },
+        at("2025-01-15T12:00:00Z")
+      );
+
+      await scheduler.catchUp(at("2025-01-17T00:30:00Z"));
+
+      expect(handler.setAlarmMode).toHaveBeenCalledTimes(1);
+      const [entry] = routineLogger.query({ action: "schedule_run" });
+      expect(entry.parameters).toMatchObject({
+        catchUp: true,
+        missedRuns: 2,
+        scheduledFor: "2025-01-16T23:00:00.000Z",
+      });
+      expect(scheduler.getSchedule(schedule.id)?.nextRunAt).toBe("2025-01-17T23:00:00.000Z");
+    });
+
+    it("skips run_once schedules whose latest missed run is outside the window", async () => {
+      scheduler.createSchedule(
+        { name: "Nightly arm", trigger: NIGHTLY, actions: [ARM_AWAY], catchUp: "run_once" },
+        at("2025-01-15T12:00:00Z")
+      );
+
+      await scheduler.catchUp(at("2025-01-16T08:00:00Z"));
+
+      expect(handler.setAlarmMode).not.toHaveBeenCalled();
+      expect(routineLogger.query({ action: "schedule_missed" })).toHaveLength(1);
+    });
+  });
+
+  describe("schedule management", () => {
+    it("pauses and resumes from the next occurrence", async () => {
+      const schedule = scheduler.createSchedule({ name: "Nightly arm", trigger: NIGHTLY, actions: [ARM_AWAY] }, at("2025-01-15T12:00:00Z"));
+
+      expect(scheduler.pauseSchedule(schedule.id)).toMatchObject({ enabled: false, nextRunAt: undefined });
+      await scheduler.tick(at("2025-01-15T23:00:00Z"));
+      expect(handler.setAlarmMode).not.toHaveBeenCalled();
+
+      const resumed = scheduler.resumeSchedule(schedule.id, at("2025-01-17T12:00:00Z"));
+      expect(resumed).toMatchObject({ enabled: true, nextRunAt: "2025-01-17T23:00:00.000Z" });
+
+      expect(() => scheduler.pauseSchedule("missing")).toThrow("Schedule not found");
+      expect(scheduler.deleteSchedule(schedule.id)).toBe(true);
+      expect(scheduler.listSchedules()).toEqual([]);
+    });
+
+    it("schedules sun events at the configured location", () => {
+      const schedule = scheduler.createSchedule(
+        { name: "Sunset", trigger: { type: "sun", event: "sunset", offsetMinutes: -30 }, actions: [LIGHT_ON] },
+        at("2025-06-21T12:00:00Z")
+      );
+
+      // Sunset in New York is about 00:31Z; 30 minutes earlier is about 00:01Z
+      expect(schedule.nextRunAt?.slice(0, 13)).toBe("2025-06-22T00");
+    });
+
+    it("validates schedules", () => {
+      const noLocation = new Scheduler(store, routineLogger, handler, { timeZone: "UTC" });
+
+      expect(() => scheduler.createSchedule({ name: "", trigger: NIGHTLY, actions: [ARM_AWAY] })).toThrow("name");
+      expect(() => scheduler.createSchedule({ name: "No actions", trigger: NIGHTLY, actions: [] })).toThrow(
+        "at least one action"
+      );
+      expect(() =>
+        scheduler.createSchedule({ name: "Bad cron", trigger: { type: "cron", expression: "0 25 * * *" }, actions: [ARM_AWAY] })
+      ).toThrow("Invalid cron expression");
+      expect(() =>
+        scheduler.createSchedule({
+          name: "Bad zone",
+          trigger: { type: "cron", expression: "0 23 * * *", timeZone: "Mars/Olympus" },
+          actions: [ARM_AWAY],
+        })
+      ).toThrow();
+      expect(() =>
+        scheduler.createSchedule({ name: "No end", trigger: NIGHTLY, actions: [LIGHT_ON], endActions: [LIGHT_OFF] })
+      ).toThrow("endActions and durationMinutes");
+      expect(() =>
+        noLocation.createSchedule({ name: "Sunrise", trigger: { type: "sun", event: "sunrise" }, actions: [LIGHT_ON] })
+      ).toThrow("latitude and longitude");
+    });
+  });
+});
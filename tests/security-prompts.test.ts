@@ -0,0 +1,169 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  activityReportPrompt,
+  bedtimeCheckPrompt,
+  resolveTimeRange,
+} from "../src/server/security-prompts.js";
+import type { SecurityPromptSource } from "../src/server/security-prompts.js";
+import type { DeviceCapabilities, EventQuery, RingDeviceInfo, RingEvent } from "../src/types/index.js";
+
+const NONE = {} as DeviceCapabilities;
+const NOW = new Date("2025-01-16T07:00:00.000Z");
+
+function makeDevice(overrides: Partial<RingDeviceInfo>): RingDeviceInfo {
+  return {
+    id: "dev-1",
+    name: "Device",
+    type: "unknown",
+    locationId: "loc-1",
+    locationName: "Home",
+    online: true,
+    capabilities: NONE,
+    ...overrides,
+  };
+}
+
+function makeEvent(type: RingEvent["type"], timestamp: string): RingEvent {
+  return {
+    id: `${type}-${timestamp}`,
+    timestamp,
+    type,
+    deviceId: "cam-1",
+    deviceName: "Front Door",
+    locationId: "loc-1",
+    locationName: "Home",
+    metadata: {},
+  };
+}
+
+function makeSource(
+  events = [makeEvent("contact_open", "2025-01-16T03:10:00.000Z"), makeEvent("motion", "2025-01-16T02:00:00.000Z")],
+  eventCounts: Record<string, number> = { motion: 5, contact_open: 1 }
+) {
+  return {
+    listLocations: vi.fn(async () => [
+      { id: "loc-1", name: "Home", alarmMode: "none" as const, hasAlarm: true, deviceCount: 3, cameraCount: 1 },
+    ]),
+    listDevices: vi.fn(async () => [
+      makeDevice({ id: "cam-1", name: "Front Door", type: "camera" }),
+      makeDevice({ id: "lock-1", name: "Back Door Lock", type: "lock", lockState: "unlocked" }),
+      makeDevice({ id: "sensor-1", name: "Garage Sensor", type: "sensor", online: false }),
+    ]),
+    // Newest first, like the event store
+    queryEvents: vi.fn(async (filter: EventQuery) =>
+      events.filter((e) => !filter.type || e.type === filter.type).slice(0, filter.limit)
+    ),
+    getEventSummary: vi.fn(async () => eventCounts),
+    getAlarmMode: vi.fn(async () => "none"),
+    getFaultedSensors: vi.fn(async () => [
+      { id: "sensor-2", name: "Kitchen Window", type: "sensor" as const, deviceType: "sensor.contact" },
+    ]),
+  } satisfies SecurityPromptSource;
+}
+
+/** The JSON context block at the end of a prompt. */
+function contextOf(prompt: string) {
+  return JSON.parse(prompt.slice(prompt.indexOf("```json") + 7, prompt.lastIndexOf("```")));
+}
+
+describe("activityReportPrompt", () => {
+  it("gathers events, counts and alarm mode for a device over the default range", async () => {
+    const source = makeSource();
+    const prompt = await activityReportPrompt(source, { locationId: "loc-1", deviceId: "cam-1" }, NOW);
+
+    expect(prompt).toContain(
+      "Summarize what happened at Front Door (Home) between 2025-01-15T19:00:00.000Z and 2025-01-16T07:00:00.000Z."
+    );
+    const filter = {
+      locationId: "loc-1",
+      deviceId: "cam-1",
+      startTime: "2025-01-15T19:00:00.000Z",
+      endTime: "2025-01-16T07:00:00.000Z",
+    };
+    expect(source.getEventSummary).toHaveBeenCalledWith(filter);
+    expect(source.queryEvents).toHaveBeenCalledWith({ ...filter, limit: 100 });
+
+    const context = contextOf(prompt);
+    expect(context.alarmMode).toBe("none (disarmed)");
+    expect(context.eventCounts).toEqual({ motion: 5, contact_open: 1 });
+    expect(context.events.map((e: { type: string }) => e.type)).toEqual(["motion", "contact_open"]);
+    expect(context.needsAttention).toEqual([
+      { timestamp: "2025-01-16T03:10:00.000Z", type: "contact_open", device: "Front Door" },
+    ]);
+    expect(context.eventsOmitted).toBe(4);
+  });
+
+  it("includes events needing attention that are older than the latest events", async () => {
+    const motion = Array.from({ length: 100 }, (_, i) =>
+      makeEvent("motion", new Date(Date.parse("2025-01-16T06:00:00.000Z") - i * 60_000).toISOString())
+    );
+    const source = makeSource([...motion, makeEvent("smoke_alarm", "2025-01-15T20:00:00.000Z")], {
+      motion: 100,
+      smoke_alarm: 1,
+    });
+
+    const context = contextOf(await activityReportPrompt(source, { locationId: "loc-1" }, NOW));
+
+    expect(context.events).toHaveLength(100);
+    expect(context.events.some((e: { type: string }) => e.type === "smoke_alarm")).toBe(false);
+    expect(context.needsAttention).toEqual([
+      { timestamp: "2025-01-15T20:00:00.000Z", type: "smoke_alarm", device: "Front Door" },
+    ]);
+    expect(source.queryEvents).toHaveBeenCalledWith(expect.objectContaining({ type: "smoke_alarm", limit: 50 }));
+  });
+
+  it("rejects unknown locations and devices", async () => {
+    const source = makeSource();
+
+    await expect(activityReportPrompt(source, { locationId: "loc-9" }, NOW)).rejects.toThrow("Location not found");
+    await expect(activityReportPrompt(source, { locationId: "loc-1", deviceId: "cam-9" }, NOW)).rejects.toThrow(
+      "Device not found at Home"
+    );
+  });
+});
+
+describe("bedtimeCheckPrompt", () => {
+  it("reports alarm mode, faults, locks and offline devices", async () => {
+    const source = makeSource();
+    const prompt = await bedtimeCheckPrompt(source, { locationId: "loc-1" }, NOW);
+
+    expect(prompt).toContain("Check whether Home is secure for the night.");
+    const context = contextOf(prompt);
+    expect(context).toMatchObject({
+      alarmMode: "none (disarmed)",
+      faultedSensors: [{ id: "sensor-2", name: "Kitchen Window" }],
+      locks: [{ id: "lock-1", name: "Back Door Lock", lockState: "unlocked" }],
+      offlineDevices: [{ id: "sensor-1", name: "Garage Sensor" }],
+      recentActivity: {
+        timeRange: { startTime: "2025-01-16T03:00:00.000Z", endTime: "2025-01-16T07:00:00.000Z" },
+      },
+    });
+  });
+
+  it("leaves out the alarm at a location without one", async () => {
+    const source = makeSource();
+    source.listLocations.mockResolvedValue([
+      { id: "loc-1", name: "Home", alarmMode: "none", hasAlarm: false, deviceCount: 3, cameraCount: 1 },
+    ]);
+    source.getAlarmMode.mockRejectedValue(new Error("Location loc-1 has no alarm system"));
+    source.getFaultedSensors.mockRejectedValue(new Error("Location loc-1 has no alarm system"));
+
+    const context = contextOf(await bedtimeCheckPrompt(source, { locationId: "loc-1" }, NOW));
+
+    expect(context).not.toHaveProperty("alarmMode");
+    expect(context).not.toHaveProperty("faultedSensors");
+    expect(context.locks).toEqual([{ id: "lock-1", name: "Back Door Lock", lockState: "unlocked" }]);
+    await expect(activityReportPrompt(source, { locationId: "loc-1" }, NOW)).resolves.not.toContain("alarmMode");
+  });
+});
+
+describe("resolveTimeRange", () => {
+  it("uses the given range and validates it", () => {
+    expect(resolveTimeRange({ startTime: "2025-01-15T22:00:00Z", endTime: "2025-01-16T06:00:00Z" }, 12, NOW)).toEqual({
+      startTime: "2025-01-15T22:00:00.000Z",
+      endTime: "2025-01-16T06:00:00.000Z",
+    });
+    expect(() => resolveTimeRange({ startTime: "yesterday" }, 12, NOW)).toThrow("Invalid start_time");
+    expect(() => resolveTimeRange({ startTime: "2025-01-16T08:00:00Z" }, 12, NOW)).toThrow("before end_time");
+  });
+});
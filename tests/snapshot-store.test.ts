@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, existsSync, unlinkSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SnapshotStore } from "../src/storage/snapshot-store.js";
+import { createTestSnapshotStore } from "./helpers/test-db.js";
+
+describe("SnapshotStore", () => {
+  let dir: string;
+  let store: SnapshotStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ring-snapshots-"));
+    store = createTestSnapshotStore(dir).store;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("saves bytes to disk keyed by their SHA-256 hash", () => {
+    const data = Buffer.from("jpeg-bytes");
+    const record = store.save(data, { deviceId: "cam-1", capturedAt: "2025-01-15T12:00:00Z" });
+
+    expect(record.contentHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(record.deviceId).toBe("cam-1");
+    expect(record.capturedAt).toBe("2025-01-15T12:00:00Z");
+    expect(record.sizeBytes).toBe(data.length);
+    expect(record.mimeType).toBe("image/jpeg");
+    expect(record.filePath).toBe(join(dir, record.contentHash.slice(0, 2), `${record.contentHash}.jpg`));
+    expect(existsSync(record.filePath)).toBe(true);
+    expect(store.read(record.id)).toEqual(data);
+  });
+
+  it("keeps a record per capture of identical bytes, sharing one file", () => {
+    const data = Buffer.from("same-bytes");
+    const first = store.save(data, { deviceId: "cam-1", capturedAt: "2025-01-15T12:00:00Z" });
+    const second = store.save(data, { deviceId: "cam-2", capturedAt: "2025-01-15T12:05:00Z" });
+
+    expect(second.id).not.toBe(first.id);
+    expect(second.filePath).toBe(first.filePath);
+    expect(store.get(first.id)).toMatchObject({ deviceId: "cam-1", capturedAt: "2025-01-15T12:00:00Z" });
+    expect(store.get(second.id)).toMatchObject({ deviceId: "cam-2", capturedAt: "2025-01-15T12:05:00Z" });
+    expect(store.query({ deviceId: "cam-2" }).map((s) => s.id)).toEqual([second.id]);
+    expect(store.size).toBe(2);
+  });
+
+  it("deletes the oldest captures past the size limit, and files no capture uses", () => {
+    const small = createTestSnapshotStore(dir, 2).store;
+    const shared = Buffer.from("shared");
+    const oldest = small.save(shared, { deviceId: "cam-1", capturedAt: "2025-01-15T10:00:00Z" });
+    const unique = small.save(Buffer.from("unique"), { deviceId: "cam-1", capturedAt: "2025-01-15T11:00:00Z" });
+    const newest = small.save(shared, { deviceId: "cam-2", capturedAt: "2025-01-15T12:00:00Z" });
+
+    expect(small.get(oldest.id)).toBeNull();
+    expect(small.size).toBe(2);
+    expect(small.read(newest.id)).toEqual(shared);
+
+    small.save(Buffer.from("other"), { deviceId: "cam-1", capturedAt: "2025-01-15T13:00:00Z" });
+    expect(small.get(unique.id)).toBeNull();
+    expect(existsSync(unique.filePath)).toBe(false);
+    expect(existsSync(newest.filePath)).toBe(true);
+  });
+
+  it("returns null for unknown or missing snapshots", () => {
+    expect(store.get("nope")).toBeNull();
+    expect(store.read("nope")).toBeNull();
+
+    const record = store.save(Buffer.from("gone"), { deviceId: "cam-1" });
+    unlinkSync(record.filePath);
+    expect(store.read(record.id)).toBeNull();
+  });
+
+  it("queries by device and time range, newest first", () => {
+    store.save(Buffer.from("a"), { deviceId: "cam-1", capturedAt: "2025-01-15T10:00:00Z" });
+    store.save(Buffer.from("b"), { deviceId: "cam-1", capturedAt: "2025-01-15T12:00:00Z" });
+    store.save(Buffer.from("c"), { deviceId: "cam-2", capturedAt: "2025-01-15T11:00:00Z" });
+
+    const cam1 = store.query({ deviceId: "cam-1" });
+    expect(cam1.map((s) => s.capturedAt)).toEqual(["2025-01-15T12:00:00Z", "2025-01-15T10:00:00Z"]);
+
+    const ranged = store.query({ startTime: "2025-01-15T10:30:00Z", endTime: "2025-01-15T11:30:00Z" });
+    expect(ranged.map((s) => s.deviceId)).toEqual(["cam-2"]);
+
+    expect(store.query({ limit: 2 })).toHaveLength(2);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { SpanTracker, spanClosedBy, totalSpanDuration } from "../src/events/span-tracker.js";
+import type { EventSpan, RingEvent } from "../src/types/index.js";
+
+function makeEvent(overrides: Partial<RingEvent> = {}): RingEvent {
+  return {
+    id: "evt-1",
+    timestamp: "2025-01-15T12:00:00.000Z",
+    deviceId: "garage",
+    deviceName: "Garage Door",
+    locationId: "loc-1",
+    locationName: "Home",
+    type: "contact_open",
+    metadata: {},
+    ...overrides,
+  };
+}
+
+describe("SpanTracker", () => {
+  it("maps clear events to the span type they close", () => {
+    expect(spanClosedBy("contact_close")).toBe("contact_open");
+    expect(spanClosedBy("sensor_motion_clear")).toBe("sensor_motion");
+    expect(spanClosedBy("tamper_clear")).toBe("tamper");
+    expect(spanClosedBy("motion")).toBeNull();
+  });
+
+  it("closes an open span and reports its duration", () => {
+    const tracker = new SpanTracker();
+    tracker.start(makeEvent());
+
+    const closed = tracker.end("garage", "contact_open", "2025-01-15T12:05:30.000Z");
+
+    expect(closed).toEqual({ eventId: "evt-1", durationSec: 330 });
+    expect(tracker.size).toBe(0);
+  });
+
+  it("ignores clears with no open span and events that do not open spans", () => {
+    const tracker = new SpanTracker();
+    tracker.start(makeEvent({ type: "doorbell_press" }));
+
+    expect(tracker.size).toBe(0);
+    expect(tracker.end("garage", "contact_open", "2025-01-15T12:05:00.000Z")).toBeNull();
+  });
+
+  it("replaces an unclosed span when a new one starts", () => {
+    const tracker = new SpanTracker();
+    tracker.start(makeEvent({ id: "first" }));
+    tracker.start(makeEvent({ id: "second", timestamp: "2025-01-15T12:01:00.000Z" }));
+
+    expect(tracker.end("garage", "contact_open", "2025-01-15T12:02:00.000Z")).toEqual({
+      eventId: "second",
+      durationSec: 60,
+    });
+  });
+});
+
+describe("totalSpanDuration", () => {
+  const span = (startedAt: string, endedAt?: string): EventSpan => ({
+    eventId: startedAt,
+    deviceId: "garage",
+    deviceName: "Garage Door",
+    locationId: "loc-1",
+    type: "contact_open",
+    startedAt,
+    endedAt,
+  });
+
+  it("sums closed spans and skips open ones", () => {
+    const spans = [
+      span("2025-01-15T08:00:00.000Z", "2025-01-15T08:15:00.000Z"),
+      span("2025-01-15T09:00:00.000Z", "2025-01-15T09:01:00.000Z"),
+      span("2025-01-15T20:00:00.000Z"),
+    ];
+    expect(totalSpanDuration(spans)).toBe(960);
+  });
+
+  it("clips spans to the query range", () => {
+    const spans = [span("2025-01-14T23:50:00.000Z", "2025-01-15T00:20:00.000Z")];
+    expect(totalSpanDuration(spans, "2025-01-15T00:00:00.000Z", "2025-01-16T00:00:00.000Z")).toBe(1200);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { sunTime, nextSunTime } from "../src/automation/sun.js";
+
+describe("sunTime", () => {
+  const minutesBetween = (a: Date, b: string) => Math.abs(a.getTime() - new Date(b).getTime()) / 60_000;
+
+  it("computes sunrise and sunset within a few minutes", () => {
+    // New York on the June solstice: sunrise 05:25 EDT, sunset 20:31 EDT
+    const date = { year: 2025, month: 6, day: 21 };
+    const sunrise = sunTime("sunrise", date, 40.7128, -74.006);
+    const sunset = sunTime("sunset", date, 40.7128, -74.006);
+
+    expect(minutesBetween(sunrise as Date, "2025-06-21T09:25:00Z")).toBeLessThan(3);
+    expect(minutesBetween(sunset as Date, "2025-06-22T00:31:00Z")).toBeLessThan(3);
+  });
+
+  it("returns null during polar day and night", () => {
+    expect(sunTime("sunrise", { year: 2025, month: 6, day: 21 }, 78.22, 15.65)).toBeNull();
+    expect(sunTime("sunset", { year: 2025, month: 12, day: 21 }, 78.22, 15.65)).toBeNull();
+  });
+});
+
+describe("nextSunTime", () => {
+  const options = { latitude: 40.7128, longitude: -74.006, timeZone: "America/New_York" };
+
+  it("applies the offset and moves to the next day once passed", () => {
+    const after = new Date("2025-06-21T12:00:00Z");
+    const today = nextSunTime("sunset", { ...options, offsetMinutes: -30 }, after) as Date;
+    const tomorrow = nextSunTime("sunset", options, new Date(today.getTime() + 60 * 60_000)) as Date;
+
+    expect(today.getTime()).toBeGreaterThan(after.getTime());
+    expect(today.toISOString().slice(0, 13)).toBe("2025-06-22T00");
+    expect(tomorrow.toISOString().slice(0, 10)).toBe("2025-06-23");
+  });
+
+  it("only runs on the given days of the week", () => {
+    // 2025-06-21 is a Saturday; next Monday is the 23rd
+    const sunrise = nextSunTime("sunrise", { ...options, daysOfWeek: [1] }, new Date("2025-06-21T00:00:00Z"));
+    expect(sunrise?.toISOString().slice(0, 10)).toBe("2025-06-23");
+  });
+});
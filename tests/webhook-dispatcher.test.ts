@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createServer } from "node:http";
+import type { Server, IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+import { WebhookDispatcher, signWebhookPayload } from "../src/events/webhook-dispatcher.js";
+import { createTestWebhookStore } from "./helpers/test-db.js";
+import type { RingEvent } from "../src/types/index.js";
+
+function makeEvent(overrides: Partial<RingEvent> = {}): RingEvent {
+  return {
+    id: "evt-1",
+    timestamp: "2025-01-15T12:00:00.000Z",
+    deviceId: "cam-1",
+    deviceName: "Front Door",
+    locationId: "loc-1",
+    locationName: "Home",
+    type: "doorbell_press",
+    metadata: {},
+    ...overrides,
+  };
+}
+
+/** Local HTTP stub that records requests and answers with queued status codes. */
+function startStub(statuses: number[] = []) {
+  const requests: { headers: IncomingHttpHeaders; body: string }[] = [];
+  const server: Server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requests.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+  return new Promise<{ server: Server; url: string; requests: typeof requests }>((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}/hook`, requests });
+    });
+  });
+}
+
+describe("WebhookDispatcher", () => {
+  let stub: Awaited<ReturnType<typeof startStub>> | undefined;
+
+  afterEach(async () => {
+    await new Promise((resolve) => stub?.server.close(resolve) ?? resolve(undefined));
+    stub = undefined;
+  });
+
+  function makeDispatcher() {
+    const { store } = createTestWebhookStore();
+    return new WebhookDispatcher(store, { maxAttempts: 3, baseDelayMs: 0, timeoutMs: 2000 });
+  }
+
+  it("POSTs matching events with an HMAC signature", async () => {
+    stub = await startStub();
+    const dispatcher = makeDispatcher();
+    const webhook = dispatcher.createWebhook({ url: stub.url, secret: "s3cret" });
+
+    expect(dispatcher.enqueue(makeEvent())).toBe(1);
+    await dispatcher.processDue();
+
+    expect(stub.requests).toHaveLength(1);
+    const [request] = stub.requests;
+    expect(JSON.parse(request.body)).toEqual(makeEvent());
+    expect(request.headers["x-ring-event"]).toBe("doorbell_press");
+    expect(request.headers["x-ring-signature"]).toBe(signWebhookPayload("s3cret", request.body));
+
+    const [delivery] = dispatcher.queryDeliveries({ webhookId: webhook.id });
+    expect(delivery).toMatchObject({ status: "delivered", attempts: 1, responseStatus: 200 });
+    expect(request.headers["x-ring-delivery"]).toBe(delivery.id);
+  });
+
+  it("only queues events that match the webhook filter", async () => {
+    stub = await startStub();
+    const dispatcher = makeDispatcher();
+    dispatcher.createWebhook({ url: stub.url, filter: { types: ["motion"], deviceId: "cam-2" } });
+
+    expect(dispatcher.enqueue(makeEvent())).toBe(0);
+    expect(dispatcher.enqueue(makeEvent({ type: "motion", deviceId: "cam-2" }))).toBe(1);
+    await dispatcher.processDue();
+
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it("retries failed deliveries until they succeed", async () => {
+    stub = await startStub([500, 503]);
+    const dispatcher = makeDispatcher();
+    dispatcher.createWebhook({ url: stub.url });
+
+    dispatcher.enqueue(makeEvent());
+    await dispatcher.processDue();
+    await dispatcher.processDue();
+    await dispatcher.processDue();
+
+    expect(stub.requests).toHaveLength(3);
+    const [delivery] = dispatcher.queryDeliveries();
+    expect(delivery).toMatchObject({ status: "delivered", attempts: 3 });
+  });
+
+  it("dead-letters deliveries that exhaust their attempts", async () => {
+    stub = await startStub([500, 500, 500]);
+    const dispatcher = makeDispatcher();
+    const webhook = dispatcher.createWebhook({ url: stub.url });
+
+    dispatcher.enqueue(makeEvent());
+    for (let i = 0; i < 4; i++) await dispatcher.processDue();
+
+    expect(stub.requests).toHaveLength(3);
+    const [delivery] = dispatcher.queryDeliveries();
+    expect(delivery).toMatchObject({ status: "dead", attempts: 3, lastError: "HTTP 500" });
+
+    const [deadLetter] = dispatcher.queryDeadLetters(webhook.id);
+    expect(deadLetter.eventId).toBe("evt-1");
+    expect(JSON.parse(deadLetter.payload).id).toBe("evt-1");
+  });
+
+  it("delivers to a single webhook regardless of its filter", async () => {
+    stub = await startStub();
+    const dispatcher = makeDispatcher();
+    const webhook = dispatcher.createWebhook({ url: stub.url, filter: { types: ["motion"] } });
+
+    const deliveryId = dispatcher.deliver(webhook.id, makeEvent());
+    await dispatcher.processDue();
+
+    expect(stub.requests).toHaveLength(1);
+    expect(stub.requests[0].headers["x-ring-delivery"]).toBe(deliveryId);
+    expect(() => dispatcher.deliver("missing", makeEvent())).toThrow("Webhook not found");
+  });
+
+  it("backs off exponentially between attempts", async () => {
+    const { store } = createTestWebhookStore();
+    const dispatcher = new WebhookDispatcher(store, { baseDelayMs: 60_000 }, async () => {
+      throw new Error("connect ECONNREFUSED");
+    });
+    dispatcher.createWebhook({ url: "http://127.0.0.1:1/hook" });
+
+    dispatcher.enqueue(makeEvent());
+    await dispatcher.processDue();
+    const [delivery] = dispatcher.queryDeliveries();
+    const delayMs = Date.parse(delivery.nextAttemptAt as string) - Date.parse(delivery.updatedAt);
+
+    expect(delivery).toMatchObject({ status: "pending", attempts: 1, lastError: "connect ECONNREFUSED" });
+    expect(delayMs).toBe(60_000);
+
+    // Not due yet, so nothing is retried
+    await dispatcher.processDue();
+    expect(dispatcher.queryDeliveries()[0].attempts).toBe(1);
+  });
+
+  it("sends to several webhooks at once, each in order", async () => {
+    const { store } = createTestWebhookStore();
+    const sent: string[] = [];
+    let releaseSlow: () => void = () => {};
+    const dispatcher = new WebhookDispatcher(store, { concurrency: 2 }, async (url, init) => {
+      const eventId = (JSON.parse(init?.body as string) as RingEvent).id;
+      if (String(url).includes("slow") && eventId === "evt-1") {
+        await new Promise<void>((resolve) => (releaseSlow = resolve));
+      }
+      sent.push(`${new URL(String(url)).pathname} ${eventId}`);
+      return new Response(null, { status: 204 });
+    });
+    dispatcher.createWebhook({ url: "http://127.0.0.1:1/slow" });
+    dispatcher.createWebhook({ url: "http://127.0.0.1:1/fast" });
+
+    dispatcher.enqueue(makeEvent({ id: "evt-1" }));
+    dispatcher.enqueue(makeEvent({ id: "evt-2" }));
+    const processing = dispatcher.processDue();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    // The fast webhook is not held up by the slow one
+    expect(sent).toEqual(["/fast evt-1"]);
+
+    releaseSlow();
+    await processing;
+    expect(sent.filter((s) => s.startsWith("/slow"))).toEqual(["/slow evt-1", "/slow evt-2"]);
+    expect(sent).toHaveLength(4);
+  });
+
+  it("waits for deliveries being sent when stopped", async () => {
+    const { store } = createTestWebhookStore();
+    let respond: (response: Response) => void = () => {};
+    const dispatcher = new WebhookDispatcher(store, {}, () => new Promise((resolve) => (respond = resolve)));
+    dispatcher.createWebhook({ url: "http://127.0.0.1:1/hook" });
+
+    dispatcher.enqueue(makeEvent());
+    let stopped = false;
+    const stopping = dispatcher.stop().then(() => (stopped = true));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(stopped).toBe(false);
+
+    respond(new Response(null, { status: 204 }));
+    await stopping;
+    expect(dispatcher.queryDeliveries()[0].status).toBe("delivered");
+  });
+
+  it("rejects non-HTTP webhook URLs", () => {
+    const dispatcher = makeDispatcher();
+    expect(() => dispatcher.createWebhook({ url: "ftp://example.com" })).toThrow("must use http or https");
+    expect(() => dispatcher.createWebhook({ url: "not a url" })).toThrow("Invalid webhook URL");
+  });
+});
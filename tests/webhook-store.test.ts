@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { WebhookStore } from "../src/storage/webhook-store.js";
+import { createTestWebhookStore } from "./helpers/test-db.js";
+import type { WebhookSubscription } from "../src/types/index.js";
+
+function makeWebhook(overrides: Partial<WebhookSubscription> = {}): WebhookSubscription {
+  return {
+    id: "wh-1",
+    url: "http://localhost:9999/hook",
+    filter: { types: ["doorbell_press"] },
+    secret: "s3cret",
+    enabled: true,
+    createdAt: "2025-01-15T12:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function enqueue(store: WebhookStore, id: string, now = "2025-01-15T12:00:00.000Z") {
+  store.enqueue({
+    id,
+    webhookId: "wh-1",
+    eventId: `evt-${id}`,
+    eventType: "doorbell_press",
+    payload: "{}",
+    now,
+  });
+}
+
+describe("WebhookStore", () => {
+  let store: WebhookStore;
+
+  beforeEach(() => {
+    store = createTestWebhookStore().store;
+    store.createWebhook(makeWebhook());
+  });
+
+  it("round-trips webhook subscriptions", () => {
+    store.createWebhook(makeWebhook({ id: "wh-2", filter: undefined, createdAt: "2025-01-15T13:00:00.000Z" }));
+
+    expect(store.getWebhook("wh-1")).toEqual(makeWebhook());
+    expect(store.listWebhooks().map((w) => w.id)).toEqual(["wh-1", "wh-2"]);
+    expect(store.getWebhook("wh-2")?.filter).toBeUndefined();
+  });
+
+  it("returns only pending deliveries that are due", () => {
+    enqueue(store, "d1", "2025-01-15T12:00:00.000Z");
+    enqueue(store, "d2", "2025-01-15T12:05:00.000Z");
+    enqueue(store, "d3", "2025-01-15T12:00:00.000Z");
+    store.markDelivered("d3", 200, "2025-01-15T12:00:01.000Z");
+
+    const due = store.due("2025-01-15T12:01:00.000Z");
+    expect(due.map((d) => d.delivery.id)).toEqual(["d1"]);
+    expect(due[0].payload).toBe("{}");
+  });
+
+  it("tracks retries and dead letters", () => {
+    enqueue(store, "d1");
+    store.markRetry("d1", { error: "HTTP 500", responseStatus: 500 }, "2025-01-15T12:00:02.000Z", "2025-01-15T12:00:00.000Z");
+
+    let [delivery] = store.queryDeliveries({ webhookId: "wh-1" });
+    expect(delivery).toMatchObject({ status: "pending", attempts: 1, lastError: "HTTP 500", responseStatus: 500 });
+
+    store.markDead("d1", { error: "ECONNREFUSED" }, "2025-01-15T12:00:03.000Z");
+    [delivery] = store.queryDeliveries({ status: "dead" });
+    expect(delivery.attempts).toBe(2);
+    expect(store.queryDeadLetters()).toEqual([
+      {
+        deliveryId: "d1",
+        webhookId: "wh-1",
+        eventId: "evt-d1",
+        payload: "{}",
+        attempts: 2,
+        lastError: "ECONNREFUSED",
+        failedAt: "2025-01-15T12:00:03.000Z",
+      },
+    ]);
+  });
+
+  it("drops pending deliveries but keeps history when a webhook is deleted", () => {
+    enqueue(store, "d1");
+    enqueue(store, "d2");
+    store.markDelivered("d2", 204, "2025-01-15T12:00:01.000Z");
+
+    expect(store.deleteWebhook("wh-1")).toBe(true);
+    expect(store.deleteWebhook("wh-1")).toBe(false);
+    expect(store.queryDeliveries().map((d) => d.id)).toEqual(["d2"]);
+  });
+
+  it("trims the oldest finished deliveries and dead letters but keeps pending ones", () => {
+    const small = createTestWebhookStore(2).store;
+    small.createWebhook(makeWebhook());
+    for (const id of ["d1", "d2", "d3", "d4"]) enqueue(small, id);
+    small.markDelivered("d1", 204, "2025-01-15T12:00:01.000Z");
+    small.markDead("d2", { error: "HTTP 500" }, "2025-01-15T12:00:02.000Z");
+    small.markDelivered("d3", 204, "2025-01-15T12:00:03.000Z");
+
+    expect(small.queryDeliveries().map((d) => d.id).sort()).toEqual(["d2", "d3", "d4"]);
+    expect(small.queryDeliveries({ limit: 1, status: "pending" }).map((d) => d.id)).toEqual(["d4"]);
+    expect(small.queryDeadLetters().map((d) => d.deliveryId)).toEqual(["d2"]);
+  });
+});